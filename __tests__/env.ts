@@ -6,6 +6,7 @@ process.env.UPSTASH_REDIS_REST_URL =
 process.env.UPSTASH_REDIS_REST_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || 'test-token';
 process.env.CLERK_SECRET_KEY = process.env.CLERK_SECRET_KEY || 'test-clerk-key';
 process.env.DATABASE_URL = process.env.DATABASE_URL || 'mongodb://localhost:27017/test';
+process.env.MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/test';
 process.env.NEXTAUTH_SECRET = process.env.NEXTAUTH_SECRET || 'test-secret';
 
 // Mock Next.js environment
@@ -0,0 +1,236 @@
+/**
+ * Bulk Order Action Tests
+ *
+ * Tests that each order in a batch succeeds or fails on its own, that the batch
+ * audit entry links to the per-order entries, and that notes added by someone
+ * else in the meantime are never overwritten.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { NextRequest } from 'next/server';
+
+jest.mock('@/lib/db/models/Order', () => ({
+  OrderModel: {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/AuditLog', () => ({
+  AuditLogModel: {
+    find: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/PaymentLink', () => ({
+  PaymentLinkModel: {
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/utils/audit', () => ({
+  AUDIT_ACTIONS: {
+    BULK_ACTION: 'bulk_action',
+    ORDER_UPDATED: 'order_updated',
+    ORDER_VERIFIED: 'order_verified',
+  },
+  createAuditLog: jest.fn(),
+  createAuditLogFromRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/orders/events', () => ({
+  publishOrderStatus: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications/service', () => ({
+  notifyOrderEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/webhooks/dispatcher', () => ({
+  dispatchWebhookEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/vpas/pool', () => ({
+  releaseVpaUsage: jest.fn(),
+  restoreVpaUsage: jest.fn(),
+}));
+
+import { AuditLogModel } from '@/lib/db/models/AuditLog';
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { applyBulkOrderAction } from '@/lib/orders/bulk-actions';
+import type { OrderActor } from '@/lib/orders/state-machine';
+import { createAuditLogFromRequest } from '@/lib/utils/audit';
+
+const ADMIN: OrderActor = { type: 'user', id: 'user_1', email: 'admin@example.com' };
+const request = {} as NextRequest;
+
+const mockOrderModel = OrderModel as unknown as {
+  find: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  findOneAndUpdate: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  updateOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+const mockAuditLogModel = AuditLogModel as unknown as {
+  find: jest.Mock<(...args: unknown[]) => unknown>;
+};
+const mockCreateAuditLogFromRequest = createAuditLogFromRequest as unknown as jest.Mock<
+  (...args: unknown[]) => Promise<unknown>
+>;
+
+function order(fields: Record<string, unknown>): OrderDocument {
+  const values: Record<string, unknown> = {
+    _id: `id_${fields.orderId}`,
+    status: 'pending-verification',
+    utrNumber: '401234567890',
+    amount: 500,
+    amountPaise: 50000,
+    createdBy: 'merchant_1',
+    updatedAt: new Date(),
+    ...fields,
+  };
+  return { ...values, get: (field: string) => values[field] } as unknown as OrderDocument;
+}
+
+function mockAuditEntries(ids: string[]) {
+  mockAuditLogModel.find.mockReturnValue({
+    select: () => Promise.resolve(ids.map((_id) => ({ _id }))),
+  });
+}
+
+function batchAuditMetadata(): Record<string, unknown> {
+  const batchCall = mockCreateAuditLogFromRequest.mock.calls.find(
+    (call) => call[1] === 'bulk_action',
+  );
+  return batchCall?.[6] as Record<string, unknown>;
+}
+
+describe('Bulk order actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrderModel.findOneAndUpdate.mockImplementation(async (filter, update) => {
+      const { _id } = filter as { _id: string };
+      const { $set } = update as { $set: Record<string, unknown> };
+      return order({ orderId: _id.replace('id_', ''), ...$set });
+    });
+  });
+
+  it('completes what it can and reports the rest of a mixed batch', async () => {
+    mockOrderModel.find.mockResolvedValue([
+      order({ orderId: 'ORD_OK' }),
+      order({ orderId: 'ORD_HELD', 'risk.onHold': true }),
+      order({ orderId: 'ORD_DONE', status: 'completed' }),
+    ]);
+    mockAuditEntries(['log_ok']);
+
+    const summary = await applyBulkOrderAction(
+      ['ORD_OK', 'ORD_HELD', 'ORD_DONE', 'ORD_MISSING', 'ORD_OK'],
+      'complete',
+      { actor: ADMIN, request },
+    );
+
+    expect(summary).toMatchObject({ action: 'complete', succeeded: 1, failed: 3 });
+    expect(summary.results).toEqual([
+      { orderId: 'ORD_OK', success: true, status: 'completed' },
+      expect.objectContaining({
+        orderId: 'ORD_HELD',
+        success: false,
+        code: 'TRANSITION_GUARD_FAILED',
+        error: expect.stringContaining('risk hold'),
+      }),
+      expect.objectContaining({
+        orderId: 'ORD_DONE',
+        success: false,
+        code: 'INVALID_STATUS_TRANSITION',
+      }),
+      { orderId: 'ORD_MISSING', success: false, error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+    ]);
+    // The held and already completed orders are rejected before anything is written
+    expect(mockOrderModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('links the batch audit entry to the per-order entries', async () => {
+    mockOrderModel.find.mockResolvedValue([
+      order({ orderId: 'ORD_A', status: 'pending' }),
+      order({ orderId: 'ORD_B', status: 'pending' }),
+    ]);
+    mockAuditEntries(['log_a', 'log_b']);
+
+    const summary = await applyBulkOrderAction(['ORD_A', 'ORD_B', 'ORD_GONE'], 'fail', {
+      actor: ADMIN,
+      note: 'Customer cancelled',
+      request,
+    });
+
+    expect(mockAuditLogModel.find).toHaveBeenCalledWith({
+      entityType: 'Order',
+      entityId: { $in: ['ORD_A', 'ORD_B'] },
+      'metadata.bulkId': summary.bulkId,
+    });
+    expect(batchAuditMetadata()).toMatchObject({
+      bulkId: summary.bulkId,
+      operation: 'bulk_order_fail',
+      requested: 3,
+      succeeded: 2,
+      failed: 1,
+      orderIds: ['ORD_A', 'ORD_B'],
+      failures: [{ orderId: 'ORD_GONE', code: 'ORDER_NOT_FOUND' }],
+      auditLogIds: ['log_a', 'log_b'],
+    });
+  });
+
+  it('only adds a note to the notes it read', async () => {
+    mockOrderModel.find.mockResolvedValue([
+      order({ orderId: 'ORD_NEW' }),
+      order({ orderId: 'ORD_RACED', adminNotes: 'Called customer' }),
+    ]);
+    mockOrderModel.updateOne
+      .mockResolvedValueOnce({ matchedCount: 1 })
+      .mockResolvedValueOnce({ matchedCount: 0 });
+    mockAuditEntries(['log_new']);
+
+    const summary = await applyBulkOrderAction(['ORD_NEW', 'ORD_RACED'], 'note', {
+      actor: ADMIN,
+      note: 'Checked statement',
+      request,
+    });
+
+    expect(mockOrderModel.updateOne).toHaveBeenNthCalledWith(
+      1,
+      { adminNotes: null, _id: 'id_ORD_NEW' },
+      { $set: { adminNotes: expect.stringMatching(/admin@example.com: Checked statement$/) } },
+    );
+    expect(mockOrderModel.updateOne).toHaveBeenNthCalledWith(
+      2,
+      { adminNotes: 'Called customer', _id: 'id_ORD_RACED' },
+      { $set: { adminNotes: expect.stringMatching(/^Called customer\n\[.+\] admin@example.com/) } },
+    );
+    expect(summary.results[1]).toMatchObject({
+      orderId: 'ORD_RACED',
+      success: false,
+      code: 'CONCURRENT_UPDATE',
+    });
+  });
+
+  it('keeps the notes condition when a status change also adds a note', async () => {
+    mockOrderModel.find.mockResolvedValue([order({ orderId: 'ORD_NOTED', adminNotes: 'First' })]);
+    mockAuditEntries([]);
+
+    await applyBulkOrderAction(['ORD_NOTED'], 'complete', {
+      actor: ADMIN,
+      note: 'Matched on statement',
+      request,
+    });
+
+    expect(mockOrderModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { adminNotes: 'First', _id: 'id_ORD_NOTED', status: 'pending-verification' },
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Bulk Order Import Tests
+ *
+ * Tests reading order rows from CSV and XLSX uploads, per-row validation
+ * against the order creation schema, and CSV output escaping.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import ExcelJS from 'exceljs';
+import {
+  BulkOrderFileError,
+  readBulkOrderFile,
+  validateBulkOrderRow,
+} from '@/lib/orders/bulk-create';
+import { formatCSVRow } from '@/lib/utils/csv';
+
+function encode(text: string): ArrayBuffer {
+  const bytes = new TextEncoder().encode(text);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+describe('Bulk Order Files', () => {
+  it('should map common header spellings to order fields', async () => {
+    const rows = await readBulkOrderFile(
+      'fees.csv',
+      encode(
+        'Student Name;Mobile No;E-mail;Fee;Purpose;Expires In (minutes)\nAsha;9876543210;asha@example.com;"1,500";Term 1;60',
+      ),
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        values: {
+          customerName: 'Asha',
+          customerPhone: '9876543210',
+          customerEmail: 'asha@example.com',
+          amount: '1,500',
+          description: 'Term 1',
+          expiresInMinutes: '60',
+        },
+      },
+    ]);
+  });
+
+  it('should read the first sheet of an XLSX workbook', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Orders');
+    sheet.addRow(['Customer Name', 'Amount', 'Description']);
+    sheet.addRow(['Ravi', 499, 'Annual fee']);
+    const buffer = (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+
+    const rows = await readBulkOrderFile('fees.xlsx', buffer);
+
+    expect(rows[0].values).toEqual({
+      customerName: 'Ravi',
+      amount: '499',
+      description: 'Annual fee',
+    });
+  });
+
+  it('should reject files missing a required column', async () => {
+    await expect(readBulkOrderFile('fees.csv', encode('Name,Amount\nAsha,100'))).rejects.toThrow(
+      BulkOrderFileError,
+    );
+  });
+});
+
+describe('Bulk Order Validation', () => {
+  it('should accept a valid row and leave the expiry to the system setting', () => {
+    const result = validateBulkOrderRow({
+      line: 2,
+      values: { customerName: 'Asha', amount: '₹1,500.50', description: 'Term 1' },
+    });
+
+    expect(result.data).toMatchObject({ amount: 1500.5 });
+    expect(result.data?.expiresInMinutes).toBeUndefined();
+  });
+
+  it('should turn an expiry date into minutes from now', () => {
+    const until = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+    const result = validateBulkOrderRow({
+      line: 2,
+      values: { customerName: 'Asha', amount: '100', description: 'Fee', expiresInMinutes: until },
+    });
+
+    expect(result.data?.expiresInMinutes).toBe(120);
+  });
+
+  it('should report every problem with a row', () => {
+    const result = validateBulkOrderRow({
+      line: 3,
+      values: {
+        customerName: 'Asha',
+        amount: 'abc',
+        description: 'Fee',
+        customerEmail: 'not-an-email',
+        expiresInMinutes: 'tomorrow-ish',
+      },
+    });
+
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors?.join(' ')).toContain('customerEmail');
+  });
+});
+
+describe('CSV Output', () => {
+  it('should quote special characters and neutralise formulas', () => {
+    expect(formatCSVRow(['a,b', 'say "hi"', '=SUM(A1)', '+919876543210', 12.5, null])).toBe(
+      '"a,b","say ""hi""",\'=SUM(A1),+919876543210,12.5,',
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Expiry Sweeper Tests
+ *
+ * Tests that only one sweep runs at a time, and that a sweep stops at its batch
+ * limit or time budget and reports the orders it left for the next run.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/db/connection', () => ({
+  connectDB: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/orders/state-machine', () => ({
+  expireOverdueOrders: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({
+  acquireLock: jest.fn(),
+  releaseLock: jest.fn(async () => true),
+}));
+
+import { expireOverdueOrders } from '@/lib/orders/state-machine';
+import { sweepExpiredOrders } from '@/lib/orders/expiry-sweeper';
+import { acquireLock, releaseLock } from '@/lib/redis';
+
+const BATCH_SIZE = 100;
+
+const mockExpireOverdueOrders = expireOverdueOrders as unknown as jest.Mock<
+  (limit: number) => Promise<{ processed: number; expired: number }>
+>;
+const mockAcquireLock = acquireLock as unknown as jest.Mock<
+  (name: string, ttlSeconds: number) => Promise<string | null>
+>;
+const mockReleaseLock = releaseLock as unknown as jest.Mock<
+  (name: string, token: string) => Promise<boolean>
+>;
+
+describe('Order expiry sweeper', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAcquireLock.mockResolvedValue('lock-token');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does nothing while another sweep holds the lock', async () => {
+    mockAcquireLock.mockResolvedValue(null);
+
+    const result = await sweepExpiredOrders();
+
+    expect(result).toMatchObject({ ran: false, processed: 0, batches: 0 });
+    expect(mockExpireOverdueOrders).not.toHaveBeenCalled();
+    expect(mockReleaseLock).not.toHaveBeenCalled();
+  });
+
+  it('stops after a short batch and releases the lock', async () => {
+    mockExpireOverdueOrders
+      .mockResolvedValueOnce({ processed: BATCH_SIZE, expired: 98 })
+      .mockResolvedValueOnce({ processed: 7, expired: 7 });
+
+    const result = await sweepExpiredOrders();
+
+    expect(result).toMatchObject({
+      ran: true,
+      processed: BATCH_SIZE + 7,
+      expired: 105,
+      batches: 2,
+      hasMore: false,
+    });
+    expect(mockExpireOverdueOrders).toHaveBeenCalledWith(BATCH_SIZE);
+    expect(mockReleaseLock).toHaveBeenCalledWith('order-expiry-sweep', 'lock-token');
+  });
+
+  it('leaves the rest for the next run once the batch limit is reached', async () => {
+    mockExpireOverdueOrders.mockResolvedValue({ processed: BATCH_SIZE, expired: BATCH_SIZE });
+
+    const result = await sweepExpiredOrders();
+
+    expect(result).toMatchObject({ batches: 20, processed: 20 * BATCH_SIZE, hasMore: true });
+    expect(mockExpireOverdueOrders).toHaveBeenCalledTimes(20);
+  });
+
+  it('stops starting batches once the time budget is spent', async () => {
+    let now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockExpireOverdueOrders.mockImplementation(async () => {
+      now += 8000;
+      return { processed: BATCH_SIZE, expired: BATCH_SIZE };
+    });
+
+    const result = await sweepExpiredOrders();
+
+    // 8s per batch: the fourth would start after the 20s budget
+    expect(result).toMatchObject({ batches: 3, hasMore: true, durationMs: 24000 });
+    expect(mockReleaseLock).toHaveBeenCalled();
+  });
+
+  it('releases the lock when a batch fails', async () => {
+    mockExpireOverdueOrders.mockRejectedValue(new Error('Database unavailable'));
+
+    await expect(sweepExpiredOrders()).rejects.toThrow('Database unavailable');
+    expect(mockReleaseLock).toHaveBeenCalledWith('order-expiry-sweep', 'lock-token');
+  });
+});
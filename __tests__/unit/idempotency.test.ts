@@ -0,0 +1,139 @@
+/**
+ * Idempotency Key Tests
+ *
+ * Tests that order creation handlers run once per Idempotency-Key, replay the
+ * stored response for retries and reject a key reused with a different body.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const store = new Map<string, string>();
+
+jest.mock('@/lib/redis', () => ({
+  REDIS_KEYS: {
+    IDEMPOTENCY: (scope: string, key: string) => `idempotency:${scope}:${key}`,
+  },
+  redis: {
+    set: jest.fn(async (key: string, value: string, options?: { nx?: boolean }) => {
+      if (options?.nx && store.has(key)) return null;
+      store.set(key, value);
+      return 'OK';
+    }),
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    del: jest.fn(async (key: string) => Number(store.delete(key))),
+  },
+}));
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withIdempotency } from '@/lib/utils/idempotency';
+
+function createRequest(body: unknown, key?: string) {
+  return new NextRequest('http://localhost:3000/api/orders', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(key && { 'Idempotency-Key': key }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('Idempotency Keys', () => {
+  let created: number;
+  const handler = jest.fn(async () => {
+    created++;
+    return NextResponse.json({ orderId: `ord_${created}` }, { status: 201 });
+  });
+
+  beforeEach(() => {
+    store.clear();
+    created = 0;
+    handler.mockClear();
+  });
+
+  it('should run every request without a key', async () => {
+    await withIdempotency(createRequest({ amount: 100 }), 'orders:user_1', handler);
+    await withIdempotency(createRequest({ amount: 100 }), 'orders:user_1', handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay the first response for a retry', async () => {
+    const first = await withIdempotency(
+      createRequest({ amount: 100, description: 'Fee' }, 'key-1'),
+      'orders:user_1',
+      handler,
+    );
+    const retry = await withIdempotency(
+      createRequest({ description: 'Fee', amount: 100 }, 'key-1'),
+      'orders:user_1',
+      handler,
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    await withIdempotency(createRequest({ amount: 100 }, 'key-1'), 'orders:user_1', handler);
+    const reused = await withIdempotency(
+      createRequest({ amount: 200 }, 'key-1'),
+      'orders:user_1',
+      handler,
+    );
+
+    expect(reused.status).toBe(422);
+    expect(await reused.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep scopes apart', async () => {
+    await withIdempotency(createRequest({ amount: 100 }, 'key-1'), 'orders:user_1', handler);
+    await withIdempotency(createRequest({ amount: 100 }, 'key-1'), 'orders:user_2', handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a retry that arrives while the first request is running', async () => {
+    let finish: () => void = () => undefined;
+    const slowHandler = jest.fn(
+      () =>
+        new Promise<NextResponse>((resolve) => {
+          finish = () => resolve(NextResponse.json({ ok: true }, { status: 201 }));
+        }),
+    );
+
+    const first = withIdempotency(
+      createRequest({ amount: 100 }, 'key-1'),
+      'orders:user_1',
+      slowHandler,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const retry = await withIdempotency(
+      createRequest({ amount: 100 }, 'key-1'),
+      'orders:user_1',
+      slowHandler,
+    );
+    finish();
+    await first;
+
+    expect(retry.status).toBe(409);
+    expect(slowHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let a retry run again after a server error', async () => {
+    const failing = jest.fn(async () => NextResponse.json({ error: 'boom' }, { status: 500 }));
+
+    await withIdempotency(createRequest({ amount: 100 }, 'key-1'), 'orders:user_1', failing);
+    const retry = await withIdempotency(
+      createRequest({ amount: 100 }, 'key-1'),
+      'orders:user_1',
+      handler,
+    );
+
+    expect(retry.status).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
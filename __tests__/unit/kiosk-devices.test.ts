@@ -0,0 +1,133 @@
+/**
+ * Kiosk Device Tests
+ *
+ * Tests reading device tokens from request headers, and that only a known,
+ * unrevoked device of an active merchant authenticates.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('@/lib/db/models/KioskDevice', () => ({
+  KioskDeviceModel: {
+    findOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    findById: jest.fn(),
+  },
+}));
+
+import { KioskDeviceModel } from '@/lib/db/models/KioskDevice';
+import { UserModel } from '@/lib/db/models/User';
+import {
+  KIOSK_TOKEN_PREFIX,
+  authenticateKioskDevice,
+  generateDeviceToken,
+  hashDeviceToken,
+  readDeviceToken,
+} from '@/lib/kiosk/devices';
+
+const OWNER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const mockDeviceModel = KioskDeviceModel as unknown as {
+  findOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+const mockUserModel = UserModel as unknown as {
+  findById: jest.Mock<(...args: unknown[]) => unknown>;
+};
+
+function mockOwner(owner: { role: string; isActive?: boolean } | null) {
+  mockUserModel.findById.mockReturnValue({
+    select: () => ({
+      lean: () => Promise.resolve(owner && { email: 'shop@example.com', ...owner }),
+    }),
+  });
+}
+
+function kioskRequest(token: string) {
+  return new Request('http://localhost/api/orders', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+describe('Kiosk devices', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('device tokens', () => {
+    it('generates distinct prefixed tokens', () => {
+      const token = generateDeviceToken();
+
+      expect(token.startsWith(KIOSK_TOKEN_PREFIX)).toBe(true);
+      expect(token).toHaveLength(KIOSK_TOKEN_PREFIX.length + 48);
+      expect(generateDeviceToken()).not.toBe(token);
+    });
+
+    it('hashes tokens deterministically', () => {
+      const token = generateDeviceToken();
+
+      expect(hashDeviceToken(token)).toBe(hashDeviceToken(token));
+      expect(hashDeviceToken(token)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashDeviceToken(token)).not.toContain(token);
+    });
+
+    it('reads only kiosk bearer tokens', () => {
+      expect(readDeviceToken('Bearer kiosk_abc123')).toBe('kiosk_abc123');
+      expect(readDeviceToken('bearer  kiosk_abc123 ')).toBe('kiosk_abc123');
+      expect(readDeviceToken('Bearer sk_live_abc123')).toBeUndefined();
+      expect(readDeviceToken('Basic kiosk_abc123')).toBeUndefined();
+      expect(readDeviceToken(null)).toBeUndefined();
+    });
+  });
+
+  describe('authenticateKioskDevice', () => {
+    it('acts as the merchant who owns the device', async () => {
+      const token = generateDeviceToken();
+      const device = {
+        deviceId: 'kd_1',
+        ownerId: OWNER_ID,
+        lastUsedAt: new Date(),
+        save: jest.fn(),
+      };
+      mockDeviceModel.findOne.mockResolvedValue(device);
+      mockOwner({ role: 'merchant' });
+
+      const kiosk = await authenticateKioskDevice(kioskRequest(token));
+
+      expect(mockDeviceModel.findOne).toHaveBeenCalledWith({
+        tokenHash: hashDeviceToken(token),
+        revokedAt: null,
+      });
+      expect(kiosk?.user).toEqual({ id: OWNER_ID, email: 'shop@example.com', role: 'merchant' });
+      expect(device.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses unknown or revoked tokens', async () => {
+      mockDeviceModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        authenticateKioskDevice(kioskRequest(generateDeviceToken())),
+      ).resolves.toBeNull();
+    });
+
+    it('refuses devices of deactivated merchants', async () => {
+      mockDeviceModel.findOne.mockResolvedValue({ deviceId: 'kd_1', ownerId: OWNER_ID });
+      mockOwner({ role: 'merchant', isActive: false });
+
+      await expect(
+        authenticateKioskDevice(kioskRequest(generateDeviceToken())),
+      ).resolves.toBeNull();
+    });
+
+    it('ignores requests without a device token', async () => {
+      await expect(
+        authenticateKioskDevice(new Request('http://localhost/api/orders')),
+      ).resolves.toBeNull();
+      expect(mockDeviceModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
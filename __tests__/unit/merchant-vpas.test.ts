@@ -0,0 +1,138 @@
+/**
+ * Merchant UPI ID Tests
+ *
+ * Tests which UPI ID new orders pay into, that unapproved UPI IDs are refused,
+ * and validation of registration and review requests.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/db/models/MerchantVpa', () => ({
+  VPA_PATTERN: /^[\w.-]+@[\w.-]+$/,
+  MerchantVpaModel: {
+    findOne: jest.fn(),
+    find: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    findById: jest.fn(),
+  },
+}));
+
+import { MerchantVpaModel } from '@/lib/db/models/MerchantVpa';
+import { UserModel } from '@/lib/db/models/User';
+import { RegisterVpaSchema, ReviewVpaSchema, VpaError, resolvePayee } from '@/lib/vpas/management';
+
+const OWNER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const mockVpaModel = MerchantVpaModel as unknown as {
+  findOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  find: jest.Mock<(...args: unknown[]) => unknown>;
+};
+const mockUserModel = UserModel as unknown as {
+  findById: jest.Mock<(...args: unknown[]) => unknown>;
+};
+
+function mockApproved(vpas: Array<{ vpa: string; payeeName: string }>) {
+  mockVpaModel.find.mockReturnValue({ sort: () => Promise.resolve(vpas) });
+}
+
+function mockDefaultUpiId(defaultUpiId?: string) {
+  mockUserModel.findById.mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve({ preferences: { defaultUpiId } }) }),
+  });
+}
+
+describe('Merchant UPI IDs', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.UPI_ID = 'platform@paytm';
+    process.env.MERCHANT_NAME = 'Platform';
+    delete process.env.REQUIRE_MERCHANT_VPA;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should use a requested UPI ID once it is approved', async () => {
+    mockVpaModel.findOne.mockResolvedValue({
+      vpa: 'shop@okaxis',
+      payeeName: 'Asha Stores',
+      status: 'approved',
+    });
+
+    await expect(resolvePayee(OWNER_ID, ' Shop@OKAXIS ')).resolves.toEqual({
+      upiId: 'shop@okaxis',
+      payeeName: 'Asha Stores',
+    });
+    expect(mockVpaModel.findOne).toHaveBeenCalledWith({ ownerId: OWNER_ID, vpa: 'shop@okaxis' });
+  });
+
+  it('should refuse requested UPI IDs that are unregistered or not approved', async () => {
+    mockVpaModel.findOne.mockResolvedValueOnce(null);
+    await expect(resolvePayee(OWNER_ID, 'someone@upi')).rejects.toMatchObject({
+      code: 'VPA_NOT_FOUND',
+    });
+
+    mockVpaModel.findOne.mockResolvedValueOnce({ vpa: 'shop@okaxis', status: 'pending' });
+    await expect(resolvePayee(OWNER_ID, 'shop@okaxis')).rejects.toMatchObject({
+      code: 'VPA_NOT_APPROVED',
+    });
+  });
+
+  it('should use the default UPI ID, then the oldest approved one', async () => {
+    mockApproved([
+      { vpa: 'first@okaxis', payeeName: 'First' },
+      { vpa: 'second@ybl', payeeName: 'Second' },
+    ]);
+
+    mockDefaultUpiId('second@ybl');
+    await expect(resolvePayee(OWNER_ID)).resolves.toEqual({
+      upiId: 'second@ybl',
+      payeeName: 'Second',
+    });
+
+    // A default that is no longer approved is skipped
+    mockDefaultUpiId('removed@ibl');
+    await expect(resolvePayee(OWNER_ID)).resolves.toEqual({
+      upiId: 'first@okaxis',
+      payeeName: 'First',
+    });
+  });
+
+  it('should fall back to the platform UPI ID unless merchants must have their own', async () => {
+    mockApproved([]);
+
+    await expect(resolvePayee(OWNER_ID)).resolves.toEqual({
+      upiId: 'platform@paytm',
+      payeeName: 'Platform',
+    });
+
+    process.env.REQUIRE_MERCHANT_VPA = 'true';
+    const error = await resolvePayee(OWNER_ID).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(VpaError);
+    expect(error).toMatchObject({ code: 'VPA_REQUIRED' });
+  });
+
+  it('should normalize and validate registrations', () => {
+    expect(RegisterVpaSchema.parse({ vpa: ' Shop@OkAxis ', payeeName: ' Asha Stores ' })).toEqual({
+      vpa: 'shop@okaxis',
+      payeeName: 'Asha Stores',
+    });
+    expect(RegisterVpaSchema.safeParse({ vpa: 'shop', payeeName: 'Asha' }).success).toBe(false);
+    expect(RegisterVpaSchema.safeParse({ vpa: 'shop@okaxis', payeeName: ' ' }).success).toBe(false);
+  });
+
+  it('should require a reason to reject a UPI ID', () => {
+    expect(ReviewVpaSchema.safeParse({ decision: 'approve' }).success).toBe(true);
+    expect(ReviewVpaSchema.safeParse({ decision: 'reject' }).success).toBe(false);
+    expect(
+      ReviewVpaSchema.safeParse({ decision: 'reject', reason: 'Name does not match' }).success,
+    ).toBe(true);
+  });
+});
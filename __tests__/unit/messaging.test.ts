@@ -0,0 +1,121 @@
+/**
+ * Messaging Tests
+ *
+ * Tests phone number normalization, message templates and how the HTTP provider
+ * fills and escapes its request template.
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { HttpTemplateProvider } from '@/lib/messaging/http';
+import { findUnknownPlaceholders, renderMessageTemplate } from '@/lib/messaging/templates';
+import type { OutboundMessage } from '@/lib/messaging/types';
+import { DEFAULT_MESSAGING_SETTINGS, MessagingSettingsSchema } from '@/lib/settings/messaging';
+import { normalizePhone } from '@/lib/utils/phone';
+
+const message: OutboundMessage = {
+  channel: 'whatsapp',
+  to: '+919876543210',
+  body: 'Pay "₹150.50" & done',
+  template: 'orderCreated',
+  variables: { orderId: 'ord_1' },
+};
+
+function mockFetch(status: number, body: string) {
+  const fetchMock = jest.fn(
+    async (_url: string, _init: { body?: unknown }) => new Response(body, { status }),
+  );
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe('Messaging', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should normalize Indian numbers to E.164', () => {
+    expect(normalizePhone('98765 43210')).toBe('+919876543210');
+    expect(normalizePhone('098765-43210')).toBe('+919876543210');
+    expect(normalizePhone('91 98765 43210')).toBe('+919876543210');
+    expect(normalizePhone('+91 98765-43210')).toBe('+919876543210');
+    expect(normalizePhone('0044 2079460958')).toBe('+442079460958');
+  });
+
+  it('should use the configured country code for national numbers', () => {
+    expect(normalizePhone('2025550123', '1')).toBe('+12025550123');
+  });
+
+  it('should reject numbers that fail validation or are not diallable', () => {
+    expect(normalizePhone('12345')).toBeNull();
+    expect(normalizePhone('phone: 9876543210')).toBeNull();
+    expect(normalizePhone('123456789012')).toBeNull();
+  });
+
+  it('should fill templates and drop unknown values', () => {
+    expect(
+      renderMessageTemplate('Hi {{customerName}}, pay {{ amount }} at {{paymentUrl}}', {
+        customerName: '',
+        amount: '₹10.00',
+        paymentUrl: 'https://pay.example.com/pay/ord_1',
+      }),
+    ).toBe('Hi , pay ₹10.00 at https://pay.example.com/pay/ord_1');
+    expect(findUnknownPlaceholders('{{amount}} {{ammount}} {{url}}')).toEqual(['ammount', 'url']);
+  });
+
+  it('should reject settings with unknown placeholders', () => {
+    const result = MessagingSettingsSchema.safeParse({
+      ...DEFAULT_MESSAGING_SETTINGS,
+      templates: { ...DEFAULT_MESSAGING_SETTINGS.templates, orderCreated: 'Pay {{link}}' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe('Unknown placeholders: {{link}}');
+    expect(MessagingSettingsSchema.safeParse(DEFAULT_MESSAGING_SETTINGS).success).toBe(true);
+  });
+
+  it('should JSON-escape values in a JSON request body', async () => {
+    const fetchMock = mockFetch(200, '{"messages":[{"id":"wamid.1"}]}');
+    const provider = new HttpTemplateProvider({
+      url: 'https://api.example.com/send',
+      bodyTemplate: '{"to":"{{toDigits}}","text":"{{body}}","ref":"{{orderId}}"}',
+      messageIdPath: 'messages.0.id',
+    });
+
+    await expect(provider.send(message)).resolves.toBe('wamid.1');
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body as string)).toEqual({
+      to: '919876543210',
+      text: 'Pay "₹150.50" & done',
+      ref: 'ord_1',
+    });
+  });
+
+  it('should form-encode values when the provider takes form data', async () => {
+    const fetchMock = mockFetch(201, '');
+    const provider = new HttpTemplateProvider({
+      url: 'https://api.example.com/{{channel}}/send',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      bodyTemplate: 'To={{to}}&Body={{body}}',
+    });
+
+    await provider.send(message);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/whatsapp/send');
+    expect(new URLSearchParams(init.body as string).get('Body')).toBe(message.body);
+    expect(new URLSearchParams(init.body as string).get('To')).toBe('+919876543210');
+  });
+
+  it('should throw with the response when the provider rejects the message', async () => {
+    mockFetch(400, '{"error":"invalid number"}');
+    const provider = new HttpTemplateProvider({
+      url: 'https://api.example.com/send',
+      bodyTemplate: '{"to":"{{to}}"}',
+    });
+
+    await expect(provider.send(message)).rejects.toThrow('HTTP 400: {"error":"invalid number"}');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Money Tests
+ *
+ * Tests conversion between rupees and integer paise, exact arithmetic on paise
+ * and the formats used in UPI links and on screen.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  addPaise,
+  formatINR,
+  formatUpiAmount,
+  fromPaise,
+  hasWholePaise,
+  MoneyError,
+  subtractPaise,
+  toPaise,
+} from '@/lib/utils/money';
+import { generateUPIString } from '@/lib/utils/upi-utils';
+
+describe('Money', () => {
+  it('should convert rupees to whole paise without floating-point error', () => {
+    expect(toPaise(19.99)).toBe(1999);
+    expect(toPaise(1.005)).toBe(101);
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(fromPaise(150050)).toBe(1500.5);
+  });
+
+  it('should add up amounts that drift as floats', () => {
+    const amounts = Array.from({ length: 10 }, () => toPaise(0.1));
+
+    expect(addPaise(...amounts)).toBe(100);
+    expect(subtractPaise(toPaise(100), toPaise(33.33), toPaise(33.33))).toBe(3334);
+  });
+
+  it('should reject values that are not whole paise', () => {
+    expect(() => addPaise(10, 0.5)).toThrow(MoneyError);
+    expect(() => toPaise(Number.NaN)).toThrow(MoneyError);
+    expect(hasWholePaise(10.25)).toBe(true);
+    expect(hasWholePaise(10.255)).toBe(false);
+  });
+
+  it('should format UPI amounts with exactly two decimals', () => {
+    expect(formatUpiAmount(150050)).toBe('1500.50');
+    expect(formatUpiAmount(100000)).toBe('1000.00');
+    expect(formatUpiAmount(5)).toBe('0.05');
+    expect(() => formatUpiAmount(0)).toThrow(MoneyError);
+    expect(
+      generateUPIString({
+        payeeAddress: 'shop@upi',
+        payeeName: 'Shop',
+        amount: 1500.5,
+        transactionNote: 'Order',
+      }),
+    ).toContain('am=1500.50');
+  });
+
+  it('should display amounts in rupees with Indian digit grouping', () => {
+    expect(formatINR(12345600)).toBe('₹1,23,456.00');
+    expect(formatINR(1999)).toBe('₹19.99');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Notification Tests
+ *
+ * Tests email templates, transport selection and which order emails are sent,
+ * skipped or logged depending on user preferences and payment link settings.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterAll } from '@jest/globals';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+jest.mock('@/lib/db/connection', () => ({
+  connectDB: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/PaymentLink', () => ({
+  PaymentLinkModel: {
+    findOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/settings/messaging', () => ({
+  ...jest.requireActual<typeof import('@/lib/settings/messaging')>('@/lib/settings/messaging'),
+  getMessagingSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/db/models/NotificationDelivery', () => ({
+  NotificationDeliveryModel: {
+    create: jest.fn(async (doc: unknown) => doc),
+    updateOne: jest.fn(async () => ({})),
+  },
+}));
+
+import type { OrderDocument } from '@/lib/db/models/Order';
+import { NotificationDeliveryModel } from '@/lib/db/models/NotificationDelivery';
+import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
+import { UserModel } from '@/lib/db/models/User';
+import { registerMessagingProvider } from '@/lib/messaging/providers';
+import type { OutboundMessage } from '@/lib/messaging/types';
+import { FileEmailTransport } from '@/lib/notifications/local';
+import { notifyOrderEvent } from '@/lib/notifications/service';
+import { renderOrderEmail } from '@/lib/notifications/templates';
+import { getEmailTransport, registerEmailTransport } from '@/lib/notifications/transports';
+import type { EmailMessage } from '@/lib/notifications/types';
+import {
+  DEFAULT_MESSAGING_SETTINGS,
+  getMessagingSettings,
+  type MessagingSettingsValues,
+} from '@/lib/settings/messaging';
+
+type Mocked = jest.Mock<(...args: unknown[]) => unknown>;
+
+const mockDeliveries = NotificationDeliveryModel as unknown as {
+  create: Mocked;
+  updateOne: Mocked;
+};
+const mockUsers = UserModel as unknown as { findById: Mocked };
+const mockLinks = PaymentLinkModel as unknown as { findOne: Mocked };
+const mockMessagingSettings = getMessagingSettings as unknown as jest.Mock<
+  () => Promise<MessagingSettingsValues>
+>;
+
+const sent: EmailMessage[] = [];
+registerEmailTransport('test', () => ({
+  name: 'test',
+  send: async (message) => {
+    sent.push(message);
+    return `msg-${sent.length}`;
+  },
+}));
+
+const texts: OutboundMessage[] = [];
+registerMessagingProvider('test', () => ({
+  name: 'test',
+  send: async (message) => {
+    texts.push(message);
+    return `txt-${texts.length}`;
+  },
+}));
+
+const originalTransport = process.env.EMAIL_TRANSPORT;
+const originalProvider = process.env.MESSAGING_PROVIDER;
+
+function leanQuery(result: unknown) {
+  return { select: () => ({ lean: async () => result }) };
+}
+
+function mockMerchant(notifications: Record<string, boolean>) {
+  mockUsers.findById.mockReturnValue(
+    leanQuery({
+      name: 'Chai Point',
+      email: 'owner@chai.example',
+      preferences: { notifications },
+    }),
+  );
+}
+
+function makeOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    orderId: 'ord_test_1',
+    description: 'Masala chai x2',
+    amountPaise: 15050,
+    customerName: 'Test Customer',
+    customerEmail: 'customer@example.com',
+    createdBy: '507f1f77bcf86cd799439011',
+    utrNumber: '123456789012',
+    ...overrides,
+  } as unknown as OrderDocument;
+}
+
+function loggedStatuses() {
+  return mockDeliveries.create.mock.calls.map(([doc]) => {
+    const { audience, status, skipReason } = doc as Record<string, unknown>;
+    return { audience, status, skipReason };
+  });
+}
+
+describe('Notifications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sent.length = 0;
+    texts.length = 0;
+    process.env.EMAIL_TRANSPORT = 'test';
+    process.env.MESSAGING_PROVIDER = 'test';
+    mockMessagingSettings.mockResolvedValue({ ...DEFAULT_MESSAGING_SETTINGS, enabled: true });
+  });
+
+  afterAll(() => {
+    process.env.EMAIL_TRANSPORT = originalTransport;
+    process.env.MESSAGING_PROVIDER = originalProvider;
+  });
+
+  it('should render order emails as text and escaped HTML', () => {
+    const email = renderOrderEmail('payment_verified', 'customer', {
+      merchantName: 'Tom & <Jerry>',
+      orderId: 'ord_1',
+      description: 'Cheese',
+      amountPaise: 150050,
+      paymentUrl: 'https://pay.example.com/pay/ord_1',
+      receiptUrl: 'https://pay.example.com/api/orders/ord_1/receipt',
+      dashboardUrl: 'https://pay.example.com/dashboard/orders',
+    });
+
+    expect(email.subject).toBe('Payment receipt from Tom & <Jerry>: ₹1,500.50');
+    expect(email.text).toContain(
+      'Download Receipt: https://pay.example.com/api/orders/ord_1/receipt',
+    );
+    expect(email.html).toContain('Tom &amp; &lt;Jerry&gt;');
+    expect(email.html).not.toContain('<Jerry>');
+  });
+
+  it('should write emails to disk with the file transport', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    try {
+      const transport = new FileEmailTransport(directory);
+      const messageId = await transport.send({
+        from: 'payments@example.com',
+        to: 'customer@example.com',
+        subject: 'Hello',
+        text: 'Hi',
+        html: '<p>Hi</p>',
+      });
+
+      const [file] = await readdir(directory);
+      const written = JSON.parse(await readFile(path.join(directory, file), 'utf8'));
+      expect(written).toMatchObject({ messageId, to: 'customer@example.com', subject: 'Hello' });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject unknown transports', () => {
+    process.env.EMAIL_TRANSPORT = 'pigeon';
+
+    expect(() => getEmailTransport()).toThrow('Unknown email transport: pigeon');
+  });
+
+  it('should email the customer and merchant when a payment is verified', async () => {
+    mockMerchant({ email: true, orderUpdates: true });
+
+    const count = await notifyOrderEvent('payment_verified', makeOrder());
+
+    expect(count).toBe(2);
+    expect(sent.map((message) => message.to).sort()).toEqual([
+      'customer@example.com',
+      'owner@chai.example',
+    ]);
+    expect(mockDeliveries.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'sent' }) }),
+    );
+  });
+
+  it('should log but not send merchant emails the merchant turned off', async () => {
+    mockMerchant({ email: true, orderUpdates: false });
+
+    await notifyOrderEvent('utr_received', makeOrder());
+
+    expect(sent.map((message) => message.to)).toEqual(['customer@example.com']);
+    expect(loggedStatuses()).toContainEqual({
+      audience: 'merchant',
+      status: 'skipped',
+      skipReason: 'Order update notifications are turned off',
+    });
+  });
+
+  it("should follow the payment link's email receipt setting for customers", async () => {
+    mockMerchant({ email: false });
+    mockLinks.findOne.mockReturnValue(leanQuery({ settings: { sendEmailReceipt: false } }));
+
+    const count = await notifyOrderEvent('payment_verified', makeOrder({ paymentLinkId: 'lnk_1' }));
+
+    expect(count).toBe(0);
+    expect(sent).toHaveLength(0);
+    expect(loggedStatuses().map(({ status }) => status)).toEqual(['skipped', 'skipped']);
+  });
+
+  it('should record failed sends without throwing', async () => {
+    mockMerchant({ email: true, orderUpdates: true });
+    registerEmailTransport('broken', () => ({
+      name: 'broken',
+      send: async () => {
+        throw new Error('Connection refused');
+      },
+    }));
+    process.env.EMAIL_TRANSPORT = 'broken';
+
+    await expect(notifyOrderEvent('payment_failed', makeOrder())).resolves.toBe(2);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockDeliveries.updateOne).toHaveBeenCalledWith(expect.anything(), {
+      $set: { status: 'failed', transport: 'broken', error: 'Connection refused' },
+    });
+  });
+
+  it('should text the customer the payment link when an order is created', async () => {
+    mockMerchant({ email: true, orderUpdates: true });
+
+    await notifyOrderEvent('order_created', makeOrder({ customerPhone: '98765 43210' }));
+
+    expect(texts).toHaveLength(1);
+    expect(texts[0]).toMatchObject({
+      channel: 'sms',
+      to: '+919876543210',
+      template: 'orderCreated',
+    });
+    expect(texts[0].body).toBe(
+      'Hi Test Customer, Chai Point has requested ₹150.50 for Masala chai x2. Pay here: http://localhost:3000/pay/ord_test_1',
+    );
+    expect(mockDeliveries.create).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'sms', orderId: 'ord_test_1', body: texts[0].body }),
+    );
+  });
+
+  it('should not text customers while messaging is turned off', async () => {
+    mockMerchant({ email: true, orderUpdates: true });
+    mockMessagingSettings.mockResolvedValue(DEFAULT_MESSAGING_SETTINGS);
+
+    await notifyOrderEvent('payment_verified', makeOrder({ customerPhone: '9876543210' }));
+
+    expect(texts).toHaveLength(0);
+    expect(sent).toHaveLength(2);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Order Status Event Tests
+ *
+ * Tests that order status watchers deliver each change once, from Redis
+ * pub/sub or from polling the database when pub/sub is unavailable.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+type Listener = (event: { message: unknown }) => void;
+
+const listeners = new Map<string, Listener>();
+const subscribe = jest.fn(() => ({
+  on: (type: string, listener: Listener) => listeners.set(type, listener),
+  unsubscribe: jest.fn(async () => undefined),
+}));
+let storedStatus = 'pending';
+
+jest.mock('@/lib/redis', () => ({
+  REDIS_KEYS: {
+    ORDER_STATUS_CHANNEL: (orderId: string) => `order-status:${orderId}`,
+  },
+  redis: {
+    client: { subscribe: (...args: unknown[]) => subscribe(...(args as [])) },
+    publish: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/Order', () => ({
+  OrderModel: {
+    findOne: () => ({
+      select: () => ({
+        lean: async () => ({ status: storedStatus, updatedAt: new Date('2024-12-15T10:00:00Z') }),
+      }),
+    }),
+  },
+}));
+
+import { watchOrderStatus, type OrderStatusEvent } from '@/lib/orders/events';
+
+async function advance(ms: number) {
+  jest.advanceTimersByTime(ms);
+  // Let the poll's database read resolve
+  await Promise.resolve();
+  await Promise.resolve();
+}
+
+describe('Order Status Events', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    listeners.clear();
+    subscribe.mockClear();
+    storedStatus = 'pending';
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should deliver pub/sub messages once per status', () => {
+    const events: OrderStatusEvent[] = [];
+    const stop = watchOrderStatus('ord_1', 'pending', (event) => events.push(event));
+
+    const message = listeners.get('message')!;
+    message({ message: { orderId: 'ord_1', status: 'pending-verification', at: 'now' } });
+    message({
+      message: JSON.stringify({ orderId: 'ord_1', status: 'pending-verification', at: 'now' }),
+    });
+    message({ message: { orderId: 'ord_1', status: 'completed', at: 'later' } });
+    stop();
+
+    expect(events.map((event) => [event.previousStatus, event.status])).toEqual([
+      ['pending', 'pending-verification'],
+      ['pending-verification', 'completed'],
+    ]);
+  });
+
+  it('should poll the database when pub/sub is unavailable', async () => {
+    subscribe.mockImplementationOnce(() => {
+      throw new Error('Redis environment variables not configured');
+    });
+    const events: OrderStatusEvent[] = [];
+    const stop = watchOrderStatus('ord_1', 'pending', (event) => events.push(event));
+
+    await advance(3_000);
+    expect(events).toHaveLength(0);
+
+    storedStatus = 'failed';
+    await advance(3_000);
+    await advance(3_000);
+    stop();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      orderId: 'ord_1',
+      status: 'failed',
+      previousStatus: 'pending',
+    });
+  });
+
+  it('should stop delivering once stopped', async () => {
+    const events: OrderStatusEvent[] = [];
+    const stop = watchOrderStatus('ord_1', 'pending', (event) => events.push(event));
+    stop();
+
+    storedStatus = 'completed';
+    listeners.get('message')!({ message: { orderId: 'ord_1', status: 'completed', at: 'now' } });
+    await advance(15_000);
+
+    expect(events).toHaveLength(0);
+  });
+});
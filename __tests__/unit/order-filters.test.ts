@@ -0,0 +1,47 @@
+/**
+ * Order Filter Tests
+ *
+ * Tests the filters shared by the orders list and the export endpoint.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildOrderFilterQuery, parseOrderFilters } from '@/lib/orders/filters';
+
+describe('Order Filters', () => {
+  it('should ignore empty parameters and the "all" status', () => {
+    const filters = parseOrderFilters(new URLSearchParams('status=all&search=&from='));
+
+    expect(buildOrderFilterQuery(filters)).toEqual({});
+  });
+
+  it('should cover the whole end day of a date range', () => {
+    const filters = parseOrderFilters(new URLSearchParams('from=2024-12-01&to=2024-12-15'));
+    const query = buildOrderFilterQuery(filters);
+
+    expect(query.createdAt).toEqual({
+      $gte: new Date('2024-12-01T00:00:00.000Z'),
+      $lte: new Date('2024-12-15T23:59:59.999Z'),
+    });
+  });
+
+  it('should escape search text before using it as a pattern', () => {
+    const query = buildOrderFilterQuery(parseOrderFilters(new URLSearchParams('search=a.b(c')));
+
+    expect(query.$or?.[0]).toEqual({ orderId: { $regex: 'a\\.b\\(c', $options: 'i' } });
+  });
+
+  it('should restrict to the owner regardless of the merchant filter', () => {
+    const filters = parseOrderFilters(new URLSearchParams('merchant=user_other&status=completed'));
+
+    expect(buildOrderFilterQuery(filters, 'user_self')).toEqual({
+      createdBy: 'user_self',
+      status: 'completed',
+    });
+    expect(buildOrderFilterQuery(filters).createdBy).toBe('user_other');
+  });
+
+  it('should reject unknown statuses and reversed ranges', () => {
+    expect(() => parseOrderFilters(new URLSearchParams('status=paid'))).toThrow();
+    expect(() => parseOrderFilters(new URLSearchParams('from=2024-12-15&to=2024-12-01'))).toThrow();
+  });
+});
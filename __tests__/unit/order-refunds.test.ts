@@ -0,0 +1,217 @@
+/**
+ * Order Refund Tests
+ *
+ * Tests the refunds endpoint: the refundable balance, full and partial refund
+ * statuses, the merchant and payment link paid totals, duplicate refund UTRs
+ * and refunds that race another update.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/auth/safe-auth', () => ({
+  getSafeUser: jest.fn(),
+}));
+
+jest.mock('@/lib/db/connection', () => ({
+  connectDB: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/db/models/Order', () => ({
+  OrderModel: {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/PaymentLink', () => ({
+  PaymentLinkModel: {
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/utils/audit', () => ({
+  AUDIT_ACTIONS: {},
+  createAuditLog: jest.fn(),
+  createAuditLogFromRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/orders/events', () => ({
+  publishOrderStatus: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications/service', () => ({
+  notifyOrderEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/webhooks/dispatcher', () => ({
+  dispatchWebhookEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/vpas/pool', () => ({
+  releaseVpaUsage: jest.fn(),
+  restoreVpaUsage: jest.fn(),
+}));
+
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
+import { UserModel } from '@/lib/db/models/User';
+import { POST } from '@/app/api/admin/orders/[orderId]/refunds/route';
+
+const UPDATED_AT = new Date('2025-01-15T10:00:00Z');
+const MERCHANT_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const mockGetSafeUser = getSafeUser as unknown as jest.Mock<() => Promise<unknown>>;
+const mockOrderModel = OrderModel as unknown as {
+  findOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  exists: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  findOneAndUpdate: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+const mockUserUpdateOne = UserModel.updateOne as unknown as jest.Mock;
+const mockPaymentLinkUpdateOne = PaymentLinkModel.updateOne as unknown as jest.Mock;
+
+function order(fields: Record<string, unknown> = {}): OrderDocument {
+  const values: Record<string, unknown> = {
+    _id: 'id_ORD_PAID',
+    orderId: 'ORD_PAID',
+    status: 'completed',
+    amount: 500,
+    amountPaise: 50000,
+    refundedAmount: 0,
+    refundedPaise: 0,
+    createdBy: 'merchant_1',
+    updatedAt: UPDATED_AT,
+    ...fields,
+  };
+  return { ...values, get: (field: string) => values[field] } as unknown as OrderDocument;
+}
+
+function refund(body: Record<string, unknown>) {
+  return POST(
+    new NextRequest('http://localhost/api/admin/orders/ORD_PAID/refunds', {
+      method: 'POST',
+      body: JSON.stringify({
+        reason: 'Customer returned item',
+        refundUtr: 'rfnd12345678',
+        ...body,
+      }),
+    }),
+    { params: Promise.resolve({ orderId: 'ORD_PAID' }) },
+  );
+}
+
+describe('Order refunds', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSafeUser.mockResolvedValue({ id: 'admin_1', email: 'admin@example.com', role: 'admin' });
+    mockOrderModel.findOne.mockResolvedValue(order());
+    mockOrderModel.exists.mockResolvedValue(null);
+    mockOrderModel.findOneAndUpdate.mockImplementation(async (_filter, update) => {
+      const { $set } = update as { $set: Record<string, unknown> };
+      return order($set);
+    });
+  });
+
+  it('rejects refunds larger than the remaining balance', async () => {
+    mockOrderModel.findOne.mockResolvedValue(
+      order({ status: 'partially-refunded', refundedAmount: 300, refundedPaise: 30000 }),
+    );
+
+    const response = await refund({ amount: 200.01 });
+    const body = (await response.json()) as Record<string, unknown>;
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ code: 'REFUND_EXCEEDS_BALANCE', refundableAmount: 200 });
+    expect(mockOrderModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('marks a refund of part of the balance as partially refunded', async () => {
+    const response = await refund({ amount: 120.5 });
+    const body = (await response.json()) as { data: Record<string, unknown> };
+
+    expect(response.status).toBe(201);
+    expect(body.data).toMatchObject({
+      status: 'partially-refunded',
+      previousStatus: 'completed',
+      refundedAmount: 120.5,
+      refundableAmount: 379.5,
+      refund: expect.objectContaining({ amountPaise: 12050, refundUtr: 'RFND12345678' }),
+    });
+    // Two admins refunding at once can't both pass the balance check
+    expect(mockOrderModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { updatedAt: UPDATED_AT, _id: 'id_ORD_PAID', status: 'completed' },
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('refunds the whole remaining balance when no amount is given', async () => {
+    mockOrderModel.findOne.mockResolvedValue(
+      order({ status: 'partially-refunded', refundedAmount: 120.5, refundedPaise: 12050 }),
+    );
+
+    const response = await refund({});
+    const body = (await response.json()) as { data: Record<string, unknown> };
+
+    expect(response.status).toBe(201);
+    expect(body.data).toMatchObject({
+      status: 'refunded',
+      refundedAmount: 500,
+      refundableAmount: 0,
+      refund: expect.objectContaining({ amountPaise: 37950 }),
+    });
+  });
+
+  it('takes only the newly refunded amount off the paid totals', async () => {
+    const paidOrder = {
+      createdBy: MERCHANT_ID,
+      paymentLinkId: 'link_1',
+      status: 'partially-refunded',
+      refundedAmount: 120.5,
+      refundedPaise: 12050,
+    };
+    mockOrderModel.findOne.mockResolvedValue(order(paidOrder));
+    mockOrderModel.findOneAndUpdate.mockImplementation(async (_filter, update) => {
+      const { $set } = update as { $set: Record<string, unknown> };
+      return order({ ...paidOrder, ...$set });
+    });
+
+    const response = await refund({ amount: 100 });
+
+    expect(response.status).toBe(201);
+    const decrement = { $inc: { 'stats.totalAmountPaise': -10000 } };
+    expect(mockUserUpdateOne).toHaveBeenCalledWith({ _id: MERCHANT_ID }, decrement);
+    expect(mockPaymentLinkUpdateOne).toHaveBeenCalledWith({ linkId: 'link_1' }, decrement);
+  });
+
+  it('rejects a refund UTR that was already recorded', async () => {
+    mockOrderModel.exists.mockResolvedValue({ _id: 'id_OTHER' });
+
+    const response = await refund({ amount: 100 });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'REFUND_UTR_EXISTS' });
+    expect(mockOrderModel.exists).toHaveBeenCalledWith({ 'refunds.refundUtr': 'RFND12345678' });
+    expect(mockOrderModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('asks for a retry when the order changed during the refund', async () => {
+    mockOrderModel.findOneAndUpdate.mockResolvedValue(null);
+
+    const response = await refund({ amount: 100 });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({
+      code: 'CONCURRENT_UPDATE',
+      error: 'Order was modified while processing the refund. Please retry.',
+    });
+  });
+});
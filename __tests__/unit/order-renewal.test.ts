@@ -0,0 +1,163 @@
+/**
+ * Order Renewal Tests
+ *
+ * Tests that renewing an expired order gives back the UPI ID capacity it
+ * reserved, and frees the renewal claim, when the replacement order can't be saved,
+ * and that a static QR order stays matchable with a fresh paise offset.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/db/connection', () => ({
+  connectDB: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/db/models/Order', () => ({
+  OrderModel: {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/orders/state-machine', () => ({
+  CUSTOMER_ACTOR: { id: 'customer' },
+  expireIfOverdue: jest.fn(async (order: unknown) => order),
+}));
+
+jest.mock('@/lib/settings/system', () => ({
+  resolveOrderExpiryMinutes: jest.fn(async () => 10),
+}));
+
+jest.mock('@/lib/static-qr/service', () => ({
+  allocateStaticQrAmount: jest.fn(),
+}));
+
+jest.mock('@/lib/utils/rate-limit', () => ({
+  RATE_LIMIT_CONFIGS: { orders: {} },
+  rateLimit: jest.fn(async () => ({ success: true })),
+}));
+
+jest.mock('@/lib/vpas/pool', () => ({
+  assignOrderPayee: jest.fn(),
+  releaseAssignedPayee: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/notifications/service', () => ({
+  notifyOrderEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/webhooks/dispatcher', () => ({
+  dispatchWebhookEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/utils/audit', () => ({
+  AUDIT_ACTIONS: { ORDER_CREATED: 'order_created' },
+  createAuditLogFromRequest: jest.fn(),
+}));
+
+import { OrderModel } from '@/lib/db/models/Order';
+import { allocateStaticQrAmount } from '@/lib/static-qr/service';
+import { assignOrderPayee, releaseAssignedPayee } from '@/lib/vpas/pool';
+import { POST } from '@/app/api/orders/[orderId]/renew/route';
+
+const OWNER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const mockOrderModel = OrderModel as unknown as {
+  findOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  findOneAndUpdate: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  create: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  updateOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+const mockAssignOrderPayee = assignOrderPayee as unknown as jest.Mock<
+  (...args: unknown[]) => Promise<unknown>
+>;
+const mockAllocateStaticQrAmount = allocateStaticQrAmount as unknown as jest.Mock<
+  (...args: unknown[]) => Promise<unknown>
+>;
+const mockReleaseAssignedPayee = releaseAssignedPayee as unknown as jest.Mock<
+  (...args: unknown[]) => Promise<void>
+>;
+
+const expiredOrder = {
+  orderId: 'ORD_EXPIRED',
+  status: 'expired',
+  amount: 250,
+  amountPaise: 25000,
+  description: 'Table 4',
+  upiId: 'shop@okaxis',
+  payeeName: 'Shop',
+  createdBy: OWNER_ID,
+};
+
+function renew() {
+  return POST(
+    new NextRequest('http://localhost/api/orders/ORD_EXPIRED/renew', { method: 'POST' }),
+    {
+      params: Promise.resolve({ orderId: 'ORD_EXPIRED' }),
+    },
+  );
+}
+
+describe('Order renewal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrderModel.findOne.mockResolvedValue(expiredOrder);
+    mockOrderModel.findOneAndUpdate.mockResolvedValue(expiredOrder);
+  });
+
+  it('gives back the reserved capacity when the replacement order fails to save', async () => {
+    const payee = { upiId: 'second@ybl', payeeName: 'Shop', reserved: true };
+    mockAssignOrderPayee.mockResolvedValue(payee);
+    mockOrderModel.create.mockRejectedValue(new Error('E11000 duplicate key error'));
+
+    const response = await renew();
+
+    expect(response.status).toBe(500);
+    expect(mockReleaseAssignedPayee).toHaveBeenCalledWith(OWNER_ID, payee, 25000);
+    expect(mockOrderModel.updateOne).toHaveBeenCalledWith(
+      { orderId: 'ORD_EXPIRED' },
+      { $unset: { renewedOrderId: 1 } },
+    );
+  });
+
+  it('has nothing to give back when no payee could be assigned', async () => {
+    mockAssignOrderPayee.mockRejectedValue(new Error('Database unavailable'));
+
+    const response = await renew();
+
+    expect(response.status).toBe(500);
+    expect(mockReleaseAssignedPayee).not.toHaveBeenCalled();
+    expect(mockOrderModel.create).not.toHaveBeenCalled();
+  });
+
+  it('renews a static QR order with a fresh paise offset', async () => {
+    mockOrderModel.findOne.mockResolvedValue({
+      ...expiredOrder,
+      amount: 250.03,
+      amountPaise: 25003,
+      staticQr: { requestedPaise: 25000, offsetPaise: 3 },
+    });
+    mockAllocateStaticQrAmount.mockResolvedValue({ requestedPaise: 25000, offsetPaise: 1 });
+    mockAssignOrderPayee.mockResolvedValue({
+      upiId: 'shop@okaxis',
+      payeeName: 'Shop',
+      reserved: true,
+    });
+    mockOrderModel.create.mockImplementation(async (fields) => fields);
+
+    const response = await renew();
+
+    expect(response.status).toBe(201);
+    expect(mockAllocateStaticQrAmount).toHaveBeenCalledWith(OWNER_ID, 25000);
+    expect(mockAssignOrderPayee).toHaveBeenCalledWith(OWNER_ID, 25001, expect.anything());
+    expect(mockOrderModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 250.01,
+        staticQr: { requestedPaise: 25000, offsetPaise: 1 },
+      }),
+    );
+  });
+});
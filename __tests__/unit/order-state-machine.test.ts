@@ -0,0 +1,136 @@
+/**
+ * Order State Machine Tests
+ *
+ * Tests the order lifecycle table, per-actor permissions and transition
+ * guards. Rejected transitions fail before anything is written.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { OrderDocument } from '@/lib/db/models/Order';
+import {
+  canTransition,
+  CUSTOMER_ACTOR,
+  getAllowedTransitions,
+  OrderTransitionError,
+  SYSTEM_ACTOR,
+  transitionOrder,
+  type OrderActor,
+} from '@/lib/orders/state-machine';
+
+const ADMIN: OrderActor = { type: 'user', id: 'user_1', email: 'admin@example.com' };
+
+function order(fields: Record<string, unknown>): OrderDocument {
+  const values: Record<string, unknown> = {
+    orderId: 'ord_1',
+    status: 'pending',
+    amount: 1000,
+    amountPaise: 100000,
+    expiresAt: new Date(Date.now() + 60_000),
+    refundedAmount: 0,
+    refundedPaise: 0,
+    ...fields,
+  };
+  return { ...values, get: (field: string) => values[field] } as unknown as OrderDocument;
+}
+
+async function rejection(promise: Promise<unknown>): Promise<OrderTransitionError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof OrderTransitionError) return error;
+    throw error;
+  }
+  throw new Error('Expected the transition to be rejected');
+}
+
+describe('Order Lifecycle', () => {
+  it('should allow the standard payment flow', () => {
+    expect(canTransition('pending', 'pending-verification')).toBe(true);
+    expect(canTransition('pending-verification', 'completed')).toBe(true);
+    expect(canTransition('completed', 'refunded')).toBe(true);
+  });
+
+  it('should never leave a fully refunded order', () => {
+    expect(getAllowedTransitions('refunded')).toEqual([]);
+    expect(canTransition('completed', 'pending')).toBe(false);
+  });
+
+  it('should restrict customers and the system to their own transitions', () => {
+    expect(getAllowedTransitions('pending', 'customer')).toEqual(['pending-verification']);
+    expect(getAllowedTransitions('pending', 'system')).toEqual(['expired']);
+    expect(canTransition('pending-verification', 'completed', 'customer')).toBe(false);
+  });
+});
+
+describe('Transition Guards', () => {
+  it('should reject transitions missing from the lifecycle', async () => {
+    const error = await rejection(
+      transitionOrder(order({ status: 'completed' }), 'pending', { actor: ADMIN }),
+    );
+
+    expect(error.code).toBe('INVALID_STATUS_TRANSITION');
+    expect(error.httpStatus).toBe(400);
+  });
+
+  it('should reject actors that may not perform a transition', async () => {
+    const error = await rejection(
+      transitionOrder(
+        order({ status: 'pending-verification', utrNumber: '401234567890' }),
+        'completed',
+        {
+          actor: CUSTOMER_ACTOR,
+        },
+      ),
+    );
+
+    expect(error.code).toBe('TRANSITION_NOT_ALLOWED');
+  });
+
+  it('should require a UTR before verification', async () => {
+    const error = await rejection(
+      transitionOrder(order({}), 'pending-verification', { actor: CUSTOMER_ACTOR }),
+    );
+
+    expect(error.code).toBe('TRANSITION_GUARD_FAILED');
+  });
+
+  it('should not let the system expire an order early', async () => {
+    const error = await rejection(transitionOrder(order({}), 'expired', { actor: SYSTEM_ACTOR }));
+
+    expect(error.code).toBe('TRANSITION_GUARD_FAILED');
+  });
+
+  it('should not complete an order on risk hold', async () => {
+    const error = await rejection(
+      transitionOrder(
+        order({
+          status: 'pending-verification',
+          utrNumber: '401234567890',
+          'risk.onHold': true,
+        }),
+        'completed',
+        { actor: ADMIN },
+      ),
+    );
+
+    expect(error.code).toBe('TRANSITION_GUARD_FAILED');
+    expect(error.message).toContain('risk hold');
+  });
+
+  it('should check refund states against the refunded amount', async () => {
+    const completed = order({ status: 'completed' });
+
+    const partial = await rejection(
+      transitionOrder(completed, 'partially-refunded', {
+        actor: ADMIN,
+        set: { refundedPaise: 100000 },
+      }),
+    );
+    const full = await rejection(
+      transitionOrder(completed, 'refunded', { actor: ADMIN, set: { refundedPaise: 40000 } }),
+    );
+
+    expect(partial.code).toBe('TRANSITION_GUARD_FAILED');
+    expect(full.code).toBe('TRANSITION_GUARD_FAILED');
+  });
+});
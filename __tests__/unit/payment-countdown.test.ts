@@ -0,0 +1,43 @@
+/**
+ * Payment Countdown Tests
+ *
+ * Tests that the payment page deadline follows the server's time remaining
+ * regardless of the device clock, and how the countdown is displayed.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { estimateDeadline, formatCountdown } from '@/lib/orders/countdown';
+
+describe('Payment Countdown', () => {
+  it('should place the deadline from the midpoint of the request', () => {
+    const deadline = estimateDeadline({ sentAt: 1_000, receivedAt: 1_400, timeRemaining: 60_000 });
+
+    expect(deadline).toBe(61_200);
+  });
+
+  it('should ignore how far the device clock is from the server', () => {
+    // The same response on a device whose clock runs an hour fast
+    const hourFast = 60 * 60 * 1000;
+    const onTime = estimateDeadline({ sentAt: 1_000, receivedAt: 1_200, timeRemaining: 30_000 });
+    const skewed = estimateDeadline({
+      sentAt: 1_000 + hourFast,
+      receivedAt: 1_200 + hourFast,
+      timeRemaining: 30_000,
+    });
+
+    expect(skewed - (1_000 + hourFast)).toBe(onTime - 1_000);
+  });
+
+  it('should not move the deadline before the request for expired orders', () => {
+    expect(estimateDeadline({ sentAt: 5_000, receivedAt: 5_100, timeRemaining: -2_000 })).toBe(
+      5_050,
+    );
+  });
+
+  it('should format the time left as minutes and seconds', () => {
+    expect(formatCountdown(9 * 60 * 1000)).toEqual({ minutes: '09', seconds: '00' });
+    expect(formatCountdown(61_500)).toEqual({ minutes: '01', seconds: '02' });
+    expect(formatCountdown(0)).toEqual({ minutes: '00', seconds: '00' });
+    expect(formatCountdown(-500)).toEqual({ minutes: '00', seconds: '00' });
+  });
+});
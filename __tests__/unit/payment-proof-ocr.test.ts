@@ -0,0 +1,89 @@
+/**
+ * Payment Proof OCR Tests
+ *
+ * Tests that screenshots share one Tesseract worker, that a worker whose job
+ * timed out is replaced, and that nothing runs without local language data.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('tesseract.js', () => ({
+  createWorker: jest.fn(),
+}));
+
+type RecognizeImageText = typeof import('@/lib/payment-proof/ocr').recognizeImageText;
+
+function fakeWorker(recognize: () => Promise<unknown>) {
+  return {
+    recognize: jest.fn(recognize),
+    terminate: jest.fn(async () => undefined),
+  };
+}
+
+const image = Buffer.from('screenshot');
+
+describe('Payment proof OCR', () => {
+  let recognizeImageText: RecognizeImageText;
+  let mockCreateWorker: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+
+  beforeEach(async () => {
+    // A fresh module for each test, so no worker is left over from the last one
+    jest.resetModules();
+    process.env.OCR_LANG_PATH = '/srv/tessdata';
+    mockCreateWorker = (await import('tesseract.js')).createWorker as unknown as jest.Mock<
+      (...args: unknown[]) => Promise<unknown>
+    >;
+    ({ recognizeImageText } = await import('@/lib/payment-proof/ocr'));
+  });
+
+  afterEach(() => {
+    delete process.env.OCR_LANG_PATH;
+  });
+
+  it('does not start a worker without OCR_LANG_PATH', async () => {
+    delete process.env.OCR_LANG_PATH;
+
+    await expect(recognizeImageText(image)).rejects.toThrow('OCR_LANG_PATH is not set');
+    expect(mockCreateWorker).not.toHaveBeenCalled();
+  });
+
+  it('reuses one worker across screenshots', async () => {
+    const worker = fakeWorker(async () => ({ data: { text: 'UTR 435010123456' } }));
+    mockCreateWorker.mockResolvedValue(worker);
+
+    expect(await recognizeImageText(image)).toBe('UTR 435010123456');
+    expect(await recognizeImageText(image)).toBe('UTR 435010123456');
+
+    expect(mockCreateWorker).toHaveBeenCalledTimes(1);
+    expect(mockCreateWorker).toHaveBeenCalledWith(
+      'eng',
+      undefined,
+      expect.objectContaining({ langPath: '/srv/tessdata', cacheMethod: 'none' }),
+    );
+    expect(worker.recognize).toHaveBeenCalledTimes(2);
+    expect(worker.terminate).not.toHaveBeenCalled();
+  });
+
+  it('replaces a worker whose job timed out', async () => {
+    // The test setup runs timers immediately, so a job that never finishes times out
+    const stuck = fakeWorker(() => new Promise(() => undefined));
+    const fresh = fakeWorker(async () => ({ data: { text: 'Paid to shop@ybl' } }));
+    mockCreateWorker.mockResolvedValueOnce(stuck).mockResolvedValueOnce(fresh);
+
+    await expect(recognizeImageText(image)).rejects.toThrow('OCR timed out');
+    expect(stuck.terminate).toHaveBeenCalled();
+
+    expect(await recognizeImageText(image)).toBe('Paid to shop@ybl');
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('tries again when a worker fails to start', async () => {
+    const worker = fakeWorker(async () => ({ data: { text: 'Completed' } }));
+    mockCreateWorker
+      .mockRejectedValueOnce(new Error('ENOENT: eng.traineddata'))
+      .mockResolvedValueOnce(worker);
+
+    await expect(recognizeImageText(image)).rejects.toThrow('ENOENT');
+    expect(await recognizeImageText(image)).toBe('Completed');
+  });
+});
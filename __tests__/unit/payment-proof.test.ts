@@ -0,0 +1,104 @@
+/**
+ * Payment Proof Tests
+ *
+ * Tests reading payment details out of OCR text from payment app screenshots
+ * and comparing them with the order they were uploaded for.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { comparePaymentProof, extractPaymentDetails } from '@/lib/payment-proof/extract';
+
+const GPAY_SCREEN = `
+₹1,500
+Paid to
+Coffee Shop
+coffeeshop@ybl
+Completed
+15 Dec 2024, 10:25 am
+UPI transaction ID
+435010123456
+To: COFFEE SHOP
+From: RAHUL (Axis Bank) rahul.k@okaxis
+Google transaction ID
+CICAgKDx7pXnEQ
+`;
+
+const PHONEPE_SCREEN = `
+Transaction Successful
+10:25 pm on 15/12/2024
+Paid to
+merchant@ybl
+Rs. 499.00
+Transaction ID T2412152225123456789012
+UTR: 435022987654
+Debited from XXXXXX1234
+`;
+
+describe('Payment Proof', () => {
+  describe('extractPaymentDetails', () => {
+    it('should read a Google Pay success screen', () => {
+      const details = extractPaymentDetails(GPAY_SCREEN);
+
+      expect(details.utr).toBe('435010123456');
+      expect(details.amount).toBe(1500);
+      expect(details.payeeVpa).toBe('coffeeshop@ybl');
+      expect(details.vpas).toEqual(['coffeeshop@ybl', 'rahul.k@okaxis']);
+      expect(details.paidAt).toEqual(new Date('2024-12-15T04:55:00Z'));
+    });
+
+    it('should read a PhonePe success screen', () => {
+      const details = extractPaymentDetails(PHONEPE_SCREEN);
+
+      expect(details.utr).toBe('435022987654');
+      expect(details.amount).toBe(499);
+      expect(details.payeeVpa).toBe('merchant@ybl');
+      expect(details.paidAt).toEqual(new Date('2024-12-15T16:55:00Z'));
+    });
+
+    it('should not mistake email addresses for VPAs', () => {
+      expect(extractPaymentDetails('Receipt sent to rahul@gmail.com').vpas).toEqual([]);
+    });
+
+    it('should leave out fields it cannot read', () => {
+      expect(extractPaymentDetails('Payment successful')).toEqual({
+        utr: undefined,
+        amount: undefined,
+        payeeVpa: undefined,
+        vpas: [],
+        paidAt: undefined,
+      });
+    });
+  });
+
+  describe('comparePaymentProof', () => {
+    const expected = {
+      utr: '435010123456',
+      amount: 1500,
+      vpa: 'CoffeeShop@ybl',
+      orderCreatedAt: new Date('2024-12-15T04:50:00Z'),
+      submittedAt: new Date('2024-12-15T05:00:00Z'),
+    };
+
+    it('should accept a screenshot that matches the order', () => {
+      expect(comparePaymentProof(extractPaymentDetails(GPAY_SCREEN), expected)).toEqual([]);
+    });
+
+    it('should report each field that differs', () => {
+      const mismatches = comparePaymentProof(extractPaymentDetails(PHONEPE_SCREEN), expected);
+
+      expect(mismatches.map((mismatch) => mismatch.field)).toEqual([
+        'utr',
+        'amount',
+        'payeeVpa',
+        'paidAt',
+      ]);
+      expect(mismatches[1]).toEqual({ field: 'amount', expected: '1500.00', found: '499.00' });
+    });
+
+    it('should check every VPA shown when none is labelled as the payee', () => {
+      const details = { vpas: ['rahul.k@okaxis', 'coffeeshop@ybl'] };
+
+      expect(comparePaymentProof(details, expected)).toEqual([]);
+    });
+  });
+});
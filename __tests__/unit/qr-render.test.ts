@@ -0,0 +1,132 @@
+/**
+ * QR Code Rendering Tests
+ *
+ * Tests the PNG, SVG and PDF renderers, the error-correction bump for logos,
+ * color, logo and caption validation, and the payment link poster.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PNG } from 'pngjs';
+import { PaymentLinkQrSchema, parseLogoDataUrl, renderPaymentLinkPoster } from '@/lib/qr/poster';
+import { QrCodeError, contrastRatio, layoutQrCode, renderQRCode } from '@/lib/qr/render';
+
+const LINK_URL = 'https://pay.example.com/link/link_1702634400000_abc123xyz';
+
+function pngLogo(width: number, height: number): Buffer {
+  const png = new PNG({ width, height });
+  png.data.fill(200);
+  return PNG.sync.write(png);
+}
+
+async function expectQrError(promise: Promise<unknown>, code: string) {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(QrCodeError);
+  expect(error).toMatchObject({ code });
+}
+
+describe('QR code rendering', () => {
+  it('should render a crisp PNG in the brand colors', async () => {
+    const { data, contentType, extension } = await renderQRCode(LINK_URL, {
+      foreground: '#1e3a8a',
+      background: '#fefce8',
+    });
+    const png = PNG.sync.read(data);
+
+    expect(contentType).toBe('image/png');
+    expect(extension).toBe('png');
+    expect(png.width).toBeLessThanOrEqual(300);
+    // Quiet zone in the background color, then the finder pattern in the foreground
+    expect([...png.data.subarray(0, 3)]).toEqual([0xfe, 0xfc, 0xe8]);
+    const scale = png.width / layoutQrCode(LINK_URL).span;
+    const finder = (Math.ceil(scale) * png.width + Math.ceil(scale)) * 4;
+    expect([...png.data.subarray(finder, finder + 3)]).toEqual([0x1e, 0x3a, 0x8a]);
+  });
+
+  it('should raise error correction to H under a logo', () => {
+    const plain = layoutQrCode(LINK_URL);
+    const branded = layoutQrCode(LINK_URL, { logo: { data: pngLogo(8, 8), contentType: 'image/png' } });
+
+    expect(branded.modules.size).toBeGreaterThan(plain.modules.size);
+    expect(branded.modules.size).toBe(
+      layoutQrCode(LINK_URL, { errorCorrectionLevel: 'H' }).modules.size,
+    );
+  });
+
+  it('should embed the logo and caption in SVG and PDF output', async () => {
+    const logo = { data: pngLogo(40, 20), contentType: 'image/png' as const };
+
+    const svg = (await renderQRCode(LINK_URL, { format: 'svg', logo, caption: 'Tea & Snacks' })).data;
+    expect(svg.toString()).toContain('href="data:image/png;base64,');
+    expect(svg.toString()).toContain('>Tea &amp; Snacks</text>');
+
+    const pdf = await renderQRCode(LINK_URL, { format: 'pdf', logo, caption: 'Tea & Snacks' });
+    expect(pdf.contentType).toBe('application/pdf');
+    expect(pdf.data.subarray(0, 5).toString()).toBe('%PDF-');
+
+    const png = PNG.sync.read((await renderQRCode(LINK_URL, { logo, size: 400 })).data);
+    expect(png.width).toBeGreaterThan(300);
+  });
+
+  it('should refuse colors, logos and captions that would not work', async () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+
+    await expectQrError(
+      renderQRCode(LINK_URL, { foreground: '#ffffff', background: '#000000' }),
+      'LOW_CONTRAST',
+    );
+    await expectQrError(renderQRCode(LINK_URL, { foreground: '#9ca3af' }), 'LOW_CONTRAST');
+    await expectQrError(renderQRCode(LINK_URL, { foreground: 'navy' }), 'INVALID_COLOR');
+    await expectQrError(renderQRCode(LINK_URL, { caption: 'Scan me' }), 'INVALID_CAPTION');
+    await expectQrError(
+      renderQRCode(LINK_URL, { logo: { data: Buffer.from('not a png'), contentType: 'image/png' } }),
+      'INVALID_LOGO',
+    );
+    await expectQrError(
+      renderQRCode(LINK_URL, { logo: { data: Buffer.alloc(10), contentType: 'image/jpeg' } }),
+      'INVALID_LOGO',
+    );
+    await expectQrError(renderQRCode('x'.repeat(4000)), 'TEXT_TOO_LONG');
+  });
+
+  it('should refuse a logo that declares a huge image before decoding it', async () => {
+    // The header says 10000×10000 while the file stays tiny; its pixels would take about 400 MB
+    const png = pngLogo(16, 16);
+    png.writeUInt32BE(10000, 16);
+    png.writeUInt32BE(10000, 20);
+    await expectQrError(
+      renderQRCode(LINK_URL, { logo: { data: png, contentType: 'image/png' } }),
+      'INVALID_LOGO',
+    );
+
+    // SOI, then a baseline start-of-frame segment declaring 8000×8000
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x1f, 0x40, 0x1f, 0x40, 0x03, 0x01, 0x22, 0x00,
+    ]);
+    await expectQrError(
+      renderQRCode(LINK_URL, { format: 'svg', logo: { data: jpeg, contentType: 'image/jpeg' } }),
+      'INVALID_LOGO',
+    );
+  });
+
+  it('should print a poster for a payment link', async () => {
+    const options = PaymentLinkQrSchema.parse({
+      template: 'poster',
+      foreground: '#14532d',
+      caption: 'Pay with any UPI app',
+      logo: `data:image/png;base64,${pngLogo(16, 16).toString('base64')}`,
+    });
+    const pdf = await renderPaymentLinkPoster(
+      {
+        url: LINK_URL,
+        payeeName: 'आशा Stores',
+        upiId: 'shop@okaxis',
+        title: 'Monthly Tiffin',
+        amountPaise: 250000,
+      },
+      { ...options, template: 'poster', logo: parseLogoDataUrl(options.logo as string) },
+    );
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(() => parseLogoDataUrl('data:image/gif;base64,R0lGOD')).toThrow(QrCodeError);
+  });
+});
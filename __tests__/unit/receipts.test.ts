@@ -0,0 +1,191 @@
+/**
+ * Receipt Tests
+ *
+ * Tests receipt numbering, that a receipt number is only taken for paid orders,
+ * kept once issued and never used up by a request that loses a race, and the
+ * rendered PDF.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PDFDocument } from 'pdf-lib';
+
+jest.mock('@/lib/db/models/Order', () => ({
+  PAID_ORDER_STATUSES: ['completed', 'partially-refunded', 'refunded'],
+  OrderModel: {
+    findOneAndUpdate: jest.fn(),
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/ReceiptSequence', () => ({
+  ReceiptSequenceModel: {
+    nextNumber: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    findById: jest.fn(),
+  },
+}));
+
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { ReceiptSequenceModel } from '@/lib/db/models/ReceiptSequence';
+import { renderReceiptPdf, toPdfText } from '@/lib/receipts/pdf';
+import {
+  formatReceiptNumber,
+  issueReceipt,
+  ReceiptError,
+  receiptVerificationUrl,
+  type ReceiptData,
+} from '@/lib/receipts/service';
+
+const mockOrderModel = OrderModel as unknown as {
+  findOneAndUpdate: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  findById: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  updateOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+const mockSequenceModel = ReceiptSequenceModel as unknown as {
+  nextNumber: jest.Mock<(merchantId: string) => Promise<number>>;
+};
+
+function makeOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: 'order-1',
+    orderId: 'ord_test_1',
+    status: 'completed',
+    createdBy: 'merchant-1',
+    ...overrides,
+  } as unknown as OrderDocument;
+}
+
+const receiptData: ReceiptData = {
+  receiptNumber: 'RCPT-000042',
+  copy: 'original',
+  issuedAt: new Date('2025-01-15T10:30:00Z'),
+  printedAt: new Date('2025-01-15T10:30:00Z'),
+  merchant: { name: 'Chai Point', upiId: 'chai@upi', email: 'owner@chai.example' },
+  order: {
+    orderId: 'ord_test_1',
+    description: 'Masala chai x2',
+    customerName: 'Test Customer',
+    amountPaise: 15050,
+    refundedPaise: 0,
+    utr: '123456789012',
+    status: 'completed',
+    createdAt: new Date('2025-01-15T10:00:00Z'),
+    paidAt: new Date('2025-01-15T10:25:00Z'),
+  },
+  verificationUrl: 'https://pay.example.com/receipts/ord_test_1?number=RCPT-000042',
+};
+
+describe('Receipts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pad receipt numbers to six digits', () => {
+    expect(formatReceiptNumber(1)).toBe('RCPT-000001');
+    expect(formatReceiptNumber(1234567)).toBe('RCPT-1234567');
+  });
+
+  it('should link the verification QR to the public receipt page', () => {
+    expect(receiptVerificationUrl('https://pay.example.com', 'ord_1', 'RCPT-000001')).toBe(
+      'https://pay.example.com/receipts/ord_1?number=RCPT-000001',
+    );
+  });
+
+  it('should refuse to issue receipts for unpaid orders', async () => {
+    await expect(issueReceipt(makeOrder({ status: 'pending' }))).rejects.toThrow(ReceiptError);
+    expect(mockSequenceModel.nextNumber).not.toHaveBeenCalled();
+  });
+
+  it('should keep the number of an order that already has a receipt', async () => {
+    const order = makeOrder({ receipt: { number: 'RCPT-000007', sequence: 7 } });
+
+    await expect(issueReceipt(order)).resolves.toBe(order);
+    expect(mockSequenceModel.nextNumber).not.toHaveBeenCalled();
+  });
+
+  it("should take the next number in the merchant's sequence", async () => {
+    mockSequenceModel.nextNumber.mockResolvedValue(12);
+    mockOrderModel.findOneAndUpdate.mockImplementation(async (_filter, update) => {
+      const { receipt } = (update as { $set: { receipt?: unknown } }).$set;
+      return makeOrder(receipt ? { receipt } : {});
+    });
+
+    const issued = await issueReceipt(makeOrder());
+
+    expect(mockSequenceModel.nextNumber).toHaveBeenCalledWith('merchant-1');
+    expect(issued.receipt?.number).toBe('RCPT-000012');
+    expect(mockOrderModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+      { _id: 'order-1', receipt: { $exists: false } },
+      expect.objectContaining({ $unset: { receiptClaimedAt: 1 } }),
+      { new: true },
+    );
+  });
+
+  it('should not take a number when another request holds the claim', async () => {
+    mockOrderModel.findOneAndUpdate.mockResolvedValue(null);
+    mockOrderModel.findById.mockResolvedValue(
+      makeOrder({ receipt: { number: 'RCPT-000012', sequence: 12 } }),
+    );
+
+    const issued = await issueReceipt(makeOrder());
+
+    expect(issued.receipt?.number).toBe('RCPT-000012');
+    expect(mockSequenceModel.nextNumber).not.toHaveBeenCalled();
+  });
+
+  it('should take over once the other request gives up its claim', async () => {
+    mockSequenceModel.nextNumber.mockResolvedValue(13);
+    mockOrderModel.findOneAndUpdate
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(makeOrder())
+      .mockResolvedValueOnce(makeOrder({ receipt: { number: 'RCPT-000013', sequence: 13 } }));
+    mockOrderModel.findById.mockResolvedValue(makeOrder());
+
+    const issued = await issueReceipt(makeOrder());
+
+    expect(issued.receipt?.number).toBe('RCPT-000013');
+    expect(mockSequenceModel.nextNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up the claim when no number could be taken', async () => {
+    mockSequenceModel.nextNumber.mockRejectedValue(new Error('Database unavailable'));
+    mockOrderModel.findOneAndUpdate.mockResolvedValue(makeOrder());
+
+    await expect(issueReceipt(makeOrder())).rejects.toThrow('Database unavailable');
+    expect(mockOrderModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'order-1' },
+      { $unset: { receiptClaimedAt: 1 } },
+    );
+  });
+
+  it('should replace characters the PDF fonts cannot draw', () => {
+    expect(toPdfText('₹1,500.00')).toBe('Rs. 1,500.00');
+    expect(toPdfText('राम Stores')).toBe('??? Stores');
+  });
+
+  it('should render a single-page PDF', async () => {
+    const pdf = await renderReceiptPdf(receiptData);
+
+    expect(Buffer.from(pdf.slice(0, 5)).toString()).toBe('%PDF-');
+
+    const loaded = await PDFDocument.load(pdf);
+    expect(loaded.getPageCount()).toBe(1);
+    expect(loaded.getTitle()).toBe('Receipt RCPT-000042');
+  });
+
+  it('should render reprints and non-Latin names without failing', async () => {
+    const pdf = await renderReceiptPdf({
+      ...receiptData,
+      copy: 'reprint',
+      merchant: { ...receiptData.merchant, name: 'राम Stores' },
+      order: { ...receiptData.order, refundedPaise: 5000 },
+    });
+
+    expect(pdf.byteLength).toBeGreaterThan(1000);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Bank Statement Reconciliation Tests
+ *
+ * Tests statement parsing for the generic CSV, Indian bank and MT940 layouts,
+ * UTR extraction from narrations, and matching credits against orders
+ * awaiting verification.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  extractUtrCandidates,
+  parseStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  StatementParseError,
+} from '@/lib/reconciliation/statement-parser';
+import { reconcileStatement, type ReconciliationOrder } from '@/lib/reconciliation/matcher';
+
+const HDFC_STATEMENT = [
+  'HDFC BANK Ltd.,,,,,,',
+  'Account No :50100123456789,,,,,,',
+  ',,,,,,',
+  'Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+  '********,********,********,********,********,********,********',
+  '05/01/24,UPI-RAHUL SHARMA-rahul@okaxis-UTIB0000123-401234567890-Order,0000401234567890,05/01/24,,"1,499.00","25,499.00"',
+  '05/01/24,NEFT DR-SUPPLIER,N123456789,05/01/24,"2,000.00",,"23,499.00"',
+  '06/01/24,UPI-PRIYA-priya@ybl-YESB0000001-401234567891-Pay,0000401234567891,06/01/24,,500.00,"23,999.00"',
+].join('\n');
+
+const MT940_STATEMENT = [
+  ':20:STMT240105',
+  ':25:HDFC0000001/50100123456789',
+  ':28C:1/1',
+  ':60F:C240104INR24000,00',
+  ':61:2401050105C1499,00NTRFNONREF//401234567890',
+  ':86:UPI/401234567890/RAHUL SHARMA/rahul@okaxis',
+  ':61:2401050105D2000,00NTRFSUPPLIER',
+  ':86:NEFT DR SUPPLIER',
+  ':62F:C240105INR23499,00',
+  '-',
+].join('\n');
+
+function order(overrides: Partial<ReconciliationOrder>): ReconciliationOrder {
+  return {
+    orderId: 'ord_1',
+    utrNumber: '401234567890',
+    amount: 1499,
+    createdAt: new Date('2024-01-05T06:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Statement Parsing', () => {
+  it('should parse day-first dates in common bank formats', () => {
+    const expected = new Date(Date.UTC(2024, 0, 5)).getTime();
+
+    expect(parseStatementDate('05/01/24')?.getTime()).toBe(expected);
+    expect(parseStatementDate('05-01-2024')?.getTime()).toBe(expected);
+    expect(parseStatementDate('05-Jan-2024')?.getTime()).toBe(expected);
+    expect(parseStatementDate('5 Jan 2024')?.getTime()).toBe(expected);
+    expect(parseStatementDate('2024-01-05')?.getTime()).toBe(expected);
+    expect(parseStatementDate('31/02/2024')).toBeUndefined();
+    expect(parseStatementDate('Opening Balance')).toBeUndefined();
+  });
+
+  it('should parse amounts with Indian grouping, currency and CR/DR markers', () => {
+    expect(parseStatementAmount('1,50,000.00')).toBe(150000);
+    expect(parseStatementAmount('₹ 499')).toBe(499);
+    expect(parseStatementAmount('250.00 Cr')).toBe(250);
+    expect(parseStatementAmount('')).toBeUndefined();
+    expect(parseStatementAmount('-')).toBeUndefined();
+  });
+
+  it('should extract UPI RRNs, including zero-padded references', () => {
+    expect(extractUtrCandidates('UPI/401234567890/RAHUL/rahul@okaxis')).toEqual(['401234567890']);
+    expect(extractUtrCandidates(undefined, '0000401234567890')).toEqual(['401234567890']);
+    expect(extractUtrCandidates('NEFT CR-HDFCN52024010512345678-ACME')).toEqual([
+      'HDFCN52024010512345678',
+    ]);
+  });
+
+  it('should detect the HDFC layout below the account header block', () => {
+    const statement = parseStatement(HDFC_STATEMENT);
+
+    expect(statement.format).toBe('hdfc');
+    expect(statement.entries).toHaveLength(3);
+    expect(statement.skippedRows).toBe(1);
+    expect(statement.entries[0]).toMatchObject({
+      amount: 1499,
+      type: 'credit',
+      utrCandidates: ['401234567890'],
+    });
+    expect(statement.entries[1]).toMatchObject({ amount: 2000, type: 'debit' });
+    expect(statement.periodEnd?.getTime()).toBe(Date.UTC(2024, 0, 6));
+  });
+
+  it('should read the UTR column of a generic CSV', () => {
+    const statement = parseStatement(
+      'Date,UTR,Amount,Type,Description\n2024-01-05,401234567890,1499.00,CR,Payment\n2024-01-05,,200,DR,Fee',
+    );
+
+    expect(statement.format).toBe('generic');
+    expect(statement.entries[0]).toMatchObject({ utr: '401234567890', type: 'credit' });
+    expect(statement.entries[1]).toMatchObject({ amount: 200, type: 'debit' });
+  });
+
+  it('should parse MT940 statement lines and narratives', () => {
+    const statement = parseStatement(MT940_STATEMENT);
+
+    expect(statement.format).toBe('mt940');
+    expect(statement.entries).toHaveLength(2);
+    expect(statement.entries[0]).toMatchObject({
+      amount: 1499,
+      type: 'credit',
+      utrCandidates: ['401234567890'],
+    });
+    expect(statement.entries[0].narration).toContain('RAHUL SHARMA');
+    expect(statement.entries[1]).toMatchObject({ amount: 2000, type: 'debit' });
+  });
+
+  it('should reject files without a recognisable header', () => {
+    expect(() => parseStatement('foo,bar\n1,2')).toThrow(StatementParseError);
+    expect(() => parseStatement('   ')).toThrow(StatementParseError);
+  });
+});
+
+describe('Statement Matching', () => {
+  it('should classify credits as matched, amount mismatch or unknown and report missing orders', () => {
+    const statement = parseStatement(HDFC_STATEMENT);
+    const result = reconcileStatement(statement.entries, [
+      order({ orderId: 'ord_match' }),
+      order({ orderId: 'ord_short', utrNumber: '401234567891', amount: 550 }),
+      order({ orderId: 'ord_missing', utrNumber: '409999999999', amount: 100 }),
+    ]);
+
+    expect(result.matched.map((m) => m.orderId)).toEqual(['ord_match']);
+    expect(result.amountMismatch).toEqual([
+      expect.objectContaining({ orderId: 'ord_short', statementAmount: 500, difference: -50 }),
+    ]);
+    expect(result.unknownUtr).toEqual([]);
+    expect(result.missing.map((m) => m.orderId)).toEqual(['ord_missing']);
+    expect(result.creditCount).toBe(2);
+    expect(result.debitCount).toBe(1);
+  });
+
+  it('should flag unknown and duplicate UTRs', () => {
+    const statement = parseStatement(
+      [
+        'Date,UTR,Amount,Type,Description',
+        '2024-01-05,401234567890,1499,CR,First',
+        '2024-01-05,401234567890,1499,CR,Repeat',
+        '2024-01-05,400000000000,10,CR,Stranger',
+        '2024-01-05,,10,CR,Cash deposit',
+      ].join('\n'),
+    );
+    const result = reconcileStatement(statement.entries, [order({})]);
+
+    expect(result.matched).toHaveLength(1);
+    expect(result.unknownUtr.map((u) => u.reason)).toEqual([
+      'duplicate_utr',
+      'utr_not_found',
+      'no_utr',
+    ]);
+  });
+
+  it('should compare amounts to the paisa', () => {
+    const entries = parseStatement('Date,UTR,Amount\n2024-01-05,401234567890,1499.01').entries;
+
+    expect(reconcileStatement(entries, [order({})]).amountMismatch).toHaveLength(1);
+  });
+});
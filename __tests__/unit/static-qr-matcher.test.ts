@@ -0,0 +1,98 @@
+/**
+ * Static QR Matching Tests
+ *
+ * Tests matching static QR payments to open orders by amount, time window and payee,
+ * the paise offsets that keep same-amount orders apart, and amount-less UPI links.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_PAISE_OFFSET,
+  choosePaiseOffset,
+  isWithinMatchWindow,
+  matchStaticCredit,
+  type StaticOrderCandidate,
+} from '@/lib/static-qr/matcher';
+import { parseUpiLink } from '@/lib/utils/upi-link';
+import { generateUPIString } from '@/lib/utils/upi-utils';
+
+const OPENED_AT = new Date('2026-10-19T10:00:00+05:30');
+
+function minutesAfterOpening(minutes: number): Date {
+  return new Date(OPENED_AT.getTime() + minutes * 60 * 1000);
+}
+
+function order(orderId: string, amountPaise: number, createdAfter = 0): StaticOrderCandidate {
+  return {
+    orderId,
+    amountPaise,
+    upiId: 'shop@okaxis',
+    createdAt: minutesAfterOpening(createdAfter),
+  };
+}
+
+describe('Static QR matching', () => {
+  it('should match the only open order for the amount paid', () => {
+    const orders = [order('ord_tea', 4000), order('ord_thali', 25000), order('ord_thali2', 25001)];
+
+    expect(
+      matchStaticCredit({ amountPaise: 25001, paidAt: minutesAfterOpening(3) }, orders, {
+        windowMinutes: 30,
+      }),
+    ).toEqual({ outcome: 'matched', orderId: 'ord_thali2' });
+  });
+
+  it('should leave ambiguous and unmatched payments for review', () => {
+    const orders = [order('ord_a', 25000), order('ord_b', 25000, 5)];
+
+    expect(
+      matchStaticCredit({ amountPaise: 25000, paidAt: minutesAfterOpening(8) }, orders, {
+        windowMinutes: 30,
+      }),
+    ).toEqual({ outcome: 'ambiguous', orderIds: ['ord_a', 'ord_b'] });
+    expect(
+      matchStaticCredit({ amountPaise: 9900, paidAt: minutesAfterOpening(8) }, orders, {
+        windowMinutes: 30,
+      }),
+    ).toEqual({ outcome: 'unmatched' });
+  });
+
+  it('should only match payments inside the window and to the right UPI ID', () => {
+    const orders = [order('ord_a', 25000), { ...order('ord_b', 25000, 25), upiId: 'cafe@ybl' }];
+
+    // ord_a's window has closed 18 minutes in; ord_b was created after the payment
+    expect(
+      matchStaticCredit({ amountPaise: 25000, paidAt: minutesAfterOpening(18) }, orders, {
+        windowMinutes: 15,
+      }),
+    ).toEqual({ outcome: 'unmatched' });
+    expect(
+      matchStaticCredit(
+        { amountPaise: 25000, paidAt: minutesAfterOpening(26), payeeVpa: 'Cafe@YBL' },
+        orders,
+        { windowMinutes: 30 },
+      ),
+    ).toEqual({ outcome: 'matched', orderId: 'ord_b' });
+
+    expect(isWithinMatchWindow(OPENED_AT, minutesAfterOpening(-1), 30)).toBe(true);
+    expect(isWithinMatchWindow(OPENED_AT, minutesAfterOpening(-5), 30)).toBe(false);
+    expect(isWithinMatchWindow(OPENED_AT, minutesAfterOpening(31), 30)).toBe(true);
+    expect(isWithinMatchWindow(OPENED_AT, minutesAfterOpening(33), 30)).toBe(false);
+  });
+
+  it('should pick the smallest free paise offset', () => {
+    expect(choosePaiseOffset(25000, [])).toBe(0);
+    expect(choosePaiseOffset(25000, [25000, 25001, 25003, 4000])).toBe(2);
+
+    const everyOffset = Array.from({ length: MAX_PAISE_OFFSET + 1 }, (_, i) => 25000 + i);
+    expect(choosePaiseOffset(25000, everyOffset)).toBe(0);
+  });
+
+  it('should build a UPI link with no amount for the printed code', () => {
+    const link = generateUPIString({ payeeAddress: 'shop@okaxis', payeeName: 'Asha Stores' });
+
+    expect(link).not.toContain('am=');
+    expect(parseUpiLink(link)).toMatchObject({ payeeAddress: 'shop@okaxis', currency: 'INR' });
+    expect(parseUpiLink(link).amountPaise).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * UPI App Registry Tests
+ *
+ * Tests platform detection, the links that open each app on Android, iOS and in
+ * API responses, registry validation, the switches carried over from system settings,
+ * and recording the app a customer chose.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/db/connection', () => ({
+  connectDB: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/db/models/Settings', () => ({
+  SettingsModel: {
+    getValue: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/Order', () => ({
+  OrderModel: {
+    updateOne: jest.fn(),
+    exists: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/utils/rate-limit', () => ({
+  RATE_LIMIT_CONFIGS: { payment: {} },
+  rateLimit: jest.fn(async () => ({ success: true })),
+}));
+
+import { POST as recordUpiApp } from '@/app/api/orders/[orderId]/upi-app/route';
+import { OrderModel } from '@/lib/db/models/Order';
+import { SettingsModel } from '@/lib/db/models/Settings';
+import {
+  DEFAULT_UPI_APP_SETTINGS,
+  UpiAppSettingsSchema,
+  getEnabledUpiApps,
+} from '@/lib/settings/upi-apps';
+import {
+  DEFAULT_UPI_APPS,
+  buildUpiAppLink,
+  detectPlatform,
+  type UpiApp,
+} from '@/lib/upi-apps/registry';
+import { parseUpiLink } from '@/lib/utils/upi-link';
+import { generateUPIDeepLinks } from '@/lib/utils/upi-utils';
+
+const UPI_LINK = 'upi://pay?pa=shop%40okaxis&pn=Asha%20Stores&am=250.00&cu=INR';
+
+const mockSettingsModel = SettingsModel as unknown as {
+  getValue: jest.Mock<(key: string) => Promise<unknown>>;
+};
+
+const mockOrderModel = OrderModel as unknown as {
+  updateOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+
+function chooseApp(body: string) {
+  return recordUpiApp(
+    new NextRequest('http://localhost/api/orders/ORD_1/upi-app', { method: 'POST', body }),
+    { params: Promise.resolve({ orderId: 'ORD_1' }) },
+  );
+}
+
+function app(id: string): UpiApp {
+  const found = DEFAULT_UPI_APPS.find((candidate) => candidate.id === id);
+  if (!found) throw new Error(`No default app ${id}`);
+  return found;
+}
+
+describe('UPI app registry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('detects the platform from the user agent', () => {
+    expect(
+      detectPlatform(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/129.0 Mobile Safari/537.36',
+      ),
+    ).toBe('android');
+    expect(
+      detectPlatform(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148',
+      ),
+    ).toBe('ios');
+    expect(
+      detectPlatform('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/129.0'),
+    ).toBe('desktop');
+    expect(detectPlatform(null)).toBe('desktop');
+  });
+
+  it('sends Android payments to the app package with a Play Store fallback', () => {
+    const link = buildUpiAppLink(app('phonepe'), UPI_LINK, 'android');
+
+    expect(link).toBe(
+      'intent://pay?pa=shop%40okaxis&pn=Asha%20Stores&am=250.00&cu=INR' +
+        '#Intent;scheme=upi;package=com.phonepe.app;S.browser_fallback_url=' +
+        encodeURIComponent('https://play.google.com/store/apps/details?id=com.phonepe.app') +
+        ';end',
+    );
+  });
+
+  it('opens app schemes on iOS and leaves the generic app as upi://pay', () => {
+    expect(buildUpiAppLink(app('gpay'), UPI_LINK, 'ios')).toBe(
+      'tez://upi/pay?pa=shop%40okaxis&pn=Asha%20Stores&am=250.00&cu=INR',
+    );
+    expect(buildUpiAppLink(app('upi'), UPI_LINK, 'android')).toBe(UPI_LINK);
+  });
+
+  it('builds API deep links for the given apps only', () => {
+    const links = generateUPIDeepLinks(UPI_LINK, [app('paytm'), app('bhim')]);
+
+    expect(links).toEqual({
+      paytm: 'paytmmp://pay?pa=shop%40okaxis&pn=Asha%20Stores&am=250.00&cu=INR',
+      bhim: 'bhim://pay?pa=shop%40okaxis&pn=Asha%20Stores&am=250.00&cu=INR',
+      generic: UPI_LINK,
+    });
+  });
+
+  it('parses links in every default app scheme', () => {
+    for (const link of Object.values(generateUPIDeepLinks(UPI_LINK))) {
+      expect(parseUpiLink(link).payeeAddress).toBe('shop@okaxis');
+    }
+  });
+
+  it('validates the registry', () => {
+    expect(UpiAppSettingsSchema.safeParse(DEFAULT_UPI_APP_SETTINGS).success).toBe(true);
+    expect(UpiAppSettingsSchema.safeParse({ apps: [] }).success).toBe(false);
+    expect(
+      UpiAppSettingsSchema.safeParse({ apps: [app('gpay'), { ...app('phonepe'), id: 'gpay' }] })
+        .success,
+    ).toBe(false);
+    expect(
+      UpiAppSettingsSchema.safeParse({ apps: [{ ...app('gpay'), scheme: 'javascript:alert(1)' }] })
+        .success,
+    ).toBe(false);
+    expect(
+      UpiAppSettingsSchema.safeParse({ apps: [{ ...app('gpay'), logo: 'javascript:alert(1)' }] })
+        .success,
+    ).toBe(false);
+  });
+
+  it('applies the older system settings switches until the registry is saved', async () => {
+    mockSettingsModel.getValue.mockImplementation(async (key) =>
+      key === 'system'
+        ? { enabledUpiApps: { gpay: true, phonepe: false, paytm: true, bhim: false } }
+        : null,
+    );
+
+    const apps = await getEnabledUpiApps();
+
+    expect(apps.map((enabled) => enabled.id)).toEqual(['gpay', 'paytm', 'upi']);
+  });
+
+  it('offers the saved registry in its order', async () => {
+    mockSettingsModel.getValue.mockImplementation(async (key) =>
+      key === 'upi-apps'
+        ? { apps: [app('upi'), { ...app('gpay'), enabled: false }, app('phonepe')] }
+        : null,
+    );
+
+    const apps = await getEnabledUpiApps();
+
+    expect(apps.map((enabled) => enabled.id)).toEqual(['upi', 'phonepe']);
+  });
+});
+
+describe('UPI app choice', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSettingsModel.getValue.mockResolvedValue(null);
+  });
+
+  it('records the app on a pending order', async () => {
+    mockOrderModel.updateOne.mockResolvedValue({ matchedCount: 1 });
+
+    const response = await chooseApp(JSON.stringify({ appId: 'phonepe', platform: 'android' }));
+
+    expect(response.status).toBe(200);
+    expect(mockOrderModel.updateOne).toHaveBeenCalledWith(
+      { orderId: 'ORD_1', status: 'pending' },
+      { $set: { upiApp: expect.objectContaining({ appId: 'phonepe', platform: 'android' }) } },
+    );
+  });
+
+  it('rejects an empty or malformed body as invalid input', async () => {
+    for (const body of ['', '{"appId":']) {
+      const response = await chooseApp(body);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'VALIDATION_ERROR' });
+    }
+    expect(mockOrderModel.updateOne).not.toHaveBeenCalled();
+  });
+});
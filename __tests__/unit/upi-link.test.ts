@@ -0,0 +1,132 @@
+/**
+ * UPI Link Tests
+ *
+ * Tests building and parsing upi://pay links: parameter order and encoding,
+ * validation errors, round trips and links scanned from other apps' QR codes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { UpiLinkError, buildUpiLink, parseUpiLink, toUpiText } from '@/lib/utils/upi-link';
+import { generateUPIString } from '@/lib/utils/upi-utils';
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(UpiLinkError);
+    return (error as UpiLinkError).issues;
+  }
+  throw new Error('Expected a UpiLinkError');
+}
+
+describe('UPI links', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.MERCHANT_CODE;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should build links in specification order with INR by default', () => {
+    expect(
+      buildUpiLink({
+        payeeAddress: 'shop@okaxis',
+        payeeName: 'Asha Stores',
+        merchantCode: '5411',
+        transactionRef: 'ord_m1abc2de_x7k9p2',
+        transactionNote: 'Order #42 & more',
+        amountPaise: 150050,
+        mode: '01',
+        purpose: '00',
+      }),
+    ).toBe(
+      'upi://pay?pa=shop%40okaxis&pn=Asha%20Stores&mc=5411&tr=ord_m1abc2de_x7k9p2' +
+        '&tn=Order%20%2342%20%26%20more&am=1500.50&cu=INR&mode=01&purpose=00',
+    );
+  });
+
+  it('should list every invalid parameter', () => {
+    const issues = issuesOf(() =>
+      buildUpiLink({
+        payeeAddress: 'not-a-vpa',
+        payeeName: '',
+        merchantCode: 'UPI001',
+        transactionRef: 'a'.repeat(36),
+        amountPaise: 10000,
+        minimumAmountPaise: 20000,
+        url: 'ftp://example.com',
+      }),
+    );
+
+    expect(issues.map((issue) => issue.param)).toEqual(['pa', 'pn', 'mc', 'tr', 'url', 'mam']);
+    expect(issues.find((issue) => issue.param === 'tr')?.message).toBe(
+      'must be at most 35 characters',
+    );
+  });
+
+  it('should parse what it builds', () => {
+    const link = {
+      payeeAddress: 'shop@okaxis',
+      payeeName: 'Asha Stores',
+      transactionNote: 'Rent + deposit',
+      amountPaise: 2500000,
+      minimumAmountPaise: 100000,
+      currency: 'INR' as const,
+      url: 'https://example.com/o/1',
+      orgId: '000000',
+      merchantId: 'ASHA01',
+    };
+
+    expect(parseUpiLink(buildUpiLink(link))).toEqual(link);
+  });
+
+  it('should parse QR payloads from other apps', () => {
+    expect(
+      parseUpiLink('  tez://upi/pay?PA=Shop@OkAxis&pn=Asha+Stores&AM=99.5&sign=abc%3D%3D&tn=  \n'),
+    ).toEqual({
+      payeeAddress: 'Shop@OkAxis',
+      payeeName: 'Asha Stores',
+      amountPaise: 9950,
+      extras: { sign: 'abc==' },
+    });
+  });
+
+  it('should reject malformed links', () => {
+    expect(issuesOf(() => parseUpiLink('https://pay.example.com?pa=a@b'))).toEqual([
+      { param: 'scheme', message: 'must be a upi://pay link' },
+    ]);
+    expect(
+      issuesOf(() => parseUpiLink('upi://pay?pa=a@b&pn=A&pa=c@d&am=1,000&cu=USD&tn=%E0%A4')),
+    ).toEqual([
+      { param: 'pa', message: 'appears more than once' },
+      { param: 'tn', message: 'is not valid percent-encoding' },
+      { param: 'am', message: 'must be an amount like 1500.50' },
+      { param: 'cu', message: 'must be INR' },
+    ]);
+  });
+
+  it('should fit merchant text into pn and tn', () => {
+    expect(toUpiText('  Café  Déjà vu ✨ ', 99)).toBe('Cafe Deja vu');
+    expect(toUpiText('x'.repeat(100), 80)).toHaveLength(80);
+
+    process.env.MERCHANT_CODE = '5411';
+    const link = parseUpiLink(
+      generateUPIString({
+        payeeAddress: 'shop@okaxis',
+        payeeName: 'आशा स्टोर्स',
+        amount: 10,
+        transactionNote: 'चाय ☕ x2',
+        transactionRef: 'ord_m1abc2de_x7k9p2',
+      }),
+    );
+    expect(link).toMatchObject({
+      payeeName: 'shop@okaxis',
+      transactionNote: 'x2',
+      merchantCode: '5411',
+      currency: 'INR',
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * UTR Risk Check Tests
+ *
+ * Tests decoding the issue time embedded in UPI references, comparing it with
+ * the order a UTR is submitted for, blocklist value normalization and how an
+ * amount is compared with the merchant's history.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('@/lib/db/models/Order', () => ({
+  PAID_ORDER_STATUSES: ['completed', 'partially-refunded', 'refunded'],
+  OrderModel: {
+    aggregate: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/RiskBlocklist', () => ({
+  ...jest.requireActual<object>('@/lib/db/models/RiskBlocklist'),
+  RiskBlocklistModel: {
+    findMatches: jest.fn(async () => []),
+  },
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: {},
+  REDIS_KEYS: {},
+}));
+
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { assessUtrSubmission } from '@/lib/risk/engine';
+import { checkUtrDate, decodeUtrTimestamp } from '@/lib/risk/utr-date';
+import { normalizeBlocklistValue } from '@/lib/db/models/RiskBlocklist';
+
+const mockOrderModel = OrderModel as unknown as {
+  aggregate: jest.Mock<(...args: unknown[]) => Promise<unknown[]>>;
+};
+
+// 15 Dec 2024, 10:00 IST
+const ORDER_CREATED_AT = new Date('2024-12-15T04:30:00Z');
+const SUBMITTED_AT = new Date('2024-12-15T04:45:00Z');
+
+describe('UTR Risk Checks', () => {
+  describe('decodeUtrTimestamp', () => {
+    it('should decode the year digit, day of year and IST hour', () => {
+      expect(decodeUtrTimestamp('435010123456', SUBMITTED_AT)).toEqual(
+        new Date('2024-12-15T04:30:00Z'),
+      );
+    });
+
+    it('should take the latest matching year that is not in the future', () => {
+      expect(decodeUtrTimestamp('535010123456', SUBMITTED_AT)?.getUTCFullYear()).toBe(2015);
+    });
+
+    it('should return null for references that are not a valid date', () => {
+      expect(decodeUtrTimestamp('ABC123456789', SUBMITTED_AT)).toBeNull();
+      expect(decodeUtrTimestamp('437010123456', SUBMITTED_AT)).toBeNull();
+      expect(decodeUtrTimestamp('435025123456', SUBMITTED_AT)).toBeNull();
+    });
+  });
+
+  describe('checkUtrDate', () => {
+    it('should accept a UTR issued in the hour the order was created', () => {
+      expect(checkUtrDate('435010123456', ORDER_CREATED_AT, SUBMITTED_AT).consistent).toBe(true);
+    });
+
+    it('should flag a UTR issued days before the order', () => {
+      const check = checkUtrDate('434010123456', ORDER_CREATED_AT, SUBMITTED_AT);
+
+      expect(check.consistent).toBe(false);
+      expect(!check.consistent && check.reason).toContain('before the order was created');
+    });
+
+    it('should flag a UTR dated after it was submitted', () => {
+      const check = checkUtrDate('435014123456', ORDER_CREATED_AT, SUBMITTED_AT);
+
+      expect(check.consistent).toBe(false);
+      expect(!check.consistent && check.reason).toContain('after it was submitted');
+    });
+
+    it('should not judge references it cannot decode', () => {
+      expect(checkUtrDate('HDFC00012345', ORDER_CREATED_AT, SUBMITTED_AT)).toEqual({
+        consistent: true,
+        issuedAt: null,
+      });
+    });
+  });
+
+  describe('normalizeBlocklistValue', () => {
+    it('should compare phones by their last ten digits', () => {
+      expect(normalizeBlocklistValue('phone', '+91 98765-43210')).toBe('9876543210');
+    });
+
+    it('should ignore case for emails and UTRs', () => {
+      expect(normalizeBlocklistValue('email', ' Fraud@Example.com ')).toBe('fraud@example.com');
+      expect(normalizeBlocklistValue('utr', 'hdfc0001')).toBe('HDFC0001');
+    });
+  });
+
+  describe('amount history', () => {
+    // ₹500 on average, within ₹10 either way, at most ₹600
+    const history = { count: 12, averagePaise: 50000, deviationPaise: 1000, maxPaise: 60000 };
+
+    function assess(amountPaise: number) {
+      return assessUtrSubmission({
+        order: {
+          orderId: 'ord_1',
+          createdBy: 'merchant_1',
+          amountPaise,
+          createdAt: ORDER_CREATED_AT,
+        } as unknown as OrderDocument,
+        utr: 'HDFC00012345',
+        ipAddress: 'unknown',
+        submittedAt: SUBMITTED_AT,
+      });
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockOrderModel.aggregate.mockResolvedValue([history]);
+    });
+
+    it('should compare amounts in paise', async () => {
+      const assessment = await assess(200001);
+
+      expect(assessment.signals).toEqual([
+        {
+          code: 'UNUSUAL_AMOUNT',
+          weight: 30,
+          detail: "₹2,000.01 is well above this merchant's usual ₹500.00 (largest recent ₹600.00)",
+        },
+      ]);
+      expect(JSON.stringify(mockOrderModel.aggregate.mock.calls[0][0])).toContain('$amountPaise');
+    });
+
+    it('should not flag an amount at twice the average', async () => {
+      expect((await assess(100000)).signals).toEqual([]);
+    });
+
+    it('should need enough history to judge', async () => {
+      mockOrderModel.aggregate.mockResolvedValue([{ ...history, count: 9 }]);
+
+      expect((await assess(500000)).signals).toEqual([]);
+    });
+  });
+});
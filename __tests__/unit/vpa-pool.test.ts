@@ -0,0 +1,197 @@
+/**
+ * UPI ID Pool Tests
+ *
+ * Tests daily cap accounting in IST, how each routing strategy orders a
+ * merchant's UPI IDs, that orders move on when a UPI ID is full, and that
+ * capacity is given back when the order it was reserved for isn't saved.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('@/lib/db/models/MerchantVpa', () => ({
+  VPA_PATTERN: /^[\w.-]+@[\w.-]+$/,
+  MerchantVpaModel: {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/db/models/User', () => ({
+  UserModel: {
+    findById: jest.fn(),
+  },
+}));
+
+import { MerchantVpaModel, type MerchantVpaDocument } from '@/lib/db/models/MerchantVpa';
+import { UserModel } from '@/lib/db/models/User';
+import { assignOrderPayee, rankVpas, releaseAssignedPayee } from '@/lib/vpas/pool';
+import { hasCapacity, usageDay, usedShare } from '@/lib/vpas/usage';
+
+const OWNER_ID = '64b7f0c2a1b2c3d4e5f60718';
+const TODAY = '2024-12-15';
+
+const mockVpaModel = MerchantVpaModel as unknown as {
+  find: jest.Mock<(...args: unknown[]) => unknown>;
+  updateOne: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+const mockUserModel = UserModel as unknown as {
+  findById: jest.Mock<(...args: unknown[]) => unknown>;
+};
+
+type TestVpa = Pick<
+  MerchantVpaDocument,
+  | 'vpa'
+  | 'payeeName'
+  | 'isActive'
+  | 'dailyAmountLimitPaise'
+  | 'dailyCountLimit'
+  | 'usage'
+  | 'lastAssignedAt'
+> & { _id: string };
+
+function vpa(address: string, overrides: Partial<TestVpa> = {}): TestVpa {
+  return {
+    _id: address,
+    vpa: address,
+    payeeName: address.split('@')[0],
+    isActive: true,
+    usage: { amountPaise: 0, count: 0 },
+    ...overrides,
+  };
+}
+
+function mockPreferences(preferences: Record<string, unknown>) {
+  mockUserModel.findById.mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve({ preferences }) }),
+  });
+}
+
+describe('UPI ID pool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should count usage against the day in IST', () => {
+    // 20:00 UTC is already the next day in India
+    expect(usageDay(new Date('2024-12-14T20:00:00Z'))).toBe('2024-12-15');
+    expect(usageDay(new Date('2024-12-14T18:00:00Z'))).toBe('2024-12-14');
+  });
+
+  it('should check both caps and ignore usage from earlier days', () => {
+    const capped = vpa('shop@okaxis', {
+      dailyAmountLimitPaise: 100000,
+      dailyCountLimit: 5,
+      usage: { date: TODAY, amountPaise: 90000, count: 2 },
+    });
+
+    expect(hasCapacity(capped, 10000, TODAY)).toBe(true);
+    expect(hasCapacity(capped, 10001, TODAY)).toBe(false);
+    expect(hasCapacity(capped, 10001, '2024-12-16')).toBe(true);
+    expect(usedShare(capped, TODAY)).toBeCloseTo(0.9);
+
+    const fullByCount = vpa('shop@okaxis', {
+      dailyCountLimit: 2,
+      usage: { date: TODAY, amountPaise: 500, count: 2 },
+    });
+    expect(hasCapacity(fullByCount, 1, TODAY)).toBe(false);
+  });
+
+  it('should rank UPI IDs by the routing strategy, skipping disabled and full ones', () => {
+    const vpas = [
+      vpa('a@okaxis', {
+        dailyAmountLimitPaise: 100000,
+        usage: { date: TODAY, amountPaise: 50000, count: 1 },
+        lastAssignedAt: new Date('2024-12-15T09:00:00Z'),
+      }),
+      vpa('b@ybl', {
+        dailyAmountLimitPaise: 100000,
+        usage: { date: TODAY, amountPaise: 10000, count: 1 },
+        lastAssignedAt: new Date('2024-12-15T10:00:00Z'),
+      }),
+      vpa('c@ibl', { lastAssignedAt: new Date('2024-12-15T08:00:00Z') }),
+      vpa('off@paytm', { isActive: false }),
+      vpa('full@okicici', {
+        dailyCountLimit: 1,
+        usage: { date: TODAY, amountPaise: 100, count: 1 },
+      }),
+    ];
+    const rank = (vpaRouting: 'default' | 'round-robin' | 'least-used', preferredVpa?: string) =>
+      rankVpas([...vpas], 20000, {
+        vpaRouting,
+        defaultUpiId: 'b@ybl',
+        preferredVpa,
+        day: TODAY,
+      }).map((item) => item.vpa);
+
+    expect(rank('default')).toEqual(['b@ybl', 'a@okaxis', 'c@ibl']);
+    expect(rank('default', 'c@ibl')).toEqual(['c@ibl', 'b@ybl', 'a@okaxis']);
+    expect(rank('round-robin')).toEqual(['c@ibl', 'a@okaxis', 'b@ybl']);
+    expect(rank('least-used')).toEqual(['c@ibl', 'b@ybl', 'a@okaxis']);
+  });
+
+  it('should move on when another order fills a UPI ID first', async () => {
+    mockVpaModel.find.mockReturnValue({
+      sort: () => Promise.resolve([vpa('first@okaxis'), vpa('second@ybl')]),
+    });
+    mockPreferences({ defaultUpiId: 'first@okaxis', vpaRouting: 'default' });
+    mockVpaModel.updateOne
+      .mockResolvedValueOnce({ modifiedCount: 0 })
+      .mockResolvedValueOnce({ modifiedCount: 1 });
+
+    await expect(assignOrderPayee(OWNER_ID, 50000)).resolves.toEqual({
+      upiId: 'second@ybl',
+      payeeName: 'second',
+      reserved: true,
+    });
+    expect(mockVpaModel.updateOne).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when every UPI ID is disabled or full', async () => {
+    mockVpaModel.find.mockReturnValue({
+      sort: () =>
+        Promise.resolve([
+          vpa('off@okaxis', { isActive: false }),
+          vpa('full@ybl', { dailyAmountLimitPaise: 1000 }),
+        ]),
+    });
+    mockPreferences({ vpaRouting: 'least-used' });
+
+    await expect(assignOrderPayee(OWNER_ID, 5000)).rejects.toMatchObject({
+      code: 'VPA_POOL_EXHAUSTED',
+    });
+    expect(mockVpaModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should give back a reservation on the day it was made', async () => {
+    mockVpaModel.find.mockReturnValue({
+      sort: () => Promise.resolve([vpa('shop@okaxis')]),
+    });
+    mockPreferences({ vpaRouting: 'default' });
+    mockVpaModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+    const payee = await assignOrderPayee(OWNER_ID, 25000);
+    await releaseAssignedPayee(OWNER_ID, payee, 25000);
+
+    expect(mockVpaModel.updateOne).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        ownerId: OWNER_ID,
+        vpa: 'shop@okaxis',
+        'usage.date': usageDay(new Date()),
+      }),
+      { $inc: { 'usage.amountPaise': -25000, 'usage.count': -1 } },
+    );
+  });
+
+  it('should not release anything for the fallback payee', async () => {
+    mockVpaModel.find.mockReturnValue({ sort: () => Promise.resolve([]) });
+
+    const payee = await assignOrderPayee(OWNER_ID, 25000, {
+      fallback: { upiId: 'link@okaxis', payeeName: 'Link' },
+    });
+    await releaseAssignedPayee(OWNER_ID, payee, 25000);
+
+    expect(payee).toEqual({ upiId: 'link@okaxis', payeeName: 'Link', reserved: false });
+    expect(mockVpaModel.updateOne).not.toHaveBeenCalled();
+  });
+});
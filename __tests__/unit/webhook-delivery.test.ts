@@ -0,0 +1,166 @@
+/**
+ * Webhook Delivery Tests
+ *
+ * Tests that webhook URLs can't reach private or internal addresses, either
+ * directly or through DNS, that test deliveries use the real event payloads,
+ * and that scheduled retries stop before the cron run's deadline.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('node:dns/promises', () => ({
+  lookup: jest.fn(),
+}));
+
+jest.mock('@/lib/db/connection', () => ({
+  connectDB: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/db/models/WebhookDelivery', () => ({
+  WebhookDeliveryModel: {
+    findDueDeliveries: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+
+import { lookup } from 'node:dns/promises';
+import { WebhookDeliveryModel } from '@/lib/db/models/WebhookDelivery';
+import { buildTestEventData, retryDueDeliveries } from '@/lib/webhooks/dispatcher';
+import { CreateWebhookSchema } from '@/lib/webhooks/management';
+import {
+  assertPublicWebhookUrl,
+  isPrivateAddress,
+  isPublicWebhookUrl,
+} from '@/lib/webhooks/url-safety';
+
+const mockLookup = lookup as unknown as jest.Mock<
+  (hostname: string, options: unknown) => Promise<Array<{ address: string; family: number }>>
+>;
+
+const mockDeliveryModel = WebhookDeliveryModel as unknown as {
+  findDueDeliveries: jest.Mock<(limit?: number) => Promise<unknown[]>>;
+  findOneAndUpdate: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+};
+
+describe('Webhook URL safety', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('flags loopback, private, link-local and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.10',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00:ec2::254',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+    ]) {
+      expect({ address, private: isPrivateAddress(address) }).toEqual({ address, private: true });
+    }
+
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+
+  it('rejects internal hosts when a webhook is registered', () => {
+    for (const url of [
+      'http://localhost:3000/hook',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://metadata.google.internal/computeMetadata/v1/',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'http://2130706433/hook',
+    ]) {
+      expect({ url, public: isPublicWebhookUrl(url) }).toEqual({ url, public: false });
+    }
+
+    expect(isPublicWebhookUrl('https://hooks.example.com/upi')).toBe(true);
+    expect(
+      CreateWebhookSchema.safeParse({ url: 'http://10.0.0.5/hook', events: ['order.created'] })
+        .success,
+    ).toBe(false);
+  });
+
+  it('refuses to send to a host that resolves to a private address', async () => {
+    mockLookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.7', family: 4 },
+    ]);
+
+    await expect(assertPublicWebhookUrl('https://rebind.example.com/hook')).rejects.toThrow(
+      'resolves to a private or internal address',
+    );
+  });
+
+  it('sends to hosts that only resolve to public addresses', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+
+    await expect(assertPublicWebhookUrl('https://hooks.example.com/upi')).resolves.toBeUndefined();
+    expect(mockLookup).toHaveBeenCalledWith('hooks.example.com', { all: true });
+  });
+});
+
+describe('Webhook test deliveries', () => {
+  it('sends an order in the status the event implies', () => {
+    const data = buildTestEventData('order.utr_submitted');
+
+    expect(data).toMatchObject({
+      test: true,
+      orderId: 'ord_test_000000',
+      amount: 1,
+      status: 'pending-verification',
+      utrNumber: '000000000000',
+      refundedAmount: 0,
+    });
+    expect(buildTestEventData('order.refunded')).toMatchObject({
+      status: 'refunded',
+      refundedAmount: 1,
+    });
+  });
+
+  it('wraps the order in the payment link payload for payment_link.used', () => {
+    const data = buildTestEventData('payment_link.used');
+
+    expect(data).toMatchObject({
+      test: true,
+      linkId: 'link_test_000000',
+      usageCount: 1,
+      order: { orderId: 'ord_test_000000', status: 'pending', paymentLinkId: 'link_test_000000' },
+    });
+  });
+});
+
+describe('Scheduled webhook retries', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves deliveries for the next run once an attempt could overrun the deadline', async () => {
+    let now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockDeliveryModel.findDueDeliveries.mockResolvedValue([
+      { deliveryId: 'del_1' },
+      { deliveryId: 'del_2' },
+      { deliveryId: 'del_3' },
+    ]);
+    // Each attempt takes 6s; another worker already claimed the delivery
+    mockDeliveryModel.findOneAndUpdate.mockImplementation(async () => {
+      now += 6000;
+      return null;
+    });
+
+    const result = await retryDueDeliveries(now + 15000);
+
+    // The second attempt could time out 10s later, after the deadline
+    expect(result).toEqual({ attempted: 1, rescheduled: 0, deferred: 2 });
+    expect(mockDeliveryModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+});
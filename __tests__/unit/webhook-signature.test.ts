@@ -0,0 +1,82 @@
+/**
+ * Webhook Signature Tests
+ *
+ * Tests HMAC-SHA256 signing of webhook deliveries and the receiver-side
+ * verification helper, including timestamp tolerance.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  SIGNATURE_TOLERANCE_SECONDS,
+} from '@/lib/webhooks/signature';
+import { getOrderStatusEvent } from '@/lib/webhooks/payloads';
+
+describe('Webhook Signatures', () => {
+  const secret = 'whsec_test_secret';
+  const body = JSON.stringify({ id: 'whd_1', event: 'order.completed', data: { orderId: 'ord_1' } });
+  const now = 1_700_000_000_000;
+  const timestamp = Math.floor(now / 1000);
+
+  it('should produce a sha256-prefixed hex signature', () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+
+    expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+  });
+
+  it('should be deterministic for the same inputs', () => {
+    expect(signWebhookPayload(secret, timestamp, body)).toBe(
+      signWebhookPayload(secret, timestamp, body),
+    );
+  });
+
+  it('should change when the timestamp changes', () => {
+    expect(signWebhookPayload(secret, timestamp, body)).not.toBe(
+      signWebhookPayload(secret, timestamp + 1, body),
+    );
+  });
+
+  it('should verify a valid signature', () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+
+    expect(verifyWebhookSignature(secret, timestamp, body, signature, now)).toBe(true);
+  });
+
+  it('should reject a tampered body or wrong secret', () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+
+    expect(verifyWebhookSignature(secret, timestamp, `${body} `, signature, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', timestamp, body, signature, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, timestamp, body, 'sha256=deadbeef', now)).toBe(false);
+  });
+
+  it('should reject timestamps outside the tolerance window', () => {
+    const staleTimestamp = timestamp - SIGNATURE_TOLERANCE_SECONDS - 1;
+    const signature = signWebhookPayload(secret, staleTimestamp, body);
+
+    expect(verifyWebhookSignature(secret, staleTimestamp, body, signature, now)).toBe(false);
+  });
+
+  it('should generate unique prefixed secrets', () => {
+    const first = generateWebhookSecret();
+    const second = generateWebhookSecret();
+
+    expect(first).toMatch(/^whsec_[a-f0-9]{48}$/);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('Webhook Event Mapping', () => {
+  it('should map terminal order statuses to events', () => {
+    expect(getOrderStatusEvent('completed')).toBe('order.completed');
+    expect(getOrderStatusEvent('failed')).toBe('order.failed');
+    expect(getOrderStatusEvent('expired')).toBe('order.expired');
+  });
+
+  it('should not map non-terminal statuses', () => {
+    expect(getOrderStatusEvent('pending')).toBeNull();
+    expect(getOrderStatusEvent('pending-verification')).toBeNull();
+  });
+});
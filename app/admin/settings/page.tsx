@@ -3,8 +3,13 @@ import { SidebarTrigger } from '@/components/ui/sidebar';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SystemSettings } from '@/components/settings/system-settings';
+import { UpiAppSettings } from '@/components/settings/upi-app-settings';
 import { SecuritySettings } from '@/components/settings/security-settings';
-import { Cog, Lock } from 'lucide-react';
+import { MessagingSettings } from '@/components/settings/messaging-settings';
+import { WebhooksManager } from '@/components/webhooks/webhooks-manager';
+import { VpaManager } from '@/components/vpas/vpa-manager';
+import { VpaReview } from '@/components/vpas/vpa-review';
+import { Cog, Lock, MessageSquare, Wallet, Webhook } from 'lucide-react';
 
 export default function SettingsPage() {
   return (
@@ -28,7 +33,7 @@ export default function SettingsPage() {
         <div className="max-w-6xl mx-auto">
           <Tabs defaultValue="system" className="space-y-8">
             <div className="flex items-center justify-center">
-              <TabsList className="grid w-full max-w-lg grid-cols-2 bg-white border border-gray-200 shadow-lg">
+              <TabsList className="grid w-full max-w-4xl grid-cols-5 bg-white border border-gray-200 shadow-lg">
                 <TabsTrigger
                   value="system"
                   className="gap-2 data-[state=active]:bg-purple-100 data-[state=active]:text-purple-700 data-[state=active]:border-purple-300"
@@ -43,6 +48,27 @@ export default function SettingsPage() {
                   <Lock className="h-4 w-4" />
                   Security & Privacy
                 </TabsTrigger>
+                <TabsTrigger
+                  value="messaging"
+                  className="gap-2 data-[state=active]:bg-purple-100 data-[state=active]:text-purple-700 data-[state=active]:border-purple-300"
+                >
+                  <MessageSquare className="h-4 w-4" />
+                  Messaging
+                </TabsTrigger>
+                <TabsTrigger
+                  value="webhooks"
+                  className="gap-2 data-[state=active]:bg-purple-100 data-[state=active]:text-purple-700 data-[state=active]:border-purple-300"
+                >
+                  <Webhook className="h-4 w-4" />
+                  Webhooks
+                </TabsTrigger>
+                <TabsTrigger
+                  value="vpas"
+                  className="gap-2 data-[state=active]:bg-purple-100 data-[state=active]:text-purple-700 data-[state=active]:border-purple-300"
+                >
+                  <Wallet className="h-4 w-4" />
+                  UPI IDs
+                </TabsTrigger>
               </TabsList>
             </div>
 
@@ -50,6 +76,9 @@ export default function SettingsPage() {
               <div className="bg-white rounded-lg shadow-lg border border-gray-200">
                 <SystemSettings />
               </div>
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+                <UpiAppSettings />
+              </div>
             </TabsContent>
 
             <TabsContent value="security" className="space-y-6">
@@ -57,6 +86,27 @@ export default function SettingsPage() {
                 <SecuritySettings />
               </div>
             </TabsContent>
+
+            <TabsContent value="messaging" className="space-y-6">
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+                <MessagingSettings />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="webhooks" className="space-y-6">
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+                <WebhooksManager />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="vpas" className="space-y-6">
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+                <VpaReview />
+              </div>
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+                <VpaManager />
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/db/connection';
 import { getUserFromSession } from '@/lib/auth/session-edge';
-import { OrderModel } from '@/lib/db/models/Order';
+import { NET_REVENUE_EXPRESSION, OrderModel, PAID_ORDER_STATUSES } from '@/lib/db/models/Order';
+import { fromPaise } from '@/lib/utils/money';
 import { UserModel } from '@/lib/db/models/User';
 import { AuditLogModel } from '@/lib/db/models/AuditLog';
 import { cookies } from 'next/headers';
@@ -20,6 +21,12 @@ interface TopMerchantItem {
   orders: number;
 }
 
+interface UpiAppStatsItem {
+  _id: string;
+  orders: number;
+  paid: number;
+}
+
 interface MonthlyUserGrowthItem {
   _id: { year: number; month: number };
   users: number;
@@ -93,6 +100,7 @@ export async function GET(_request: NextRequest): Promise<NextResponse> {
         totalUsers: userStatsData.totalUsers,
         totalOrders: analyticsData.totalOrders,
         totalRevenue: analyticsData.totalRevenue,
+        totalRefunded: analyticsData.totalRefunded,
         successRate: analyticsData.conversionRate,
         pendingOrders: analyticsData.pendingOrders,
         completedOrders: analyticsData.completedOrders,
@@ -173,15 +181,25 @@ async function getAdminAnalyticsData() {
       completedOrders,
       pendingOrders,
       failedOrders,
+      paidOrders,
+      refundedOrders,
     ] = await Promise.all([
       OrderModel.aggregate([
-        { $match: { status: 'completed' } },
-        { $group: { _id: null, total: { $sum: '$amount' } } },
+        { $match: { status: { $in: PAID_ORDER_STATUSES } } },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: NET_REVENUE_EXPRESSION },
+            refunded: { $sum: { $ifNull: ['$refundedPaise', 0] } },
+          },
+        },
       ]),
       OrderModel.countDocuments({}),
       OrderModel.countDocuments({ status: 'completed' }),
       OrderModel.countDocuments({ status: 'pending' }),
       OrderModel.countDocuments({ status: 'failed' }),
+      OrderModel.countDocuments({ status: { $in: PAID_ORDER_STATUSES } }),
+      OrderModel.countDocuments({ status: { $in: ['refunded', 'partially-refunded'] } }),
     ]);
 
     // Previous month for growth calculation
@@ -189,18 +207,20 @@ async function getAdminAnalyticsData() {
       OrderModel.aggregate([
         {
           $match: {
-            status: 'completed',
+            status: { $in: PAID_ORDER_STATUSES },
             createdAt: { $gte: lastMonth, $lt: thisMonth },
           },
         },
-        { $group: { _id: null, total: { $sum: '$amount' } } },
+        { $group: { _id: null, total: { $sum: NET_REVENUE_EXPRESSION } } },
       ]),
       OrderModel.countDocuments({
         createdAt: { $gte: lastMonth, $lt: thisMonth },
       }),
     ]);
 
+    // Revenue is summed in paise and only converted to rupees for the response
     const currentRevenue = totalRevenue[0]?.total || 0;
+    const totalRefunded = totalRevenue[0]?.refunded || 0;
     const currentOrders = totalOrders;
     const previousRevenue = lastMonthRevenue[0]?.total || 0;
     const previousOrders = lastMonthOrders;
@@ -213,15 +233,16 @@ async function getAdminAnalyticsData() {
       ? ((currentOrders - previousOrders) / previousOrders) * 100 
       : 0;
 
-    const avgOrderValue = completedOrders > 0 ? currentRevenue / completedOrders : 0;
-    const conversionRate = totalOrders > 0 ? (completedOrders / totalOrders) * 100 : 0;
-    const refundRate = completedOrders > 0 ? (failedOrders / completedOrders) * 100 : 0;
+    // Refunded orders were still paid, so they count towards the average and as converted
+    const avgOrderValue = paidOrders > 0 ? Math.round(currentRevenue / paidOrders) : 0;
+    const conversionRate = totalOrders > 0 ? (paidOrders / totalOrders) * 100 : 0;
+    const refundRate = paidOrders > 0 ? (refundedOrders / paidOrders) * 100 : 0;
 
     // Monthly revenue trend (last 12 months for admin)
     const monthlyRevenue = await OrderModel.aggregate([
       {
         $match: {
-          status: 'completed',
+          status: { $in: PAID_ORDER_STATUSES },
           createdAt: { $gte: new Date(now.getFullYear(), now.getMonth() - 11, 1) },
         },
       },
@@ -231,7 +252,7 @@ async function getAdminAnalyticsData() {
             year: { $year: '$createdAt' },
             month: { $month: '$createdAt' },
           },
-          revenue: { $sum: '$amount' },
+          revenue: { $sum: NET_REVENUE_EXPRESSION },
           orders: { $sum: 1 },
         },
       },
@@ -240,11 +261,11 @@ async function getAdminAnalyticsData() {
 
     // Top merchants
     const topMerchants = await OrderModel.aggregate([
-      { $match: { status: 'completed' } },
+      { $match: { status: { $in: PAID_ORDER_STATUSES } } },
       {
         $group: {
           _id: '$merchantId',
-          revenue: { $sum: '$amount' },
+          revenue: { $sum: NET_REVENUE_EXPRESSION },
           orders: { $sum: 1 },
         },
       },
@@ -274,37 +295,57 @@ async function getAdminAnalyticsData() {
     });
     const otherOrders = totalOrders - upiOrders;
 
+    // Which UPI app customers chose on the payment page, and how many of those orders were paid
+    const upiAppStats = await OrderModel.aggregate([
+      { $match: { upiApp: { $exists: true } } },
+      {
+        $group: {
+          _id: '$upiApp.appId',
+          orders: { $sum: 1 },
+          paid: { $sum: { $cond: [{ $in: ['$status', PAID_ORDER_STATUSES] }, 1, 0] } },
+        },
+      },
+      { $sort: { orders: -1 } },
+    ]);
+
     return {
-      totalRevenue: currentRevenue,
+      totalRevenue: fromPaise(currentRevenue),
+      totalRefunded: fromPaise(totalRefunded),
       totalOrders: currentOrders,
       completedOrders,
       pendingOrders,
       failedOrders,
       revenueGrowth: Math.round(revenueGrowth * 100) / 100,
       orderGrowth: Math.round(orderGrowth * 100) / 100,
-      avgOrderValue: Math.round(avgOrderValue * 100) / 100,
+      avgOrderValue: fromPaise(avgOrderValue),
       conversionRate: Math.round(conversionRate * 100) / 100,
       refundRate: Math.round(refundRate * 100) / 100,
       monthlyRevenue: monthlyRevenue.map((item: MonthlyRevenueItem) => ({
         month: `${item._id.year}-${String(item._id.month).padStart(2, '0')}`,
-        revenue: item.revenue,
+        revenue: fromPaise(item.revenue),
         orders: item.orders,
       })),
       topMerchants: topMerchants.map((merchant: TopMerchantItem) => ({
         id: merchant.id,
         name: merchant.name || 'Unknown Merchant',
-        revenue: merchant.revenue,
+        revenue: fromPaise(merchant.revenue),
         orders: merchant.orders,
       })),
       paymentMethodStats: {
         upi: upiOrders,
         others: otherOrders,
       },
+      upiAppStats: upiAppStats.map((item: UpiAppStatsItem) => ({
+        appId: item._id,
+        orders: item.orders,
+        paid: item.paid,
+      })),
     };
   } catch (error) {
     console.error('[Admin Dashboard] Analytics error:', error);
     return {
       totalRevenue: 0,
+      totalRefunded: 0,
       totalOrders: 0,
       completedOrders: 0,
       pendingOrders: 0,
@@ -317,6 +358,7 @@ async function getAdminAnalyticsData() {
       monthlyRevenue: [],
       topMerchants: [],
       paymentMethodStats: { upi: 0, others: 0 },
+      upiAppStats: [],
     };
   }
 }
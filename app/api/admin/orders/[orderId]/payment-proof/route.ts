@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { getStorage } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+/**
+ * The payment screenshot a customer uploaded with their UTR
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to view payment proofs',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const order = await OrderModel.findOne({ orderId }).select('orderId paymentProof').lean();
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const stored = order.paymentProof && (await getStorage().get(order.paymentProof.storageKey));
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'No payment proof for this order', code: 'PAYMENT_PROOF_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(new Uint8Array(stored.data), {
+      headers: {
+        'Content-Type': order.paymentProof!.contentType,
+        'Content-Length': String(stored.data.length),
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('[Admin API] Payment proof fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch payment proof',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { renderReceiptPdf } from '@/lib/receipts/pdf';
+import {
+  buildReceiptData,
+  issueReceipt,
+  ReceiptError,
+  recordReceiptReprint,
+} from '@/lib/receipts/service';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+export const runtime = 'nodejs';
+
+/**
+ * Reprint an order's receipt. The copy keeps the original number and is marked as
+ * a duplicate; if the customer never downloaded one, the original is issued instead.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to reprint receipts',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const storedOrder = await OrderModel.findOne({ orderId });
+    if (!storedOrder) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const reprint = Boolean(storedOrder.receipt);
+    const order = reprint
+      ? await recordReceiptReprint(storedOrder)
+      : await issueReceipt(storedOrder);
+
+    await createAuditLogFromRequest(
+      request,
+      reprint ? AUDIT_ACTIONS.RECEIPT_REPRINTED : AUDIT_ACTIONS.RECEIPT_ISSUED,
+      'Order',
+      orderId,
+      user.id,
+      user.email,
+      { receiptNumber: order.receipt?.number, reprintCount: order.receipt?.reprintCount },
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+    const data = await buildReceiptData(order, {
+      copy: reprint ? 'reprint' : 'original',
+      baseUrl,
+    });
+    const pdf = await renderReceiptPdf(data);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="receipt-${data.receiptNumber}${reprint ? '-duplicate' : ''}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ReceiptError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'ORDER_NOT_PAID' ? 409 : 500 },
+      );
+    }
+
+    console.error('[Admin API] Receipt reprint error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reprint receipt',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,242 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel, type OrderRefund } from '@/lib/db/models/Order';
+import { OrderTransitionError, transitionOrder } from '@/lib/orders/state-machine';
+import type { OrderStatus } from '@/lib/types';
+import { roleHasPermission } from '@/lib/types/roles';
+import { addPaise, formatINR, fromPaise, subtractPaise, toPaise } from '@/lib/utils/money';
+import { generateRefundId } from '@/lib/utils/upi-utils';
+
+const REFUNDABLE_STATUSES = ['completed', 'partially-refunded'];
+
+const RefundSchema = z.object({
+  // Omit to refund the whole remaining balance
+  amount: z.number().positive('Refund amount must be positive').optional(),
+  reason: z.string().trim().min(3, 'Refund reason is required').max(500),
+  refundUtr: z
+    .string()
+    .trim()
+    .regex(/^[A-Z0-9]{12,22}$/i, 'Refund UTR must be 12-22 alphanumeric characters')
+    .transform((value) => value.toUpperCase()),
+});
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const order = await OrderModel.findOne({ orderId });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    if (user.role !== 'admin' && order.createdBy !== user.id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orderId: order.orderId,
+        status: order.status,
+        amount: order.amount,
+        refundedAmount: order.refundedAmount ?? 0,
+        refundableAmount: fromPaise(subtractPaise(order.amountPaise, order.refundedPaise ?? 0)),
+        refunds: order.refunds ?? [],
+      },
+    });
+  } catch (error) {
+    console.error('[Refunds API] Error fetching refunds:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch refunds',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'process_refunds')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to process refunds',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = RefundSchema.parse(body);
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const order = await OrderModel.findOne({ orderId });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const previousStatus = order.status;
+    if (!REFUNDABLE_STATUSES.includes(previousStatus)) {
+      return NextResponse.json(
+        {
+          error: `Only completed orders can be refunded (order is '${previousStatus}')`,
+          code: 'ORDER_NOT_REFUNDABLE',
+        },
+        { status: 400 },
+      );
+    }
+
+    const amountPaise = order.amountPaise;
+    const alreadyRefundedPaise = order.refundedPaise ?? 0;
+    const remainingPaise = subtractPaise(amountPaise, alreadyRefundedPaise);
+    const refundPaise =
+      validatedData.amount !== undefined ? toPaise(validatedData.amount) : remainingPaise;
+
+    if (refundPaise <= 0 || refundPaise > remainingPaise) {
+      return NextResponse.json(
+        {
+          error: `Refund amount must be between ₹0.01 and ${formatINR(remainingPaise)}`,
+          code: 'REFUND_EXCEEDS_BALANCE',
+          refundableAmount: fromPaise(remainingPaise),
+        },
+        { status: 400 },
+      );
+    }
+
+    const duplicateUtr = await OrderModel.exists({ 'refunds.refundUtr': validatedData.refundUtr });
+    if (duplicateUtr) {
+      return NextResponse.json(
+        {
+          error: 'This refund UTR has already been recorded',
+          code: 'REFUND_UTR_EXISTS',
+        },
+        { status: 409 },
+      );
+    }
+
+    const refund: OrderRefund = {
+      refundId: generateRefundId(),
+      amount: fromPaise(refundPaise),
+      amountPaise: refundPaise,
+      reason: validatedData.reason,
+      refundUtr: validatedData.refundUtr,
+      processedBy: user.id,
+      processedByEmail: user.email,
+      createdAt: new Date(),
+    };
+    const refundedPaise = addPaise(alreadyRefundedPaise, refundPaise);
+    const newStatus: OrderStatus =
+      refundedPaise === amountPaise ? 'refunded' : 'partially-refunded';
+
+    // Guard on updatedAt so two admins refunding at once can't both pass the balance check
+    const updatedOrder = await transitionOrder(order, newStatus, {
+      actor: { type: 'user', id: user.id, email: user.email },
+      reason: refund.reason,
+      set: { refundedPaise, refundedAmount: fromPaise(refundedPaise) },
+      push: { refunds: refund },
+      match: { updatedAt: order.updatedAt },
+      audit: {
+        request,
+        metadata: {
+          refundId: refund.refundId,
+          refundAmount: refund.amount,
+          refundUtr: refund.refundUtr,
+          orderAmount: order.amount,
+          refundedAmount: fromPaise(refundedPaise),
+        },
+      },
+      webhookData: {
+        refund: {
+          refundId: refund.refundId,
+          amount: refund.amount,
+          reason: refund.reason,
+          refundUtr: refund.refundUtr,
+          createdAt: refund.createdAt.toISOString(),
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message:
+          newStatus === 'refunded'
+            ? 'Order fully refunded'
+            : `Refunded ${formatINR(refundPaise)} of ${formatINR(amountPaise)}`,
+        data: {
+          orderId: updatedOrder.orderId,
+          status: updatedOrder.status,
+          previousStatus,
+          refundedAmount: updatedOrder.refundedAmount,
+          refundableAmount: fromPaise(subtractPaise(amountPaise, refundedPaise)),
+          refund,
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        {
+          error:
+            error.code === 'CONCURRENT_UPDATE'
+              ? 'Order was modified while processing the refund. Please retry.'
+              : error.message,
+          code: error.code,
+        },
+        { status: error.httpStatus },
+      );
+    }
+
+    console.error('[Refunds API] Refund error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process refund',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
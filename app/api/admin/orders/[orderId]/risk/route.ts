@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+const RiskHoldSchema = z.object({
+  action: z.enum(['hold', 'release']),
+  reason: z.string().trim().min(3, 'A reason is required').max(500),
+});
+
+/**
+ * Put an order under verification on risk hold, or release a hold so it can be completed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to manage orders',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const { action, reason } = RiskHoldSchema.parse(await request.json());
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const order = await OrderModel.findOne({ orderId });
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const onHold = Boolean(order.risk?.onHold);
+
+    if (action === 'hold' && order.status !== 'pending-verification') {
+      return NextResponse.json(
+        {
+          error: 'Only orders awaiting verification can be held',
+          code: 'INVALID_ORDER_STATUS',
+        },
+        { status: 400 },
+      );
+    }
+
+    if ((action === 'hold') === onHold) {
+      return NextResponse.json(
+        {
+          error: onHold ? 'Order is already on hold' : 'Order is not on hold',
+          code: onHold ? 'ALREADY_ON_HOLD' : 'NOT_ON_HOLD',
+        },
+        { status: 409 },
+      );
+    }
+
+    const update =
+      action === 'release'
+        ? {
+            'risk.onHold': false,
+            'risk.releasedAt': new Date(),
+            'risk.releasedBy': user.id,
+          }
+        : order.risk
+          ? { 'risk.onHold': true, 'risk.holdReason': reason }
+          : {
+              // Orders submitted before risk scoring have no assessment yet
+              risk: {
+                score: 0,
+                level: 'low',
+                signals: [],
+                onHold: true,
+                holdReason: reason,
+                assessedAt: new Date(),
+              },
+            };
+
+    const updated = await OrderModel.findOneAndUpdate(
+      { _id: order._id, 'risk.onHold': onHold ? true : { $ne: true } },
+      { $set: update },
+      { new: true, runValidators: true },
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          error: 'Order was modified by another request. Please retry.',
+          code: 'CONCURRENT_UPDATE',
+        },
+        { status: 409 },
+      );
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      action === 'hold' ? AUDIT_ACTIONS.ORDER_RISK_HELD : AUDIT_ACTIONS.ORDER_RISK_RELEASED,
+      'Order',
+      order.orderId,
+      user.id,
+      user.email,
+      {
+        reason,
+        riskScore: updated.risk?.score,
+        riskLevel: updated.risk?.level,
+      },
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'hold' ? 'Order placed on hold' : 'Hold released',
+      data: {
+        orderId: updated.orderId,
+        status: updated.status,
+        risk: updated.risk,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Admin API] Risk hold error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update risk hold',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
 import { z } from 'zod';
 import { connectDB } from '@/lib/db/connection';
 import { OrderModel } from '@/lib/db/models/Order';
+import { OrderTransitionError, transitionOrder } from '@/lib/orders/state-machine';
 import { createAuditLogFromRequest } from '@/lib/utils/audit';
 
 const StatusUpdateSchema = z.object({
@@ -52,67 +53,34 @@ export async function PATCH(
 
     const previousStatus = order.status;
 
-    // Validate status transition
-    const validTransitions: Record<string, string[]> = {
-      pending: ['pending-verification', 'failed', 'expired'],
-      'pending-verification': ['completed', 'failed'],
-      completed: [], // Final state
-      failed: ['pending', 'pending-verification'],
-      expired: ['pending', 'pending-verification'],
-    };
-
-    if (!validTransitions[previousStatus].includes(validatedData.status)) {
-      return NextResponse.json(
-        {
-          error: `Invalid status transition from '${previousStatus}' to '${validatedData.status}'`,
-          code: 'INVALID_STATUS_TRANSITION',
-        },
-        { status: 400 },
-      );
-    }
-
-    // Update order
-    order.status = validatedData.status;
-    if (validatedData.adminNotes) {
-      order.adminNotes = validatedData.adminNotes;
-    }
-
-    // Set completion timestamp if status is completed
-    if (validatedData.status === 'completed' && previousStatus !== 'completed') {
-      order.completedAt = new Date();
-    }
-
-    order.updatedAt = new Date();
-    await order.save();
-
-    // Create audit log
-    await createAuditLogFromRequest(
-      request,
-      'order_status_updated_by_admin',
-      'Order',
-      order.orderId,
-      user.id,
-      user.email,
-      {
-        previousStatus,
-        newStatus: validatedData.status,
-        adminNotes: validatedData.adminNotes,
-        customerName: order.customerName,
-        amount: order.amount,
-        utrNumber: order.utrNumber,
+    const updatedOrder = await transitionOrder(order, validatedData.status, {
+      actor: { type: 'user', id: user.id, email: user.email },
+      reason: validatedData.adminNotes,
+      set: {
+        ...(validatedData.adminNotes && { adminNotes: validatedData.adminNotes }),
+        ...(validatedData.status === 'completed' && {
+          completedAt: new Date(),
+          verifiedAt: new Date(),
+          verifiedBy: user.id,
+        }),
       },
-    );
+      audit: {
+        request,
+        action: 'order_status_updated_by_admin',
+        metadata: { adminNotes: validatedData.adminNotes },
+      },
+    });
 
     const response = {
       success: true,
       message: 'Order status updated successfully',
       data: {
-        orderId: order.orderId,
-        status: order.status,
+        orderId: updatedOrder.orderId,
+        status: updatedOrder.status,
         previousStatus,
-        updatedAt: order.updatedAt,
+        updatedAt: updatedOrder.updatedAt,
         updatedBy: user.id,
-        adminNotes: order.adminNotes,
+        adminNotes: updatedOrder.adminNotes,
       },
     };
 
@@ -129,6 +97,13 @@ export async function PATCH(
       );
     }
 
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.httpStatus },
+      );
+    }
+
     console.error('[Admin API] Status update error:', error);
 
     // Create security audit log for failed admin operation
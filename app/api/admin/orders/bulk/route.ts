@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import {
+  applyBulkOrderAction,
+  BULK_ORDER_ACTIONS,
+  MAX_BULK_ACTION_ORDERS,
+} from '@/lib/orders/bulk-actions';
+
+const BulkActionSchema = z
+  .object({
+    orderIds: z.array(z.string().min(1)).min(1).max(MAX_BULK_ACTION_ORDERS),
+    action: z.enum(BULK_ORDER_ACTIONS),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.action !== 'note' || Boolean(data.note), {
+    message: 'A note is required',
+    path: ['note'],
+  });
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to manage orders',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const { orderIds, action, note } = BulkActionSchema.parse(await request.json());
+
+    await connectDB();
+
+    const summary = await applyBulkOrderAction(orderIds, action, {
+      actor: { type: 'user', id: user.id, email: user.email },
+      note: note || undefined,
+      request,
+    });
+
+    // Orders that failed a rule are reported per order rather than failing the request
+    return NextResponse.json({
+      success: true,
+      message: `${summary.succeeded} of ${summary.succeeded + summary.failed} orders updated`,
+      data: summary,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Admin API] Bulk order action error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update orders',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { ReconciliationModel } from '@/lib/db/models/Reconciliation';
+import { OrderTransitionError, transitionOrder } from '@/lib/orders/state-machine';
+import { serializeReconciliation } from '@/lib/reconciliation/service';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+const ApproveSchema = z.object({
+  // Omit to approve every outstanding match
+  orderIds: z.array(z.string()).min(1).max(500).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reconciliationId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to reconcile payments',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { orderIds } = ApproveSchema.parse(body);
+
+    await connectDB();
+
+    const { reconciliationId } = await params;
+    const reconciliation = await ReconciliationModel.findByReconciliationId(reconciliationId);
+
+    if (!reconciliation) {
+      return NextResponse.json(
+        { error: 'Reconciliation not found', code: 'RECONCILIATION_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const selected = reconciliation.matched.filter(
+      (match) => !match.approvedAt && (!orderIds || orderIds.includes(match.orderId)),
+    );
+
+    const approved: string[] = [];
+    const failed: Array<{ orderId: string; error: string }> = [];
+
+    for (const match of selected) {
+      const now = new Date();
+      const order = await OrderModel.findOne({ orderId: match.orderId });
+      let approvalError: string | undefined;
+
+      if (!order || order.status !== 'pending-verification' || order.utrNumber !== match.utr) {
+        approvalError = 'Order is no longer pending verification with this UTR';
+      } else {
+        try {
+          // Only approve if the order still carries the UTR we matched and nobody has acted on it since
+          await transitionOrder(order, 'completed', {
+            actor: { type: 'user', id: user.id, email: user.email },
+            reason: `Matched in bank statement ${reconciliationId}`,
+            set: { completedAt: now, verifiedAt: now, verifiedBy: user.id },
+            match: { utrNumber: match.utr },
+            audit: {
+              request,
+              metadata: { source: 'bank_statement', reconciliationId },
+            },
+          });
+        } catch (error) {
+          if (!(error instanceof OrderTransitionError)) throw error;
+          approvalError = error.message;
+        }
+      }
+
+      if (approvalError) {
+        match.approvalError = approvalError;
+        failed.push({ orderId: match.orderId, error: approvalError });
+        continue;
+      }
+
+      match.approvedAt = now;
+      match.approvedBy = user.id;
+      match.approvalError = undefined;
+      approved.push(match.orderId);
+    }
+
+    reconciliation.approvedCount += approved.length;
+    await reconciliation.save();
+
+    if (selected.length > 0) {
+      await createAuditLogFromRequest(
+        request,
+        AUDIT_ACTIONS.RECONCILIATION_APPROVED,
+        'Reconciliation',
+        reconciliationId,
+        user.id,
+        user.email,
+        {
+          approvedCount: approved.length,
+          failedCount: failed.length,
+          approvedOrderIds: approved.join(','),
+        },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Approved ${approved.length} of ${selected.length} matched orders`,
+      data: {
+        approved,
+        failed,
+        reconciliation: serializeReconciliation(reconciliation, { includeEntries: true }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Reconciliation API] Approval error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to approve matches',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { ReconciliationModel } from '@/lib/db/models/Reconciliation';
+import { serializeReconciliation } from '@/lib/reconciliation/service';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ reconciliationId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to reconcile payments',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    await connectDB();
+
+    const { reconciliationId } = await params;
+    const reconciliation = await ReconciliationModel.findByReconciliationId(reconciliationId);
+
+    if (!reconciliation) {
+      return NextResponse.json(
+        { error: 'Reconciliation not found', code: 'RECONCILIATION_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeReconciliation(reconciliation, { includeEntries: true }),
+    });
+  } catch (error) {
+    console.error('[Reconciliation API] Error fetching reconciliation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch reconciliation',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
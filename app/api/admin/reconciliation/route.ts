@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { ReconciliationModel } from '@/lib/db/models/Reconciliation';
+import { createReconciliation, serializeReconciliation } from '@/lib/reconciliation/service';
+import {
+  STATEMENT_FORMATS,
+  StatementParseError,
+  type StatementFormat,
+} from '@/lib/reconciliation/statement-parser';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to reconcile payments',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+
+    const reconciliations = await ReconciliationModel.find().sort({ createdAt: -1 }).limit(limit);
+
+    return NextResponse.json({
+      success: true,
+      data: reconciliations.map((reconciliation) => serializeReconciliation(reconciliation)),
+    });
+  } catch (error) {
+    console.error('[Reconciliation API] Error fetching reconciliations:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch reconciliations',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'verify_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to reconcile payments',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const format = formData.get('format');
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'Attach a bank statement file', code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    if (file.size > MAX_STATEMENT_SIZE) {
+      return NextResponse.json(
+        { error: 'Statement file must be 5MB or smaller', code: 'FILE_TOO_LARGE' },
+        { status: 400 },
+      );
+    }
+
+    if (format && format !== 'auto' && !STATEMENT_FORMATS.includes(format as StatementFormat)) {
+      return NextResponse.json(
+        { error: `Unsupported statement format '${format}'`, code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    const reconciliation = await createReconciliation(
+      {
+        content: await file.text(),
+        fileName: file.name,
+        format: format && format !== 'auto' ? (format as StatementFormat) : undefined,
+      },
+      { id: user.id, email: user.email },
+    );
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.RECONCILIATION_UPLOADED,
+      'Reconciliation',
+      reconciliation.reconciliationId,
+      user.id,
+      user.email,
+      {
+        fileName: reconciliation.fileName,
+        format: reconciliation.format,
+        entryCount: reconciliation.entryCount,
+        matched: reconciliation.matched.length,
+        amountMismatch: reconciliation.amountMismatch.length,
+        unknownUtr: reconciliation.unknownUtr.length,
+        missing: reconciliation.missing.length,
+      },
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeReconciliation(reconciliation, { includeEntries: true }),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      return NextResponse.json(
+        { error: error.message, code: 'STATEMENT_PARSE_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Reconciliation API] Statement upload error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile statement',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { RiskBlocklistModel } from '@/lib/db/models/RiskBlocklist';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ entryId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!roleHasPermission(user.role, 'manage_security_settings')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to manage the risk blocklist',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const { entryId } = await params;
+    if (!mongoose.isValidObjectId(entryId)) {
+      return NextResponse.json(
+        { error: 'Blocklist entry not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    await connectDB();
+
+    const entry = await RiskBlocklistModel.findByIdAndDelete(entryId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Blocklist entry not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.RISK_BLOCKLIST_REMOVED,
+      'RiskBlocklist',
+      entryId,
+      user.id,
+      user.email,
+      { type: entry.type, value: entry.value, reason: entry.reason },
+    );
+
+    return NextResponse.json({ success: true, message: 'Blocklist entry removed' });
+  } catch (error) {
+    console.error('[Admin API] Blocklist delete error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to remove blocklist entry',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
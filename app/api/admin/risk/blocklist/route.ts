@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import {
+  normalizeBlocklistValue,
+  RISK_BLOCKLIST_TYPES,
+  RiskBlocklistModel,
+} from '@/lib/db/models/RiskBlocklist';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+const BlocklistEntrySchema = z
+  .object({
+    type: z.enum(RISK_BLOCKLIST_TYPES),
+    value: z.string().trim().min(1).max(255),
+    reason: z.string().trim().min(3, 'A reason is required').max(500),
+    // Omit to block until the entry is removed
+    expiresInDays: z.number().int().min(1).max(3650).optional(),
+  })
+  .refine((entry) => normalizeBlocklistValue(entry.type, entry.value) !== '', {
+    message: 'Value is empty once normalized',
+    path: ['value'],
+  });
+
+function forbidden() {
+  return NextResponse.json(
+    {
+      error: 'Insufficient permissions to manage the risk blocklist',
+      code: 'PERMISSION_DENIED',
+    },
+    { status: 403 },
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!roleHasPermission(user.role, 'manage_security_settings')) {
+      return forbidden();
+    }
+
+    await connectDB();
+
+    const type = new URL(request.url).searchParams.get('type');
+    const entries = await RiskBlocklistModel.find(
+      type && (RISK_BLOCKLIST_TYPES as readonly string[]).includes(type) ? { type } : {},
+    )
+      .sort({ createdAt: -1 })
+      .limit(500)
+      .lean();
+
+    return NextResponse.json({ success: true, data: entries });
+  } catch (error) {
+    console.error('[Admin API] Blocklist fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch blocklist',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!roleHasPermission(user.role, 'manage_security_settings')) {
+      return forbidden();
+    }
+
+    const { type, value, reason, expiresInDays } = BlocklistEntrySchema.parse(await request.json());
+
+    await connectDB();
+
+    const normalized = normalizeBlocklistValue(type, value);
+    const existing = await RiskBlocklistModel.findOne({ type, value: normalized });
+    if (existing) {
+      return NextResponse.json(
+        { error: `This ${type} is already blocklisted`, code: 'ALREADY_BLOCKLISTED' },
+        { status: 409 },
+      );
+    }
+
+    const entry = await RiskBlocklistModel.create({
+      type,
+      value: normalized,
+      reason,
+      createdBy: user.id,
+      createdByEmail: user.email,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+    });
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.RISK_BLOCKLIST_ADDED,
+      'RiskBlocklist',
+      String(entry._id),
+      user.id,
+      user.email,
+      { type, value: normalized, reason, expiresAt: entry.expiresAt },
+    );
+
+    return NextResponse.json({ success: true, data: entry }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Admin API] Blocklist create error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add blocklist entry',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import {
+  getUpiAppSettings,
+  UpiAppSettingsSchema,
+  updateUpiAppSettings,
+} from '@/lib/settings/upi-apps';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+export async function GET() {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ success: true, data: await getUpiAppSettings() });
+  } catch (error) {
+    console.error('[Admin API] UPI app settings fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch UPI app settings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_system_settings')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to manage system settings',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const values = UpiAppSettingsSchema.parse(await request.json());
+    const previous = await getUpiAppSettings();
+    const settings = await updateUpiAppSettings(values, user.id);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.SETTINGS_UPDATED,
+      'Settings',
+      'upi-apps',
+      user.id,
+      user.email,
+      { previous, updated: settings },
+    );
+
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Admin API] UPI app settings update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update UPI app settings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
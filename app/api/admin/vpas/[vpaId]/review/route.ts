@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { MerchantVpaModel } from '@/lib/db/models/MerchantVpa';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import {
+  ReviewVpaSchema,
+  getDefaultUpiId,
+  serializeVpa,
+  setDefaultUpiId,
+} from '@/lib/vpas/management';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ vpaId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!roleHasPermission(user.role, 'manage_payment_methods')) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to review UPI IDs', code: 'PERMISSION_DENIED' },
+        { status: 403 },
+      );
+    }
+
+    const { decision, reason } = ReviewVpaSchema.parse(await request.json());
+
+    const { vpaId } = await params;
+    if (!mongoose.isValidObjectId(vpaId)) {
+      return NextResponse.json(
+        { error: 'UPI ID not found', code: 'VPA_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    await connectDB();
+
+    // Only pending UPI IDs can be reviewed, so two admins can't both decide
+    const vpa = await MerchantVpaModel.findOneAndUpdate(
+      { _id: vpaId, status: 'pending' },
+      {
+        $set: {
+          status: decision === 'approve' ? 'approved' : 'rejected',
+          reviewedBy: user.id,
+          reviewedAt: new Date(),
+          ...(decision === 'reject' ? { rejectionReason: reason } : {}),
+        },
+      },
+      { new: true },
+    );
+    if (!vpa) {
+      const exists = await MerchantVpaModel.exists({ _id: vpaId });
+      return exists
+        ? NextResponse.json(
+            { error: 'This UPI ID has already been reviewed', code: 'VPA_ALREADY_REVIEWED' },
+            { status: 409 },
+          )
+        : NextResponse.json({ error: 'UPI ID not found', code: 'VPA_NOT_FOUND' }, { status: 404 });
+    }
+
+    // A merchant's first approved UPI ID becomes their default
+    let defaultUpiId = await getDefaultUpiId(vpa.ownerId);
+    if (decision === 'approve' && !defaultUpiId) {
+      await setDefaultUpiId(vpa.ownerId, vpa.vpa);
+      defaultUpiId = vpa.vpa;
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      decision === 'approve' ? AUDIT_ACTIONS.VPA_APPROVED : AUDIT_ACTIONS.VPA_REJECTED,
+      'MerchantVpa',
+      vpaId,
+      user.id,
+      user.email,
+      { vpa: vpa.vpa, ownerId: vpa.ownerId, reason },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: serializeVpa(vpa, defaultUpiId),
+      message: decision === 'approve' ? 'UPI ID approved' : 'UPI ID rejected',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Admin API] UPI ID review error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to review UPI ID',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { MERCHANT_VPA_STATUSES, MerchantVpaModel } from '@/lib/db/models/MerchantVpa';
+import { UserModel } from '@/lib/db/models/User';
+import { roleHasPermission } from '@/lib/types/roles';
+import { serializeVpa } from '@/lib/vpas/management';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!roleHasPermission(user.role, 'manage_payment_methods')) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to review UPI IDs', code: 'PERMISSION_DENIED' },
+        { status: 403 },
+      );
+    }
+
+    await connectDB();
+
+    const status = new URL(request.url).searchParams.get('status') || 'pending';
+    const vpas = await MerchantVpaModel.find(
+      (MERCHANT_VPA_STATUSES as readonly string[]).includes(status) ? { status } : {},
+    )
+      .sort({ createdAt: 1 })
+      .limit(500);
+
+    const ownerIds = [...new Set(vpas.map((vpa) => vpa.ownerId))].filter((id) =>
+      mongoose.isValidObjectId(id),
+    );
+    const owners = await UserModel.find({ _id: { $in: ownerIds } })
+      .select('name email')
+      .lean<Array<{ _id: unknown; name?: string; email: string }>>();
+    const ownersById = new Map(owners.map((owner) => [String(owner._id), owner]));
+
+    return NextResponse.json({
+      success: true,
+      data: vpas.map((vpa) => ({
+        ...serializeVpa(vpa),
+        owner: {
+          id: vpa.ownerId,
+          name: ownersById.get(vpa.ownerId)?.name,
+          email: ownersById.get(vpa.ownerId)?.email,
+        },
+      })),
+    });
+  } catch (error) {
+    console.error('[Admin API] UPI ID fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch UPI IDs',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { notifyExpiringPaymentLinks } from '@/lib/notifications/service';
+import { sweepExpiredOrders } from '@/lib/orders/expiry-sweeper';
+import { retryDueDeliveries } from '@/lib/webhooks/dispatcher';
+
+// Everything this route does must finish inside vercel.json's 30s maxDuration for app/api/**
+const TIME_BUDGET_MS = 27000;
+
+/**
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; other schedulers must do the same
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  try {
+    const sweep = await sweepExpiredOrders();
+
+    if (!sweep.ran) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Another expiry sweep is already running',
+          code: 'SWEEP_IN_PROGRESS',
+        },
+        { status: 409 },
+      );
+    }
+
+    const linkExpiryNotices = await notifyExpiringPaymentLinks();
+
+    // Webhook retries with long backoffs wait for a scheduled run, and order.expired
+    // events from this sweep are among them. They go last and get whatever time is left,
+    // so slow receivers can't starve the steps before them.
+    const webhooks = await retryDueDeliveries(deadline);
+
+    console.log(
+      `[Cron] Expiry sweep processed ${sweep.processed} orders, expired ${sweep.expired} in ${sweep.batches} batches`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...sweep,
+        webhookRetries: webhooks,
+        linkExpiryNotices,
+      },
+    });
+  } catch (error) {
+    console.error('[Cron] Expiry sweep error:', error);
+    return NextResponse.json(
+      {
+        error: 'Expiry sweep failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export const POST = GET;
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/requireRole';
 import { connectDB } from '@/lib/db/connection';
-import { OrderModel } from '@/lib/db/models/Order';
+import { NET_REVENUE_EXPRESSION, OrderModel, PAID_ORDER_STATUSES } from '@/lib/db/models/Order';
+import { fromPaise } from '@/lib/utils/money';
 import { UserModel } from '@/lib/db/models/User';
 import { AuditLogModel } from '@/lib/db/models/AuditLog';
 import { z } from 'zod';
@@ -12,6 +13,7 @@ const _DashboardAnalyticsSchema = z.object({
   data: z.object({
     analytics: z.object({
       totalRevenue: z.number(),
+      totalRefunded: z.number(),
       totalOrders: z.number(),
       completedOrders: z.number(),
       pendingOrders: z.number(),
@@ -165,16 +167,24 @@ async function getAnalyticsData(userRole: string, userId: string) {
     // Base query - admins see all data, merchants and users see their own
     const baseQuery = userRole === 'admin' ? {} : { createdBy: userId };
 
-    // Current month metrics
-    const [totalRevenue, totalOrders, completedOrders, pendingOrders] = await Promise.all([
-      OrderModel.aggregate([
-        { $match: { ...baseQuery, status: 'completed' } },
-        { $group: { _id: null, total: { $sum: '$amount' } } },
-      ]),
-      OrderModel.countDocuments(baseQuery),
-      OrderModel.countDocuments({ ...baseQuery, status: 'completed' }),
-      OrderModel.countDocuments({ ...baseQuery, status: 'pending' }),
-    ]);
+    // Current month metrics; revenue is net of refunds
+    const [totalRevenue, totalOrders, completedOrders, pendingOrders, paidOrders] =
+      await Promise.all([
+        OrderModel.aggregate([
+          { $match: { ...baseQuery, status: { $in: PAID_ORDER_STATUSES } } },
+          {
+            $group: {
+              _id: null,
+              total: { $sum: NET_REVENUE_EXPRESSION },
+              refunded: { $sum: { $ifNull: ['$refundedPaise', 0] } },
+            },
+          },
+        ]),
+        OrderModel.countDocuments(baseQuery),
+        OrderModel.countDocuments({ ...baseQuery, status: 'completed' }),
+        OrderModel.countDocuments({ ...baseQuery, status: 'pending' }),
+        OrderModel.countDocuments({ ...baseQuery, status: { $in: PAID_ORDER_STATUSES } }),
+      ]);
 
     // Previous month for growth calculation
     const [lastMonthRevenue, lastMonthOrders] = await Promise.all([
@@ -182,11 +192,11 @@ async function getAnalyticsData(userRole: string, userId: string) {
         {
           $match: {
             ...baseQuery,
-            status: 'completed',
+            status: { $in: PAID_ORDER_STATUSES },
             createdAt: { $gte: lastMonth, $lt: thisMonth },
           },
         },
-        { $group: { _id: null, total: { $sum: '$amount' } } },
+        { $group: { _id: null, total: { $sum: NET_REVENUE_EXPRESSION } } },
       ]),
       OrderModel.countDocuments({
         ...baseQuery,
@@ -194,7 +204,9 @@ async function getAnalyticsData(userRole: string, userId: string) {
       }),
     ]);
 
+    // Revenue is summed in paise and only converted to rupees for the response
     const currentRevenue = totalRevenue[0]?.total || 0;
+    const totalRefunded = totalRevenue[0]?.refunded || 0;
     const currentOrders = totalOrders;
     const previousRevenue = lastMonthRevenue[0]?.total || 0;
     const previousOrders = lastMonthOrders;
@@ -205,16 +217,16 @@ async function getAnalyticsData(userRole: string, userId: string) {
     const orderGrowth =
       previousOrders > 0 ? ((currentOrders - previousOrders) / previousOrders) * 100 : 0;
 
-    // Average order value and conversion rate
-    const avgOrderValue = completedOrders > 0 ? currentRevenue / completedOrders : 0;
-    const conversionRate = totalOrders > 0 ? (completedOrders / totalOrders) * 100 : 0;
+    // Average order value and conversion rate; refunded orders were still paid, so they count
+    const avgOrderValue = paidOrders > 0 ? Math.round(currentRevenue / paidOrders) : 0;
+    const conversionRate = totalOrders > 0 ? (paidOrders / totalOrders) * 100 : 0;
 
     // Monthly revenue trend (last 6 months)
     const monthlyRevenue = await OrderModel.aggregate([
       {
         $match: {
           ...baseQuery,
-          status: 'completed',
+          status: { $in: PAID_ORDER_STATUSES },
           createdAt: { $gte: new Date(now.getFullYear(), now.getMonth() - 5, 1) },
         },
       },
@@ -224,7 +236,7 @@ async function getAnalyticsData(userRole: string, userId: string) {
             year: { $year: '$createdAt' },
             month: { $month: '$createdAt' },
           },
-          revenue: { $sum: '$amount' },
+          revenue: { $sum: NET_REVENUE_EXPRESSION },
           orders: { $sum: 1 },
         },
       },
@@ -235,11 +247,11 @@ async function getAnalyticsData(userRole: string, userId: string) {
     const topMerchants =
       userRole === 'admin'
         ? await OrderModel.aggregate([
-            { $match: { status: 'completed' } },
+            { $match: { status: { $in: PAID_ORDER_STATUSES } } },
             {
               $group: {
                 _id: '$createdBy',
-                revenue: { $sum: '$amount' },
+                revenue: { $sum: NET_REVENUE_EXPRESSION },
                 orders: { $sum: 1 },
               },
             },
@@ -265,23 +277,24 @@ async function getAnalyticsData(userRole: string, userId: string) {
         : [];
 
     return {
-      totalRevenue: currentRevenue,
+      totalRevenue: fromPaise(currentRevenue),
+      totalRefunded: fromPaise(totalRefunded),
       totalOrders: currentOrders,
       completedOrders,
       pendingOrders,
       revenueGrowth: Math.round(revenueGrowth * 100) / 100,
       orderGrowth: Math.round(orderGrowth * 100) / 100,
-      avgOrderValue: Math.round(avgOrderValue * 100) / 100,
+      avgOrderValue: fromPaise(avgOrderValue),
       conversionRate: Math.round(conversionRate * 100) / 100,
       monthlyRevenue: monthlyRevenue.map((item: { _id: { year: number; month: number }; revenue: number; orders: number }) => ({
         month: `${item._id.year}-${String(item._id.month).padStart(2, '0')}`,
-        revenue: item.revenue,
+        revenue: fromPaise(item.revenue),
         orders: item.orders,
       })),
       topMerchants: topMerchants.map((merchant: { id: string; name?: string; revenue: number; orders: number }) => ({
         id: merchant.id,
         name: merchant.name || 'Unknown Merchant',
-        revenue: merchant.revenue,
+        revenue: fromPaise(merchant.revenue),
         orders: merchant.orders,
       })),
     };
@@ -289,6 +302,7 @@ async function getAnalyticsData(userRole: string, userId: string) {
     console.error('[Dashboard] Analytics error:', error);
     return {
       totalRevenue: 0,
+      totalRefunded: 0,
       totalOrders: 0,
       completedOrders: 0,
       pendingOrders: 0,
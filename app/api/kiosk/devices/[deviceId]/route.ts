@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { KioskDeviceModel } from '@/lib/db/models/KioskDevice';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+/**
+ * Revoke a kiosk's device token. The kiosk returns to its pairing screen on its next request.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { deviceId } = await params;
+    const device = await KioskDeviceModel.findOneAndUpdate(
+      { deviceId, ownerId: user.id, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedBy: user.id } },
+      { new: true },
+    );
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Kiosk device not found', code: 'DEVICE_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.KIOSK_DEVICE_REVOKED,
+      'KioskDevice',
+      device.deviceId,
+      user.id,
+      user.email,
+      { name: device.name, tokenPrefix: device.tokenPrefix },
+    );
+
+    return NextResponse.json({ success: true, message: 'Kiosk device revoked' });
+  } catch (error) {
+    console.error('[Kiosk API] Error revoking device:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke kiosk device',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser, hasPermission } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { KioskDeviceModel } from '@/lib/db/models/KioskDevice';
+import {
+  CreateKioskDeviceSchema,
+  KioskDeviceError,
+  createKioskDevice,
+  serializeKioskDevice,
+} from '@/lib/kiosk/devices';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+export async function GET() {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const devices = await KioskDeviceModel.find({ ownerId: user.id, revokedAt: null }).sort({
+      createdAt: 1,
+    });
+
+    return NextResponse.json({ success: true, data: devices.map(serializeKioskDevice) });
+  } catch (error) {
+    console.error('[Kiosk API] Error fetching devices:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch kiosk devices',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Add a counter kiosk. The response carries the device token, which is never shown again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user.role, 'create_order')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { name } = CreateKioskDeviceSchema.parse(body);
+
+    await connectDB();
+
+    const { device, token } = await createKioskDevice(user.id, name, user.id);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.KIOSK_DEVICE_CREATED,
+      'KioskDevice',
+      device.deviceId,
+      user.id,
+      user.email,
+      { name, tokenPrefix: device.tokenPrefix },
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...serializeKioskDevice(device), token },
+        message: 'Copy the device token now. It will not be shown again.',
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof KioskDeviceError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+
+    console.error('[Kiosk API] Error creating device:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add kiosk device',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/db/connection';
+import { authenticateKioskDevice } from '@/lib/kiosk/devices';
+import { getStaticQrPayees } from '@/lib/static-qr/service';
+import { getUPIConfig } from '@/lib/utils/upi-utils';
+
+/**
+ * What a kiosk shows before its first sale, and a check that its device token still works
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const kiosk = await authenticateKioskDevice(request);
+    if (!kiosk) {
+      return NextResponse.json(
+        { error: 'This device is not paired or has been revoked', code: 'INVALID_DEVICE_TOKEN' },
+        { status: 401 },
+      );
+    }
+
+    const [payee] = await getStaticQrPayees(kiosk.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deviceId: kiosk.device.deviceId,
+        deviceName: kiosk.device.name,
+        merchantName: payee?.payeeName ?? getUPIConfig().merchantName,
+      },
+    });
+  } catch (error) {
+    console.error('[Kiosk API] Session error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load kiosk',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
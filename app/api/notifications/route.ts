@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { NotificationDeliveryModel } from '@/lib/db/models/NotificationDelivery';
+
+/**
+ * The delivery log of notifications sent on the current user's behalf
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = request.nextUrl;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10)));
+    const status = searchParams.get('status');
+    const orderId = searchParams.get('orderId');
+
+    const query: Record<string, unknown> = { ownerId: user.id };
+    if (status && status !== 'all') {
+      query.status = status;
+    }
+    if (orderId) {
+      query.orderId = orderId;
+    }
+
+    const skip = (page - 1) * limit;
+    const [deliveries, total] = await Promise.all([
+      NotificationDeliveryModel.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .select('-__v')
+        .lean(),
+      NotificationDeliveryModel.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deliveries: deliveries.map(({ _id, ...delivery }) => ({ id: String(_id), ...delivery })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Notifications API] Error fetching deliveries:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch notification deliveries',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import {
+  FINAL_PAYMENT_STATUSES,
+  watchOrderStatus,
+  type OrderStatusEvent,
+} from '@/lib/orders/events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// API functions are capped at 30 seconds; EventSource reconnects when a stream ends
+const STREAM_LIFETIME_MS = 25_000;
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const RECONNECT_DELAY_MS = 1_000;
+
+/**
+ * Server-Sent Events stream of an order's status for the payment page. Sends
+ * the current status first, then each change, and ends once the order is
+ * completed or failed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    await connectDB();
+
+    const { orderId } = await params;
+    const order = await OrderModel.findOne({ orderId }).select('orderId status updatedAt').lean();
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let stop: () => void = () => undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        let stopWatching: () => void = () => undefined;
+        let heartbeat: ReturnType<typeof setInterval> | undefined;
+        let lifetime: ReturnType<typeof setTimeout> | undefined;
+
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        stop = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearTimeout(lifetime);
+          stopWatching();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        };
+
+        const send = (event: OrderStatusEvent) => {
+          write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+          if (FINAL_PAYMENT_STATUSES.includes(event.status)) {
+            stop();
+          }
+        };
+
+        write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        send({
+          orderId: order.orderId,
+          status: order.status,
+          at: new Date(order.updatedAt).toISOString(),
+        });
+        if (closed) return;
+
+        stopWatching = watchOrderStatus(order.orderId, order.status, send);
+        heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+        lifetime = setTimeout(stop, STREAM_LIFETIME_MS);
+        request.signal.addEventListener('abort', stop);
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stops nginx and similar proxies from buffering the stream
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('[Orders API] Status stream error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to open status stream',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
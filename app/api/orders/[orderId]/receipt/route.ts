@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { CUSTOMER_ACTOR } from '@/lib/orders/state-machine';
+import { renderReceiptPdf } from '@/lib/receipts/pdf';
+import { buildReceiptData, issueReceipt, ReceiptError } from '@/lib/receipts/service';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { rateLimit, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit';
+
+export const runtime = 'nodejs';
+
+/**
+ * Download the receipt for a paid order as a PDF. The first download issues the
+ * receipt number; later downloads return the same receipt.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const rateLimitResult = await rateLimit(request, RATE_LIMIT_CONFIGS.api);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: rateLimitResult.message, code: 'RATE_LIMIT_EXCEEDED' },
+        { status: 429 },
+      );
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const storedOrder = await OrderModel.findOne({ orderId });
+    if (!storedOrder) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const order = await issueReceipt(storedOrder);
+    if (!storedOrder.receipt && order.receipt) {
+      await createAuditLogFromRequest(
+        request,
+        AUDIT_ACTIONS.RECEIPT_ISSUED,
+        'Order',
+        orderId,
+        CUSTOMER_ACTOR.id,
+        undefined,
+        { receiptNumber: order.receipt.number },
+      );
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+    const data = await buildReceiptData(order, { copy: 'original', baseUrl });
+    const pdf = await renderReceiptPdf(data);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="receipt-${data.receiptNumber}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ReceiptError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'ORDER_NOT_PAID' ? 409 : 500 },
+      );
+    }
+
+    console.error('[Orders API] Receipt download error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate receipt',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { notifyOrderEvent } from '@/lib/notifications/service';
+import { CUSTOMER_ACTOR, expireIfOverdue } from '@/lib/orders/state-machine';
+import { resolveOrderExpiryMinutes } from '@/lib/settings/system';
+import { allocateStaticQrAmount } from '@/lib/static-qr/service';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { fromPaise } from '@/lib/utils/money';
+import { rateLimit, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit';
+import { calculateExpirationTime, generateOrderId, getUPIConfig } from '@/lib/utils/upi-utils';
+import { VpaError } from '@/lib/vpas/management';
+import { assignOrderPayee, releaseAssignedPayee, type AssignedPayee } from '@/lib/vpas/pool';
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatcher';
+import { buildOrderEventData } from '@/lib/webhooks/payloads';
+
+/**
+ * Give a customer whose order expired a fresh one to pay. Orders from a payment
+ * link send the customer back to the link; other orders are copied with a new
+ * expiry. Asking again returns the same replacement rather than another copy.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const rateLimitResult = await rateLimit(request, RATE_LIMIT_CONFIGS.orders);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: rateLimitResult.message, code: 'RATE_LIMIT_EXCEEDED' },
+        { status: 429 },
+      );
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const storedOrder = await OrderModel.findOne({ orderId });
+    if (!storedOrder) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const order = await expireIfOverdue(storedOrder);
+    if (order.status !== 'expired') {
+      return NextResponse.json(
+        { error: 'Only expired orders can be renewed', code: 'ORDER_NOT_EXPIRED' },
+        { status: 409 },
+      );
+    }
+
+    if (order.paymentLinkId) {
+      return NextResponse.json({
+        success: true,
+        data: { redirectUrl: `/link/${order.paymentLinkId}` },
+      });
+    }
+
+    if (order.renewedOrderId) {
+      return NextResponse.json({
+        success: true,
+        data: { orderId: order.renewedOrderId, redirectUrl: `/pay/${order.renewedOrderId}` },
+      });
+    }
+
+    // Claim the renewal first so two clicks can't create two replacement orders
+    const renewedOrderId = generateOrderId();
+    const claimed = await OrderModel.findOneAndUpdate(
+      { orderId, renewedOrderId: { $exists: false } },
+      { $set: { renewedOrderId } },
+      { new: true },
+    );
+    if (!claimed) {
+      const current = await OrderModel.findOne({ orderId }).select('renewedOrderId').lean();
+      return NextResponse.json({
+        success: true,
+        data: {
+          orderId: current?.renewedOrderId,
+          redirectUrl: `/pay/${current?.renewedOrderId}`,
+        },
+      });
+    }
+
+    const expiresInMinutes = await resolveOrderExpiryMinutes();
+    let renewed;
+    let payee: AssignedPayee | undefined;
+    let amountPaise = order.amountPaise;
+    try {
+      // A static QR order gets a fresh paise offset, since its old one may now be taken
+      const staticQr =
+        order.staticQr &&
+        (await allocateStaticQrAmount(order.createdBy, order.staticQr.requestedPaise));
+      if (order.staticQr) {
+        amountPaise = staticQr
+          ? staticQr.requestedPaise + staticQr.offsetPaise
+          : order.staticQr.requestedPaise;
+      }
+
+      // Routed again, since the original UPI ID may be disabled or at its daily limit
+      payee = await assignOrderPayee(order.createdBy, amountPaise, {
+        preferredVpa: order.upiId,
+        fallback: { upiId: order.upiId, payeeName: order.payeeName || getUPIConfig().merchantName },
+      });
+      renewed = await OrderModel.create({
+        orderId: renewedOrderId,
+        amount: fromPaise(amountPaise),
+        description: order.description,
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        customerPhone: order.customerPhone,
+        upiId: payee.upiId,
+        payeeName: payee.payeeName,
+        status: 'pending',
+        createdBy: order.createdBy,
+        expiresAt: calculateExpirationTime(expiresInMinutes),
+        staticQr,
+      });
+    } catch (error) {
+      if (payee) {
+        await releaseAssignedPayee(order.createdBy, payee, amountPaise);
+      }
+      await OrderModel.updateOne({ orderId }, { $unset: { renewedOrderId: 1 } });
+      throw error;
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.ORDER_CREATED,
+      'Order',
+      renewedOrderId,
+      CUSTOMER_ACTOR.id,
+      undefined,
+      { renewedFrom: orderId, amount: renewed.amount, expiresInMinutes },
+    );
+
+    await dispatchWebhookEvent('order.created', order.createdBy, buildOrderEventData(renewed));
+    await notifyOrderEvent('order_created', renewed);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { orderId: renewedOrderId, redirectUrl: `/pay/${renewedOrderId}` },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof VpaError) {
+      return NextResponse.json(
+        { error: 'This merchant cannot accept payments right now', code: error.code },
+        { status: 409 },
+      );
+    }
+
+    console.error('[Orders API] Order renewal error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to renew order',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
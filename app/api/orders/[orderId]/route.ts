@@ -1,9 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getSafeUser } from '@/lib/auth/safe-auth';
 import { connectDB } from '@/lib/db/connection';
 import { OrderModel } from '@/lib/db/models/Order';
-import { AuditLogModel } from '@/lib/db/models/AuditLog';
-import { isOrderExpired } from '@/lib/utils/upi-utils';
+import {
+  expireIfOverdue,
+  OrderTransitionError,
+  transitionOrder,
+} from '@/lib/orders/state-machine';
+import { OrderStatusSchema } from '@/lib/types';
 
 export async function GET(request: Request, { params }: { params: Promise<{ orderId: string }> }) {
   try {
@@ -11,9 +15,9 @@ export async function GET(request: Request, { params }: { params: Promise<{ orde
     await connectDB();
 
     const { orderId } = await params;
-    const order = await OrderModel.findOne({ orderId });
+    const storedOrder = await OrderModel.findOne({ orderId });
 
-    if (!order) {
+    if (!storedOrder) {
       return NextResponse.json(
         {
           error: 'Order not found',
@@ -24,14 +28,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ orde
     }
 
     // Check if order has expired and update status
-    if (order.status === 'pending' && isOrderExpired(order.expiresAt)) {
-      order.status = 'expired';
-      await order.save();
-    }
-
-    // Calculate time remaining
-    const timeRemaining =
-      order.status === 'pending' ? Math.max(0, order.expiresAt.getTime() - Date.now()) : 0;
+    const order = await expireIfOverdue(storedOrder);
 
     const response = {
       success: true,
@@ -48,7 +45,10 @@ export async function GET(request: Request, { params }: { params: Promise<{ orde
         expiresAt: order.expiresAt,
         verifiedAt: order.verifiedAt,
         verifiedBy: order.verifiedBy,
-        timeRemaining,
+        // Clients count down from timeRemaining, which is immune to their own clock being wrong
+        timeRemaining: order.get('timeRemaining') as number,
+        serverTime: new Date().toISOString(),
+        renewedOrderId: order.renewedOrderId,
         paymentUrl: `/pay/${order.orderId}`,
       },
     };
@@ -67,7 +67,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ orde
 }
 
 export async function PATCH(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ orderId: string }> },
 ) {
   try {
@@ -104,52 +104,53 @@ export async function PATCH(
       );
     }
 
-    // Store previous status for audit log
-    const previousStatus = order.status;
-
-    // Update order status
-    if (status) {
-      order.status = status;
-      if (status === 'completed') {
-        order.verifiedAt = new Date();
-        order.verifiedBy = user.id;
-      }
+    const parsedStatus = OrderStatusSchema.safeParse(status);
+    if (!parsedStatus.success) {
+      return NextResponse.json(
+        {
+          error: 'A valid status is required',
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
     }
 
-    await order.save();
-
-    // Create audit log
-    await AuditLogModel.create({
-      action: 'order_status_updated',
-      entityType: 'Order',
-      entityId: orderId,
-      userId: user.id,
-      userEmail: user.email,
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
-      userAgent: request.headers.get('user-agent') || 'unknown',
-      metadata: {
-        previousStatus,
-        newStatus: status,
-        notes,
-        orderId,
-        amount: order.amount,
+    // Status changes go through the order lifecycle like every other writer
+    const updatedOrder = await transitionOrder(order, parsedStatus.data, {
+      actor: { type: 'user', id: user.id, email: user.email },
+      reason: notes,
+      set:
+        parsedStatus.data === 'completed'
+          ? { completedAt: new Date(), verifiedAt: new Date(), verifiedBy: user.id }
+          : undefined,
+      audit: {
+        request,
+        action: 'order_status_updated',
+        metadata: { notes, orderId },
       },
     });
 
     const response = {
       success: true,
       data: {
-        orderId: order.orderId,
-        status: order.status,
-        verifiedAt: order.verifiedAt,
-        verifiedBy: order.verifiedBy,
-        updatedAt: order.updatedAt,
+        orderId: updatedOrder.orderId,
+        status: updatedOrder.status,
+        verifiedAt: updatedOrder.verifiedAt,
+        verifiedBy: updatedOrder.verifiedBy,
+        updatedAt: updatedOrder.updatedAt,
       },
       message: `Order ${orderId} status updated to ${status}`,
     };
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.httpStatus },
+      );
+    }
+
     console.error('[Orders API] Update order error:', error);
     return NextResponse.json(
       {
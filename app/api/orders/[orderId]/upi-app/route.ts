@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { getEnabledUpiApps } from '@/lib/settings/upi-apps';
+import { UPI_PLATFORMS } from '@/lib/upi-apps/registry';
+import { rateLimit, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit';
+
+const UpiAppChoiceSchema = z.object({
+  appId: z.string().min(1).max(20),
+  platform: z.enum(UPI_PLATFORMS),
+});
+
+/**
+ * Record which UPI app the customer opened from the payment page, for analytics.
+ * Only pending orders are updated; a later choice replaces an earlier one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const rateLimitResult = await rateLimit(request, RATE_LIMIT_CONFIGS.payment);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: rateLimitResult.message, code: 'RATE_LIMIT_EXCEEDED' },
+        { status: 429 },
+      );
+    }
+
+    // An empty or malformed body fails validation like any other bad input
+    const body = await request.json().catch(() => null);
+    const { appId, platform } = UpiAppChoiceSchema.parse(body);
+
+    const apps = await getEnabledUpiApps();
+    if (!apps.some((app) => app.id === appId)) {
+      return NextResponse.json(
+        { error: 'This UPI app is not offered', code: 'UNKNOWN_UPI_APP' },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const result = await OrderModel.updateOne(
+      { orderId, status: 'pending' },
+      { $set: { upiApp: { appId, platform, chosenAt: new Date() } } },
+    );
+
+    if (result.matchedCount === 0) {
+      const exists = await OrderModel.exists({ orderId });
+      return exists
+        ? NextResponse.json(
+            { error: 'Order is no longer awaiting payment', code: 'ORDER_NOT_PENDING' },
+            { status: 409 },
+          )
+        : NextResponse.json({ error: 'Order not found', code: 'ORDER_NOT_FOUND' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Orders API] Error recording UPI app:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record UPI app',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,30 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { connectDB } from '@/lib/db/connection'
 import { OrderModel } from '@/lib/db/models/Order'
-import { AuditLogModel } from '@/lib/db/models/AuditLog'
+import {
+  CUSTOMER_ACTOR,
+  expireIfOverdue,
+  OrderTransitionError,
+  transitionOrder,
+} from '@/lib/orders/state-machine'
+import {
+  assessUtrSubmission,
+  getSubmissionSource,
+  recordFailedUtrAttempt,
+} from '@/lib/risk/engine'
+import { comparePaymentProof } from '@/lib/payment-proof/extract'
+import {
+  PaymentProofError,
+  readPaymentProofImage,
+  scanPaymentProof,
+  storePaymentProof,
+} from '@/lib/payment-proof/service'
+import { getStorage } from '@/lib/storage'
+import { rateLimit, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit'
+import type { OrderPaymentProof } from '@/lib/db/models/Order'
+
+// Screenshot OCR and local disk storage need the Node.js runtime
+export const runtime = 'nodejs'
 
 const utrSubmissionSchema = z.object({
   utr: z.string().min(12).max(22),
@@ -10,6 +33,27 @@ const utrSubmissionSchema = z.object({
   notes: z.string().max(500).optional(),
 })
 
+// JSON, or multipart form data when the customer attaches a payment screenshot
+async function readSubmission(
+  request: NextRequest
+): Promise<{ body: Record<string, unknown>; screenshot?: File }> {
+  if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+    return { body: await request.json() }
+  }
+
+  const form = await request.formData()
+  const body: Record<string, unknown> = {}
+  for (const field of ['utr', 'paymentMethod', 'notes']) {
+    const value = form.get(field)
+    if (typeof value === 'string' && value.trim()) {
+      body[field] = value.trim()
+    }
+  }
+
+  const screenshot = form.get('screenshot')
+  return { body, screenshot: screenshot instanceof File ? screenshot : undefined }
+}
+
 const isOrderExpired = (expiresAt: Date): boolean => {
   return new Date() > expiresAt
 }
@@ -18,6 +62,8 @@ export async function POST(
   request: NextRequest,
   context: { params: Promise<{ orderId: string }> }
 ) {
+  const source = getSubmissionSource(request)
+
   try {
     // Rate limiting - TEMPORARILY DISABLED FOR DEBUG
     // const rateLimitResult = await rateLimit(request, RATE_LIMIT_CONFIGS.utr)
@@ -48,19 +94,41 @@ export async function POST(
     console.error('UTR API: Received orderId:', orderId, typeof orderId)
     
     // STEP 1: Just try to parse the body
-    const body = await request.json()
+    const { body, screenshot } = await readSubmission(request)
     console.error('UTR API: Raw body:', body)
-    
-    // STEP 2: Try validation
-    const validatedData = utrSubmissionSchema.parse(body)
+
+    const image = screenshot ? await readPaymentProofImage(screenshot) : undefined
+    if (image) {
+      const rateLimitResult = await rateLimit(request, RATE_LIMIT_CONFIGS.ocr)
+      if (!rateLimitResult.success) {
+        return NextResponse.json(
+          { error: rateLimitResult.message, code: 'RATE_LIMIT_EXCEEDED' },
+          { status: 429 }
+        )
+      }
+    }
+    const scan = image ? await scanPaymentProof(image) : undefined
+    if (scan && !body.utr && !scan.utr) {
+      return NextResponse.json(
+        {
+          error: 'Could not read a UTR from the screenshot. Please enter it manually.',
+          code: 'UTR_NOT_FOUND_IN_SCREENSHOT',
+        },
+        { status: 400 }
+      )
+    }
+
+    // STEP 2: Try validation. Customers who can't find their UTR can let the screenshot supply it
+    const validatedData = utrSubmissionSchema.parse({ ...body, utr: body.utr ?? scan?.utr })
     console.error('UTR API: Validated UTR data:', validatedData)
 
     // STEP 3: Try finding the order
     console.error('UTR API: About to search for order with orderId:', orderId)
-    const order = await OrderModel.findOne({ orderId: String(orderId) })
-    console.error('UTR API: Found order:', order ? 'YES' : 'NO')
+    const storedOrder = await OrderModel.findOne({ orderId: String(orderId) })
+    console.error('UTR API: Found order:', storedOrder ? 'YES' : 'NO')
     
-    if (!order) {
+    if (!storedOrder) {
+      await recordFailedUtrAttempt(source)
       return NextResponse.json(
         {
           error: 'Order not found',
@@ -71,11 +139,8 @@ export async function POST(
     }
 
     // Check if order has expired
-    if (isOrderExpired(order.expiresAt)) {
-      // Update order status to expired
-      order.status = 'expired'
-      await order.save()
-
+    const order = await expireIfOverdue(storedOrder)
+    if (order.status === 'expired') {
       return NextResponse.json(
         {
           error: 'Order has expired',
@@ -100,6 +165,7 @@ export async function POST(
 
     // Check if UTR already exists for this order
     if (order.utrNumber) {
+      await recordFailedUtrAttempt(source)
       return NextResponse.json(
         {
           error: 'UTR already submitted for this order',
@@ -124,6 +190,7 @@ export async function POST(
     console.error('UTR API: Duplicate check completed')
 
     if (existingOrder) {
+      await recordFailedUtrAttempt(source)
       return NextResponse.json(
         {
           error: 'UTR number has already been used for another order',
@@ -137,42 +204,75 @@ export async function POST(
     console.error('UTR API: About to update order. orderId type:', typeof orderId, 'orderId value:', orderId)
     console.error('UTR API: Order _id:', order._id)
     
-    order.utrNumber = validatedData.utr.toUpperCase()
-    order.status = 'pending-verification'
-    
-    console.error('UTR API: About to save order')
-    await order.save()
-    console.error('UTR API: Order saved successfully')
+    const proofMismatches = scan
+      ? comparePaymentProof(scan, {
+          utr: validatedData.utr,
+          amount: order.amount,
+          vpa: order.upiId,
+          orderCreatedAt: order.createdAt,
+        })
+      : []
 
-    // Get IP address for audit log
-    const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
-
-    console.error('UTR API: About to create audit log')
-    // Create audit log
-    await AuditLogModel.create({
-      action: 'utr_submitted',
-      entityType: 'Order',
-      entityId: String(orderId), // Ensure it's a string
-      userId: 'customer', // Customer submission
-      userEmail: order.customerEmail || 'customer@example.com', // Fallback email
-      ipAddress: ip,
-      userAgent: request.headers.get('user-agent') || 'unknown',
-      metadata: {
-        orderId: String(orderId), // Ensure it's a string
-        utr: validatedData.utr.toUpperCase(),
-        paymentMethod: validatedData.paymentMethod,
-        notes: validatedData.notes,
-        amount: order.amount,
-        customerName: order.customerName,
+    // Suspicious submissions still move to verification, but flagged and possibly held
+    const risk = await assessUtrSubmission({
+      order,
+      utr: validatedData.utr.toUpperCase(),
+      ...source,
+      proofMismatches,
+    })
+
+    let paymentProof: OrderPaymentProof | undefined
+    if (image && scan) {
+      paymentProof = {
+        storageKey: await storePaymentProof(order.orderId, image),
+        contentType: image.contentType,
+        size: image.data.length,
+        uploadedAt: new Date(),
+        scanned: scan.scanned,
+        extracted: {
+          utr: scan.utr,
+          amount: scan.amount,
+          payeeVpa: scan.payeeVpa ?? scan.vpas[0],
+          paidAt: scan.paidAt,
+        },
+        mismatches: proofMismatches,
+      }
+    }
+
+    const updatedOrder = await transitionOrder(order, 'pending-verification', {
+      actor: { ...CUSTOMER_ACTOR, email: order.customerEmail },
+      set: { utrNumber: validatedData.utr.toUpperCase(), risk, ...(paymentProof && { paymentProof }) },
+      audit: {
+        request,
+        action: 'utr_submitted',
+        metadata: {
+          orderId: String(orderId),
+          utr: validatedData.utr.toUpperCase(),
+          paymentMethod: validatedData.paymentMethod,
+          notes: validatedData.notes,
+          riskScore: risk.score,
+          riskLevel: risk.level,
+          riskSignals: risk.signals.map((signal) => signal.code),
+          onHold: risk.onHold,
+          hasPaymentProof: Boolean(paymentProof),
+          proofMismatches: proofMismatches.map((mismatch) => mismatch.field),
+        },
       },
+    }).catch(async (error) => {
+      // Don't keep a screenshot for a submission that didn't go through
+      if (paymentProof) {
+        await getStorage().delete(paymentProof.storageKey).catch(() => undefined)
+      }
+      throw error
     })
+    console.error('UTR API: Order saved successfully')
 
     const response = {
       success: true,
       data: {
-        orderId: order.orderId,
-        status: order.status,
-        utr: order.utrNumber,
+        orderId: updatedOrder.orderId,
+        status: updatedOrder.status,
+        utr: updatedOrder.utrNumber,
         submittedAt: new Date().toISOString(),
         message: 'UTR submitted successfully. Your payment is now under verification.',
       },
@@ -181,6 +281,7 @@ export async function POST(
     return NextResponse.json(response)
   } catch (error) {
     if (error instanceof z.ZodError) {
+      await recordFailedUtrAttempt(source)
       return NextResponse.json(
         {
           error: 'Validation failed',
@@ -191,6 +292,23 @@ export async function POST(
       )
     }
 
+    if (error instanceof PaymentProofError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code === 'CONCURRENT_UPDATE' ? 'UTR_ALREADY_SUBMITTED' : error.code,
+        },
+        { status: error.httpStatus }
+      )
+    }
+
     console.error('[UTR API] Detailed error information:', {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : 'No stack trace',
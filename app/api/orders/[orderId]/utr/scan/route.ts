@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { comparePaymentProof } from '@/lib/payment-proof/extract';
+import {
+  PaymentProofError,
+  readPaymentProofImage,
+  scanPaymentProof,
+} from '@/lib/payment-proof/service';
+import { rateLimit, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit';
+
+// Tesseract runs on the Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * Read a payment screenshot so the UTR form can be pre-filled. Nothing is
+ * stored; the screenshot is uploaded again with the UTR submission.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> },
+) {
+  try {
+    const rateLimitResult = await rateLimit(request, RATE_LIMIT_CONFIGS.ocr);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: rateLimitResult.message, code: 'RATE_LIMIT_EXCEEDED' },
+        { status: 429 },
+      );
+    }
+
+    const screenshot = (await request.formData()).get('screenshot');
+    if (!(screenshot instanceof File)) {
+      return NextResponse.json(
+        { error: 'A screenshot file is required', code: 'FILE_REQUIRED' },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+
+    const { orderId } = await params;
+    const order = await OrderModel.findOne({ orderId }).select(
+      'orderId amount upiId status createdAt',
+    );
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    if (order.status !== 'pending') {
+      return NextResponse.json(
+        {
+          error: `Order is not in pending status. Current status: ${order.status}`,
+          code: 'INVALID_ORDER_STATUS',
+        },
+        { status: 400 },
+      );
+    }
+
+    const scan = await scanPaymentProof(await readPaymentProofImage(screenshot));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scanned: scan.scanned,
+        utr: scan.utr,
+        amount: scan.amount,
+        payeeVpa: scan.payeeVpa ?? scan.vpas[0],
+        paidAt: scan.paidAt?.toISOString(),
+        mismatches: comparePaymentProof(scan, {
+          amount: order.amount,
+          vpa: order.upiId,
+          orderCreatedAt: order.createdAt,
+        }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PaymentProofError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+
+    console.error('[UTR API] Screenshot scan error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read screenshot',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { MAX_BULK_ORDER_ROWS } from '@/lib/orders/bulk-create';
+import { buildBulkResultsCSV, buildBulkResultsWorkbook } from '@/lib/orders/bulk-results';
+import { roleHasPermission } from '@/lib/types/roles';
+
+const ResultsSchema = z.object({
+  orderIds: z.array(z.string()).min(1).max(MAX_BULK_ORDER_ROWS),
+  format: z.enum(['xlsx', 'csv']).default('xlsx'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'process_bulk_payments')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to create orders in bulk',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const { orderIds, format } = ResultsSchema.parse(await request.json());
+
+    await connectDB();
+
+    const orders = await OrderModel.find({ orderId: { $in: orderIds }, createdBy: user.id });
+    // Keep the order of the upload
+    const position = new Map(orderIds.map((orderId, index) => [orderId, index]));
+    orders.sort((a, b) => (position.get(a.orderId) ?? 0) - (position.get(b.orderId) ?? 0));
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+    const fileName = `payment-links-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'csv') {
+      return new NextResponse(buildBulkResultsCSV(orders, baseUrl), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    const workbook = await buildBulkResultsWorkbook(orders, baseUrl);
+    return new NextResponse(new Uint8Array(workbook), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Orders API] Bulk results error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build results file',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
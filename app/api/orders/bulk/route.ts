@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { BulkOrderFileError, createBulkOrders, readBulkOrderFile } from '@/lib/orders/bulk-create';
+import { roleHasPermission } from '@/lib/types/roles';
+
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'process_bulk_payments')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to create orders in bulk',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'Attach a CSV or XLSX file', code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    if (!/\.(csv|txt|xlsx)$/i.test(file.name)) {
+      return NextResponse.json(
+        { error: 'Only .csv and .xlsx files are supported', code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json(
+        { error: 'Upload must be 5MB or smaller', code: 'FILE_TOO_LARGE' },
+        { status: 400 },
+      );
+    }
+
+    const rows = await readBulkOrderFile(file.name, await file.arrayBuffer());
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'The file has no order rows', code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+
+    const result = await createBulkOrders(
+      rows,
+      { id: user.id, email: user.email },
+      {
+        request,
+        fileName: file.name,
+        baseUrl: process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin,
+      },
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Created ${result.created} of ${result.totalRows} orders`,
+        data: result,
+      },
+      { status: result.created > 0 ? 201 : 200 },
+    );
+  } catch (error) {
+    if (error instanceof BulkOrderFileError) {
+      return NextResponse.json({ error: error.message, code: 'INVALID_FILE' }, { status: 400 });
+    }
+
+    console.error('[Orders API] Bulk order creation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create orders',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import {
+  createOrderExportStream,
+  ORDER_EXPORT_CONTENT_TYPES,
+  ORDER_EXPORT_FORMATS,
+  orderExportFileName,
+} from '@/lib/orders/export';
+import { buildOrderFilterQuery, parseOrderFilters } from '@/lib/orders/filters';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+// Streams run on the Node.js runtime for the Mongo cursor and the XLSX writer
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FormatSchema = z.enum(ORDER_EXPORT_FORMATS).default('csv');
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const canExportAll = roleHasPermission(user.role, 'export_orders');
+    if (!canExportAll && !roleHasPermission(user.role, 'export_own_orders')) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient permissions to export orders',
+          code: 'PERMISSION_DENIED',
+        },
+        { status: 403 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = FormatSchema.parse(searchParams.get('format') || undefined);
+    const filters = parseOrderFilters(searchParams);
+    const query = buildOrderFilterQuery(filters, canExportAll ? undefined : user.id);
+
+    await connectDB();
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.ORDERS_EXPORTED,
+      'Order',
+      'multiple',
+      user.id,
+      user.email,
+      { format, filters },
+    );
+
+    return new NextResponse(createOrderExportStream(query, format), {
+      headers: {
+        'Content-Type': ORDER_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${orderExportFileName(format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid export filters',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Orders API] Export error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export orders',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
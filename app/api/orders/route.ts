@@ -4,27 +4,26 @@ import { z } from 'zod';
 import { connectDB } from '@/lib/db/connection';
 import { OrderModel } from '@/lib/db/models/Order';
 import { AuditLogModel } from '@/lib/db/models/AuditLog';
+import { notifyOrderEvent } from '@/lib/notifications/service';
 import {
   generateQRCode,
   generateUPIString,
   generateUPIDeepLinks,
   generateOrderId,
   calculateExpirationTime,
-  getUPIConfig,
 } from '@/lib/utils/upi-utils';
-
-// Remove mock orders - we'll use real database now
-const CreateOrderSchema = z.object({
-  customerName: z.string().min(1, 'Customer name is required').max(100),
-  customerEmail: z.string().email('Invalid email format').optional(),
-  customerPhone: z
-    .string()
-    .regex(/^[+]?[\d\s-()]{10,15}$/, 'Invalid phone format')
-    .optional(),
-  amount: z.number().positive('Amount must be positive').max(100000, 'Amount too large'),
-  description: z.string().min(1, 'Description is required').max(500),
-  expiresInMinutes: z.number().min(1).max(10080).default(540), // Allow up to 7 days (10080 minutes), default 9 hours
-});
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatcher';
+import { buildOrderEventData } from '@/lib/webhooks/payloads';
+import { CreateOrderSchema } from '@/lib/types';
+import { buildOrderFilterQuery, parseOrderFilters } from '@/lib/orders/filters';
+import { withIdempotency } from '@/lib/utils/idempotency';
+import { resolveOrderExpiryMinutes } from '@/lib/settings/system';
+import { getEnabledUpiApps } from '@/lib/settings/upi-apps';
+import { VpaError } from '@/lib/vpas/management';
+import { assignOrderPayee, releaseAssignedPayee } from '@/lib/vpas/pool';
+import { fromPaise, toPaise } from '@/lib/utils/money';
+import { allocateStaticQrAmount } from '@/lib/static-qr/service';
+import { authenticateKioskDevice } from '@/lib/kiosk/devices';
 
 export async function GET(request: Request) {
   try {
@@ -42,33 +41,12 @@ export async function GET(request: Request) {
     }
 
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status');
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const search = searchParams.get('search');
-
-    // Build query based on user role
-    const query: unknown = {};
 
     // Non-admin users can only see their own orders
-    if (userRole !== 'admin') {
-      query.createdBy = user.id;
-    }
-
-    // Add status filter
-    if (status && status !== 'all') {
-      query.status = status;
-    }
-
-    // Add search functionality
-    if (search) {
-      query.$or = [
-        { orderId: { $regex: search, $options: 'i' } },
-        { customerName: { $regex: search, $options: 'i' } },
-        { customerEmail: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-      ];
-    }
+    const filters = parseOrderFilters(searchParams);
+    const query = buildOrderFilterQuery(filters, userRole !== 'admin' ? user.id : undefined);
 
     // Get paginated results
     const skip = (page - 1) * limit;
@@ -102,6 +80,16 @@ export async function GET(request: Request) {
       },
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: error.errors,
+        },
+        { status: 400 },
+      );
+    }
+
     console.error('[Orders API] Error fetching orders:', error);
     return NextResponse.json(
       {
@@ -118,7 +106,9 @@ export async function POST(request: Request) {
     // Connect to database
     await connectDB();
 
-    const user = await getSafeUser();
+    // Counter kiosks send a device token instead of a session and act for their merchant
+    const kiosk = await authenticateKioskDevice(request);
+    const user = kiosk?.user ?? (await getSafeUser());
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -128,79 +118,109 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
-    const body = await request.json();
-    const validatedData = CreateOrderSchema.parse(body);
-
-    // Get UPI configuration
-    const upiConfig = getUPIConfig();
-
-    // Generate unique order ID
-    const orderId = generateOrderId();
-
-    // Calculate expiration time
-    const expiresAt = calculateExpirationTime(validatedData.expiresInMinutes);
-
-    // Generate UPI payment string
-    const upiPaymentData = {
-      payeeAddress: upiConfig.upiId,
-      payeeName: upiConfig.merchantName,
-      amount: validatedData.amount,
-      transactionNote: validatedData.description,
-      transactionRef: orderId,
-    };
-
-    const upiString = generateUPIString(upiPaymentData);
-    const qrCodeDataUrl = await generateQRCode(upiString);
-    const deepLinks = generateUPIDeepLinks(upiString);
-
-    // Create order in database
-    const newOrder = await OrderModel.create({
-      orderId,
-      amount: validatedData.amount,
-      description: validatedData.description,
-      customerName: validatedData.customerName,
-      customerEmail: validatedData.customerEmail,
-      customerPhone: validatedData.customerPhone,
-      upiId: upiConfig.upiId,
-      status: 'pending',
-      createdBy: user.id,
-      expiresAt,
-    });
-
-    // Create audit log
-    await AuditLogModel.create({
-      action: 'order_created',
-      entityType: 'Order',
-      entityId: orderId,
-      userId: user.id,
-      userEmail: user.email || '',
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
-      userAgent: request.headers.get('user-agent') || 'unknown',
-      metadata: {
-        amount: validatedData.amount,
-        customerName: validatedData.customerName,
-        expiresInMinutes: validatedData.expiresInMinutes,
-      },
-    });
-
-    const response = {
-      success: true,
-      data: {
+    // Retries with the same Idempotency-Key get the first response instead of a second order
+    return await withIdempotency(request, `orders:${user.id}`, async () => {
+      const body = await request.json();
+      const validatedData = CreateOrderSchema.parse(body);
+
+      // In static QR mode the amount may be nudged up a few paise so the payment can be
+      // told apart from other open orders for the same amount
+      const staticQr = await allocateStaticQrAmount(user.id, toPaise(validatedData.amount));
+      const amountPaise = staticQr
+        ? staticQr.requestedPaise + staticQr.offsetPaise
+        : toPaise(validatedData.amount);
+      const amount = fromPaise(amountPaise);
+
+      // Generate unique order ID
+      const orderId = generateOrderId();
+
+      // Calculate expiration time
+      const expiresInMinutes = await resolveOrderExpiryMinutes(validatedData.expiresInMinutes);
+      const expiresAt = calculateExpirationTime(expiresInMinutes);
+
+      // Pay into the requested UPI ID, or route across the merchant's pool
+      const payee = await assignOrderPayee(user.id, amountPaise, {
+        requestedVpa: validatedData.upiId,
+      });
+
+      // Create order in database. An order that isn't saved never expires, so the
+      // UPI ID's capacity is given back here instead.
+      const newOrder = await OrderModel.create({
         orderId,
-        amount: validatedData.amount,
+        amount,
         description: validatedData.description,
+        customerName: validatedData.customerName,
+        customerEmail: validatedData.customerEmail,
+        customerPhone: validatedData.customerPhone,
+        upiId: payee.upiId,
+        payeeName: payee.payeeName,
         status: 'pending',
-        paymentUrl: `/pay/${orderId}`,
-        qrCode: qrCodeDataUrl,
-        upiString,
-        deepLinks,
-        expiresAt: expiresAt.toISOString(),
-        createdAt: newOrder.createdAt.toISOString(),
-        timeRemaining: expiresAt.getTime() - Date.now(),
-      },
-    };
+        createdBy: user.id,
+        expiresAt,
+        staticQr,
+      }).catch(async (error: unknown) => {
+        await releaseAssignedPayee(user.id, payee, amountPaise);
+        throw error;
+      });
+
+      // Generate UPI payment string
+      const upiPaymentData = {
+        payeeAddress: payee.upiId,
+        payeeName: payee.payeeName,
+        amount,
+        transactionNote: validatedData.description,
+        transactionRef: orderId,
+      };
+
+      const upiString = generateUPIString(upiPaymentData);
+      const qrCodeDataUrl = await generateQRCode(upiString);
+      const deepLinks = generateUPIDeepLinks(upiString, await getEnabledUpiApps());
+
+      // Create audit log
+      await AuditLogModel.create({
+        action: 'order_created',
+        entityType: 'Order',
+        entityId: orderId,
+        userId: user.id,
+        userEmail: user.email || '',
+        ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        metadata: {
+          amount,
+          customerName: validatedData.customerName,
+          expiresInMinutes,
+          staticQrOffsetPaise: staticQr?.offsetPaise,
+          kioskDeviceId: kiosk?.device.deviceId,
+        },
+      });
+
+      await dispatchWebhookEvent('order.created', user.id, buildOrderEventData(newOrder));
+      await notifyOrderEvent('order_created', newOrder);
+
+      const response = {
+        success: true,
+        data: {
+          orderId,
+          amount,
+          description: validatedData.description,
+          status: 'pending',
+          paymentUrl: `/pay/${orderId}`,
+          qrCode: qrCodeDataUrl,
+          upiString,
+          deepLinks,
+          // Ask the customer for exactly `amount` when they pay by the static QR
+          staticQr: staticQr && {
+            requestedAmount: validatedData.amount,
+            offsetPaise: staticQr.offsetPaise,
+          },
+          expiresAt: expiresAt.toISOString(),
+          createdAt: newOrder.createdAt.toISOString(),
+          timeRemaining: expiresAt.getTime() - Date.now(),
+        },
+      };
 
-    return NextResponse.json(response, { status: 201 });
+      return NextResponse.json(response, { status: 201 });
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -212,6 +232,10 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof VpaError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+
     console.error('[Orders API] Order creation error:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { z } from 'zod';
+import { connectDB } from '@/lib/db/connection';
+import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
+import { getUserFromSession } from '@/lib/auth/session-edge';
+import { PaymentLinkQrSchema, parseLogoDataUrl, renderPaymentLinkPoster } from '@/lib/qr/poster';
+import { QrCodeError, renderQRCode } from '@/lib/qr/render';
+import { getUPIConfig } from '@/lib/utils/upi-utils';
+import { toPaise } from '@/lib/utils/money';
+
+/**
+ * Download a payment link's QR code, on its own as PNG, SVG or PDF, or on a
+ * printable standee or poster
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> },
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('session');
+
+    if (!sessionCookie?.value) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getUserFromSession(sessionCookie.value);
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const options = PaymentLinkQrSchema.parse(body);
+
+    await connectDB();
+
+    const { linkId } = await params;
+    const paymentLink = await PaymentLinkModel.findOne({ linkId });
+
+    // Merchants can only download their own links
+    if (!paymentLink || (user.role !== 'admin' && paymentLink.createdBy !== user.userId)) {
+      return NextResponse.json({ error: 'Payment link not found' }, { status: 404 });
+    }
+
+    const url = `${process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin}/link/${linkId}`;
+    const logo = options.logo ? parseLogoDataUrl(options.logo) : undefined;
+
+    let file: { data: Buffer; contentType: string; filename: string };
+    if (options.template === 'plain') {
+      const rendered = await renderQRCode(url, { ...options, logo });
+      file = { ...rendered, filename: `${linkId}-qr.${rendered.extension}` };
+    } else {
+      const data = await renderPaymentLinkPoster(
+        {
+          url,
+          payeeName: paymentLink.payeeName || getUPIConfig().merchantName,
+          upiId: paymentLink.upiId,
+          title: paymentLink.title,
+          amountPaise:
+            !paymentLink.allowCustomAmount && paymentLink.amount
+              ? toPaise(paymentLink.amount)
+              : undefined,
+        },
+        { ...options, template: options.template, logo },
+      );
+      file = {
+        data,
+        contentType: 'application/pdf',
+        filename: `${linkId}-${options.template}.pdf`,
+      };
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors, code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof QrCodeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+
+    console.error('[Payment Links] QR code error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate QR code',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
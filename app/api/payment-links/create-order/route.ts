@@ -3,12 +3,20 @@ import { z } from 'zod'
 import { connectDB } from '@/lib/db/connection'
 import { OrderModel } from '@/lib/db/models/Order'
 import { PaymentLinkModel } from '@/lib/db/models/PaymentLink'
-import { generateOrderId, calculateExpirationTime } from '@/lib/utils/upi-utils'
+import { generateOrderId, calculateExpirationTime, getUPIConfig } from '@/lib/utils/upi-utils'
 import { rateLimit, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit'
+import { withIdempotency } from '@/lib/utils/idempotency'
+import { resolveOrderExpiryMinutes } from '@/lib/settings/system'
+import { hasWholePaise, toPaise } from '@/lib/utils/money'
+import { notifyOrderEvent } from '@/lib/notifications/service'
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatcher'
+import { buildOrderEventData, buildPaymentLinkEventData } from '@/lib/webhooks/payloads'
+import { VpaError } from '@/lib/vpas/management'
+import { assignOrderPayee, releaseAssignedPayee } from '@/lib/vpas/pool'
 
 const CreateOrderFromLinkSchema = z.object({
   linkId: z.string(),
-  amount: z.number().min(1).max(100000),
+  amount: z.number().min(1).max(100000).refine(hasWholePaise, 'Amount can have at most two decimal places'),
   customerName: z.string().optional(),
   customerEmail: z.string().email().optional(),
   customerPhone: z.string().optional(),
@@ -29,110 +37,141 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Parse request body
-    const body = await request.json()
-    const validatedData = CreateOrderFromLinkSchema.parse(body)
+    // A retried request with the same Idempotency-Key replays the first order instead of
+    // creating another one and counting the link's usage twice
+    return await withIdempotency(request, 'payment-links:create-order', async () => {
+      // Parse request body
+      const body = await request.json()
+      const validatedData = CreateOrderFromLinkSchema.parse(body)
 
-    // Connect to database
-    await connectDB()
+      // Connect to database
+      await connectDB()
 
-    // Find the payment link
-    const paymentLink = await PaymentLinkModel.findOne({
-      linkId: validatedData.linkId,
-      isActive: true,
-    })
-
-    if (!paymentLink) {
-      return NextResponse.json(
-        { error: 'Payment link not found or inactive' },
-        { status: 404 }
-      )
-    }
-
-    // Check if expired
-    if (paymentLink.expiresAt && new Date() > paymentLink.expiresAt) {
-      return NextResponse.json(
-        { error: 'Payment link has expired' },
-        { status: 400 }
-      )
-    }
+      // Find the payment link
+      const paymentLink = await PaymentLinkModel.findOne({
+        linkId: validatedData.linkId,
+        isActive: true,
+      })
 
-    // Check usage limit
-    if (paymentLink.usageLimit && paymentLink.usageCount >= paymentLink.usageLimit) {
-      return NextResponse.json(
-        { error: 'Payment link usage limit reached' },
-        { status: 400 }
-      )
-    }
+      if (!paymentLink) {
+        return NextResponse.json(
+          { error: 'Payment link not found or inactive' },
+          { status: 404 }
+        )
+      }
 
-    // Validate amount constraints
-    if (!paymentLink.allowCustomAmount && paymentLink.amount !== validatedData.amount) {
-      return NextResponse.json(
-        { error: 'Amount does not match the fixed amount for this payment link' },
-        { status: 400 }
-      )
-    }
+      // Check if expired
+      if (paymentLink.expiresAt && new Date() > paymentLink.expiresAt) {
+        return NextResponse.json(
+          { error: 'Payment link has expired' },
+          { status: 400 }
+        )
+      }
 
-    if (paymentLink.allowCustomAmount) {
-      if (paymentLink.minAmount && validatedData.amount < paymentLink.minAmount) {
+      // Check usage limit
+      if (paymentLink.usageLimit && paymentLink.usageCount >= paymentLink.usageLimit) {
         return NextResponse.json(
-          { error: `Amount must be at least ₹${paymentLink.minAmount}` },
+          { error: 'Payment link usage limit reached' },
           { status: 400 }
         )
       }
 
-      if (paymentLink.maxAmount && validatedData.amount > paymentLink.maxAmount) {
+      // Validate amount constraints
+      if (!paymentLink.allowCustomAmount && toPaise(paymentLink.amount ?? 0) !== toPaise(validatedData.amount)) {
         return NextResponse.json(
-          { error: `Amount cannot exceed ₹${paymentLink.maxAmount}` },
+          { error: 'Amount does not match the fixed amount for this payment link' },
           { status: 400 }
         )
       }
-    }
 
-    // Generate order ID and expiration time
-    const orderId = generateOrderId()
-    const expiresAt = calculateExpirationTime(9) // 9 minutes
-
-    // Create order
-    const orderData = {
-      orderId,
-      amount: validatedData.amount,
-      description: paymentLink.description || `Payment for ${paymentLink.title}`,
-      customerName: validatedData.customerName,
-      customerEmail: validatedData.customerEmail,
-      customerPhone: validatedData.customerPhone,
-      upiId: paymentLink.upiId,
-      status: 'pending' as const,
-      createdBy: paymentLink.createdBy,
-      expiresAt,
-      paymentLinkId: paymentLink.linkId, // Track which payment link created this order
-    }
+      if (paymentLink.allowCustomAmount) {
+        if (paymentLink.minAmount && validatedData.amount < paymentLink.minAmount) {
+          return NextResponse.json(
+            { error: `Amount must be at least ₹${paymentLink.minAmount}` },
+            { status: 400 }
+          )
+        }
+
+        if (paymentLink.maxAmount && validatedData.amount > paymentLink.maxAmount) {
+          return NextResponse.json(
+            { error: `Amount cannot exceed ₹${paymentLink.maxAmount}` },
+            { status: 400 }
+          )
+        }
+      }
 
-    console.log('Creating order from payment link:', JSON.stringify(orderData, null, 2))
+      // Generate order ID and expiration time
+      const orderId = generateOrderId()
+      const expiresAt = calculateExpirationTime(await resolveOrderExpiryMinutes())
+
+      // Links created before the merchant had approved UPI IDs keep paying into their own
+      const amountPaise = toPaise(validatedData.amount)
+      const payee = await assignOrderPayee(paymentLink.createdBy, amountPaise, {
+        preferredVpa: paymentLink.upiId,
+        fallback: {
+          upiId: paymentLink.upiId,
+          payeeName: paymentLink.payeeName || getUPIConfig().merchantName,
+        },
+      })
+
+      // Create order
+      const orderData = {
+        orderId,
+        amount: validatedData.amount,
+        description: paymentLink.description || `Payment for ${paymentLink.title}`,
+        customerName: validatedData.customerName,
+        customerEmail: validatedData.customerEmail,
+        customerPhone: validatedData.customerPhone,
+        upiId: payee.upiId,
+        payeeName: payee.payeeName,
+        status: 'pending' as const,
+        createdBy: paymentLink.createdBy,
+        expiresAt,
+        paymentLinkId: paymentLink.linkId, // Track which payment link created this order
+      }
 
-    const order = await OrderModel.create(orderData)
+      console.log('Creating order from payment link:', JSON.stringify(orderData, null, 2))
 
-    // Increment usage count for the payment link
-    await PaymentLinkModel.findByIdAndUpdate(paymentLink._id, {
-      $inc: { usageCount: 1 },
-      $set: { 'stats.lastUsedAt': new Date() }
-    })
+      // An order that isn't saved never expires, so the UPI ID's capacity is given back here
+      const order = await OrderModel.create(orderData).catch(async (error: unknown) => {
+        await releaseAssignedPayee(paymentLink.createdBy, payee, amountPaise)
+        throw error
+      })
 
-    const response = {
-      success: true,
-      data: {
-        orderId: order.orderId,
-        amount: order.amount,
-        description: order.description,
-        status: order.status,
-        expiresAt: order.expiresAt,
-        paymentUrl: `/pay/${order.orderId}`,
-        timeRemaining: expiresAt.getTime() - Date.now(), // milliseconds
-      },
-      message: 'Order created successfully from payment link',
-    }
+      // Increment usage count for the payment link
+      const updatedLink = await PaymentLinkModel.findByIdAndUpdate(
+        paymentLink._id,
+        {
+          $inc: { usageCount: 1 },
+          $set: { 'stats.lastUsedAt': new Date() }
+        },
+        { new: true }
+      )
+
+      await dispatchWebhookEvent('order.created', paymentLink.createdBy, buildOrderEventData(order))
+      await notifyOrderEvent('order_created', order)
+      await dispatchWebhookEvent(
+        'payment_link.used',
+        paymentLink.createdBy,
+        buildPaymentLinkEventData(updatedLink || paymentLink, order)
+      )
 
-    return NextResponse.json(response, { status: 201 })
+      const response = {
+        success: true,
+        data: {
+          orderId: order.orderId,
+          amount: order.amount,
+          description: order.description,
+          status: order.status,
+          expiresAt: order.expiresAt,
+          paymentUrl: `/pay/${order.orderId}`,
+          timeRemaining: expiresAt.getTime() - Date.now(), // milliseconds
+        },
+        message: 'Order created successfully from payment link',
+      }
+
+      return NextResponse.json(response, { status: 201 })
+    })
 
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -146,6 +185,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error instanceof VpaError) {
+      return NextResponse.json(
+        { error: 'This merchant cannot accept payments right now', code: error.code },
+        { status: 409 }
+      )
+    }
+
     console.error('[Payment Links] Create order error:', error)
 
     return NextResponse.json(
@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/db/connection';
 import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
 import { getUserFromSession } from '@/lib/auth/session-edge';
 import { cookies } from 'next/headers';
+import { VpaError, resolvePayee } from '@/lib/vpas/management';
 
 export async function GET(request: NextRequest) {
   try {
@@ -82,6 +83,7 @@ export async function POST(request: NextRequest) {
       usageLimit,
       customFields,
       settings,
+      upiId,
     } = body;
 
     // Validate required fields
@@ -94,6 +96,12 @@ export async function POST(request: NextRequest) {
 
     await connectDB();
 
+    // Pay into the requested UPI ID, or the merchant's default
+    const payee = await resolvePayee(
+      user.userId,
+      typeof upiId === 'string' && upiId ? upiId : undefined,
+    );
+
     // Generate unique link ID
     const linkId = `link_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
@@ -105,7 +113,8 @@ export async function POST(request: NextRequest) {
       allowCustomAmount: allowCustomAmount || false,
       minAmount: allowCustomAmount ? minAmount : undefined,
       maxAmount: allowCustomAmount ? maxAmount : undefined,
-      upiId: process.env.UPI_ID || 'merchant@paytm',
+      upiId: payee.upiId,
+      payeeName: payee.payeeName,
       createdBy: user.userId,
       expiresAt: expiresAt ? new Date(expiresAt) : undefined,
       usageLimit,
@@ -125,6 +134,13 @@ export async function POST(request: NextRequest) {
       data: paymentLink,
     }, { status: 201 });
   } catch (error) {
+    if (error instanceof VpaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
     console.error('Error creating payment link:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
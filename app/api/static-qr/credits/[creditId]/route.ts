@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { StaticQrCreditModel } from '@/lib/db/models/StaticQrCredit';
+import { OrderTransitionError } from '@/lib/orders/state-machine';
+import {
+  ResolveStaticCreditSchema,
+  StaticQrError,
+  resolveStaticCredit,
+  serializeStaticCredit,
+} from '@/lib/static-qr/service';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+/**
+ * Settle a payment in the review queue: apply it to an order, or dismiss it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ creditId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = ResolveStaticCreditSchema.parse(body);
+
+    await connectDB();
+
+    const { creditId } = await params;
+    const credit = await StaticQrCreditModel.findOne({ creditId });
+
+    // Merchants can only review payments to their own static QR
+    if (!credit || (user.role !== 'admin' && credit.ownerId !== user.id)) {
+      return NextResponse.json(
+        { error: 'Payment not found', code: 'CREDIT_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const { order } = await resolveStaticCredit(credit, input, user, request);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.STATIC_QR_CREDIT_RESOLVED,
+      'StaticQrCredit',
+      credit.creditId,
+      user.id,
+      user.email,
+      {
+        action: input.action,
+        utr: credit.utr,
+        orderId: credit.orderId,
+        reason: input.reason,
+      },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        credit: serializeStaticCredit(credit),
+        order: order && { orderId: order.orderId, status: order.status },
+      },
+      message: order ? `Applied to order ${order.orderId}` : 'Payment dismissed',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof StaticQrError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.httpStatus },
+      );
+    }
+
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.httpStatus },
+      );
+    }
+
+    console.error('[Static QR API] Credit review error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to review payment',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
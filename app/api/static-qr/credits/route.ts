@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { STATIC_CREDIT_STATUSES, StaticQrCreditModel } from '@/lib/db/models/StaticQrCredit';
+import {
+  StaticCreditSchema,
+  StaticQrError,
+  recordStaticCredit,
+  serializeStaticCredit,
+} from '@/lib/static-qr/service';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+const ListCreditsSchema = z.object({
+  status: z.enum(STATIC_CREDIT_STATUSES).default('needs_review'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * Static QR payments, by default the review queue. Admins see every merchant's.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { status, limit } = ListCreditsSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    await connectDB();
+
+    const credits = await StaticQrCreditModel.find({
+      status,
+      ...(user.role !== 'admin' && { ownerId: user.id }),
+    })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    // Reviewers choose between the orders an ambiguous payment could be for
+    const candidateIds = [...new Set(credits.flatMap((credit) => credit.candidateOrderIds))];
+    const candidates = candidateIds.length
+      ? await OrderModel.find({ orderId: { $in: candidateIds } })
+          .select('orderId amount customerName description status createdAt')
+          .lean()
+      : [];
+    const candidatesById = new Map(candidates.map((order) => [order.orderId, order]));
+
+    return NextResponse.json({
+      success: true,
+      data: credits.map((credit) => ({
+        ...serializeStaticCredit(credit),
+        candidates: credit.candidateOrderIds.flatMap((orderId) => {
+          const order = candidatesById.get(orderId);
+          return order
+            ? [
+                {
+                  orderId: order.orderId,
+                  amount: order.amount,
+                  customerName: order.customerName,
+                  description: order.description,
+                  status: order.status,
+                  createdAt: order.createdAt,
+                },
+              ]
+            : [];
+        }),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Static QR API] Credits fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch static QR payments',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Record a payment to the merchant's static QR, from a UTR the customer showed or a
+ * credit alert, and match it to an open order
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = StaticCreditSchema.parse(body);
+
+    await connectDB();
+
+    const { credit, order } = await recordStaticCredit(user.id, input, user, request);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.STATIC_QR_CREDIT_RECORDED,
+      'StaticQrCredit',
+      credit.creditId,
+      user.id,
+      user.email,
+      {
+        source: credit.source,
+        utr: credit.utr,
+        amount: input.amount,
+        status: credit.status,
+        reviewReason: credit.reviewReason,
+        orderId: credit.orderId,
+      },
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          credit: serializeStaticCredit(credit),
+          order: order && { orderId: order.orderId, status: order.status },
+        },
+        message: order
+          ? `Matched to order ${order.orderId}`
+          : 'No single order matched this payment. It is waiting for review.',
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof StaticQrError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.httpStatus },
+      );
+    }
+
+    console.error('[Static QR API] Credit recording error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record payment',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { PaymentLinkQrSchema, parseLogoDataUrl, renderPaymentLinkPoster } from '@/lib/qr/poster';
+import { QrCodeError, renderQRCode } from '@/lib/qr/render';
+import { buildStaticQrLink, getStaticQrPayees } from '@/lib/static-qr/service';
+
+const StaticQrDownloadSchema = PaymentLinkQrSchema.extend({
+  // Defaults to the merchant's default UPI ID
+  upiId: z.string().trim().toLowerCase().max(255).optional(),
+});
+
+/**
+ * Download the merchant's static QR code: the same options as a payment link's QR code,
+ * encoding a UPI link with no amount
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { upiId, ...options } = StaticQrDownloadSchema.parse(body);
+
+    await connectDB();
+
+    const payees = await getStaticQrPayees(user.id);
+    const payee = upiId ? payees.find((item) => item.upiId === upiId) : payees[0];
+    if (!payee) {
+      return NextResponse.json(
+        { error: 'No approved UPI ID to print a QR code for', code: 'VPA_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const upiString = buildStaticQrLink(payee);
+    const logo = options.logo ? parseLogoDataUrl(options.logo) : undefined;
+    const name = payee.upiId.replace(/[^\w.-]/g, '-');
+
+    let file: { data: Buffer; contentType: string; filename: string };
+    if (options.template === 'plain') {
+      const rendered = await renderQRCode(upiString, { ...options, logo });
+      file = { ...rendered, filename: `${name}-static-qr.${rendered.extension}` };
+    } else {
+      const data = await renderPaymentLinkPoster(
+        {
+          url: upiString,
+          payeeName: payee.payeeName,
+          upiId: payee.upiId,
+          title: 'Pay any amount',
+        },
+        { ...options, template: options.template, logo },
+      );
+      file = {
+        data,
+        contentType: 'application/pdf',
+        filename: `${name}-static-${options.template}.pdf`,
+      };
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors, code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof QrCodeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+
+    console.error('[Static QR API] QR code error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate QR code',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import {
+  StaticQrSettingsSchema,
+  buildStaticQrLink,
+  getStaticQrPayees,
+  getStaticQrSettings,
+  setStaticQrSettings,
+} from '@/lib/static-qr/service';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+
+/**
+ * The merchant's static QR settings and the amount-less UPI link for each UPI ID they
+ * can print a code for
+ */
+export async function GET() {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const [settings, payees] = await Promise.all([
+      getStaticQrSettings(user.id),
+      getStaticQrPayees(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        settings,
+        codes: payees.map((payee) => ({ ...payee, upiString: buildStaticQrLink(payee) })),
+      },
+    });
+  } catch (error) {
+    console.error('[Static QR API] Settings fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch static QR settings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const settings = StaticQrSettingsSchema.parse(body);
+
+    await connectDB();
+
+    const previous = await getStaticQrSettings(user.id);
+    await setStaticQrSettings(user.id, settings);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.STATIC_QR_SETTINGS_CHANGED,
+      'User',
+      user.id,
+      user.id,
+      user.email,
+      { previous, settings },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { settings },
+      message: settings.enabled ? 'Static QR mode is on' : 'Static QR mode is off',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Static QR API] Settings update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update static QR settings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import {
+  findOwnedVpa,
+  getDefaultUpiId,
+  serializeVpa,
+  setDefaultUpiId,
+} from '@/lib/vpas/management';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ vpaId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { vpaId } = await params;
+    const vpa = await findOwnedVpa(vpaId, user.id);
+    if (!vpa) {
+      return NextResponse.json(
+        { error: 'UPI ID not found', code: 'VPA_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    if (vpa.status !== 'approved') {
+      return NextResponse.json(
+        { error: 'Only approved UPI IDs can be the default', code: 'VPA_NOT_APPROVED' },
+        { status: 409 },
+      );
+    }
+
+    const previous = await getDefaultUpiId(user.id);
+    await setDefaultUpiId(user.id, vpa.vpa);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.VPA_DEFAULT_CHANGED,
+      'MerchantVpa',
+      vpaId,
+      user.id,
+      user.email,
+      { previous, vpa: vpa.vpa },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: serializeVpa(vpa, vpa.vpa),
+      message: 'Default UPI ID updated',
+    });
+  } catch (error) {
+    console.error('[VPAs API] Default UPI ID update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update default UPI ID',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
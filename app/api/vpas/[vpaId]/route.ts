@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { toPaise } from '@/lib/utils/money';
+import {
+  UpdateVpaSchema,
+  findOwnedVpa,
+  getDefaultUpiId,
+  serializeVpa,
+  setDefaultUpiId,
+} from '@/lib/vpas/management';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ vpaId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const changes = UpdateVpaSchema.parse(body);
+
+    await connectDB();
+
+    const { vpaId } = await params;
+    const vpa = await findOwnedVpa(vpaId, user.id);
+    if (!vpa) {
+      return NextResponse.json(
+        { error: 'UPI ID not found', code: 'VPA_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    // Assigning undefined unsets a cap
+    if (changes.isActive !== undefined) {
+      vpa.isActive = changes.isActive;
+    }
+    if (changes.dailyAmountLimit !== undefined) {
+      vpa.dailyAmountLimitPaise =
+        changes.dailyAmountLimit === null ? undefined : toPaise(changes.dailyAmountLimit);
+    }
+    if (changes.dailyCountLimit !== undefined) {
+      vpa.dailyCountLimit = changes.dailyCountLimit ?? undefined;
+    }
+    await vpa.save();
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.VPA_UPDATED,
+      'MerchantVpa',
+      vpaId,
+      user.id,
+      user.email,
+      { vpa: vpa.vpa, changes },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: serializeVpa(vpa, await getDefaultUpiId(user.id)),
+      message: 'UPI ID updated',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[VPAs API] UPI ID update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update UPI ID',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ vpaId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { vpaId } = await params;
+    const vpa = await findOwnedVpa(vpaId, user.id);
+    if (!vpa) {
+      return NextResponse.json(
+        { error: 'UPI ID not found', code: 'VPA_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    await vpa.deleteOne();
+
+    // Orders and links already created keep the UPI ID they were created with
+    if ((await getDefaultUpiId(user.id)) === vpa.vpa) {
+      await setDefaultUpiId(user.id, undefined);
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.VPA_REMOVED,
+      'MerchantVpa',
+      vpaId,
+      user.id,
+      user.email,
+      { vpa: vpa.vpa, status: vpa.status },
+    );
+
+    return NextResponse.json({ success: true, message: 'UPI ID removed' });
+  } catch (error) {
+    console.error('[VPAs API] UPI ID deletion error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to remove UPI ID',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { MerchantVpaModel } from '@/lib/db/models/MerchantVpa';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import {
+  MAX_VPAS_PER_MERCHANT,
+  RegisterVpaSchema,
+  getDefaultUpiId,
+  serializeVpa,
+} from '@/lib/vpas/management';
+
+export async function GET() {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    await connectDB();
+
+    const [vpas, defaultUpiId] = await Promise.all([
+      MerchantVpaModel.find({ ownerId: user.id }).sort({ createdAt: 1 }),
+      getDefaultUpiId(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: vpas.map((vpa) => serializeVpa(vpa, defaultUpiId)),
+    });
+  } catch (error) {
+    console.error('[VPAs API] Error fetching UPI IDs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch UPI IDs',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = RegisterVpaSchema.parse(body);
+
+    await connectDB();
+
+    const existing = await MerchantVpaModel.find({ ownerId: user.id }).select('vpa');
+    if (existing.some((vpa) => vpa.vpa === validatedData.vpa)) {
+      return NextResponse.json(
+        { error: 'This UPI ID is already registered', code: 'VPA_EXISTS' },
+        { status: 409 },
+      );
+    }
+    if (existing.length >= MAX_VPAS_PER_MERCHANT) {
+      return NextResponse.json(
+        {
+          error: `You can register at most ${MAX_VPAS_PER_MERCHANT} UPI IDs`,
+          code: 'VPA_LIMIT_REACHED',
+        },
+        { status: 400 },
+      );
+    }
+
+    // New UPI IDs can't receive payments until an admin approves them
+    const vpa = await MerchantVpaModel.create({
+      ownerId: user.id,
+      vpa: validatedData.vpa,
+      payeeName: validatedData.payeeName,
+      status: 'pending',
+    });
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.VPA_REGISTERED,
+      'MerchantVpa',
+      String(vpa._id),
+      user.id,
+      user.email,
+      { vpa: vpa.vpa, payeeName: vpa.payeeName },
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeVpa(vpa),
+        message: 'UPI ID added. It can be used once an admin approves it.',
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[VPAs API] UPI ID registration error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add UPI ID',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { roleHasPermission } from '@/lib/types/roles';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { VpaRoutingSchema, getRoutingPreferences, setVpaRouting } from '@/lib/vpas/management';
+
+export async function GET() {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { vpaRouting } = await getRoutingPreferences(user.id);
+    return NextResponse.json({ success: true, data: { strategy: vpaRouting } });
+  } catch (error) {
+    console.error('[VPAs API] Routing fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch UPI ID routing',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!roleHasPermission(user.role, 'manage_own_payment_methods')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { strategy } = VpaRoutingSchema.parse(body);
+
+    await connectDB();
+
+    const { vpaRouting: previous } = await getRoutingPreferences(user.id);
+    await setVpaRouting(user.id, strategy);
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.VPA_ROUTING_CHANGED,
+      'User',
+      user.id,
+      user.id,
+      user.email,
+      { previous, strategy },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { strategy },
+      message: 'UPI ID routing updated',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[VPAs API] Routing update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update UPI ID routing',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
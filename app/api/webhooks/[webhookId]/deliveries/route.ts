@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { WebhookDeliveryModel } from '@/lib/db/models/WebhookDelivery';
+import { findOwnedWebhook, serializeDelivery } from '@/lib/webhooks/management';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { webhookId } = await params;
+    const webhook = await findOwnedWebhook(webhookId, user.id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10)));
+    const status = searchParams.get('status');
+
+    const query: Record<string, unknown> = { webhookId };
+    if (status && status !== 'all') {
+      query.status = status;
+    }
+
+    const skip = (page - 1) * limit;
+    const [deliveries, total] = await Promise.all([
+      WebhookDeliveryModel.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      WebhookDeliveryModel.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deliveries: deliveries.map(serializeDelivery),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Webhooks API] Error fetching deliveries:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch webhook deliveries',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
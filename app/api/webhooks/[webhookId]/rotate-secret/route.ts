@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { generateWebhookSecret } from '@/lib/webhooks/signature';
+import { findOwnedWebhook, serializeWebhook } from '@/lib/webhooks/management';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { webhookId } = await params;
+    const webhook = await findOwnedWebhook(webhookId, user.id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    webhook.secret = generateWebhookSecret();
+    await webhook.save();
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.WEBHOOK_SECRET_ROTATED,
+      'Webhook',
+      webhookId,
+      user.id,
+      user.email,
+      { url: webhook.url },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: serializeWebhook(webhook, { includeSecret: true }),
+      message: 'Signing secret rotated. Update your receiver - the old secret no longer works.',
+    });
+  } catch (error) {
+    console.error('[Webhooks API] Secret rotation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to rotate webhook secret',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { WebhookDeliveryModel } from '@/lib/db/models/WebhookDelivery';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { UpdateWebhookSchema, findOwnedWebhook, serializeWebhook } from '@/lib/webhooks/management';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { webhookId } = await params;
+    const webhook = await findOwnedWebhook(webhookId, user.id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: serializeWebhook(webhook) });
+  } catch (error) {
+    console.error('[Webhooks API] Error fetching webhook:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateWebhookSchema.parse(body);
+
+    await connectDB();
+
+    const { webhookId } = await params;
+    const webhook = await findOwnedWebhook(webhookId, user.id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const previous = { url: webhook.url, events: [...webhook.events], isActive: webhook.isActive };
+
+    if (validatedData.url !== undefined) {
+      webhook.url = validatedData.url;
+    }
+    if (validatedData.events !== undefined) {
+      webhook.events = validatedData.events;
+    }
+    if (validatedData.isActive !== undefined) {
+      webhook.isActive = validatedData.isActive;
+    }
+
+    await webhook.save();
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.WEBHOOK_UPDATED,
+      'Webhook',
+      webhookId,
+      user.id,
+      user.email,
+      { previous, changes: validatedData },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: serializeWebhook(webhook),
+      message: 'Webhook updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Webhooks API] Webhook update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { webhookId } = await params;
+    const webhook = await findOwnedWebhook(webhookId, user.id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    await webhook.deleteOne();
+
+    // Stop any retries still scheduled for the removed endpoint
+    await WebhookDeliveryModel.updateMany(
+      { webhookId, status: 'pending' },
+      { $set: { status: 'failed' }, $unset: { nextAttemptAt: '' } },
+    );
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.WEBHOOK_DELETED,
+      'Webhook',
+      webhookId,
+      user.id,
+      user.email,
+      { url: webhook.url, events: webhook.events },
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook deleted successfully',
+    });
+  } catch (error) {
+    console.error('[Webhooks API] Webhook deletion error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
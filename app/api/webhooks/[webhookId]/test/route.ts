@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { sendTestWebhook } from '@/lib/webhooks/dispatcher';
+import { TestWebhookSchema, findOwnedWebhook, serializeDelivery } from '@/lib/webhooks/management';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> },
+) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = TestWebhookSchema.parse(body);
+
+    await connectDB();
+
+    const { webhookId } = await params;
+    const webhook = await findOwnedWebhook(webhookId, user.id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' },
+        { status: 404 },
+      );
+    }
+
+    const delivery = await sendTestWebhook(webhook, validatedData.event);
+    if (!delivery) {
+      throw new Error('Test delivery was not recorded');
+    }
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.WEBHOOK_TEST_SENT,
+      'Webhook',
+      webhookId,
+      user.id,
+      user.email,
+      {
+        event: validatedData.event,
+        deliveryId: delivery.deliveryId,
+        status: delivery.status,
+        responseStatus: delivery.lastResponseStatus,
+      },
+    );
+
+    return NextResponse.json({
+      success: delivery.status === 'succeeded',
+      data: serializeDelivery(delivery),
+      message:
+        delivery.status === 'succeeded'
+          ? 'Test event delivered successfully'
+          : 'Test event delivery failed',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Webhooks API] Test delivery error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send test event',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { connectDB } from '@/lib/db/connection';
+import { WebhookModel } from '@/lib/db/models/Webhook';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { generateWebhookSecret } from '@/lib/webhooks/signature';
+import { CreateWebhookSchema, serializeWebhook } from '@/lib/webhooks/management';
+
+const MAX_WEBHOOKS_PER_USER = 10;
+
+export async function GET() {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!['admin', 'merchant'].includes(user.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    await connectDB();
+
+    const webhooks = await WebhookModel.find({ createdBy: user.id }).sort({ createdAt: -1 });
+
+    return NextResponse.json({
+      success: true,
+      data: webhooks.map((webhook) => serializeWebhook(webhook)),
+    });
+  } catch (error) {
+    console.error('[Webhooks API] Error fetching webhooks:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch webhooks',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSafeUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!['admin', 'merchant'].includes(user.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = CreateWebhookSchema.parse(body);
+
+    await connectDB();
+
+    const existingCount = await WebhookModel.countDocuments({ createdBy: user.id });
+    if (existingCount >= MAX_WEBHOOKS_PER_USER) {
+      return NextResponse.json(
+        {
+          error: `You can register at most ${MAX_WEBHOOKS_PER_USER} webhooks`,
+          code: 'WEBHOOK_LIMIT_REACHED',
+        },
+        { status: 400 },
+      );
+    }
+
+    const webhook = await WebhookModel.create({
+      url: validatedData.url,
+      events: validatedData.events,
+      isActive: validatedData.isActive,
+      secret: generateWebhookSecret(),
+      createdBy: user.id,
+    });
+
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.WEBHOOK_CREATED,
+      'Webhook',
+      String(webhook._id),
+      user.id,
+      user.email,
+      { url: webhook.url, events: webhook.events },
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeWebhook(webhook, { includeSecret: true }),
+        message: 'Webhook created. Copy the signing secret now - it will not be shown again.',
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors,
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 },
+      );
+    }
+
+    console.error('[Webhooks API] Webhook creation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
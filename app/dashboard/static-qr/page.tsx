@@ -0,0 +1,31 @@
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { redirect } from 'next/navigation';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Separator } from '@/components/ui/separator';
+import { StaticQrSettings } from '@/components/static-qr/static-qr-settings';
+import { CreditReviewQueue } from '@/components/static-qr/credit-review-queue';
+
+export default async function StaticQrPage() {
+  const user = await getSafeUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (!['admin', 'merchant'].includes(user.role)) {
+    redirect('/unauthorized');
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div className="flex items-center gap-2">
+        <SidebarTrigger />
+        <Separator orientation="vertical" className="mr-2 h-4" />
+        <h1 className="text-2xl font-bold">Static QR</h1>
+      </div>
+
+      <StaticQrSettings />
+      <CreditReviewQueue />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { getSafeUser } from '@/lib/auth/safe-auth';
+import { redirect } from 'next/navigation';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Separator } from '@/components/ui/separator';
+import { WebhooksManager } from '@/components/webhooks/webhooks-manager';
+
+export default async function WebhooksPage() {
+  const user = await getSafeUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (!['admin', 'merchant'].includes(user.role)) {
+    redirect('/unauthorized');
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div className="flex items-center gap-2">
+        <SidebarTrigger />
+        <Separator orientation="vertical" className="mr-2 h-4" />
+        <h1 className="text-2xl font-bold">Webhooks</h1>
+      </div>
+
+      <WebhooksManager />
+    </div>
+  );
+}
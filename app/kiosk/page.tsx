@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import { KioskTerminal } from '@/components/kiosk/kiosk-terminal';
+
+export const metadata: Metadata = {
+  title: 'Counter Kiosk',
+  robots: { index: false, follow: false },
+};
+
+export default function KioskPage() {
+  return <KioskTerminal />;
+}
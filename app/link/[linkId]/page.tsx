@@ -43,7 +43,7 @@ async function getPaymentLink(linkId: string) {
       minAmount: paymentLink.minAmount,
       maxAmount: paymentLink.maxAmount,
       upiId: paymentLink.upiId,
-      merchantName: process.env.UPI_MERCHANT_NAME || 'UPI Payment System',
+      merchantName: paymentLink.payeeName || process.env.UPI_MERCHANT_NAME || 'UPI Payment System',
       isActive: paymentLink.isActive,
       expiresAt: paymentLink.expiresAt,
       usageLimit: paymentLink.usageLimit,
@@ -1,6 +1,10 @@
+import { headers } from 'next/headers'
 import { notFound, redirect } from 'next/navigation'
 import { connectDB } from '@/lib/db/connection'
 import { OrderModel } from '@/lib/db/models/Order'
+import { expireIfOverdue } from '@/lib/orders/state-machine'
+import { getEnabledUpiApps } from '@/lib/settings/upi-apps'
+import { detectPlatform } from '@/lib/upi-apps/registry'
 import { PaymentPageClient } from '@/components/payment/payment-page-client'
 
 interface PaymentPageProps {
@@ -13,31 +17,31 @@ async function getOrder(orderId: string) {
   try {
     await connectDB()
     
-    // Only exclude failed orders, allow all others (remove expired check)
-    const order = await OrderModel.findOne({
+    // Allow all statuses; finished orders are redirected below
+    const storedOrder = await OrderModel.findOne({
       orderId: orderId,
-      status: { $nin: ['failed'] }
-    }).lean()
+    })
 
-    if (!order) {
+    if (!storedOrder) {
       return null
     }
 
-    // Remove expiration check completely since timer is dummy
-    // Orders won't auto-expire based on time
+    // Overdue orders are shown as expired so the customer can ask for a new link
+    const order = await expireIfOverdue(storedOrder)
 
     // Transform MongoDB document to match component interface
     return {
-      id: order._id.toString(),
+      id: String(order._id),
       orderId: order.orderId,
       amount: order.amount,
       description: order.description || `Payment for Order ${order.orderId}`,
       upiId: order.upiId,
-      merchantName: process.env.UPI_MERCHANT_NAME || 'UPI Payment System',
+      merchantName: order.payeeName || process.env.UPI_MERCHANT_NAME || 'UPI Payment System',
       status: order.status,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
       expiresAt: order.expiresAt,
+      timeRemaining: order.get('timeRemaining') as number,
       customerName: order.customerName,
       customerEmail: order.customerEmail,
       createdBy: order.createdBy,
@@ -63,14 +67,17 @@ export default async function PaymentPage({ params }: PaymentPageProps) {
     notFound()
   }
 
-  // Redirect completed orders to success page
-  if (order.status === 'completed') {
+  // Redirect completed and failed orders to the result page
+  if (order.status === 'completed' || order.status === 'failed') {
     redirect(`/payment-success/${orderId}`)
   }
 
+  const [upiApps, headerList] = await Promise.all([getEnabledUpiApps(), headers()])
+  const platform = detectPlatform(headerList.get('user-agent'))
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
-      <PaymentPageClient order={order} />
+      <PaymentPageClient order={order} upiApps={upiApps} platform={platform} />
     </div>
   )
 }
@@ -1,5 +1,5 @@
 // app/payment-success/[orderId]/page.tsx
-import { CheckCircle2, Copy, Download, ArrowRight } from 'lucide-react';
+import { CheckCircle2, Copy, Download, ArrowRight, XCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -21,8 +21,8 @@ async function getCompletedOrder(orderId: string) {
 
     const order = await OrderModel.findOne({
       orderId,
-      status: { $in: ['completed', 'pending-verification'] },
-    }).lean()
+      status: { $in: ['completed', 'pending-verification', 'failed'] },
+    }).lean();
 
     if (!order) {
       return null;
@@ -33,7 +33,7 @@ async function getCompletedOrder(orderId: string) {
       orderId: order.orderId,
       amount: order.amount,
       description: order.description,
-      merchantName: process.env.UPI_MERCHANT_NAME || 'UPI Payment System',
+      merchantName: order.payeeName || process.env.UPI_MERCHANT_NAME || 'UPI Payment System',
       status: order.status,
       utr: order.utrNumber,
       utrSubmittedAt: order.updatedAt, // Use updatedAt for when UTR was submitted
@@ -48,7 +48,11 @@ async function getCompletedOrder(orderId: string) {
   }
 }
 
-function PaymentSuccessContent({ order }: { order: unknown }) {
+function PaymentSuccessContent({
+  order,
+}: {
+  order: NonNullable<Awaited<ReturnType<typeof getCompletedOrder>>>;
+}) {
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -58,53 +62,59 @@ function PaymentSuccessContent({ order }: { order: unknown }) {
     }
   };
 
-  const downloadReceipt = () => {
-    const receiptData = {
-      orderId: order.orderId,
-      amount: order.amount,
-      merchantName: order.merchantName,
-      utr: order.utr,
-      status: order.status,
-      customerName: order.customerName,
-      date: new Date(order.utrSubmittedAt || order.createdAt).toLocaleDateString('en-IN'),
-    };
-
-    const dataStr = `data:text/json;charset=utf-8,${encodeURIComponent(JSON.stringify(receiptData, null, 2))}`;
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute('href', dataStr);
-    downloadAnchorNode.setAttribute('download', `receipt-${order.orderId}.json`);
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
-  };
-
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
       <div className="w-full max-w-md space-y-6">
         {/* Success Header */}
-        <Card className="border-green-200 bg-green-50 text-center">
-          <CardContent className="pt-6">
-            <div className="mb-4 flex justify-center">
-              <CheckCircle2 className="h-16 w-16 text-green-600" />
-            </div>
-            <h1 className="mb-2 text-2xl font-bold text-green-800">
-              {order.status === 'completed' ? 'Payment Successful!' : 'UTR Submitted!'}
-            </h1>
-            <p className="text-green-700">
-              {order.status === 'completed'
-                ? 'Your payment has been verified and completed.'
-                : 'Your payment is being verified. You will be notified once confirmed.'}
-            </p>
-          </CardContent>
-        </Card>
+        {order.status === 'failed' ? (
+          <Card className="border-red-200 bg-red-50 text-center">
+            <CardContent className="pt-6">
+              <div className="mb-4 flex justify-center">
+                <XCircle className="h-16 w-16 text-red-600" />
+              </div>
+              <h1 className="mb-2 text-2xl font-bold text-red-800">Payment Not Verified</h1>
+              <p className="text-red-700">
+                We couldn&apos;t verify this payment. Please contact the merchant with your UTR.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-green-200 bg-green-50 text-center">
+            <CardContent className="pt-6">
+              <div className="mb-4 flex justify-center">
+                <CheckCircle2 className="h-16 w-16 text-green-600" />
+              </div>
+              <h1 className="mb-2 text-2xl font-bold text-green-800">
+                {order.status === 'completed' ? 'Payment Successful!' : 'UTR Submitted!'}
+              </h1>
+              <p className="text-green-700">
+                {order.status === 'completed'
+                  ? 'Your payment has been verified and completed.'
+                  : 'Your payment is being verified. You will be notified once confirmed.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Order Details */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               Payment Details
-              <Badge variant={order.status === 'completed' ? 'default' : 'secondary'}>
-                {order.status === 'completed' ? 'Completed' : 'Verifying'}
+              <Badge
+                variant={
+                  order.status === 'completed'
+                    ? 'default'
+                    : order.status === 'failed'
+                      ? 'destructive'
+                      : 'secondary'
+                }
+              >
+                {order.status === 'completed'
+                  ? 'Completed'
+                  : order.status === 'failed'
+                    ? 'Failed'
+                    : 'Verifying'}
               </Badge>
             </CardTitle>
           </CardHeader>
@@ -148,7 +158,7 @@ function PaymentSuccessContent({ order }: { order: unknown }) {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => copyToClipboard(order.utr)}
+                      onClick={() => copyToClipboard(order.utr!)}
                       className="h-8 w-8 p-0"
                     >
                       <Copy className="h-4 w-4" />
@@ -178,10 +188,14 @@ function PaymentSuccessContent({ order }: { order: unknown }) {
 
         {/* Action Buttons */}
         <div className="space-y-3">
-          <Button onClick={downloadReceipt} variant="outline" className="w-full">
-            <Download className="mr-2 h-4 w-4" />
-            Download Receipt
-          </Button>
+          {order.status === 'completed' && (
+            <Button asChild variant="outline" className="w-full">
+              <a href={`/api/orders/${encodeURIComponent(order.orderId)}/receipt`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download Receipt (PDF)
+              </a>
+            </Button>
+          )}
 
           <Link href="/dashboard">
             <Button className="w-full">
@@ -198,9 +212,7 @@ function PaymentSuccessContent({ order }: { order: unknown }) {
             <p className="text-xs text-blue-600">
               Contact support with Order ID: <strong>{order.orderId}</strong>
             </p>
-            <p className="mt-1 text-xs text-blue-600">
-              Email: support@upipayments.com
-            </p>
+            <p className="mt-1 text-xs text-blue-600">Email: support@upipayments.com</p>
           </CardContent>
         </Card>
       </div>
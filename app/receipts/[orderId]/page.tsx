@@ -0,0 +1,129 @@
+// app/receipts/[orderId]/page.tsx
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { formatINR } from '@/lib/utils/money';
+
+interface ReceiptVerificationProps {
+  params: Promise<{
+    orderId: string;
+  }>;
+  searchParams: Promise<{
+    number?: string;
+  }>;
+}
+
+async function getReceipt(orderId: string, number?: string) {
+  if (!number) {
+    return null;
+  }
+
+  try {
+    await connectDB();
+
+    const order = await OrderModel.findOne({ orderId, 'receipt.number': number })
+      .select('orderId amountPaise refundedPaise utrNumber status receipt completedAt verifiedAt')
+      .lean();
+
+    if (!order?.receipt) {
+      return null;
+    }
+
+    return {
+      orderId: order.orderId,
+      receiptNumber: order.receipt.number,
+      issuedAt: order.receipt.issuedAt,
+      amountPaise: order.amountPaise,
+      refundedPaise: order.refundedPaise ?? 0,
+      utr: order.utrNumber,
+      status: order.status,
+      paidAt: order.completedAt ?? order.verifiedAt,
+    };
+  } catch (error) {
+    console.error('Error verifying receipt:', error);
+    return null;
+  }
+}
+
+export default async function ReceiptVerificationPage({
+  params,
+  searchParams,
+}: ReceiptVerificationProps) {
+  const { orderId } = await params;
+  const { number } = await searchParams;
+  const receipt = await getReceipt(orderId, number);
+
+  if (!receipt) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md border-red-200 bg-red-50 text-center">
+          <CardContent className="pt-6">
+            <div className="mb-4 flex justify-center">
+              <XCircle className="h-16 w-16 text-red-600" />
+            </div>
+            <h1 className="mb-2 text-2xl font-bold text-red-800">Receipt Not Found</h1>
+            <p className="text-red-700">
+              No receipt{number ? ` numbered ${number}` : ''} was issued for this order. The receipt
+              may have been altered.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const rows: Array<[string, string]> = [
+    ['Receipt No.', receipt.receiptNumber],
+    ['Order ID', receipt.orderId],
+    ['Amount Paid', formatINR(receipt.amountPaise)],
+    ...(receipt.refundedPaise > 0
+      ? [['Refunded', formatINR(receipt.refundedPaise)] as [string, string]]
+      : []),
+    ['UTR', receipt.utr || '-'],
+    [
+      'Paid On',
+      new Date(receipt.paidAt ?? receipt.issuedAt).toLocaleString('en-IN', {
+        timeZone: 'Asia/Kolkata',
+      }),
+    ],
+  ];
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md space-y-6">
+        <Card className="border-green-200 bg-green-50 text-center">
+          <CardContent className="pt-6">
+            <div className="mb-4 flex justify-center">
+              <CheckCircle2 className="h-16 w-16 text-green-600" />
+            </div>
+            <h1 className="mb-2 text-2xl font-bold text-green-800">Genuine Receipt</h1>
+            <p className="text-green-700">
+              Check that the details below match the receipt you were shown.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Recorded Payment
+              <Badge variant="secondary" className="capitalize">
+                {receipt.status.replace('-', ' ')}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex items-center justify-between gap-4">
+                <span className="text-gray-600">{label}</span>
+                <span className="font-mono text-sm font-medium">{value}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,11 @@ import {
   Settings,
   CreditCard,
   Activity,
+  Webhook,
+  FileSpreadsheet,
+  Wallet,
+  QrCode,
+  Tablet,
 } from 'lucide-react';
 import { AuthNavigation } from '@/components/auth-navigation';
 import { NoSSR } from '@/components/no-ssr';
@@ -43,6 +48,11 @@ const adminMenuItems = [
     url: '/admin/orders',
     icon: ShoppingCart,
   },
+  {
+    title: 'Reconciliation',
+    url: '/admin/reconciliation',
+    icon: FileSpreadsheet,
+  },
   {
     title: 'Analytics',
     url: '/admin/analytics',
@@ -86,6 +96,26 @@ const merchantMenuItems = [
     url: '/dashboard/analytics',
     icon: Activity,
   },
+  {
+    title: 'UPI IDs',
+    url: '/dashboard/upi-ids',
+    icon: Wallet,
+  },
+  {
+    title: 'Static QR',
+    url: '/dashboard/static-qr',
+    icon: QrCode,
+  },
+  {
+    title: 'Counter Kiosk',
+    url: '/dashboard/kiosk',
+    icon: Tablet,
+  },
+  {
+    title: 'Webhooks',
+    url: '/dashboard/webhooks',
+    icon: Webhook,
+  },
 ];
 
 const userMenuItems = [
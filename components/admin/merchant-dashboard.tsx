@@ -30,6 +30,7 @@ import {
 } from 'lucide-react';
 import { IconWrapper } from '@/lib/icon-wrapper';
 import { CreateUserDialog } from '@/components/user-management/create-user-dialog';
+import { VpaSelect } from '@/components/vpas/vpa-select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
 // Create Payment Link Modal Component
@@ -41,6 +42,7 @@ function CreatePaymentLinkModal({ isOpen, onClose, onSuccess }: { isOpen: boolea
     customerName: '',
     customerEmail: '',
     expiryHours: '24',
+    upiId: '',
   });
   const { toast } = useToast();
 
@@ -66,6 +68,7 @@ function CreatePaymentLinkModal({ isOpen, onClose, onSuccess }: { isOpen: boolea
           amount: parseFloat(formData.amount),
           description: formData.description,
           expiresInMinutes: parseInt(formData.expiryHours) * 60,
+          upiId: formData.upiId || undefined,
         }),
       });
 
@@ -96,6 +99,7 @@ function CreatePaymentLinkModal({ isOpen, onClose, onSuccess }: { isOpen: boolea
         customerName: '',
         customerEmail: '',
         expiryHours: '24',
+        upiId: '',
       });
       onClose();
     } catch (error) {
@@ -200,6 +204,12 @@ function CreatePaymentLinkModal({ isOpen, onClose, onSuccess }: { isOpen: boolea
             />
           </div>
 
+          <VpaSelect
+            value={formData.upiId}
+            onChange={(upiId) => setFormData((prev) => ({ ...prev, upiId }))}
+            className="font-medium text-foreground"
+          />
+
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
@@ -19,8 +19,10 @@ import {
   Clock,
   XCircle,
   RefreshCw,
+  Smartphone,
 } from 'lucide-react';
 import { IconWrapper } from '@/lib/icon-wrapper';
+import { DEFAULT_UPI_APPS } from '@/lib/upi-apps/registry';
 import { CreateUserDialog } from '@/components/user-management/create-user-dialog';
 import { CreatePaymentLinkDialog } from '@/components/payment-links/create-payment-link-dialog';
 
@@ -29,6 +31,7 @@ interface DashboardStats {
   totalUsers: number;
   totalOrders: number;
   totalRevenue: number;
+  totalRefunded?: number;
   successRate: number;
   pendingOrders: number;
   completedOrders: number;
@@ -47,6 +50,12 @@ interface RecentOrder {
   expiresAt?: string;
 }
 
+interface UpiAppStat {
+  appId: string;
+  orders: number;
+  paid: number;
+}
+
 interface ActivityItem {
   id: number;
   action: string;
@@ -150,7 +159,9 @@ function RecentOrders({ orders, loading }: { orders: RecentOrder[]; loading: boo
       'pending-verification': { label: 'Verifying', color: 'bg-blue-100 text-blue-800 border-blue-200' },
       completed: { label: 'Completed', color: 'bg-green-100 text-green-800 border-green-200' },
       expired: { label: 'Expired', color: 'bg-red-100 text-red-800 border-red-200' },
-      failed: { label: 'Failed', color: 'bg-red-100 text-red-800 border-red-200' }
+      failed: { label: 'Failed', color: 'bg-red-100 text-red-800 border-red-200' },
+      refunded: { label: 'Refunded', color: 'bg-purple-100 text-purple-800 border-purple-200' },
+      'partially-refunded': { label: 'Part Refunded', color: 'bg-purple-100 text-purple-800 border-purple-200' }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
@@ -337,6 +348,54 @@ function RecentActivity({ activities, loading }: { activities: ActivityItem[]; l
   );
 }
 
+// UPI apps customers picked on the payment page
+function UpiAppChoices({ apps, loading }: { apps: UpiAppStat[]; loading: boolean }) {
+  const appName = (appId: string) =>
+    DEFAULT_UPI_APPS.find((app) => app.id === appId)?.name ?? appId;
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg">
+      <CardHeader className="border-b border-gray-100">
+        <CardTitle className="text-lg font-semibold text-gray-800 flex items-center">
+          <IconWrapper icon={Smartphone} className="mr-2 h-5 w-5 text-indigo-500" />
+          UPI Apps
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          Apps customers chose on the payment page, and how many of those orders were paid
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 animate-pulse rounded-lg bg-gray-100"></div>
+            ))}
+          </div>
+        ) : apps.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No UPI app choices recorded yet</p>
+        ) : (
+          <div className="space-y-3">
+            {apps.map((app) => (
+              <div
+                key={app.appId}
+                className="flex items-center justify-between p-3 rounded-lg border border-gray-200 bg-gray-50"
+              >
+                <p className="text-sm font-medium text-gray-900">{appName(app.appId)}</p>
+                <div className="flex items-center space-x-3 text-sm text-gray-600">
+                  <span>{app.orders.toLocaleString('en-IN')} orders</span>
+                  <Badge className="bg-green-100 text-green-800 border-green-200 border font-medium">
+                    {app.paid.toLocaleString('en-IN')} paid ({Math.round((app.paid / app.orders) * 100)}%)
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // Main Modern Admin Dashboard Component
 export function ModernAdminDashboard() {
   const [createLinkModal, setCreateLinkModal] = useState(false);
@@ -354,6 +413,7 @@ export function ModernAdminDashboard() {
   });
   const [recentOrders, setRecentOrders] = useState<RecentOrder[]>([]);
   const [recentActivity, setRecentActivity] = useState<ActivityItem[]>([]);
+  const [upiAppStats, setUpiAppStats] = useState<UpiAppStat[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
 
@@ -372,6 +432,9 @@ export function ModernAdminDashboard() {
         if (statsData.success && statsData.data?.stats) {
           setStats(statsData.data.stats);
         }
+        if (Array.isArray(statsData.data?.analytics?.upiAppStats)) {
+          setUpiAppStats(statsData.data.analytics.upiAppStats);
+        }
       }
 
       // Fetch recent payment links
@@ -490,7 +553,11 @@ export function ModernAdminDashboard() {
           <ModernStatsCard
             title="Total Revenue"
             value={`₹${(stats.totalRevenue / 100000).toFixed(1)}L`}
-            description="Revenue generated"
+            description={
+              stats.totalRefunded
+                ? `Net of ₹${stats.totalRefunded.toLocaleString('en-IN')} refunded`
+                : 'Revenue generated'
+            }
             icon={DollarSign}
             trend="+15%"
             color="purple"
@@ -530,6 +597,9 @@ export function ModernAdminDashboard() {
           />
         </div>
 
+        {/* UPI App Choices */}
+        <UpiAppChoices apps={upiAppStats} loading={loading} />
+
         {/* Quick Actions */}
         <Card className="bg-white border border-gray-200 shadow-lg">
           <CardHeader className="border-b border-gray-100">
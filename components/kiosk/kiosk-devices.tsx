@@ -0,0 +1,185 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Copy, Tablet, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface KioskDevice {
+  deviceId: string;
+  name: string;
+  tokenPrefix: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+export function KioskDevices() {
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [name, setName] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [pairingLink, setPairingLink] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const response = await fetch('/api/kiosk/devices');
+      if (!response.ok) throw new Error('Failed to fetch kiosk devices');
+
+      const result = await response.json();
+      setDevices(result.data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchDevices();
+  }, [fetchDevices]);
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+
+    setAdding(true);
+    try {
+      const response = await fetch('/api/kiosk/devices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to add device');
+      }
+
+      setPairingLink(`${window.location.origin}/kiosk#token=${result.data.token}`);
+      setName('');
+      fetchDevices();
+    } catch (error) {
+      toast({
+        title: 'Error adding device',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    if (!confirm(`Revoke "${device.name}"? The kiosk will stop taking payments.`)) return;
+
+    try {
+      const response = await fetch(`/api/kiosk/devices/${device.deviceId}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to revoke device');
+
+      toast({ title: 'Kiosk device revoked', description: device.name });
+      fetchDevices();
+    } catch (error) {
+      toast({
+        title: 'Error revoking device',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const copyPairingLink = async () => {
+    if (!pairingLink) return;
+
+    await navigator.clipboard.writeText(pairingLink);
+    toast({ title: 'Copied', description: 'Pairing link copied to clipboard' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tablet className="h-5 w-5" />
+          Counter Kiosk
+        </CardTitle>
+        <CardDescription>
+          Turn a tablet at your counter into a payment terminal. The cashier enters an amount, the
+          customer scans a QR code for that order, and the screen clears itself once they have paid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAdd} className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="kioskName">Device name</Label>
+            <Input
+              id="kioskName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Front counter"
+              maxLength={60}
+            />
+          </div>
+          <Button type="submit" disabled={adding || !name.trim()}>
+            {adding ? 'Adding...' : 'Add Device'}
+          </Button>
+        </form>
+
+        {pairingLink && (
+          <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-4">
+            <div className="font-medium text-amber-900">Open this link on the kiosk</div>
+            <p className="text-sm text-amber-800">
+              It contains the device token and will not be shown again. Anyone with it can create
+              orders for you, so only open it on the kiosk itself.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={pairingLink} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copyPairingLink} aria-label="Copy">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setPairingLink(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Paired devices</Label>
+          {devices.length === 0 ? (
+            <p className="text-sm text-gray-500">No kiosk devices yet.</p>
+          ) : (
+            devices.map((device) => (
+              <div
+                key={device.deviceId}
+                className="flex items-center justify-between rounded-lg border p-3"
+              >
+                <div>
+                  <div className="font-medium">{device.name}</div>
+                  <div className="text-sm text-gray-500">
+                    <span className="font-mono">{device.tokenPrefix}...</span>
+                    {' · '}
+                    {device.lastUsedAt
+                      ? `Last used ${new Date(device.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => handleRevoke(device)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Revoke
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CheckCircle2, Delete, Maximize, Timer, XCircle } from 'lucide-react';
+import { usePaymentCountdown } from '@/hooks/use-payment-countdown';
+import { formatCountdown } from '@/lib/orders/countdown';
+import { formatINR, hasWholePaise, toPaise } from '@/lib/utils/money';
+import type { OrderStatus } from '@/lib/types';
+
+// Kept on the tablet so the kiosk survives reloads; revoking the device is the way to unpair it
+const TOKEN_STORAGE_KEY = 'kiosk-device-token';
+// How long the result stays on screen before the kiosk is ready for the next customer
+const RESET_DELAY_MS = 5_000;
+const MAX_AMOUNT = 100000;
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '0', 'back'];
+
+type Screen = 'loading' | 'pairing' | 'amount' | 'payment' | 'paid' | 'expired' | 'failed';
+
+interface KioskSession {
+  deviceName: string;
+  merchantName: string;
+}
+
+interface KioskOrder {
+  orderId: string;
+  amount: number;
+  qrCode: string;
+  timeRemaining: number;
+}
+
+class InvalidDeviceTokenError extends Error {}
+
+function appendKey(amount: string, key: string): string {
+  if (key === 'back') return amount.slice(0, -1);
+  if (key === '.' && amount.includes('.')) return amount;
+
+  const next = amount === '0' && key !== '.' ? key : amount + key;
+  const value = Number(next === '.' ? '0' : next);
+  return hasWholePaise(value) && value <= MAX_AMOUNT ? next : amount;
+}
+
+function KioskPayment({
+  order,
+  onFinished,
+}: {
+  order: KioskOrder;
+  onFinished: (screen: 'paid' | 'expired' | 'failed') => void;
+}) {
+  const [status, setStatus] = useState<OrderStatus>('pending');
+
+  useEffect(() => {
+    if (status === 'pending-verification' || status === 'completed') onFinished('paid');
+    else if (status === 'expired') onFinished('expired');
+    else if (status === 'failed') onFinished('failed');
+  }, [status, onFinished]);
+
+  useEffect(() => {
+    const events = new EventSource(`/api/orders/${order.orderId}/events`);
+    events.addEventListener('status', (message) => {
+      const next = JSON.parse((message as MessageEvent<string>).data).status as OrderStatus;
+      setStatus(next);
+      if (next !== 'pending') events.close();
+    });
+
+    return () => events.close();
+  }, [order.orderId]);
+
+  const timeLeft = usePaymentCountdown(
+    order.orderId,
+    order.timeRemaining,
+    status === 'pending',
+    setStatus,
+  );
+  const time = formatCountdown(timeLeft);
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <div className="text-5xl font-bold text-gray-900">{formatINR(toPaise(order.amount))}</div>
+      <div className="rounded-2xl bg-white p-4 shadow-lg">
+        <Image
+          src={order.qrCode}
+          alt="Scan to pay with any UPI app"
+          width={448}
+          height={448}
+          unoptimized
+          className="h-[min(60vh,28rem)] w-[min(60vh,28rem)] [image-rendering:pixelated]"
+        />
+      </div>
+      <p className="text-xl text-gray-600">Scan with any UPI app to pay</p>
+      <div className="flex items-center gap-2 font-mono text-3xl text-gray-800">
+        <Timer className="h-7 w-7" />
+        {time.minutes}:{time.seconds}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Full-screen counter kiosk: the cashier keys in an amount, the customer scans the
+ * order's QR code, and the screen resets once the payment is submitted or the order
+ * expires. Orders go through POST /api/orders with the device token.
+ */
+export function KioskTerminal() {
+  const [token, setToken] = useState<string | null>(null);
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [screen, setScreen] = useState<Screen>('loading');
+  const [pairingInput, setPairingInput] = useState('');
+  const [amount, setAmount] = useState('');
+  const [order, setOrder] = useState<KioskOrder | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unpair = useCallback((message: string) => {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    setToken(null);
+    setSession(null);
+    setError(message);
+    setScreen('pairing');
+  }, []);
+
+  const pair = useCallback(
+    async (candidate: string) => {
+      setScreen('loading');
+      try {
+        const response = await fetch('/api/kiosk/session', {
+          headers: { Authorization: `Bearer ${candidate}` },
+          cache: 'no-store',
+        });
+        const result = await response.json();
+        if (response.status === 401) throw new InvalidDeviceTokenError(result.error);
+        if (!response.ok) throw new Error(result.error || 'Failed to load kiosk');
+
+        localStorage.setItem(TOKEN_STORAGE_KEY, candidate);
+        setToken(candidate);
+        setSession(result.data);
+        setError(null);
+        setScreen('amount');
+      } catch (err) {
+        if (err instanceof InvalidDeviceTokenError) {
+          unpair(err.message || 'This device token is not valid');
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to load kiosk');
+          setScreen('pairing');
+        }
+      }
+    },
+    [unpair],
+  );
+
+  // A pairing link carries the token in the fragment, which never reaches the server
+  useEffect(() => {
+    const fromLink = new URLSearchParams(window.location.hash.slice(1)).get('token');
+    if (fromLink) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    const stored = fromLink || localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (stored) {
+      pair(stored);
+    } else {
+      setScreen('pairing');
+    }
+  }, [pair]);
+
+  const reset = useCallback(() => {
+    setOrder(null);
+    setAmount('');
+    setError(null);
+    setScreen('amount');
+  }, []);
+
+  useEffect(() => {
+    if (screen !== 'paid' && screen !== 'expired' && screen !== 'failed') return;
+
+    const timeout = setTimeout(reset, RESET_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [screen, reset]);
+
+  const handleFinished = useCallback((result: 'paid' | 'expired' | 'failed') => {
+    setScreen(result);
+  }, []);
+
+  const handlePair = (e: FormEvent) => {
+    e.preventDefault();
+    if (pairingInput.trim()) pair(pairingInput.trim());
+  };
+
+  const handleCharge = async () => {
+    if (!token || !session || Number(amount) < 1) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+          // A retried tap after a dropped connection must not create a second order
+          'Idempotency-Key': `kiosk-${crypto.randomUUID()}`,
+        },
+        body: JSON.stringify({
+          amount: Number(amount),
+          description: `Counter sale at ${session.deviceName}`,
+          customerName: 'Walk-in customer',
+        }),
+      });
+      const result = await response.json();
+      if (response.status === 401) {
+        unpair('This device has been revoked. Pair it again to continue.');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to create order');
+      }
+
+      setOrder({
+        orderId: result.data.orderId,
+        amount: result.data.amount,
+        qrCode: result.data.qrCode,
+        timeRemaining: result.data.timeRemaining,
+      });
+      setScreen('payment');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create order');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const enterFullScreen = () => {
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gray-50 select-none">
+      <header className="flex items-center justify-between px-6 py-4">
+        <div>
+          <div className="text-xl font-semibold text-gray-900">
+            {session?.merchantName ?? 'Counter Kiosk'}
+          </div>
+          {session && <div className="text-sm text-gray-500">{session.deviceName}</div>}
+        </div>
+        <Button variant="ghost" size="icon" onClick={enterFullScreen} aria-label="Full screen">
+          <Maximize className="h-5 w-5" />
+        </Button>
+      </header>
+
+      <main className="flex flex-1 items-center justify-center p-6">
+        {screen === 'loading' && <p className="text-xl text-gray-500">Loading...</p>}
+
+        {screen === 'pairing' && (
+          <form onSubmit={handlePair} className="w-full max-w-md space-y-4">
+            <h1 className="text-2xl font-semibold text-gray-900">Pair this device</h1>
+            <p className="text-gray-600">
+              Add a kiosk device under Counter Kiosk in the dashboard, then open its pairing link
+              here or paste its device token.
+            </p>
+            <Input
+              value={pairingInput}
+              onChange={(e) => setPairingInput(e.target.value)}
+              placeholder="kiosk_..."
+              autoComplete="off"
+              className="font-mono"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" size="lg">
+              Pair Device
+            </Button>
+          </form>
+        )}
+
+        {screen === 'amount' && (
+          <div className="w-full max-w-sm space-y-6">
+            <div className="rounded-xl bg-white p-6 text-right shadow-sm">
+              <div className="text-sm text-gray-500">Amount</div>
+              <div className="truncate text-5xl font-bold text-gray-900">₹{amount || '0'}</div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {KEYS.map((key) => (
+                <Button
+                  key={key}
+                  variant="outline"
+                  className="h-16 text-2xl"
+                  onClick={() => setAmount((prev) => appendKey(prev, key))}
+                  aria-label={key === 'back' ? 'Delete' : key}
+                >
+                  {key === 'back' ? <Delete className="h-6 w-6" /> : key}
+                </Button>
+              ))}
+            </div>
+            {error && <p className="text-center text-sm text-red-600">{error}</p>}
+            <Button
+              className="h-16 w-full text-xl"
+              disabled={creating || Number(amount) < 1}
+              onClick={handleCharge}
+            >
+              {creating ? 'Creating...' : 'Show QR Code'}
+            </Button>
+          </div>
+        )}
+
+        {screen === 'payment' && order && (
+          <div className="flex flex-col items-center gap-6">
+            <KioskPayment order={order} onFinished={handleFinished} />
+            <Button variant="ghost" onClick={reset}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {screen === 'paid' && (
+          <div className="flex flex-col items-center gap-4 text-center">
+            <CheckCircle2 className="h-24 w-24 text-green-600" />
+            <div className="text-3xl font-semibold text-gray-900">Payment received</div>
+            <p className="text-lg text-gray-600">Thank you!</p>
+          </div>
+        )}
+
+        {(screen === 'expired' || screen === 'failed') && (
+          <div className="flex flex-col items-center gap-4 text-center">
+            <XCircle className="h-24 w-24 text-red-600" />
+            <div className="text-3xl font-semibold text-gray-900">
+              {screen === 'expired' ? 'Time ran out' : 'Payment failed'}
+            </div>
+            <p className="text-lg text-gray-600">Starting over for the next sale...</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+interface BulkOrderRowResult {
+  line: number;
+  status: 'created' | 'failed';
+  customerName?: string;
+  amount?: number;
+  orderId?: string;
+  paymentUrl?: string;
+  errors?: string[];
+}
+
+interface BulkOrderResult {
+  bulkId: string;
+  totalRows: number;
+  created: number;
+  failed: number;
+  rows: BulkOrderRowResult[];
+}
+
+interface BulkCreateOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+const TEMPLATE_CSV = [
+  'Customer Name,Phone,Email,Amount,Description,Expiry',
+  'Asha Verma,9876543210,asha@example.com,1500,Term 1 tuition fee,1440',
+].join('\r\n');
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BulkCreateOrdersDialog({
+  open,
+  onOpenChange,
+  onCreated,
+}: BulkCreateOrdersDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<BulkOrderResult | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setResult(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/orders/bulk', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to create orders');
+      }
+
+      setResult(data.data);
+      toast({
+        title: 'Bulk upload processed',
+        description: data.message,
+      });
+      if (data.data.created > 0) {
+        onCreated();
+      }
+    } catch (error) {
+      toast({
+        title: 'Error creating orders',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const downloadResults = async (format: 'xlsx' | 'csv') => {
+    if (!result) return;
+
+    setDownloading(true);
+    try {
+      const orderIds = result.rows
+        .filter((row) => row.status === 'created' && row.orderId)
+        .map((row) => row.orderId as string);
+
+      const response = await fetch('/api/orders/bulk/results', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderIds, format }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to download results');
+      }
+
+      downloadBlob(await response.blob(), `${result.bulkId}.${format}`);
+    } catch (error) {
+      toast({
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const failedRows = result?.rows.filter((row) => row.status === 'failed') ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border border-gray-200 bg-white shadow-2xl sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-bold text-gray-800">
+            <div className="rounded-full bg-green-500 p-2">
+              <FileSpreadsheet className="h-5 w-5 text-white" />
+            </div>
+            Bulk Create Orders
+          </DialogTitle>
+          <DialogDescription className="text-gray-600">
+            Upload a CSV or XLSX file with one customer per row. Expiry is in minutes or a date;
+            leave it blank for the default of 9 hours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <form onSubmit={handleUpload} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="bulkOrderFile" className="text-sm font-medium text-gray-700">
+                Orders file *
+              </Label>
+              <Input
+                id="bulkOrderFile"
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="bg-white"
+              />
+            </div>
+
+            <DialogFooter className="flex gap-3 pt-2 sm:justify-between">
+              <Button
+                type="button"
+                variant="ghost"
+                className="gap-2"
+                onClick={() =>
+                  downloadBlob(
+                    new Blob([TEMPLATE_CSV], { type: 'text/csv' }),
+                    'orders-template.csv',
+                  )
+                }
+              >
+                <Download className="h-4 w-4" />
+                Download template
+              </Button>
+              <Button type="submit" disabled={!file || uploading} className="gap-2">
+                <Upload className="h-4 w-4" />
+                {uploading ? 'Creating orders...' : 'Create Orders'}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex flex-wrap gap-3">
+              <Badge variant="outline" className="border-green-200 text-green-600">
+                {result.created} created
+              </Badge>
+              <Badge variant="outline" className="border-red-200 text-red-600">
+                {result.failed} failed
+              </Badge>
+              <Badge variant="outline">{result.totalRows} rows</Badge>
+            </div>
+
+            {failedRows.length > 0 && (
+              <div className="max-h-[280px] overflow-auto rounded-lg border border-gray-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead className="w-[70px]">Row</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failedRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>
+                          {row.customerName || '—'}
+                          {row.amount !== undefined && (
+                            <p className="text-xs text-gray-500">{formatCurrency(row.amount)}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-red-600">
+                          {row.errors?.join('; ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <DialogFooter className="flex gap-3 pt-2 sm:justify-between">
+              <Button type="button" variant="outline" onClick={reset}>
+                Upload another file
+              </Button>
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={result.created === 0 || downloading}
+                  onClick={() => downloadResults('csv')}
+                >
+                  CSV
+                </Button>
+                <Button
+                  type="button"
+                  className="gap-2"
+                  disabled={result.created === 0 || downloading}
+                  onClick={() => downloadResults('xlsx')}
+                >
+                  <Download className="h-4 w-4" />
+                  {downloading ? 'Preparing...' : 'Download payment links'}
+                </Button>
+              </div>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, StickyNote, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+type BulkOrderAction = 'complete' | 'fail' | 'note';
+
+interface BulkOrderActionResult {
+  orderId: string;
+  success: boolean;
+  error?: string;
+  code?: string;
+}
+
+interface BulkOrderActionsProps {
+  orderIds: string[];
+  onClear: () => void;
+  // Receives the IDs that failed so they can stay selected
+  onApplied: (failedOrderIds: string[]) => void;
+}
+
+const ACTION_COPY: Record<BulkOrderAction, { title: string; confirm: string }> = {
+  complete: { title: 'Mark orders completed', confirm: 'Mark completed' },
+  fail: { title: 'Mark orders failed', confirm: 'Mark failed' },
+  note: { title: 'Add a note to orders', confirm: 'Add note' },
+};
+
+export function BulkOrderActions({ orderIds, onClear, onApplied }: BulkOrderActionsProps) {
+  const [action, setAction] = useState<BulkOrderAction | null>(null);
+  const [note, setNote] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const openAction = (next: BulkOrderAction) => {
+    setNote('');
+    setAction(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/orders/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderIds, action, note: note.trim() || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update orders');
+      }
+
+      const failures = (result.data.results as BulkOrderActionResult[]).filter(
+        (entry) => !entry.success,
+      );
+
+      toast({
+        title: failures.length ? 'Some orders were not updated' : 'Orders updated',
+        description: failures.length
+          ? `${result.message}. ${failures[0].orderId}: ${failures[0].error}${
+              failures.length > 1 ? ` (and ${failures.length - 1} more)` : ''
+            }`
+          : result.message,
+        variant: failures.length ? 'destructive' : 'default',
+      });
+
+      onApplied(failures.map((entry) => entry.orderId));
+      setAction(null);
+    } catch (error) {
+      toast({
+        title: 'Error updating orders',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (orderIds.length === 0) return null;
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center gap-3 rounded-lg border border-green-200 bg-green-50 p-3">
+        <span className="text-sm font-medium text-gray-800">{orderIds.length} selected</span>
+        <Button size="sm" className="gap-2" onClick={() => openAction('complete')}>
+          <CheckCircle className="h-4 w-4" />
+          Mark completed
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2 border-red-200 text-red-600 hover:bg-red-50"
+          onClick={() => openAction('fail')}
+        >
+          <XCircle className="h-4 w-4" />
+          Mark failed
+        </Button>
+        <Button size="sm" variant="outline" className="gap-2" onClick={() => openAction('note')}>
+          <StickyNote className="h-4 w-4" />
+          Add note
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClear}>
+          Clear selection
+        </Button>
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent className="border border-gray-200 bg-white shadow-2xl sm:max-w-[480px]">
+          {action && (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-bold text-gray-800">
+                  {ACTION_COPY[action].title}
+                </DialogTitle>
+                <DialogDescription className="text-gray-600">
+                  Applies to {orderIds.length} selected orders. Orders whose status doesn&apos;t
+                  allow this change are skipped and reported.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="bulkNote" className="text-sm font-medium text-gray-700">
+                  Note{action === 'note' ? ' *' : ''}
+                </Label>
+                <Textarea
+                  id="bulkNote"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={500}
+                  placeholder={
+                    action === 'note' ? 'Visible to admins on each order' : 'Optional reason'
+                  }
+                  className="bg-white"
+                />
+              </div>
+
+              <DialogFooter className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setAction(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading || (action === 'note' && !note.trim())}
+                  variant={action === 'fail' ? 'destructive' : 'default'}
+                >
+                  {isLoading ? 'Updating...' : ACTION_COPY[action].confirm}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
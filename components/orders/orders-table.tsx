@@ -29,9 +29,29 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
-import { MoreHorizontal, Search, Eye, CheckCircle, XCircle, Clock, Copy } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  MoreHorizontal,
+  Search,
+  Eye,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Copy,
+  Undo2,
+  FileSpreadsheet,
+  Download,
+  ShieldAlert,
+  ShieldCheck,
+  ImageIcon,
+  Receipt,
+} from 'lucide-react';
 import type { OrderTable } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import { RefundOrderDialog } from '@/components/orders/refund-order-dialog';
+import { BulkCreateOrdersDialog } from '@/components/orders/bulk-create-orders-dialog';
+import { BulkOrderActions } from '@/components/orders/bulk-order-actions';
+import { PaymentProofDialog } from '@/components/orders/payment-proof-dialog';
 
 // Mock data - replace with actual API calls
 const mockOrders: OrderTable[] = [
@@ -115,9 +135,15 @@ interface OrdersTableProps {
 export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
   const [orders, setOrders] = useState<OrderTable[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refunding, setRefunding] = useState<OrderTable | null>(null);
+  const [viewingProof, setViewingProof] = useState<OrderTable | null>(null);
+  const [bulkCreateOpen, setBulkCreateOpen] = useState(false);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set());
   const { toast } = useToast();
 
   const fetchOrders = useCallback(async () => {
@@ -126,6 +152,8 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
     try {
       const params = new URLSearchParams();
       if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (dateFrom) params.set('from', dateFrom);
+      if (dateTo) params.set('to', dateTo);
       if (!showAllOrders && userId) params.set('userId', userId);
       params.set('limit', '50'); // Fetch more orders for better UX
 
@@ -149,7 +177,22 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
     } finally {
       setLoading(false);
     }
-  }, [statusFilter, showAllOrders, userId]);
+  }, [statusFilter, dateFrom, dateTo, showAllOrders, userId]);
+
+  // Let the browser stream the file straight to disk instead of buffering it here
+  const exportOrders = (format: 'csv' | 'xlsx' | 'jsonl') => {
+    const params = new URLSearchParams({ format });
+    if (statusFilter !== 'all') params.set('status', statusFilter);
+    if (searchTerm.trim()) params.set('search', searchTerm.trim());
+    if (dateFrom) params.set('from', dateFrom);
+    if (dateTo) params.set('to', dateTo);
+    if (!showAllOrders && userId) params.set('merchant', userId);
+
+    const link = document.createElement('a');
+    link.href = `/api/orders/export?${params.toString()}`;
+    link.download = '';
+    link.click();
+  };
 
   // Fetch orders on component mount and when filters change
   useEffect(() => {
@@ -180,6 +223,27 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
     return matchesSearch && matchesStatus && matchesUser;
   });
 
+  const visibleOrderIds = filteredOrders.map((order) => order.orderId).filter(Boolean);
+  const selectedVisible = visibleOrderIds.filter((orderId) => selectedOrderIds.has(orderId));
+  const allVisibleSelected =
+    visibleOrderIds.length > 0 && selectedVisible.length === visibleOrderIds.length;
+
+  const toggleOrderSelection = (orderId: string, checked: boolean) => {
+    setSelectedOrderIds((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(orderId);
+      } else {
+        next.delete(orderId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedOrderIds(checked ? new Set(visibleOrderIds) : new Set());
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
@@ -212,18 +276,88 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
             Failed
           </Badge>
         );
+      case 'partially-refunded':
+        return (
+          <Badge variant="outline" className="border-purple-200 text-purple-600">
+            Partially Refunded
+          </Badge>
+        );
+      case 'refunded':
+        return (
+          <Badge variant="outline" className="border-purple-200 text-purple-600">
+            Refunded
+          </Badge>
+        );
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
+  const getRiskBadge = (risk: OrderTable['risk']) => {
+    if (!risk || (!risk.onHold && risk.level === 'low')) {
+      return null;
+    }
+
+    const details = risk.holdReason || risk.signals.map((signal) => signal.detail).join('; ');
+    return (
+      <Badge
+        variant="outline"
+        title={details}
+        className={
+          risk.onHold || risk.level === 'high'
+            ? 'border-red-200 text-red-600'
+            : 'border-orange-200 text-orange-600'
+        }
+      >
+        <ShieldAlert className="mr-1 h-3 w-3" />
+        {risk.onHold ? 'On Hold' : `Risk ${risk.score}`}
+      </Badge>
+    );
+  };
+
+  const handleRiskHold = async (order: OrderTable, action: 'hold' | 'release') => {
+    const reason = window.prompt(
+      action === 'hold' ? 'Why is this order being held?' : 'Why is this hold being released?',
+    );
+    if (!reason?.trim()) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/orders/${order.orderId}/risk`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason: reason.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update hold');
+      }
+
+      await fetchOrders();
+      toast({
+        title: action === 'hold' ? 'Order held' : 'Hold released',
+        description:
+          action === 'hold'
+            ? `Order ${order.orderId} can't be completed until the hold is released.`
+            : `Order ${order.orderId} can now be completed.`,
+      });
+    } catch (holdError) {
+      toast({
+        title: 'Error updating hold',
+        description: holdError instanceof Error ? holdError.message : 'Failed to update hold',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleStatusUpdate = async (orderId: string, newStatus: string) => {
     try {
       // Optimistically update the UI
       setOrders(
         orders.map((order) =>
           order._id === orderId || order.id === orderId
-            ? { ...order, status: newStatus as 'pending' | 'pending-verification' | 'completed' | 'expired' | 'failed' }
+            ? { ...order, status: newStatus as OrderTable['status'] }
             : order,
         ),
       );
@@ -281,6 +415,29 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
               {showAllOrders ? 'View and manage all orders in the system' : 'Your payment orders'}
             </CardDescription>
           </div>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="bg-white border border-gray-200 shadow-lg">
+                <DropdownMenuLabel>Export filtered orders</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => exportOrders('csv')}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportOrders('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportOrders('jsonl')}>JSON Lines</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {showAllOrders && (
+              <Button variant="outline" className="gap-2" onClick={() => setBulkCreateOpen(true)}>
+                <FileSpreadsheet className="h-4 w-4" />
+                Bulk Create
+              </Button>
+            )}
+          </div>
         </div>
         <div className="flex items-center gap-4 mt-6">
           <div className="relative max-w-sm flex-1">
@@ -303,8 +460,26 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
               <SelectItem value="completed">Completed</SelectItem>
               <SelectItem value="expired">Expired</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="partially-refunded">Partially Refunded</SelectItem>
+              <SelectItem value="refunded">Refunded</SelectItem>
             </SelectContent>
           </Select>
+          <Input
+            type="date"
+            aria-label="Created from"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="w-[160px] border-gray-300 focus:border-green-500 focus:ring-2 focus:ring-green-200 bg-white"
+          />
+          <Input
+            type="date"
+            aria-label="Created to"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="w-[160px] border-gray-300 focus:border-green-500 focus:ring-2 focus:ring-green-200 bg-white"
+          />
         </div>
       </CardHeader>
       <CardContent>
@@ -313,6 +488,16 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
             <p className="text-sm text-yellow-800">{error}</p>
           </div>
         )}
+        {showAllOrders && (
+          <BulkOrderActions
+            orderIds={selectedVisible}
+            onClear={() => setSelectedOrderIds(new Set())}
+            onApplied={(failedOrderIds) => {
+              setSelectedOrderIds(new Set(failedOrderIds));
+              fetchOrders();
+            }}
+          />
+        )}
         {loading ? (
           <div className="space-y-3">
             {[...Array(5)].map((_, i) => (
@@ -332,6 +517,17 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
               <Table>
                 <TableHeader>
                   <TableRow className="bg-gray-50">
+                    {showAllOrders && (
+                      <TableHead className="w-[40px]">
+                        <Checkbox
+                          aria-label="Select all orders"
+                          checked={
+                            allVisibleSelected ? true : selectedVisible.length > 0 ? 'indeterminate' : false
+                          }
+                          onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                        />
+                      </TableHead>
+                    )}
                     <TableHead className="font-semibold text-gray-700">Order ID</TableHead>
                     <TableHead className="font-semibold text-gray-700">Merchant</TableHead>
                     <TableHead className="font-semibold text-gray-700">Amount</TableHead>
@@ -348,7 +544,22 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
                     if (!order || typeof order !== 'object') return null;
 
                     return (
-                      <TableRow key={order._id || order.id || Math.random()} className="hover:bg-gray-50">
+                      <TableRow
+                        key={order._id || order.id || Math.random()}
+                        className="hover:bg-gray-50"
+                        data-state={selectedOrderIds.has(order.orderId) ? 'selected' : undefined}
+                      >
+                        {showAllOrders && (
+                          <TableCell>
+                            <Checkbox
+                              aria-label={`Select order ${order.orderId}`}
+                              checked={selectedOrderIds.has(order.orderId)}
+                              onCheckedChange={(checked) =>
+                                toggleOrderSelection(order.orderId, checked === true)
+                              }
+                            />
+                          </TableCell>
+                        )}
                         <TableCell className="font-medium">
                           <div className="flex items-center gap-2">
                             <span className="font-mono text-sm text-gray-900">{order.orderId || 'N/A'}</span>
@@ -363,7 +574,14 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
                           </div>
                         </TableCell>
                         <TableCell className="text-gray-900">{order.merchantName || 'N/A'}</TableCell>
-                        <TableCell className="font-medium text-gray-900">{formatCurrency(order.amount || 0)}</TableCell>
+                        <TableCell className="font-medium text-gray-900">
+                          {formatCurrency(order.amount || 0)}
+                          {order.refundedAmount ? (
+                            <div className="text-xs font-normal text-purple-600">
+                              -{formatCurrency(order.refundedAmount)} refunded
+                            </div>
+                          ) : null}
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <span className="text-gray-900">{order.vpa}</span>
@@ -377,7 +595,12 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
                             </Button>
                           </div>
                         </TableCell>
-                        <TableCell>{getStatusBadge(order.status)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-1">
+                            {getStatusBadge(order.status)}
+                            {getRiskBadge(order.risk)}
+                          </div>
+                        </TableCell>
                         <TableCell>
                           {order.utr ? (
                             <div className="flex items-center gap-2">
@@ -417,6 +640,30 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
                                 <Eye className="mr-2 h-4 w-4" />
                                 View Payment Page
                               </DropdownMenuItem>
+                              {showAllOrders && order.paymentProof && (
+                                <DropdownMenuItem onClick={() => setViewingProof(order)}>
+                                  <ImageIcon className="mr-2 h-4 w-4" />
+                                  View Payment Proof
+                                </DropdownMenuItem>
+                              )}
+                              {['completed', 'partially-refunded', 'refunded'].includes(order.status) &&
+                                (showAllOrders ? (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      window.open(`/api/admin/orders/${order.orderId}/receipt`, '_blank')
+                                    }
+                                  >
+                                    <Receipt className="mr-2 h-4 w-4" />
+                                    Reprint Receipt
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem
+                                    onClick={() => window.open(`/api/orders/${order.orderId}/receipt`, '_blank')}
+                                  >
+                                    <Receipt className="mr-2 h-4 w-4" />
+                                    Download Receipt
+                                  </DropdownMenuItem>
+                                ))}
                               <DropdownMenuSeparator />
                               {showAllOrders && (
                                 <>
@@ -444,6 +691,29 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
                                     <Clock className="mr-2 h-4 w-4" />
                                     Pending Verification
                                   </DropdownMenuItem>
+                                  {order.risk?.onHold ? (
+                                    <DropdownMenuItem onClick={() => handleRiskHold(order, 'release')}>
+                                      <ShieldCheck className="mr-2 h-4 w-4" />
+                                      Release Hold
+                                    </DropdownMenuItem>
+                                  ) : (
+                                    order.status === 'pending-verification' && (
+                                      <DropdownMenuItem onClick={() => handleRiskHold(order, 'hold')}>
+                                        <ShieldAlert className="mr-2 h-4 w-4" />
+                                        Hold for Review
+                                      </DropdownMenuItem>
+                                    )
+                                  )}
+                                  {(order.status === 'completed' ||
+                                    order.status === 'partially-refunded') && (
+                                    <>
+                                      <DropdownMenuSeparator />
+                                      <DropdownMenuItem onClick={() => setRefunding(order)}>
+                                        <Undo2 className="mr-2 h-4 w-4" />
+                                        Record Refund
+                                      </DropdownMenuItem>
+                                    </>
+                                  )}
                                 </>
                               )}
                             </DropdownMenuContent>
@@ -464,7 +734,7 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
                 </svg>
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No Orders Found</h3>
                 <p className="text-gray-500">
-                  {searchTerm || statusFilter !== 'all'
+                  {searchTerm || statusFilter !== 'all' || dateFrom || dateTo
                     ? 'No orders match your current filters.'
                     : 'Orders will appear here once customers start making payments.'
                   }
@@ -474,6 +744,27 @@ export function OrdersTable({ showAllOrders = true, userId }: OrdersTableProps)
           </>
         )}
       </CardContent>
+
+      <PaymentProofDialog
+        order={viewingProof}
+        onOpenChange={(open) => !open && setViewingProof(null)}
+        onVerify={(order, status) => {
+          setViewingProof(null);
+          handleStatusUpdate(order._id || order.id, status);
+        }}
+      />
+
+      <RefundOrderDialog
+        order={refunding}
+        onOpenChange={(open) => !open && setRefunding(null)}
+        onRefunded={fetchOrders}
+      />
+
+      <BulkCreateOrdersDialog
+        open={bulkCreateOpen}
+        onOpenChange={setBulkCreateOpen}
+        onCreated={fetchOrders}
+      />
     </Card>
   );
 }
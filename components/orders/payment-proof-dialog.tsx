@@ -0,0 +1,165 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle, ImageIcon, XCircle } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import type { OrderTable } from '@/lib/types';
+
+interface PaymentProofDialogProps {
+  order: OrderTable | null;
+  onOpenChange: (open: boolean) => void;
+  onVerify: (order: OrderTable, status: 'completed' | 'failed') => void;
+}
+
+export function PaymentProofDialog({ order, onOpenChange, onVerify }: PaymentProofDialogProps) {
+  const proof = order?.paymentProof;
+  const mismatched = new Set(proof?.mismatches.map((mismatch) => mismatch.field));
+
+  const rows: Array<{ field: string; label: string; order: string; screenshot?: string }> = order
+    ? [
+        {
+          field: 'utr',
+          label: 'UTR',
+          order: order.utrNumber || order.utr || '-',
+          screenshot: proof?.extracted.utr,
+        },
+        {
+          field: 'amount',
+          label: 'Amount',
+          order: formatCurrency(order.amount),
+          screenshot:
+            proof?.extracted.amount !== undefined
+              ? formatCurrency(proof.extracted.amount)
+              : undefined,
+        },
+        {
+          field: 'payeeVpa',
+          label: 'Paid to',
+          order: order.vpa || order.upiId || '-',
+          screenshot: proof?.extracted.payeeVpa,
+        },
+        {
+          field: 'paidAt',
+          label: 'Paid at',
+          order: `After ${new Date(order.createdAt).toLocaleString()}`,
+          screenshot: proof?.extracted.paidAt
+            ? new Date(proof.extracted.paidAt).toLocaleString()
+            : undefined,
+        },
+      ]
+    : [];
+
+  return (
+    <Dialog open={order !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="border border-gray-200 bg-white shadow-2xl sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-bold text-gray-800">
+            <div className="rounded-full bg-blue-500 p-2">
+              <ImageIcon className="h-5 w-5 text-white" />
+            </div>
+            Payment Proof
+          </DialogTitle>
+          <DialogDescription className="text-gray-600">
+            {order?.orderId} · uploaded {proof ? new Date(proof.uploadedAt).toLocaleString() : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {order && proof && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <a
+              href={`/api/admin/orders/${order.orderId}/payment-proof`}
+              target="_blank"
+              rel="noreferrer"
+              className="block max-h-[60vh] overflow-auto rounded-lg border border-gray-200 bg-gray-50"
+            >
+              <img
+                src={`/api/admin/orders/${order.orderId}/payment-proof`}
+                alt={`Payment screenshot for ${order.orderId}`}
+                className="w-full"
+              />
+            </a>
+
+            <div className="space-y-4">
+              {!proof.scanned && (
+                <p className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-700">
+                  The screenshot couldn&apos;t be read automatically. Compare it by eye.
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium" />
+                    <th className="pb-2 font-medium">Order</th>
+                    <th className="pb-2 font-medium">Screenshot</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.field} className="border-t border-gray-100">
+                      <td className="py-2 pr-2 text-gray-500">{row.label}</td>
+                      <td className="py-2 pr-2 font-mono text-gray-900">{row.order}</td>
+                      <td
+                        className={`py-2 font-mono ${mismatched.has(row.field) ? 'text-red-600' : 'text-gray-900'}`}
+                      >
+                        {row.screenshot ?? <span className="text-gray-400">Not read</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {proof.mismatches.length > 0 ? (
+                <Badge variant="outline" className="border-red-200 text-red-600">
+                  {proof.mismatches.length} mismatch{proof.mismatches.length === 1 ? '' : 'es'}
+                </Badge>
+              ) : (
+                proof.scanned && (
+                  <Badge variant="outline" className="border-green-200 text-green-600">
+                    Matches the order
+                  </Badge>
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-3 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {order?.status === 'pending-verification' && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                className="border-red-200 text-red-600"
+                onClick={() => onVerify(order, 'failed')}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Mark Failed
+              </Button>
+              <Button
+                type="button"
+                onClick={() => onVerify(order, 'completed')}
+                disabled={order.risk?.onHold}
+                title={order.risk?.onHold ? 'Release the risk hold first' : undefined}
+              >
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Mark Completed
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
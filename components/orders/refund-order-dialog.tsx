@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Undo2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { OrderTable } from '@/lib/types';
+
+interface RefundOrderDialogProps {
+  order: OrderTable | null;
+  onOpenChange: (open: boolean) => void;
+  onRefunded: () => void;
+}
+
+export function RefundOrderDialog({ order, onOpenChange, onRefunded }: RefundOrderDialogProps) {
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [refundUtr, setRefundUtr] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const refundable = order
+    ? (Math.round(order.amount * 100) - Math.round((order.refundedAmount ?? 0) * 100)) / 100
+    : 0;
+
+  useEffect(() => {
+    if (order) {
+      setAmount(refundable.toFixed(2));
+      setReason('');
+      setRefundUtr('');
+    }
+  }, [order, refundable]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${order.orderId}/refunds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ amount: Number(amount), reason, refundUtr }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to record refund');
+      }
+
+      toast({
+        title: 'Refund recorded',
+        description: result.message,
+      });
+
+      onRefunded();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error recording refund',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={order !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="border border-gray-200 bg-white shadow-2xl sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-bold text-gray-800">
+            <div className="rounded-full bg-purple-500 p-2">
+              <Undo2 className="h-5 w-5 text-white" />
+            </div>
+            Record Refund
+          </DialogTitle>
+          <DialogDescription className="text-gray-600">
+            {order?.orderId} · {formatCurrency(refundable)} of {formatCurrency(order?.amount || 0)}{' '}
+            can still be refunded
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="refundAmount" className="text-sm font-medium text-gray-700">
+              Amount (₹) *
+            </Label>
+            <Input
+              id="refundAmount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={refundable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="h-11 border-gray-300"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundUtr" className="text-sm font-medium text-gray-700">
+              Refund UTR *
+            </Label>
+            <Input
+              id="refundUtr"
+              placeholder="UTR of the refund transfer"
+              value={refundUtr}
+              onChange={(e) => setRefundUtr(e.target.value.toUpperCase())}
+              className="h-11 border-gray-300 font-mono"
+              minLength={12}
+              maxLength={22}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundReason" className="text-sm font-medium text-gray-700">
+              Reason *
+            </Label>
+            <Textarea
+              id="refundReason"
+              placeholder="Why is this payment being refunded?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="border-gray-300"
+              maxLength={500}
+              required
+            />
+          </div>
+
+          <DialogFooter className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Record Refund'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { VpaSelect } from '@/components/vpas/vpa-select';
 import { useToast } from '@/hooks/use-toast';
 import { CreditCard, Link2, Calendar } from 'lucide-react';
 
@@ -39,6 +40,7 @@ export function CreatePaymentLinkDialog({
     usageLimit: '',
     collectCustomerInfo: true,
     sendEmailReceipt: false,
+    upiId: '',
   });
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
@@ -71,6 +73,7 @@ export function CreatePaymentLinkDialog({
           maxAmount: formData.allowCustomAmount && formData.maxAmount ? parseFloat(formData.maxAmount) : undefined,
           expiresAt: formData.expiresAt || undefined,
           usageLimit: formData.usageLimit ? parseInt(formData.usageLimit) : undefined,
+          upiId: formData.upiId || undefined,
           settings: {
             collectCustomerInfo: formData.collectCustomerInfo,
             sendEmailReceipt: formData.sendEmailReceipt,
@@ -121,6 +124,7 @@ export function CreatePaymentLinkDialog({
           usageLimit: '',
           collectCustomerInfo: true,
           sendEmailReceipt: false,
+          upiId: '',
         });
       } else {
         throw new Error(result.error || 'Failed to create payment link');
@@ -188,6 +192,12 @@ export function CreatePaymentLinkDialog({
                   rows={3}
                 />
               </div>
+
+              <VpaSelect
+                value={formData.upiId}
+                onChange={(upiId) => setFormData({ ...formData, upiId })}
+                className="text-sm font-medium text-gray-700"
+              />
             </div>
 
             {/* Amount Settings */}
@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { CreditCard, IndianRupee, ArrowRight, User, Mail, Phone } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
 
 interface PaymentLinkData {
   id: string
@@ -170,7 +171,7 @@ export function PaymentLinkPageClient({ paymentLink }: PaymentLinkPageClientProp
               ) : (
                 <div className="text-center">
                   <div className="text-3xl font-bold text-green-600">
-                    ₹{paymentLink.amount}
+                    {formatCurrency(paymentLink.amount ?? 0)}
                   </div>
                 </div>
               )}
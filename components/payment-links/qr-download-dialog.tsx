@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, type ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, QrCode, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+type Template = 'plain' | 'standee' | 'poster';
+type Format = 'png' | 'svg' | 'pdf';
+
+const TEMPLATE_LABELS: Record<Template, string> = {
+  plain: 'QR code only',
+  standee: 'Counter standee (A5)',
+  poster: 'Wall poster (A4)',
+};
+
+// Matches MAX_QR_LOGO_BYTES on the server
+const MAX_LOGO_BYTES = 256 * 1024;
+
+interface QrDownloadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Takes the options below as JSON and returns the file, e.g. /api/payment-links/:linkId/qr
+  endpoint: string;
+  description: string;
+  // Sent along with the options, e.g. which UPI ID a static QR is for
+  extraFields?: Record<string, unknown>;
+}
+
+export function QrDownloadDialog({
+  open,
+  onOpenChange,
+  endpoint,
+  description,
+  extraFields,
+}: QrDownloadDialogProps) {
+  const [template, setTemplate] = useState<Template>('standee');
+  const [format, setFormat] = useState<Format>('png');
+  const [foreground, setForeground] = useState('#000000');
+  const [background, setBackground] = useState('#ffffff');
+  const [caption, setCaption] = useState('Pay with any UPI app');
+  const [logo, setLogo] = useState<{ name: string; dataUrl: string } | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  // PNG can't carry a caption, so a caption always means vector output
+  const needsVector = template === 'plain' && format === 'png' && Boolean(caption.trim());
+
+  const handleLogoChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type) || file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: 'Unsupported logo',
+        description: 'Use a PNG or JPEG image of 256 KB or less, at most 1024×1024 pixels.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setLogo({ name: file.name, dataUrl: String(reader.result) });
+    reader.readAsDataURL(file);
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...extraFields,
+          template,
+          format: template === 'plain' ? format : 'pdf',
+          foreground,
+          background,
+          caption: caption.trim() || undefined,
+          logo: logo?.dataUrl,
+        }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(
+          result.details?.[0]?.message || result.error || 'Failed to generate QR code',
+        );
+      }
+
+      const filename =
+        response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'qr-code';
+      const url = URL.createObjectURL(await response.blob());
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = filename;
+      anchor.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: 'Error generating QR code',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            Download QR Code
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qrTemplate">Layout</Label>
+              <Select value={template} onValueChange={(value) => setTemplate(value as Template)}>
+                <SelectTrigger id="qrTemplate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TEMPLATE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qrFormat">Format</Label>
+              <Select
+                value={template === 'plain' ? format : 'pdf'}
+                onValueChange={(value) => setFormat(value as Format)}
+                disabled={template !== 'plain'}
+              >
+                <SelectTrigger id="qrFormat">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="svg">SVG</SelectItem>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qrForeground">Code Color</Label>
+              <Input
+                id="qrForeground"
+                type="color"
+                value={foreground}
+                onChange={(e) => setForeground(e.target.value)}
+                className="h-10 p-1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qrBackground">Background</Label>
+              <Input
+                id="qrBackground"
+                type="color"
+                value={background}
+                onChange={(e) => setBackground(e.target.value)}
+                className="h-10 p-1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="qrCaption">Caption</Label>
+            <Input
+              id="qrCaption"
+              value={caption}
+              maxLength={60}
+              placeholder="Printed under the code"
+              onChange={(e) => setCaption(e.target.value)}
+            />
+            {needsVector && (
+              <p className="text-xs text-amber-600">
+                PNG codes can&apos;t include a caption. Choose SVG or PDF, or clear the caption.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="qrLogo">Logo</Label>
+            {logo ? (
+              <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                <span className="truncate">{logo.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLogo(null)}
+                  aria-label="Remove logo"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Input
+                id="qrLogo"
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={handleLogoChange}
+              />
+            )}
+            <p className="text-xs text-gray-500">
+              Shown in the middle of the code. PNG output needs a PNG logo.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={downloading || needsVector} className="gap-2">
+            <Download className="h-4 w-4" />
+            {downloading ? 'Generating...' : 'Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
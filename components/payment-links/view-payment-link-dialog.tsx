@@ -19,10 +19,12 @@ import {
   IndianRupee,
   BarChart3,
   Settings,
-  QrCode
+  QrCode,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/utils';
+import { QrDownloadDialog } from '@/components/payment-links/qr-download-dialog';
 
 interface PaymentLink {
   _id: string;
@@ -63,16 +65,19 @@ interface ViewPaymentLinkDialogProps {
 export function ViewPaymentLinkDialog({
   open,
   onOpenChange,
-  paymentLink
+  paymentLink,
 }: ViewPaymentLinkDialogProps) {
   const { toast } = useToast();
   const [copyingUrl, setCopyingUrl] = useState(false);
+  const [qrDialogOpen, setQrDialogOpen] = useState(false);
 
   if (!paymentLink) return null;
 
   const publicUrl = `${window.location.origin}/link/${paymentLink.linkId}`;
   const isExpired = paymentLink.expiresAt ? new Date(paymentLink.expiresAt) < new Date() : false;
-  const isLimitReached = paymentLink.usageLimit ? paymentLink.usageCount >= paymentLink.usageLimit : false;
+  const isLimitReached = paymentLink.usageLimit
+    ? paymentLink.usageCount >= paymentLink.usageLimit
+    : false;
   const canBeUsed = paymentLink.isActive && !isExpired && !isLimitReached;
 
   const handleCopyUrl = async () => {
@@ -108,16 +113,21 @@ export function ViewPaymentLinkDialog({
     if (isLimitReached) {
       return <Badge variant="destructive">Limit Reached</Badge>;
     }
-    return <Badge variant="default" className="bg-green-100 text-green-800">Active</Badge>;
+    return (
+      <Badge variant="default" className="bg-green-100 text-green-800">
+        Active
+      </Badge>
+    );
   };
 
-  const successRate = paymentLink.stats.totalOrders > 0
-    ? (paymentLink.stats.successfulOrders / paymentLink.stats.totalOrders * 100).toFixed(1)
-    : '0';
+  const successRate =
+    paymentLink.stats.totalOrders > 0
+      ? ((paymentLink.stats.successfulOrders / paymentLink.stats.totalOrders) * 100).toFixed(1)
+      : '0';
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center justify-between">
             <div>
@@ -135,7 +145,7 @@ export function ViewPaymentLinkDialog({
 
         <div className="space-y-6">
           {/* Quick Actions */}
-          <div className="flex gap-2 flex-wrap">
+          <div className="flex flex-wrap gap-2">
             <Button
               onClick={handleCopyUrl}
               disabled={copyingUrl}
@@ -146,12 +156,7 @@ export function ViewPaymentLinkDialog({
               <Copy className="h-4 w-4" />
               {copyingUrl ? 'Copying...' : 'Copy Link'}
             </Button>
-            <Button
-              onClick={handleOpenLink}
-              variant="outline"
-              size="sm"
-              className="gap-2"
-            >
+            <Button onClick={handleOpenLink} variant="outline" size="sm" className="gap-2">
               <ExternalLink className="h-4 w-4" />
               Open Link
             </Button>
@@ -159,13 +164,7 @@ export function ViewPaymentLinkDialog({
               variant="outline"
               size="sm"
               className="gap-2"
-              onClick={() => {
-                // Generate QR code functionality can be added here
-                toast({
-                  title: 'QR Code',
-                  description: 'QR code generation coming soon!',
-                });
-              }}
+              onClick={() => setQrDialogOpen(true)}
             >
               <QrCode className="h-4 w-4" />
               QR Code
@@ -180,24 +179,19 @@ export function ViewPaymentLinkDialog({
                 type="text"
                 value={publicUrl}
                 readOnly
-                className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm"
+                className="flex-1 rounded-md border border-gray-300 bg-gray-50 px-3 py-2 text-sm"
               />
-              <Button
-                onClick={handleCopyUrl}
-                disabled={copyingUrl}
-                size="sm"
-                variant="outline"
-              >
+              <Button onClick={handleCopyUrl} disabled={copyingUrl} size="sm" variant="outline">
                 <Copy className="h-4 w-4" />
               </Button>
             </div>
           </div>
 
           {/* Main Information Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
             {/* Payment Details */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center gap-2">
+              <h3 className="flex items-center gap-2 text-lg font-semibold">
                 <IndianRupee className="h-5 w-5" />
                 Payment Details
               </h3>
@@ -206,19 +200,17 @@ export function ViewPaymentLinkDialog({
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">Amount:</span>
                   <span className="font-medium">
-                    {paymentLink.allowCustomAmount ? (
-                      `₹${paymentLink.minAmount || 0} - ₹${paymentLink.maxAmount || '∞'}`
-                    ) : paymentLink.amount ? (
-                      `₹${paymentLink.amount}`
-                    ) : (
-                      'Variable'
-                    )}
+                    {paymentLink.allowCustomAmount
+                      ? `₹${paymentLink.minAmount || 0} - ₹${paymentLink.maxAmount || '∞'}`
+                      : paymentLink.amount
+                        ? `₹${paymentLink.amount}`
+                        : 'Variable'}
                   </span>
                 </div>
 
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">UPI ID:</span>
-                  <span className="font-medium font-mono text-sm">{paymentLink.upiId}</span>
+                  <span className="font-mono text-sm font-medium">{paymentLink.upiId}</span>
                 </div>
 
                 <div className="flex justify-between">
@@ -232,7 +224,7 @@ export function ViewPaymentLinkDialog({
 
             {/* Usage & Limits */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center gap-2">
+              <h3 className="flex items-center gap-2 text-lg font-semibold">
                 <Users className="h-5 w-5" />
                 Usage & Limits
               </h3>
@@ -247,7 +239,7 @@ export function ViewPaymentLinkDialog({
 
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">Created:</span>
-                  <span className="font-medium text-sm">
+                  <span className="text-sm font-medium">
                     {format(new Date(paymentLink.createdAt), 'MMM d, yyyy')}
                   </span>
                 </div>
@@ -255,7 +247,7 @@ export function ViewPaymentLinkDialog({
                 {paymentLink.expiresAt && (
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Expires:</span>
-                    <span className={`font-medium text-sm ${isExpired ? 'text-red-600' : ''}`}>
+                    <span className={`text-sm font-medium ${isExpired ? 'text-red-600' : ''}`}>
                       {format(new Date(paymentLink.expiresAt), 'MMM d, yyyy')}
                     </span>
                   </div>
@@ -266,67 +258,68 @@ export function ViewPaymentLinkDialog({
 
           {/* Statistics */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold flex items-center gap-2">
+            <h3 className="flex items-center gap-2 text-lg font-semibold">
               <BarChart3 className="h-5 w-5" />
               Statistics
             </h3>
 
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="bg-blue-50 p-4 rounded-lg">
-                <div className="text-sm text-blue-600 font-medium">Total Orders</div>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="rounded-lg bg-blue-50 p-4">
+                <div className="text-sm font-medium text-blue-600">Total Orders</div>
                 <div className="text-2xl font-bold text-blue-900">
                   {paymentLink.stats.totalOrders}
                 </div>
               </div>
 
-              <div className="bg-green-50 p-4 rounded-lg">
-                <div className="text-sm text-green-600 font-medium">Successful</div>
+              <div className="rounded-lg bg-green-50 p-4">
+                <div className="text-sm font-medium text-green-600">Successful</div>
                 <div className="text-2xl font-bold text-green-900">
                   {paymentLink.stats.successfulOrders}
                 </div>
               </div>
 
-              <div className="bg-purple-50 p-4 rounded-lg">
-                <div className="text-sm text-purple-600 font-medium">Success Rate</div>
-                <div className="text-2xl font-bold text-purple-900">
-                  {successRate}%
-                </div>
+              <div className="rounded-lg bg-purple-50 p-4">
+                <div className="text-sm font-medium text-purple-600">Success Rate</div>
+                <div className="text-2xl font-bold text-purple-900">{successRate}%</div>
               </div>
 
-              <div className="bg-orange-50 p-4 rounded-lg">
-                <div className="text-sm text-orange-600 font-medium">Total Amount</div>
+              <div className="rounded-lg bg-orange-50 p-4">
+                <div className="text-sm font-medium text-orange-600">Total Amount</div>
                 <div className="text-2xl font-bold text-orange-900">
-                  ₹{paymentLink.stats.totalAmount}
+                  {formatCurrency(paymentLink.stats.totalAmount)}
                 </div>
               </div>
             </div>
 
             {paymentLink.stats.lastUsedAt && (
               <div className="text-sm text-gray-600">
-                Last used: {format(new Date(paymentLink.stats.lastUsedAt), 'MMM d, yyyy "at" h:mm a')}
+                Last used:{' '}
+                {format(new Date(paymentLink.stats.lastUsedAt), 'MMM d, yyyy "at" h:mm a')}
               </div>
             )}
           </div>
 
           {/* Settings */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold flex items-center gap-2">
+            <h3 className="flex items-center gap-2 text-lg font-semibold">
               <Settings className="h-5 w-5" />
               Settings
             </h3>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">Collect Customer Info:</span>
-                  <Badge variant={paymentLink.settings.collectCustomerInfo ? "default" : "secondary"}>
+                  <Badge
+                    variant={paymentLink.settings.collectCustomerInfo ? 'default' : 'secondary'}
+                  >
                     {paymentLink.settings.collectCustomerInfo ? 'Yes' : 'No'}
                   </Badge>
                 </div>
 
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">Email Receipt:</span>
-                  <Badge variant={paymentLink.settings.sendEmailReceipt ? "default" : "secondary"}>
+                  <Badge variant={paymentLink.settings.sendEmailReceipt ? 'default' : 'secondary'}>
                     {paymentLink.settings.sendEmailReceipt ? 'Yes' : 'No'}
                   </Badge>
                 </div>
@@ -336,7 +329,7 @@ export function ViewPaymentLinkDialog({
                 {paymentLink.settings.redirectUrl && (
                   <div>
                     <span className="text-sm text-gray-600">Redirect URL:</span>
-                    <div className="text-sm font-mono bg-gray-50 p-2 rounded mt-1 break-all">
+                    <div className="mt-1 rounded bg-gray-50 p-2 font-mono text-sm break-all">
                       {paymentLink.settings.redirectUrl}
                     </div>
                   </div>
@@ -345,7 +338,7 @@ export function ViewPaymentLinkDialog({
                 {paymentLink.settings.webhookUrl && (
                   <div>
                     <span className="text-sm text-gray-600">Webhook URL:</span>
-                    <div className="text-sm font-mono bg-gray-50 p-2 rounded mt-1 break-all">
+                    <div className="mt-1 rounded bg-gray-50 p-2 font-mono text-sm break-all">
                       {paymentLink.settings.webhookUrl}
                     </div>
                   </div>
@@ -356,11 +349,11 @@ export function ViewPaymentLinkDialog({
 
           {/* Status Alert */}
           {!canBeUsed && (
-            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4">
               <div className="text-sm font-medium text-yellow-800">
                 ⚠️ This payment link is currently unavailable for payments
               </div>
-              <div className="text-sm text-yellow-700 mt-1">
+              <div className="mt-1 text-sm text-yellow-700">
                 {!paymentLink.isActive && 'Link is inactive. '}
                 {isExpired && 'Link has expired. '}
                 {isLimitReached && 'Usage limit has been reached. '}
@@ -368,7 +361,14 @@ export function ViewPaymentLinkDialog({
             </div>
           )}
         </div>
+
+        <QrDownloadDialog
+          open={qrDialogOpen}
+          onOpenChange={setQrDialogOpen}
+          endpoint={`/api/payment-links/${paymentLink.linkId}/qr`}
+          description={`Customers scan it to open "${paymentLink.title}" and pay with any UPI app.`}
+        />
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -1,68 +1,111 @@
 'use client';
 
+import type React from 'react';
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Image from 'next/image';
 import { Clock, CheckCircle, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { usePaymentCountdown } from '@/hooks/use-payment-countdown';
+import { formatCountdown } from '@/lib/orders/countdown';
+import { formatCurrency } from '@/lib/utils';
+import { formatUpiAmount, toPaise } from '@/lib/utils/money';
+import { buildUpiLink, toUpiText } from '@/lib/utils/upi-link';
 import type { PaymentOrder } from '@/lib/types';
+import { buildUpiAppLink, type UpiApp, type UpiPlatform } from '@/lib/upi-apps/registry';
+import {
+  buildUtrSubmission,
+  describeProofMismatches,
+  PAYMENT_PROOF_ACCEPT,
+  scanPaymentScreenshot,
+} from '@/lib/payment-proof/client';
+
+// Lets fraud checks tell repeat submissions from the same browser apart from shared IPs
+function getDeviceId(): string | undefined {
+  try {
+    let deviceId = localStorage.getItem('paymentDeviceId');
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem('paymentDeviceId', deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage is unavailable in some private browsing modes
+    return undefined;
+  }
+}
+
+// How long an iOS app gets to open before we assume it isn't installed
+const IOS_FALLBACK_DELAY_MS = 2_000;
 
 interface PaymentPageClientProps {
   order: PaymentOrder;
+  // The enabled apps from the UPI app registry, in display order
+  upiApps: UpiApp[];
+  platform: UpiPlatform;
 }
 
-export function PaymentPageClient({ order }: PaymentPageClientProps) {
+export function PaymentPageClient({ order, upiApps, platform }: PaymentPageClientProps) {
   const [currentOrder, setCurrentOrder] = useState(order);
   const [selectedUpi, setSelectedUpi] = useState<string>('');
   const [utr, setUtr] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [timeLeft, setTimeLeft] = useState<number>(0);
+  const [screenshot, setScreenshot] = useState<File | undefined>();
+  const [proofWarnings, setProofWarnings] = useState<string[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isRenewing, setIsRenewing] = useState(false);
   const { toast } = useToast();
+  const router = useRouter();
 
-  // Dummy Timer effect - Always shows 9 minutes countdown and resets
+  // Follow the order live so the customer moves on as soon as it is verified or rejected
+  const isAwaitingResult =
+    currentOrder.status === 'pending' || currentOrder.status === 'pending-verification';
   useEffect(() => {
-    // Set initial time to 9 minutes (540 seconds) in milliseconds
-    const TIMER_DURATION = 9 * 60 * 1000; // 9 minutes in milliseconds
-
-    // Get the start time from sessionStorage or create new one
-    const getStartTime = () => {
-      const stored = sessionStorage.getItem('paymentTimerStart');
-      if (stored) {
-        return parseInt(stored);
+    if (!isAwaitingResult) return;
+
+    const events = new EventSource(`/api/orders/${currentOrder.orderId}/events`);
+    events.addEventListener('status', (message) => {
+      const { status } = JSON.parse((message as MessageEvent<string>).data);
+      setCurrentOrder((prev) => (prev.status === status ? prev : { ...prev, status }));
+
+      if (status === 'completed' || status === 'failed') {
+        events.close();
+        router.replace(`/payment-success/${currentOrder.orderId}`);
+      }
+    });
+
+    return () => events.close();
+  }, [currentOrder.orderId, isAwaitingResult, router]);
+
+  // Counts down against the server's clock; an expiry found on resync shows the expired screen
+  const timeLeft = usePaymentCountdown(
+    currentOrder.orderId,
+    order.timeRemaining ?? 0,
+    currentOrder.status === 'pending',
+    (status) => setCurrentOrder((prev) => (prev.status === status ? prev : { ...prev, status })),
+  );
+
+  const handleRequestNewLink = async () => {
+    setIsRenewing(true);
+    try {
+      const response = await fetch(`/api/orders/${currentOrder.orderId}/renew`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to request a new link');
       }
-      const now = Date.now();
-      sessionStorage.setItem('paymentTimerStart', now.toString());
-      return now;
-    };
-
-    const startTime = getStartTime();
-
-    const updateTimer = () => {
-      const now = Date.now();
-      const elapsed = now - startTime;
-      const cyclePosition = elapsed % TIMER_DURATION;
-      const remaining = TIMER_DURATION - cyclePosition;
-
-      setTimeLeft(remaining);
-
-      // Don't expire the payment - just let the timer reset
-      // Remove the expiration logic completely
-    };
-
-    updateTimer();
-    const interval = setInterval(updateTimer, 1000);
-    return () => clearInterval(interval);
-  }, []); // Remove dependency on currentOrder.expiresAt
-
-  const formatTime = (milliseconds: number) => {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return {
-      minutes: minutes.toString().padStart(2, '0'),
-      seconds: seconds.toString().padStart(2, '0'),
-    };
+      router.push(result.data.redirectUrl);
+    } catch (error) {
+      setIsRenewing(false);
+      toast({
+        title: 'Could not create a new link',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
   const copyToClipboard = async (text: string, label: string) => {
@@ -81,6 +124,39 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
     }
   };
 
+  const handleScreenshotChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setScreenshot(file);
+    setProofWarnings([]);
+    if (!file) {
+      return;
+    }
+
+    setIsScanning(true);
+    try {
+      const proof = await scanPaymentScreenshot(currentOrder.orderId, file);
+      if (proof.utr && /^\d{12}$/.test(proof.utr)) {
+        setUtr(proof.utr);
+      } else {
+        toast({
+          title: 'UTR not found',
+          description: "We couldn't read the UTR from the screenshot. Please enter it below.",
+        });
+      }
+      setProofWarnings(describeProofMismatches(proof));
+    } catch (error) {
+      setScreenshot(undefined);
+      e.target.value = '';
+      toast({
+        title: 'Screenshot not accepted',
+        description: error instanceof Error ? error.message : 'Please try another image.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
   const handleUtrSubmit = async () => {
     if (!utr.trim()) {
       toast({
@@ -102,10 +178,15 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
 
     setIsSubmitting(true);
     try {
+      const deviceId = getDeviceId();
+      const submission = buildUtrSubmission(utr, screenshot);
       const response = await fetch(`/api/orders/${currentOrder.orderId}/utr`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ utr }),
+        headers: {
+          ...submission.headers,
+          ...(deviceId && { 'X-Device-Id': deviceId }),
+        },
+        body: submission.body,
       });
 
       if (response.ok) {
@@ -126,32 +207,54 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
     }
   };
 
-  const handlePaymentMethodClick = (method: string) => {
-    setSelectedUpi(method);
+  const handlePaymentMethodClick = (app: UpiApp) => {
+    setSelectedUpi(app.id);
 
     // Create UPI deep link
     const upiId = currentOrder.vpa || currentOrder.upiId || 'Bzbx****@upi';
-    const merchantName = currentOrder.merchantName || 'Merchant';
-    const amount = currentOrder.amount;
-    const orderId = currentOrder.orderId;
-
-    const deepLinks = {
-      phonepe: `phonepe://pay?pa=${upiId}&pn=${encodeURIComponent(merchantName)}&am=${amount}&tr=${orderId}&cu=INR`,
-      paytm: `paytmmp://pay?pa=${upiId}&pn=${encodeURIComponent(merchantName)}&am=${amount}&tr=${orderId}&cu=INR`,
-      gpay: `tez://upi/pay?pa=${upiId}&pn=${encodeURIComponent(merchantName)}&am=${amount}&tr=${orderId}&cu=INR`,
-      upi: `upi://pay?pa=${upiId}&pn=${encodeURIComponent(merchantName)}&am=${amount}&tr=${orderId}&cu=INR`,
-    };
-
-    const deepLink = deepLinks[method as keyof typeof deepLinks];
-    if (deepLink) {
-      // Open the UPI app
-      window.location.href = deepLink;
-
+    let upiLink: string;
+    try {
+      upiLink = buildUpiLink({
+        payeeAddress: upiId,
+        payeeName: toUpiText(currentOrder.merchantName || 'Merchant', 99) || 'Merchant',
+        transactionRef: currentOrder.orderId,
+        amountPaise: toPaise(currentOrder.amount),
+      });
+    } catch (error) {
+      console.error('Invalid UPI payment details:', error);
       toast({
-        title: 'Opening UPI App',
-        description: `Redirecting to ${method.charAt(0).toUpperCase() + method.slice(1)}...`,
+        title: 'Unable to open UPI app',
+        description: 'Copy the UPI ID and amount to pay manually.',
+        variant: 'destructive',
       });
+      return;
+    }
+
+    // Analytics only, so the payment doesn't wait for it or care if it fails
+    fetch(`/api/orders/${currentOrder.orderId}/upi-app`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ appId: app.id, platform }),
+      keepalive: true,
+    }).catch(() => undefined);
+
+    // Open the UPI app
+    window.location.href = buildUpiAppLink(app, upiLink, platform);
+
+    // iOS stays on this page when no app handles the scheme; offer the App Store instead
+    if (platform === 'ios' && app.iosFallbackUrl) {
+      const fallbackUrl = app.iosFallbackUrl;
+      setTimeout(() => {
+        if (document.visibilityState === 'visible') {
+          window.location.href = fallbackUrl;
+        }
+      }, IOS_FALLBACK_DELAY_MS);
     }
+
+    toast({
+      title: 'Opening UPI App',
+      description: `Redirecting to ${app.name}...`,
+    });
   };
 
   if (currentOrder.status === 'pending-verification') {
@@ -195,7 +298,7 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
           <CardContent className="space-y-4 text-center">
             <div>
               <p className="text-muted-foreground text-sm">Amount Paid</p>
-              <p className="text-2xl font-bold">₹{currentOrder.amount}</p>
+              <p className="text-2xl font-bold">{formatCurrency(currentOrder.amount)}</p>
             </div>
             <div>
               <p className="text-muted-foreground text-sm">To</p>
@@ -211,7 +314,33 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
     );
   }
 
-  // Only show failed status screen, not expired (since timer is dummy)
+  if (currentOrder.status === 'expired') {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100">
+              <Clock className="h-8 w-8 text-gray-600" />
+            </div>
+            <CardTitle className="text-gray-800">Payment Link Expired</CardTitle>
+            <CardDescription>
+              The time to pay for this order has run out. If you haven&apos;t paid yet, request a
+              new link to try again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-center">
+            <Button className="w-full" onClick={handleRequestNewLink} disabled={isRenewing}>
+              {isRenewing ? 'Creating new link...' : 'Request New Link'}
+            </Button>
+            <p className="text-xs text-gray-500">
+              Already paid? Don&apos;t pay again. Contact the merchant with your UTR instead.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (currentOrder.status === 'failed') {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
@@ -235,7 +364,7 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
     );
   }
 
-  const time = formatTime(timeLeft);
+  const time = formatCountdown(timeLeft);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
@@ -258,7 +387,7 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
               {time.seconds}
             </div>
           </div>
-          <p className="text-xs text-gray-500">Minutes : Seconds (Auto-resets)</p>
+          <p className="text-xs text-gray-500">Minutes : Seconds</p>
         </div>
 
         {/* Amount Section */}
@@ -266,13 +395,13 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
           <div className="flex items-center justify-between mb-3">
             <p className="text-gray-700 font-medium">Amount to Pay</p>
             <button 
-              onClick={() => copyToClipboard(currentOrder.amount.toString(), 'Amount')}
+              onClick={() => copyToClipboard(formatUpiAmount(toPaise(currentOrder.amount)), 'Amount')}
               className="text-blue-600 border border-blue-600 rounded-md px-3 py-1 text-xs font-medium hover:bg-blue-50 transition-colors"
             >
               COPY
             </button>
           </div>
-          <p className="text-3xl font-bold text-gray-900">₹{currentOrder.amount}</p>
+          <p className="text-3xl font-bold text-gray-900">{formatCurrency(currentOrder.amount)}</p>
         </div>
 
         {/* UPI ID Section */}
@@ -316,30 +445,27 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
         <div className="space-y-4">
           <p className="text-gray-700 font-medium text-sm">Choose Payment Method:</p>
           <div className="grid grid-cols-4 gap-3">
-            {[
-              { icon: "/icons/phonepe.svg", value: "phonepe", alt: "PhonePe" },
-              { icon: "/icons/paytm.svg", value: "paytm", alt: "Paytm" },
-              { icon: "/icons/googlepay.svg", value: "gpay", alt: "Google Pay" },
-              { icon: "/icons/upi.svg", value: "upi", alt: "UPI" },
-            ].map((option) => (
+            {upiApps.map((app) => (
               <button
-                key={option.value}
-                onClick={() => handlePaymentMethodClick(option.value)}
+                key={app.id}
+                onClick={() => handlePaymentMethodClick(app)}
+                title={app.name}
                 className={`flex flex-col items-center justify-center p-4 border-2 rounded-xl transition-all duration-200 hover:shadow-md ${
-                  selectedUpi === option.value 
+                  selectedUpi === app.id 
                     ? 'border-blue-600 bg-blue-50 shadow-md' 
                     : 'border-gray-200 bg-white hover:border-gray-300'
                 }`}
               >
                 <div className="relative">
                   <Image
-                    src={option.icon}
-                    alt={option.alt}
+                    src={app.logo}
+                    alt={app.name}
                     width={40}
                     height={40}
+                    unoptimized
                     className="w-10 h-10 object-contain"
                   />
-                  {selectedUpi === option.value && (
+                  {selectedUpi === app.id && (
                     <div className="absolute -top-1 -right-1 w-5 h-5 bg-blue-600 rounded-full flex items-center justify-center">
                       <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -375,12 +501,34 @@ export function PaymentPageClient({ order }: PaymentPageClientProps) {
               UTR is a 12-digit reference number for your transaction
             </p>
           </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="payment-screenshot"
+              className="text-xs text-gray-600 font-medium"
+            >
+              Can&apos;t find the UTR? Upload a screenshot of the payment
+            </label>
+            <input
+              id="payment-screenshot"
+              type="file"
+              accept={PAYMENT_PROOF_ACCEPT}
+              onChange={handleScreenshotChange}
+              disabled={isScanning || isSubmitting}
+              className="w-full text-xs text-gray-600 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-xs file:font-medium file:text-blue-700"
+            />
+            {isScanning && <p className="text-xs text-gray-500">Reading your screenshot...</p>}
+            {proofWarnings.map((warning) => (
+              <p key={warning} className="text-xs text-orange-600">
+                {warning}
+              </p>
+            ))}
+          </div>
         </div>
 
         {/* Submit Button */}
         <button 
           onClick={handleUtrSubmit}
-          disabled={isSubmitting || !utr || utr.length !== 12}
+          disabled={isSubmitting || isScanning || !utr || utr.length !== 12}
           className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-4 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl disabled:cursor-not-allowed disabled:shadow-none"
         >
           {isSubmitting ? (
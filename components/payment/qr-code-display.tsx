@@ -5,6 +5,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Copy, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
 
 interface QRCodeDisplayProps {
   upiString: string;
@@ -89,7 +90,7 @@ export function QRCodeDisplay({ upiString, amount, merchantName }: QRCodeDisplay
         <div className="space-y-2">
           <p className="text-sm font-medium">Scan with any UPI app</p>
           <p className="text-muted-foreground text-xs">
-            Amount: ₹{amount} • To: {merchantName}
+            Amount: {formatCurrency(amount)} • To: {merchantName}
           </p>
         </div>
 
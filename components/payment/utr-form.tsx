@@ -7,20 +7,68 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Clock } from 'lucide-react';
+import { Clock, ImageUp } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import {
+  describeProofMismatches,
+  PAYMENT_PROOF_ACCEPT,
+  scanPaymentScreenshot,
+} from '@/lib/payment-proof/client';
+
+export interface UtrSubmission {
+  utr: string;
+  // Sent along so the payment can be checked against the screenshot
+  screenshot?: File;
+}
 
 interface UtrFormProps {
-  onSubmit: (utr: string) => void;
+  orderId: string;
+  onSubmit: (submission: UtrSubmission) => void | Promise<void>;
   isSubmitted?: boolean;
   submittedUtr?: string;
 }
 
-export function UtrForm({ onSubmit, isSubmitted = false, submittedUtr }: UtrFormProps) {
+export function UtrForm({ orderId, onSubmit, isSubmitted = false, submittedUtr }: UtrFormProps) {
   const [utr, setUtr] = useState('');
+  const [screenshot, setScreenshot] = useState<File | undefined>();
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
+  const handleScreenshotChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setScreenshot(file);
+    setWarnings([]);
+    if (!file) {
+      return;
+    }
+
+    setIsScanning(true);
+    try {
+      const proof = await scanPaymentScreenshot(orderId, file);
+      if (proof.utr) {
+        setUtr(proof.utr.toUpperCase());
+      } else {
+        toast({
+          title: 'UTR not found',
+          description: "We couldn't read the UTR from the screenshot. Please enter it below.",
+        });
+      }
+      setWarnings(describeProofMismatches(proof));
+    } catch (error) {
+      setScreenshot(undefined);
+      e.target.value = '';
+      toast({
+        title: 'Screenshot not accepted',
+        description: error instanceof Error ? error.message : 'Please try another image.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -44,7 +92,7 @@ export function UtrForm({ onSubmit, isSubmitted = false, submittedUtr }: UtrForm
 
     setIsLoading(true);
     try {
-      await onSubmit(utr);
+      await onSubmit({ utr, screenshot });
       toast({
         title: 'UTR submitted successfully',
         description: "Your payment is being verified. You'll be notified once confirmed.",
@@ -91,7 +139,7 @@ export function UtrForm({ onSubmit, isSubmitted = false, submittedUtr }: UtrForm
         <CardTitle className="text-lg">Submit Payment Proof</CardTitle>
         <CardDescription>
           After completing the payment, enter the UTR (Transaction Reference Number) from your UPI
-          app
+          app, or upload a screenshot of the payment
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -111,7 +159,29 @@ export function UtrForm({ onSubmit, isSubmitted = false, submittedUtr }: UtrForm
             </p>
           </div>
 
-          <Button type="submit" className="w-full" disabled={isLoading}>
+          <div className="space-y-2">
+            <Label htmlFor="payment-screenshot">Payment Screenshot (optional)</Label>
+            <Input
+              id="payment-screenshot"
+              type="file"
+              accept={PAYMENT_PROOF_ACCEPT}
+              onChange={handleScreenshotChange}
+              disabled={isScanning || isLoading}
+            />
+            <p className="text-muted-foreground flex items-center gap-1 text-xs">
+              <ImageUp className="h-3 w-3" />
+              {isScanning
+                ? 'Reading your screenshot...'
+                : "We'll fill in the UTR from the screenshot. PNG, JPEG or WebP up to 5 MB."}
+            </p>
+            {warnings.map((warning) => (
+              <p key={warning} className="text-xs text-orange-600">
+                {warning}
+              </p>
+            ))}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isLoading || isScanning}>
             {isLoading ? 'Submitting...' : 'Submit UTR'}
           </Button>
         </form>
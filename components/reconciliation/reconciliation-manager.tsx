@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FileSpreadsheet, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { ReconciliationReport } from '@/components/reconciliation/reconciliation-report';
+import {
+  STATEMENT_FORMAT_OPTIONS,
+  type ReconciliationReport as Report,
+  type ReconciliationSummary,
+} from '@/components/reconciliation/types';
+
+export function ReconciliationManager() {
+  const [history, setHistory] = useState<ReconciliationSummary[]>([]);
+  const [report, setReport] = useState<Report | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [statementFormat, setStatementFormat] = useState('auto');
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/reconciliation');
+      if (response.ok) {
+        const result = await response.json();
+        setHistory(result.data || []);
+      }
+    } catch (error) {
+      console.error('Error fetching reconciliations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('format', statementFormat);
+
+      const response = await fetch('/api/admin/reconciliation', {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to reconcile statement');
+      }
+
+      setReport(result.data);
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      toast({
+        title: 'Statement reconciled',
+        description: `${result.data.counts.matched} matched, ${result.data.counts.amountMismatch} amount mismatches`,
+      });
+      fetchHistory();
+    } catch (error) {
+      toast({
+        title: 'Error reconciling statement',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openReport = async (reconciliationId: string) => {
+    try {
+      const response = await fetch(`/api/admin/reconciliation/${reconciliationId}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      setReport(result.data);
+    } catch (_error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load reconciliation report',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReportUpdated = (updated: Report) => {
+    setReport(updated);
+    fetchHistory();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Upload Bank Statement
+          </CardTitle>
+          <CardDescription>
+            CSV exports from HDFC, ICICI, SBI, Axis and Kotak, any CSV with date, narration and
+            amount columns, or MT940. Credits are matched by UTR against orders awaiting
+            verification.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleUpload} className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statementFile">Statement file</Label>
+              <Input
+                id="statementFile"
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.sta,.mt940"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-[320px] bg-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={statementFormat} onValueChange={setStatementFormat}>
+                <SelectTrigger className="w-[220px] bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="border border-gray-200 bg-white shadow-lg">
+                  {STATEMENT_FORMAT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!file || uploading} className="gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              {uploading ? 'Reconciling...' : 'Reconcile'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {report && <ReconciliationReport report={report} onUpdated={handleReportUpdated} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Reconciliations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-hidden rounded-lg border border-gray-200">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead>File</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Matched</TableHead>
+                  <TableHead>Mismatch</TableHead>
+                  <TableHead>Unknown</TableHead>
+                  <TableHead>Missing</TableHead>
+                  <TableHead>Approved</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((item) => (
+                  <TableRow
+                    key={item.reconciliationId}
+                    className="cursor-pointer hover:bg-gray-50"
+                    onClick={() => openReport(item.reconciliationId)}
+                  >
+                    <TableCell>
+                      <p className="text-sm font-medium">{item.fileName}</p>
+                      <p className="text-xs text-gray-500">{item.format.toUpperCase()}</p>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {format(new Date(item.createdAt), 'yyyy-MM-dd HH:mm')}
+                      <p className="text-xs text-gray-500">{item.uploadedByEmail}</p>
+                    </TableCell>
+                    <TableCell>{item.counts.matched}</TableCell>
+                    <TableCell>{item.counts.amountMismatch}</TableCell>
+                    <TableCell>{item.counts.unknownUtr}</TableCell>
+                    <TableCell>{item.counts.missing}</TableCell>
+                    <TableCell>{item.counts.approved}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {history.length === 0 && (
+              <div className="py-10 text-center text-gray-500">No statements uploaded yet</div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, CheckCircle, HelpCircle, SearchX } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { ReconciliationReport as Report } from '@/components/reconciliation/types';
+
+interface ReconciliationReportProps {
+  report: Report;
+  onUpdated: (report: Report) => void;
+}
+
+const UNKNOWN_REASON_LABELS: Record<Report['unknownUtr'][number]['reason'], string> = {
+  utr_not_found: 'No pending order',
+  no_utr: 'No UTR in narration',
+  duplicate_utr: 'Duplicate UTR',
+};
+
+function formatDate(value?: string) {
+  return value ? format(new Date(value), 'dd MMM yyyy') : '-';
+}
+
+export function ReconciliationReport({ report, onUpdated }: ReconciliationReportProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [confirming, setConfirming] = useState<string[] | null>(null);
+  const [approving, setApproving] = useState(false);
+  const { toast } = useToast();
+
+  const pendingMatches = report.matched.filter((match) => !match.approvedAt);
+
+  useEffect(() => {
+    setSelected([]);
+  }, [report.reconciliationId]);
+
+  const toggleSelected = (orderId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, orderId] : prev.filter((id) => id !== orderId)));
+  };
+
+  const handleApprove = async () => {
+    if (!confirming) return;
+
+    setApproving(true);
+    try {
+      const response = await fetch(`/api/admin/reconciliation/${report.reconciliationId}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderIds: confirming }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to approve matches');
+      }
+
+      toast({
+        title: 'Matches approved',
+        description:
+          result.data.failed.length > 0
+            ? `${result.message}. ${result.data.failed.length} could not be approved.`
+            : result.message,
+        variant: result.data.failed.length > 0 ? 'destructive' : 'default',
+      });
+
+      setSelected([]);
+      onUpdated(result.data.reconciliation);
+    } catch (error) {
+      toast({
+        title: 'Error approving matches',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setApproving(false);
+      setConfirming(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{report.fileName}</CardTitle>
+        <CardDescription>
+          {report.format.toUpperCase()} · {formatDate(report.periodStart)} to{' '}
+          {formatDate(report.periodEnd)} · {report.creditCount} credits, {report.debitCount} debits
+          {report.skippedRows > 0 && ` · ${report.skippedRows} rows skipped`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="matched" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="matched" className="gap-2">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              Matched ({report.counts.matched})
+            </TabsTrigger>
+            <TabsTrigger value="mismatch" className="gap-2">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              Amount Mismatch ({report.counts.amountMismatch})
+            </TabsTrigger>
+            <TabsTrigger value="unknown" className="gap-2">
+              <HelpCircle className="h-4 w-4 text-blue-600" />
+              Unknown UTR ({report.counts.unknownUtr})
+            </TabsTrigger>
+            <TabsTrigger value="missing" className="gap-2">
+              <SearchX className="h-4 w-4 text-red-600" />
+              Missing ({report.counts.missing})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="matched" className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-gray-600">
+                {report.counts.approved} of {report.counts.matched} matches approved
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selected.length === 0 || approving}
+                  onClick={() => setConfirming(selected)}
+                >
+                  Approve Selected ({selected.length})
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={pendingMatches.length === 0 || approving}
+                  onClick={() => setConfirming(pendingMatches.map((match) => match.orderId))}
+                >
+                  Approve All ({pendingMatches.length})
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-hidden rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={
+                          pendingMatches.length > 0 && selected.length === pendingMatches.length
+                        }
+                        onCheckedChange={(checked) =>
+                          setSelected(
+                            checked === true ? pendingMatches.map((match) => match.orderId) : [],
+                          )
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>UTR</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Credited</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.matched.map((match) => (
+                    <TableRow key={match.orderId}>
+                      <TableCell>
+                        {!match.approvedAt && (
+                          <Checkbox
+                            checked={selected.includes(match.orderId)}
+                            onCheckedChange={(checked) =>
+                              toggleSelected(match.orderId, checked === true)
+                            }
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-mono text-sm">{match.orderId}</p>
+                        <p className="text-xs text-gray-500">{match.customerName}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{match.utr}</TableCell>
+                      <TableCell className="font-medium">{formatCurrency(match.amount)}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {formatDate(match.entryDate)}
+                      </TableCell>
+                      <TableCell>
+                        {match.approvedAt ? (
+                          <Badge variant="outline" className="border-green-200 text-green-600">
+                            Approved
+                          </Badge>
+                        ) : match.approvalError ? (
+                          <Badge
+                            variant="outline"
+                            className="border-red-200 text-red-600"
+                            title={match.approvalError}
+                          >
+                            Not approved
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-yellow-200 text-yellow-600">
+                            Awaiting approval
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.matched.length === 0 && (
+                <div className="py-10 text-center text-gray-500">No matches in this statement</div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="mismatch">
+            <div className="overflow-hidden rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead>Order</TableHead>
+                    <TableHead>UTR</TableHead>
+                    <TableHead>Order Amount</TableHead>
+                    <TableHead>Credited</TableHead>
+                    <TableHead>Difference</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.amountMismatch.map((entry) => (
+                    <TableRow key={entry.orderId}>
+                      <TableCell>
+                        <p className="font-mono text-sm">{entry.orderId}</p>
+                        <p className="text-xs text-gray-500">{entry.customerName}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{entry.utr}</TableCell>
+                      <TableCell>{formatCurrency(entry.orderAmount)}</TableCell>
+                      <TableCell>{formatCurrency(entry.statementAmount)}</TableCell>
+                      <TableCell
+                        className={entry.difference < 0 ? 'text-red-600' : 'text-yellow-700'}
+                      >
+                        {entry.difference > 0 ? '+' : ''}
+                        {formatCurrency(entry.difference)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.amountMismatch.length === 0 && (
+                <div className="py-10 text-center text-gray-500">No amount mismatches</div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="unknown">
+            <div className="overflow-hidden rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead>Row</TableHead>
+                    <TableHead>UTR</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Narration</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.unknownUtr.map((entry) => (
+                    <TableRow key={entry.line}>
+                      <TableCell className="text-sm text-gray-600">{entry.line}</TableCell>
+                      <TableCell className="font-mono text-sm">{entry.utr || '-'}</TableCell>
+                      <TableCell>{formatCurrency(entry.amount)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{UNKNOWN_REASON_LABELS[entry.reason]}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-md truncate text-xs text-gray-600">
+                        {entry.narration}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.unknownUtr.length === 0 && (
+                <div className="py-10 text-center text-gray-500">
+                  Every credit was accounted for
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="missing">
+            <div className="overflow-hidden rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead>Order</TableHead>
+                    <TableHead>UTR Submitted</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.missing.map((entry) => (
+                    <TableRow key={entry.orderId}>
+                      <TableCell>
+                        <p className="font-mono text-sm">{entry.orderId}</p>
+                        <p className="text-xs text-gray-500">{entry.customerName}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{entry.utr}</TableCell>
+                      <TableCell>{formatCurrency(entry.amount)}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {format(new Date(entry.createdAt), 'dd MMM yyyy HH:mm')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.missing.length === 0 && (
+                <div className="py-10 text-center text-gray-500">
+                  Every pending UTR appears in this statement
+                </div>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <AlertDialog
+        open={confirming !== null}
+        onOpenChange={(open) => !open && !approving && setConfirming(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Approve {confirming?.length} payments?</AlertDialogTitle>
+            <AlertDialogDescription>
+              These orders will be marked completed and each approval will be recorded in the audit
+              log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={approving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleApprove} disabled={approving}>
+              {approving ? 'Approving...' : 'Approve'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
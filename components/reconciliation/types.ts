@@ -0,0 +1,76 @@
+export interface ReconciliationSummary {
+  reconciliationId: string;
+  fileName: string;
+  format: string;
+  periodStart?: string;
+  periodEnd?: string;
+  entryCount: number;
+  creditCount: number;
+  debitCount: number;
+  skippedRows: number;
+  counts: {
+    matched: number;
+    amountMismatch: number;
+    unknownUtr: number;
+    missing: number;
+    approved: number;
+  };
+  uploadedByEmail: string;
+  createdAt: string;
+}
+
+interface StatementLine {
+  entryDate?: string;
+  narration: string;
+  line: number;
+}
+
+export interface ReconciliationReport extends ReconciliationSummary {
+  matched: Array<
+    StatementLine & {
+      orderId: string;
+      utr: string;
+      amount: number;
+      customerName?: string;
+      approvedAt?: string;
+      approvedBy?: string;
+      approvalError?: string;
+    }
+  >;
+  amountMismatch: Array<
+    StatementLine & {
+      orderId: string;
+      utr: string;
+      orderAmount: number;
+      statementAmount: number;
+      difference: number;
+      customerName?: string;
+    }
+  >;
+  unknownUtr: Array<
+    StatementLine & {
+      utr?: string;
+      amount: number;
+      reason: 'utr_not_found' | 'no_utr' | 'duplicate_utr';
+    }
+  >;
+  missing: Array<{
+    orderId: string;
+    utr: string;
+    amount: number;
+    customerName?: string;
+    createdAt: string;
+  }>;
+}
+
+// Mirrors STATEMENT_FORMATS in lib/reconciliation/statement-parser.ts
+export const STATEMENT_FORMAT_OPTIONS = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'generic', label: 'Generic CSV' },
+  { value: 'hdfc', label: 'HDFC Bank' },
+  { value: 'icici', label: 'ICICI Bank' },
+  { value: 'sbi', label: 'State Bank of India' },
+  { value: 'axis', label: 'Axis Bank' },
+  { value: 'kotak', label: 'Kotak Mahindra Bank' },
+  { value: 'mt940', label: 'MT940 (SWIFT)' },
+] as const;
@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { MESSAGE_VARIABLES } from '@/lib/messaging/templates';
+import { MessageSquare, Save } from 'lucide-react';
+
+interface MessagingSettingsValues {
+  enabled: boolean;
+  channel: 'sms' | 'whatsapp';
+  defaultCountryCode: string;
+  templates: {
+    orderCreated: string;
+    paymentVerified: string;
+  };
+}
+
+export function MessagingSettings() {
+  const [settings, setSettings] = useState<MessagingSettingsValues>({
+    enabled: false,
+    channel: 'sms',
+    defaultCountryCode: '91',
+    templates: { orderCreated: '', paymentVerified: '' },
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch('/api/admin/settings/messaging')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (result?.success) {
+          setSettings(result.data);
+        }
+      })
+      .catch(() => {
+        // Keep the form empty; the server fills in defaults
+      });
+  }, []);
+
+  const setTemplate = (key: keyof MessagingSettingsValues['templates'], value: string) => {
+    setSettings((prev) => ({ ...prev, templates: { ...prev.templates, [key]: value } }));
+  };
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/settings/messaging', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save settings');
+      }
+      setSettings(result.data);
+
+      toast({
+        title: 'Messaging settings saved',
+        description: 'SMS and WhatsApp settings have been updated.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error saving settings',
+        description:
+          error instanceof Error
+            ? error.message
+            : 'There was a problem saving the settings. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            SMS & WhatsApp
+          </CardTitle>
+          <CardDescription>
+            Text customers the payment link when an order is created and a confirmation once
+            it&apos;s verified. Only orders with a customer phone number are messaged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between space-x-2">
+            <div className="space-y-0.5">
+              <Label htmlFor="messagingEnabled">Send Messages</Label>
+              <p className="text-muted-foreground text-sm">
+                The provider is configured on the server with MESSAGING_PROVIDER
+              </p>
+            </div>
+            <Switch
+              id="messagingEnabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => setSettings((prev) => ({ ...prev, enabled }))}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="messagingChannel">Channel</Label>
+              <Select
+                value={settings.channel}
+                onValueChange={(channel: MessagingSettingsValues['channel']) =>
+                  setSettings((prev) => ({ ...prev, channel }))
+                }
+              >
+                <SelectTrigger id="messagingChannel" className="max-w-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sms">SMS</SelectItem>
+                  <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="defaultCountryCode">Default Country Code</Label>
+              <Input
+                id="defaultCountryCode"
+                value={settings.defaultCountryCode}
+                onChange={(e) =>
+                  setSettings((prev) => ({
+                    ...prev,
+                    defaultCountryCode: e.target.value.replace(/\D/g, ''),
+                  }))
+                }
+                className="max-w-xs"
+              />
+              <p className="text-muted-foreground text-sm">
+                Added to numbers entered without one, e.g. 91 for India
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="orderCreatedTemplate">Order Created</Label>
+            <Textarea
+              id="orderCreatedTemplate"
+              rows={3}
+              value={settings.templates.orderCreated}
+              onChange={(e) => setTemplate('orderCreated', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentVerifiedTemplate">Payment Verified</Label>
+            <Textarea
+              id="paymentVerifiedTemplate"
+              rows={3}
+              value={settings.templates.paymentVerified}
+              onChange={(e) => setTemplate('paymentVerified', e.target.value)}
+            />
+          </div>
+
+          <p className="text-muted-foreground text-sm">
+            Available placeholders:{' '}
+            {MESSAGE_VARIABLES.map((name) => (
+              <code key={name} className="mr-1 rounded bg-gray-100 px-1 py-0.5 text-xs">
+                {`{{${name}}}`}
+              </code>
+            ))}
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isLoading} className="gap-2">
+          <Save className="h-4 w-4" />
+          {isLoading ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </div>
+    </div>
+  );
+}
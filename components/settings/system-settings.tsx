@@ -1,25 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Switch } from '@/components/ui/switch';
-import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { Save, Clock, Smartphone, Shield } from 'lucide-react';
+import { Save, Clock, Shield } from 'lucide-react';
 
 interface SystemSettingsProps {
   initialSettings?: {
     timerDuration: number;
     staticUpiId: string;
-    enabledUpiApps: {
-      gpay: boolean;
-      phonepe: boolean;
-      paytm: boolean;
-      bhim: boolean;
-    };
   };
 }
 
@@ -27,30 +19,50 @@ export function SystemSettings({ initialSettings }: SystemSettingsProps) {
   const [settings, setSettings] = useState({
     timerDuration: initialSettings?.timerDuration || 9,
     staticUpiId: initialSettings?.staticUpiId || '',
-    enabledUpiApps: initialSettings?.enabledUpiApps || {
-      gpay: true,
-      phonepe: true,
-      paytm: true,
-      bhim: true,
-    },
   });
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (initialSettings) return;
+
+    fetch('/api/admin/settings')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (result?.success) {
+          setSettings(result.data);
+        }
+      })
+      .catch(() => {
+        // Keep the defaults; saving will still work
+      });
+  }, [initialSettings]);
+
   const handleSave = async () => {
     setIsLoading(true);
     try {
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const response = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save settings');
+      }
+      setSettings(result.data);
 
       toast({
         title: 'Settings saved successfully',
         description: 'System settings have been updated.',
       });
-    } catch (_error) {
+    } catch (error) {
       toast({
         title: 'Error saving settings',
-        description: 'There was a problem saving the settings. Please try again.',
+        description:
+          error instanceof Error
+            ? error.message
+            : 'There was a problem saving the settings. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -58,16 +70,6 @@ export function SystemSettings({ initialSettings }: SystemSettingsProps) {
     }
   };
 
-  const handleUpiAppToggle = (app: keyof typeof settings.enabledUpiApps) => {
-    setSettings((prev) => ({
-      ...prev,
-      enabledUpiApps: {
-        ...prev.enabledUpiApps,
-        [app]: !prev.enabledUpiApps[app],
-      },
-    }));
-  };
-
   return (
     <div className="space-y-6">
       <Card>
@@ -77,7 +79,7 @@ export function SystemSettings({ initialSettings }: SystemSettingsProps) {
             Payment Timer Settings
           </CardTitle>
           <CardDescription>
-            Configure how long payment links remain active before expiring
+            Configure how long new orders can be paid for before they expire
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -110,9 +112,7 @@ export function SystemSettings({ initialSettings }: SystemSettingsProps) {
             <Shield className="h-5 w-5" />
             UPI Configuration
           </CardTitle>
-          <CardDescription>
-            Configure static UPI ID and manage payment app availability
-          </CardDescription>
+          <CardDescription>Configure the static UPI ID used for payment links</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="space-y-2">
@@ -134,64 +134,6 @@ export function SystemSettings({ initialSettings }: SystemSettingsProps) {
               UPI IDs.
             </p>
           </div>
-
-          <Separator />
-
-          <div className="space-y-4">
-            <h4 className="flex items-center gap-2 text-sm font-medium">
-              <Smartphone className="h-4 w-4" />
-              Enabled UPI Apps
-            </h4>
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="flex items-center justify-between space-x-2">
-                <div className="space-y-0.5">
-                  <Label htmlFor="gpay">Google Pay</Label>
-                  <p className="text-muted-foreground text-sm">Enable Google Pay payment option</p>
-                </div>
-                <Switch
-                  id="gpay"
-                  checked={settings.enabledUpiApps.gpay}
-                  onCheckedChange={() => handleUpiAppToggle('gpay')}
-                />
-              </div>
-
-              <div className="flex items-center justify-between space-x-2">
-                <div className="space-y-0.5">
-                  <Label htmlFor="phonepe">PhonePe</Label>
-                  <p className="text-muted-foreground text-sm">Enable PhonePe payment option</p>
-                </div>
-                <Switch
-                  id="phonepe"
-                  checked={settings.enabledUpiApps.phonepe}
-                  onCheckedChange={() => handleUpiAppToggle('phonepe')}
-                />
-              </div>
-
-              <div className="flex items-center justify-between space-x-2">
-                <div className="space-y-0.5">
-                  <Label htmlFor="paytm">Paytm</Label>
-                  <p className="text-muted-foreground text-sm">Enable Paytm payment option</p>
-                </div>
-                <Switch
-                  id="paytm"
-                  checked={settings.enabledUpiApps.paytm}
-                  onCheckedChange={() => handleUpiAppToggle('paytm')}
-                />
-              </div>
-
-              <div className="flex items-center justify-between space-x-2">
-                <div className="space-y-0.5">
-                  <Label htmlFor="bhim">BHIM UPI</Label>
-                  <p className="text-muted-foreground text-sm">Enable BHIM UPI payment option</p>
-                </div>
-                <Switch
-                  id="bhim"
-                  checked={settings.enabledUpiApps.bhim}
-                  onCheckedChange={() => handleUpiAppToggle('bhim')}
-                />
-              </div>
-            </div>
-          </div>
         </CardContent>
       </Card>
 
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_UPI_APPS, type UpiApp } from '@/lib/upi-apps/registry';
+import { ArrowDown, ArrowUp, Plus, Save, Smartphone, Trash2 } from 'lucide-react';
+
+const NEW_APP: UpiApp = {
+  id: '',
+  name: '',
+  enabled: true,
+  logo: '/icons/upi.svg',
+  scheme: 'upi://pay',
+};
+
+// Only preview logos the server would accept; next/image throws on a half-typed path
+const LOGO_PATTERN = /^(\/|https:\/\/)\S+$/;
+
+// Empty optional fields are left out rather than sent as '' and rejected
+function toPayload(apps: UpiApp[]): UpiApp[] {
+  return apps.map(({ androidPackage, iosFallbackUrl, ...app }) => ({
+    ...app,
+    ...(androidPackage?.trim() && { androidPackage: androidPackage.trim() }),
+    ...(iosFallbackUrl?.trim() && { iosFallbackUrl: iosFallbackUrl.trim() }),
+  }));
+}
+
+export function UpiAppSettings() {
+  const [apps, setApps] = useState<UpiApp[]>(DEFAULT_UPI_APPS);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch('/api/admin/settings/upi-apps')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (result?.success) {
+          setApps(result.data.apps);
+        }
+      })
+      .catch(() => {
+        // Keep the built-in apps; saving will still work
+      });
+  }, []);
+
+  const updateApp = (index: number, changes: Partial<UpiApp>) => {
+    setApps((prev) => prev.map((app, i) => (i === index ? { ...app, ...changes } : app)));
+  };
+
+  const moveApp = (index: number, offset: number) => {
+    setApps((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/settings/upi-apps', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apps: toPayload(apps) }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save settings');
+      }
+      setApps(result.data.apps);
+
+      toast({
+        title: 'UPI apps saved',
+        description: 'The payment page now offers the enabled apps.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error saving settings',
+        description:
+          error instanceof Error
+            ? error.message
+            : 'There was a problem saving the settings. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            UPI Apps
+          </CardTitle>
+          <CardDescription>
+            The apps customers can pick on the payment page, in this order. On Android the payment
+            is sent to the app&apos;s package, and to its Play Store page if it isn&apos;t
+            installed; on iOS the app&apos;s scheme is opened, then its App Store page if nothing
+            answers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {apps.map((app, index) => (
+            <div key={index} className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-3">
+                  {LOGO_PATTERN.test(app.logo) ? (
+                    <Image
+                      src={app.logo}
+                      alt=""
+                      width={32}
+                      height={32}
+                      unoptimized
+                      className="h-8 w-8 object-contain"
+                    />
+                  ) : (
+                    <Smartphone className="h-8 w-8 text-gray-400" />
+                  )}
+                  <span className="font-medium">{app.name || 'New app'}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={app.enabled}
+                    onCheckedChange={(enabled) => updateApp(index, { enabled })}
+                    aria-label={`Offer ${app.name}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveApp(index, -1)}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === apps.length - 1}
+                    onClick={() => moveApp(index, 1)}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={apps.length === 1}
+                    onClick={() => setApps((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`upiAppName${index}`}>Name</Label>
+                  <Input
+                    id={`upiAppName${index}`}
+                    value={app.name}
+                    onChange={(e) => updateApp(index, { name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`upiAppId${index}`}>App ID</Label>
+                  <Input
+                    id={`upiAppId${index}`}
+                    value={app.id}
+                    placeholder="myapp"
+                    onChange={(e) => updateApp(index, { id: e.target.value.toLowerCase() })}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`upiAppLogo${index}`}>Logo</Label>
+                  <Input
+                    id={`upiAppLogo${index}`}
+                    value={app.logo}
+                    onChange={(e) => updateApp(index, { logo: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`upiAppScheme${index}`}>Scheme</Label>
+                  <Input
+                    id={`upiAppScheme${index}`}
+                    value={app.scheme}
+                    onChange={(e) => updateApp(index, { scheme: e.target.value })}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`upiAppPackage${index}`}>Android Package</Label>
+                  <Input
+                    id={`upiAppPackage${index}`}
+                    value={app.androidPackage ?? ''}
+                    placeholder="Let the customer choose"
+                    onChange={(e) => updateApp(index, { androidPackage: e.target.value })}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`upiAppIos${index}`}>iOS Fallback URL</Label>
+                  <Input
+                    id={`upiAppIos${index}`}
+                    value={app.iosFallbackUrl ?? ''}
+                    placeholder="https://apps.apple.com/..."
+                    onChange={(e) => updateApp(index, { iosFallbackUrl: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setApps((prev) => [...prev, { ...NEW_APP }])}
+          >
+            <Plus className="h-4 w-4" />
+            Add App
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isLoading} className="gap-2">
+          <Save className="h-4 w-4" />
+          {isLoading ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </div>
+    </div>
+  );
+}
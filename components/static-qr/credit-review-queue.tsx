@@ -0,0 +1,310 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, ClipboardCheck, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatINR, toPaise } from '@/lib/utils/money';
+import type { StaticCreditReviewReason, StaticCreditSource } from '@/lib/db/models/StaticQrCredit';
+
+interface CandidateOrder {
+  orderId: string;
+  amount: number;
+  customerName?: string;
+  description: string;
+  status: string;
+  createdAt: string;
+}
+
+interface StaticCredit {
+  creditId: string;
+  source: StaticCreditSource;
+  utr: string;
+  amount: number;
+  paidAt: string;
+  payerName?: string;
+  note?: string;
+  reviewReason?: StaticCreditReviewReason;
+  reviewDetail?: string;
+  candidates: CandidateOrder[];
+}
+
+const SOURCE_LABELS: Record<StaticCreditSource, string> = {
+  credit_alert: 'Bank credit alert',
+  utr: 'UTR from customer',
+};
+
+const REASON_LABELS: Record<StaticCreditReviewReason, string> = {
+  ambiguous: 'More than one order fits',
+  no_match: 'No open order for this amount',
+  match_failed: 'Could not apply to the matching order',
+};
+
+const EMPTY_FORM = {
+  source: 'credit_alert' as StaticCreditSource,
+  utr: '',
+  amount: '',
+  paidAt: '',
+};
+
+export function CreditReviewQueue() {
+  const [credits, setCredits] = useState<StaticCredit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [manualOrderIds, setManualOrderIds] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const fetchCredits = useCallback(async () => {
+    try {
+      const response = await fetch('/api/static-qr/credits?status=needs_review');
+      if (!response.ok) throw new Error('Failed to fetch payments awaiting review');
+
+      const result = await response.json();
+      setCredits(result.data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCredits();
+  }, [fetchCredits]);
+
+  const handleRecord = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/static-qr/credits', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source: form.source,
+          utr: form.utr,
+          amount: Number(form.amount),
+          paidAt: form.paidAt ? new Date(form.paidAt).toISOString() : undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to record payment');
+      }
+
+      setForm(EMPTY_FORM);
+      toast({ title: 'Payment recorded', description: result.message });
+      if (!result.data.order) {
+        await fetchCredits();
+      }
+    } catch (error) {
+      toast({
+        title: 'Error recording payment',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async (credit: StaticCredit, orderId?: string) => {
+    setBusyId(credit.creditId);
+    try {
+      const response = await fetch(`/api/static-qr/credits/${credit.creditId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(orderId ? { action: 'match', orderId } : { action: 'dismiss' }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to review payment');
+      }
+
+      setCredits((prev) => prev.filter((item) => item.creditId !== credit.creditId));
+      toast({ title: 'Payment reviewed', description: result.message });
+    } catch (error) {
+      toast({
+        title: 'Error reviewing payment',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Static QR Payments
+        </CardTitle>
+        <CardDescription>
+          Record a payment to your static QR from your bank&apos;s credit alert or the UTR the
+          customer shows you. Payments that don&apos;t fit exactly one open order wait here for you
+          to decide.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          onSubmit={handleRecord}
+          className="grid gap-4 md:grid-cols-[180px_1fr_140px_200px_auto] md:items-end"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="creditSource">Source</Label>
+            <Select
+              value={form.source}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, source: value as StaticCreditSource }))
+              }
+            >
+              <SelectTrigger id="creditSource">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="creditUtr">UTR</Label>
+            <Input
+              id="creditUtr"
+              value={form.utr}
+              maxLength={22}
+              onChange={(e) => setForm((prev) => ({ ...prev, utr: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="creditAmount">Amount (₹)</Label>
+            <Input
+              id="creditAmount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="creditPaidAt">Paid At</Label>
+            <Input
+              id="creditPaidAt"
+              type="datetime-local"
+              value={form.paidAt}
+              onChange={(e) => setForm((prev) => ({ ...prev, paidAt: e.target.value }))}
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Recording...' : 'Record Payment'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading payments...</p>
+        ) : credits.length === 0 ? (
+          <p className="text-sm text-gray-500">No payments are waiting for review.</p>
+        ) : (
+          <div className="space-y-3">
+            {credits.map((credit) => (
+              <div key={credit.creditId} className="space-y-3 rounded-lg border p-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{formatINR(toPaise(credit.amount))}</div>
+                    <div className="font-mono text-sm text-gray-500">UTR {credit.utr}</div>
+                    <div className="text-xs text-gray-500">
+                      {SOURCE_LABELS[credit.source]} · paid{' '}
+                      {new Date(credit.paidAt).toLocaleString('en-IN')}
+                    </div>
+                  </div>
+                  {credit.reviewReason && (
+                    <Badge variant="outline">{REASON_LABELS[credit.reviewReason]}</Badge>
+                  )}
+                </div>
+                {credit.reviewDetail && (
+                  <p className="text-sm text-amber-700">{credit.reviewDetail}</p>
+                )}
+
+                {credit.candidates.map((order) => (
+                  <div
+                    key={order.orderId}
+                    className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2 text-sm"
+                  >
+                    <span>
+                      <span className="font-mono">{order.orderId}</span>
+                      {order.customerName && ` · ${order.customerName}`} · {order.description} ·{' '}
+                      {new Date(order.createdAt).toLocaleTimeString('en-IN')}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1"
+                      disabled={busyId === credit.creditId}
+                      onClick={() => handleResolve(credit, order.orderId)}
+                    >
+                      <Check className="h-4 w-4" />
+                      Apply
+                    </Button>
+                  </div>
+                ))}
+
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    placeholder="Order ID"
+                    className="max-w-xs"
+                    value={manualOrderIds[credit.creditId] ?? ''}
+                    onChange={(e) =>
+                      setManualOrderIds((prev) => ({ ...prev, [credit.creditId]: e.target.value }))
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === credit.creditId || !manualOrderIds[credit.creditId]}
+                    onClick={() => handleResolve(credit, manualOrderIds[credit.creditId].trim())}
+                  >
+                    Apply to Order
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1 text-red-600"
+                    disabled={busyId === credit.creditId}
+                    onClick={() => handleResolve(credit)}
+                  >
+                    <X className="h-4 w-4" />
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
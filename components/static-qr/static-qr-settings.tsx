@@ -0,0 +1,187 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Download, QrCode } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { QrDownloadDialog } from '@/components/payment-links/qr-download-dialog';
+import type { StaticQrSettings as Settings } from '@/lib/static-qr/service';
+
+interface StaticQrCode {
+  upiId: string;
+  payeeName: string;
+  upiString: string;
+}
+
+export function StaticQrSettings() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [codes, setCodes] = useState<StaticQrCode[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState<StaticQrCode | null>(null);
+  const { toast } = useToast();
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/static-qr');
+      if (!response.ok) throw new Error('Failed to fetch static QR settings');
+
+      const result = await response.json();
+      setSettings(result.data.settings);
+      setCodes(result.data.codes);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/static-qr', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save');
+      }
+
+      toast({ title: 'Static QR settings saved', description: result.message });
+    } catch (error) {
+      toast({
+        title: 'Error saving settings',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Static QR
+        </CardTitle>
+        <CardDescription>
+          Print one QR code with no amount and keep it on the counter. Customers enter the amount
+          themselves, and each payment you record is matched to the open order for that amount.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="staticQrEnabled">Match payments to orders</Label>
+              <p className="text-sm text-gray-500">
+                New orders wait for a payment to your static QR.
+              </p>
+            </div>
+            <Switch
+              id="staticQrEnabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => setSettings({ ...settings, enabled })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="staticQrOffsets">Unique paise amounts</Label>
+              <p className="text-sm text-gray-500">
+                When two open orders are for the same amount, add a few paise to the newer one so
+                their payments can be told apart.
+              </p>
+            </div>
+            <Switch
+              id="staticQrOffsets"
+              checked={settings.uniquePaiseOffsets}
+              onCheckedChange={(uniquePaiseOffsets) =>
+                setSettings({ ...settings, uniquePaiseOffsets })
+              }
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-[1fr_160px] md:items-center">
+            <div>
+              <Label htmlFor="staticQrWindow">Match window (minutes)</Label>
+              <p className="text-sm text-gray-500">
+                How long after an order is created a payment can still be matched to it.
+              </p>
+            </div>
+            <Input
+              id="staticQrWindow"
+              type="number"
+              min={5}
+              max={1440}
+              value={settings.matchWindowMinutes}
+              onChange={(e) =>
+                setSettings({ ...settings, matchWindowMinutes: Number(e.target.value) })
+              }
+            />
+          </div>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Your QR codes</Label>
+          {codes.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Add a UPI ID and wait for it to be approved to print a static QR code.
+            </p>
+          ) : (
+            codes.map((code) => (
+              <div
+                key={code.upiId}
+                className="flex items-center justify-between rounded-lg border p-3"
+              >
+                <div>
+                  <div className="font-medium">{code.payeeName}</div>
+                  <div className="font-mono text-sm text-gray-500">{code.upiId}</div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setDownloading(code)}
+                >
+                  <Download className="h-4 w-4" />
+                  Download
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      {downloading && (
+        <QrDownloadDialog
+          open
+          onOpenChange={(open) => !open && setDownloading(null)}
+          endpoint="/api/static-qr/qr"
+          extraFields={{ upiId: downloading.upiId }}
+          description={`Customers scan it to pay ${downloading.payeeName} any amount with any UPI app.`}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import type { VpaRoutingStrategy } from '@/lib/vpas/management';
+
+export interface VpaItem {
+  id: string;
+  vpa: string;
+  payeeName: string;
+  status: 'pending' | 'approved' | 'rejected';
+  isDefault: boolean;
+  isActive: boolean;
+  // Rupees; absent when there is no cap
+  dailyAmountLimit?: number;
+  dailyCountLimit?: number;
+  usedToday: {
+    amount: number;
+    count: number;
+  };
+  rejectionReason?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Only on the admin review list
+  owner?: {
+    id: string;
+    name?: string;
+    email?: string;
+  };
+}
+
+export const VPA_STATUS_LABELS: Record<VpaItem['status'], string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const VPA_ROUTING_LABELS: Record<VpaRoutingStrategy, string> = {
+  default: 'Default first',
+  'round-robin': 'Round robin',
+  'least-used': 'Least used',
+};
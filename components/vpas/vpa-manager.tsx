@@ -0,0 +1,500 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Gauge, Plus, Star, Trash2, Wallet } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatINR, toPaise } from '@/lib/utils/money';
+import type { VpaRoutingStrategy } from '@/lib/vpas/management';
+import { VPA_ROUTING_LABELS, VPA_STATUS_LABELS, type VpaItem } from '@/components/vpas/types';
+
+const ROUTING_DESCRIPTIONS: Record<VpaRoutingStrategy, string> = {
+  default: 'Orders go to your default UPI ID until it is full for the day, then the next one.',
+  'round-robin': 'Orders take turns across your UPI IDs.',
+  'least-used': 'Each order goes to the UPI ID with the most of its daily limit left.',
+};
+
+function UsageBar({ label, used, limit }: { label: string; used: number; limit?: number }) {
+  if (!limit) {
+    return null;
+  }
+
+  const percent = Math.min(100, Math.round((used / limit) * 100));
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span>{percent}%</span>
+      </div>
+      <Progress value={percent} className={percent >= 100 ? '[&>*]:bg-red-600' : undefined} />
+    </div>
+  );
+}
+
+export function VpaManager() {
+  const [vpas, setVpas] = useState<VpaItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState({ vpa: '', payeeName: '' });
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<VpaItem | null>(null);
+  const [routing, setRouting] = useState<VpaRoutingStrategy>('default');
+  const [editing, setEditing] = useState<VpaItem | null>(null);
+  const [limits, setLimits] = useState({ amount: '', count: '' });
+  const { toast } = useToast();
+
+  const fetchVpas = useCallback(async () => {
+    try {
+      const [response, routingResponse] = await Promise.all([
+        fetch('/api/vpas'),
+        fetch('/api/vpas/routing'),
+      ]);
+      if (response.ok) {
+        const result = await response.json();
+        setVpas(result.data || []);
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch UPI IDs',
+          variant: 'destructive',
+        });
+      }
+      if (routingResponse.ok) {
+        const result = await routingResponse.json();
+        setRouting(result.data.strategy);
+      }
+    } catch (error) {
+      console.error('Error fetching UPI IDs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchVpas();
+  }, [fetchVpas]);
+
+  const updateVpa = async (vpa: VpaItem, changes: Record<string, unknown>) => {
+    const response = await fetch(`/api/vpas/${vpa.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details?.[0]?.message || result.error || 'Failed to update UPI ID');
+    }
+
+    setVpas((prev) => prev.map((item) => (item.id === vpa.id ? result.data : item)));
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/vpas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to add UPI ID');
+      }
+
+      setVpas((prev) => [...prev, result.data]);
+      setForm({ vpa: '', payeeName: '' });
+      toast({ title: 'UPI ID added', description: result.message });
+    } catch (error) {
+      toast({
+        title: 'Error adding UPI ID',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (vpa: VpaItem) => {
+    setBusyId(vpa.id);
+    try {
+      const response = await fetch(`/api/vpas/${vpa.id}/default`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setVpas((prev) => prev.map((item) => ({ ...item, isDefault: item.id === vpa.id })));
+      toast({ title: 'Default UPI ID updated', description: vpa.vpa });
+    } catch (error) {
+      toast({
+        title: 'Error updating default',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = async (vpa: VpaItem, isActive: boolean) => {
+    setBusyId(vpa.id);
+    try {
+      await updateVpa(vpa, { isActive });
+      toast({ title: isActive ? 'UPI ID enabled' : 'UPI ID disabled', description: vpa.vpa });
+    } catch (error) {
+      toast({
+        title: 'Error updating UPI ID',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openLimits = (vpa: VpaItem) => {
+    setLimits({
+      amount: vpa.dailyAmountLimit?.toString() ?? '',
+      count: vpa.dailyCountLimit?.toString() ?? '',
+    });
+    setEditing(vpa);
+  };
+
+  const handleSaveLimits = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      // An empty field removes that limit
+      await updateVpa(editing, {
+        dailyAmountLimit: limits.amount ? Number(limits.amount) : null,
+        dailyCountLimit: limits.count ? Number(limits.count) : null,
+      });
+      toast({ title: 'Daily limits updated', description: editing.vpa });
+      setEditing(null);
+    } catch (error) {
+      toast({
+        title: 'Error updating limits',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoutingChange = async (strategy: VpaRoutingStrategy) => {
+    const previous = routing;
+    setRouting(strategy);
+    try {
+      const response = await fetch('/api/vpas/routing', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ strategy }),
+      });
+      if (!response.ok) throw new Error('Failed to update routing');
+
+      toast({ title: 'Routing updated', description: VPA_ROUTING_LABELS[strategy] });
+    } catch (_error) {
+      setRouting(previous);
+      toast({
+        title: 'Error updating routing',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const response = await fetch(`/api/vpas/${deleting.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to remove UPI ID');
+
+      setVpas((prev) => prev.filter((item) => item.id !== deleting.id));
+      toast({ title: 'UPI ID removed', description: deleting.vpa });
+    } catch (_error) {
+      toast({
+        title: 'Error removing UPI ID',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const approvedCount = vpas.filter((vpa) => vpa.status === 'approved').length;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            UPI IDs
+          </CardTitle>
+          <CardDescription>
+            Payments for your orders and links go to these UPI IDs. New UPI IDs are reviewed by an
+            admin before they can be used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form
+            onSubmit={handleAdd}
+            className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="vpa">UPI ID</Label>
+              <Input
+                id="vpa"
+                placeholder="yourshop@okaxis"
+                value={form.vpa}
+                onChange={(e) => setForm((prev) => ({ ...prev, vpa: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payeeName">Payee Name</Label>
+              <Input
+                id="payeeName"
+                placeholder="Shown in the customer's UPI app"
+                value={form.payeeName}
+                onChange={(e) => setForm((prev) => ({ ...prev, payeeName: e.target.value }))}
+                maxLength={100}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={saving} className="gap-2">
+              <Plus className="h-4 w-4" />
+              {saving ? 'Adding...' : 'Add UPI ID'}
+            </Button>
+          </form>
+
+          {approvedCount > 1 && (
+            <div className="grid gap-2 rounded-lg bg-gray-50 p-4 md:grid-cols-[240px_1fr] md:items-center md:gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vpaRouting">Order Routing</Label>
+                <Select
+                  value={routing}
+                  onValueChange={(value) => handleRoutingChange(value as VpaRoutingStrategy)}
+                >
+                  <SelectTrigger id="vpaRouting">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(VPA_ROUTING_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-gray-600">
+                {ROUTING_DESCRIPTIONS[routing]} Disabled UPI IDs and those at a daily limit are
+                skipped.
+              </p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+            </div>
+          ) : vpas.length === 0 ? (
+            <div className="py-12 text-center">
+              <h3 className="text-lg font-semibold">No UPI IDs yet</h3>
+              <p className="text-muted-foreground mt-2">
+                Until one is approved, payments go to the platform&apos;s UPI ID
+              </p>
+            </div>
+          ) : (
+            vpas.map((vpa) => (
+              <div key={vpa.id} className="space-y-4 rounded-lg border border-gray-200 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-mono text-sm break-all">{vpa.vpa}</p>
+                      {vpa.isDefault && <Badge>Default</Badge>}
+                      <Badge variant={vpa.status === 'rejected' ? 'destructive' : 'outline'}>
+                        {VPA_STATUS_LABELS[vpa.status]}
+                      </Badge>
+                      {!vpa.isActive && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">{vpa.payeeName}</p>
+                    {vpa.rejectionReason && (
+                      <p className="text-sm text-red-600">{vpa.rejectionReason}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {vpa.status === 'approved' && (
+                      <>
+                        <Switch
+                          checked={vpa.isActive}
+                          disabled={busyId === vpa.id}
+                          onCheckedChange={(checked) => handleToggleActive(vpa, checked)}
+                          aria-label={vpa.isActive ? 'Disable UPI ID' : 'Enable UPI ID'}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => openLimits(vpa)}
+                        >
+                          <Gauge className="h-4 w-4" />
+                          Limits
+                        </Button>
+                      </>
+                    )}
+                    {vpa.status === 'approved' && !vpa.isDefault && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        disabled={busyId === vpa.id}
+                        onClick={() => handleMakeDefault(vpa)}
+                      >
+                        <Star className="h-4 w-4" />
+                        Make Default
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 text-red-600 hover:text-red-700"
+                      onClick={() => setDeleting(vpa)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+
+                {vpa.status === 'approved' && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-600">
+                      Today: {formatINR(toPaise(vpa.usedToday.amount))}
+                      {vpa.dailyAmountLimit !== undefined &&
+                        ` of ${formatINR(toPaise(vpa.dailyAmountLimit))}`}
+                      {' · '}
+                      {vpa.usedToday.count}
+                      {vpa.dailyCountLimit !== undefined && ` of ${vpa.dailyCountLimit}`} orders
+                    </p>
+                    <UsageBar
+                      label="Amount limit"
+                      used={vpa.usedToday.amount}
+                      limit={vpa.dailyAmountLimit}
+                    />
+                    <UsageBar
+                      label="Order limit"
+                      used={vpa.usedToday.count}
+                      limit={vpa.dailyCountLimit}
+                    />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Daily Limits</DialogTitle>
+            <DialogDescription>
+              Once {editing?.vpa} reaches a limit, new orders go to your other UPI IDs until
+              midnight IST. Leave a field empty for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveLimits} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="dailyAmountLimit">Amount per day (₹)</Label>
+              <Input
+                id="dailyAmountLimit"
+                type="number"
+                min="1"
+                step="0.01"
+                placeholder="No limit"
+                value={limits.amount}
+                onChange={(e) => setLimits((prev) => ({ ...prev, amount: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dailyCountLimit">Orders per day</Label>
+              <Input
+                id="dailyCountLimit"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="No limit"
+                value={limits.count}
+                onChange={(e) => setLimits((prev) => ({ ...prev, count: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Limits'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove UPI ID?</AlertDialogTitle>
+            <AlertDialogDescription>
+              New orders and links can no longer use {deleting?.vpa}. Existing ones keep paying into
+              it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, ShieldCheck, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import type { VpaItem } from '@/components/vpas/types';
+
+export function VpaReview() {
+  const [vpas, setVpas] = useState<VpaItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<VpaItem | null>(null);
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+
+  const fetchPending = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/vpas?status=pending');
+      if (response.ok) {
+        const result = await response.json();
+        setVpas(result.data || []);
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch UPI IDs awaiting approval',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching UPI IDs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  const review = async (vpa: VpaItem, decision: 'approve' | 'reject', rejectionReason?: string) => {
+    setBusyId(vpa.id);
+    try {
+      const response = await fetch(`/api/admin/vpas/${vpa.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason: rejectionReason }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error);
+      }
+
+      setVpas((prev) => prev.filter((item) => item.id !== vpa.id));
+      toast({ title: result.message, description: vpa.vpa });
+    } catch (error) {
+      toast({
+        title: 'Error reviewing UPI ID',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    await review(rejecting, 'reject', reason);
+    setRejecting(null);
+    setReason('');
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            UPI IDs Awaiting Approval
+          </CardTitle>
+          <CardDescription>
+            Check that each UPI ID belongs to the merchant before approving it. Approved UPI IDs
+            start receiving payments for the merchant&apos;s new orders and links.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+            </div>
+          ) : vpas.length === 0 ? (
+            <p className="text-muted-foreground py-6 text-center">Nothing to review</p>
+          ) : (
+            vpas.map((vpa) => (
+              <div
+                key={vpa.id}
+                className="flex flex-wrap items-center justify-between gap-4 rounded-lg border border-gray-200 p-4"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="font-mono text-sm break-all">{vpa.vpa}</p>
+                  <p className="text-sm text-gray-600">
+                    {vpa.payeeName} &middot; {vpa.owner?.name || vpa.owner?.email || vpa.owner?.id}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Added {format(new Date(vpa.createdAt), 'yyyy-MM-dd HH:mm')}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    disabled={busyId === vpa.id}
+                    onClick={() => review(vpa, 'approve')}
+                  >
+                    <Check className="h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2 text-red-600 hover:text-red-700"
+                    disabled={busyId === vpa.id}
+                    onClick={() => setRejecting(vpa)}
+                  >
+                    <X className="h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="bg-white sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Reject UPI ID</DialogTitle>
+            <DialogDescription>
+              The merchant sees this reason next to {rejecting?.vpa}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Reason</Label>
+            <Textarea
+              id="rejectionReason"
+              rows={3}
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReject}
+              disabled={!reason.trim() || busyId !== null}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
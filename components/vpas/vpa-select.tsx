@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { VpaItem } from '@/components/vpas/types';
+
+// Radix Select items can't have an empty value
+const DEFAULT_OPTION = 'default';
+
+interface VpaSelectProps {
+  // Empty means the merchant's default UPI ID
+  value: string;
+  onChange: (vpa: string) => void;
+  id?: string;
+  className?: string;
+}
+
+/**
+ * Pick which approved UPI ID an order or link pays into. Renders nothing for
+ * merchants without approved UPI IDs, whose payments use the platform default.
+ */
+export function VpaSelect({ value, onChange, id = 'upiId', className }: VpaSelectProps) {
+  const [vpas, setVpas] = useState<VpaItem[]>([]);
+
+  useEffect(() => {
+    fetch('/api/vpas')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (result?.success) {
+          setVpas(
+            (result.data as VpaItem[]).filter((vpa) => vpa.status === 'approved' && vpa.isActive),
+          );
+        }
+      })
+      .catch(() => {
+        // Without the list the server uses the default UPI ID
+      });
+  }, []);
+
+  if (vpas.length === 0) {
+    return null;
+  }
+
+  const defaultVpa = vpas.find((vpa) => vpa.isDefault) ?? vpas[0];
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className={className}>
+        Pay To
+      </Label>
+      <Select
+        value={value || DEFAULT_OPTION}
+        onValueChange={(selected) => onChange(selected === DEFAULT_OPTION ? '' : selected)}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_OPTION}>Default ({defaultVpa.vpa})</SelectItem>
+          {vpas.map((vpa) => (
+            <SelectItem key={vpa.id} value={vpa.vpa}>
+              {vpa.payeeName} ({vpa.vpa})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
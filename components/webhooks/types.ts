@@ -0,0 +1,47 @@
+export interface WebhookItem {
+  id: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+  secret: string;
+  lastTriggeredAt?: string;
+  stats: {
+    totalAttempts: number;
+    successfulAttempts: number;
+    failedAttempts: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryItem {
+  deliveryId: string;
+  event: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  isTest: boolean;
+  attemptCount: number;
+  maxAttempts: number;
+  nextAttemptAt?: string;
+  lastResponseStatus?: number;
+  attempts: Array<{
+    attemptNumber: number;
+    attemptedAt: string;
+    responseStatus?: number;
+    latencyMs: number;
+    responseBody?: string;
+    error?: string;
+  }>;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Mirrors WEBHOOK_EVENTS in lib/db/models/Webhook.ts (kept separate so client bundles skip mongoose)
+export const WEBHOOK_EVENT_OPTIONS = [
+  { value: 'order.created', description: 'A new order is created' },
+  { value: 'order.utr_submitted', description: 'A customer submits a UTR for verification' },
+  { value: 'order.completed', description: 'A payment is verified' },
+  { value: 'order.failed', description: 'A payment is rejected' },
+  { value: 'order.expired', description: 'An order expires before payment' },
+  { value: 'order.refunded', description: 'A full or partial refund is recorded' },
+  { value: 'payment_link.used', description: 'A payment link creates an order' },
+] as const;
@@ -0,0 +1,247 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChevronDown, ChevronRight, History, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import type { WebhookDeliveryItem, WebhookItem } from '@/components/webhooks/types';
+
+interface WebhookDeliveriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  webhook: WebhookItem | null;
+}
+
+function getDeliveryBadge(status: WebhookDeliveryItem['status']) {
+  switch (status) {
+    case 'succeeded':
+      return (
+        <Badge variant="outline" className="border-green-200 text-green-600">
+          Succeeded
+        </Badge>
+      );
+    case 'failed':
+      return (
+        <Badge variant="outline" className="border-red-200 text-red-600">
+          Failed
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline" className="border-yellow-200 text-yellow-600">
+          Retrying
+        </Badge>
+      );
+  }
+}
+
+export function WebhookDeliveriesDialog({
+  open,
+  onOpenChange,
+  webhook,
+}: WebhookDeliveriesDialogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    if (!webhook) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}/deliveries?page=${page}&limit=20`);
+      if (response.ok) {
+        const result = await response.json();
+        setDeliveries(result.data?.deliveries || []);
+        setPages(result.data?.pagination?.pages || 1);
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [webhook, page]);
+
+  useEffect(() => {
+    if (open) {
+      fetchDeliveries();
+    }
+  }, [open, fetchDeliveries]);
+
+  useEffect(() => {
+    if (!open) {
+      setPage(1);
+      setExpanded(null);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto border border-gray-200 bg-white shadow-2xl sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-bold text-gray-800">
+            <History className="h-5 w-5 text-blue-500" />
+            Delivery History
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={fetchDeliveries}
+            disabled={loading}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="overflow-hidden rounded-lg border border-gray-200">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="w-8" />
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => {
+                const isExpanded = expanded === delivery.deliveryId;
+                const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+
+                return (
+                  <Fragment key={delivery.deliveryId}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpanded(isExpanded ? null : delivery.deliveryId)}
+                    >
+                      <TableCell>
+                        {isExpanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {delivery.event}
+                        {delivery.isTest && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            test
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{getDeliveryBadge(delivery.status)}</TableCell>
+                      <TableCell className="text-sm">
+                        {lastAttempt
+                          ? `${lastAttempt.responseStatus ?? 'error'} · ${lastAttempt.latencyMs}ms`
+                          : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {delivery.attemptCount} / {delivery.maxAttempts}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {format(new Date(delivery.createdAt), 'yyyy-MM-dd HH:mm:ss')}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="bg-gray-50">
+                        <TableCell colSpan={6} className="space-y-3 p-4">
+                          <p className="font-mono text-xs text-gray-500">{delivery.deliveryId}</p>
+                          {delivery.nextAttemptAt && delivery.status === 'pending' && (
+                            <p className="text-sm text-yellow-700">
+                              Next attempt at{' '}
+                              {format(new Date(delivery.nextAttemptAt), 'yyyy-MM-dd HH:mm:ss')}
+                            </p>
+                          )}
+                          {delivery.attempts.map((attempt) => (
+                            <div
+                              key={attempt.attemptNumber}
+                              className="rounded border border-gray-200 bg-white p-3 text-sm"
+                            >
+                              <div className="flex flex-wrap gap-4 text-gray-700">
+                                <span>Attempt #{attempt.attemptNumber}</span>
+                                <span>{format(new Date(attempt.attemptedAt), 'HH:mm:ss')}</span>
+                                <span>Status: {attempt.responseStatus ?? '-'}</span>
+                                <span>{attempt.latencyMs}ms</span>
+                              </div>
+                              {attempt.error && (
+                                <p className="mt-2 text-red-600">{attempt.error}</p>
+                              )}
+                              {attempt.responseBody && (
+                                <pre className="mt-2 max-h-32 overflow-auto rounded bg-gray-100 p-2 text-xs break-all whitespace-pre-wrap">
+                                  {attempt.responseBody}
+                                </pre>
+                              )}
+                            </div>
+                          ))}
+                          <pre className="max-h-48 overflow-auto rounded bg-gray-900 p-3 text-xs text-gray-100">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {deliveries.length === 0 && !loading && (
+            <div className="py-10 text-center text-gray-500">No deliveries yet</div>
+          )}
+        </div>
+
+        {pages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= pages}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Webhook as WebhookIcon } from 'lucide-react';
+import { WEBHOOK_EVENT_OPTIONS, type WebhookItem } from '@/components/webhooks/types';
+
+interface WebhookFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  webhook?: WebhookItem | null;
+  onSaved: (webhook: WebhookItem, isNew: boolean) => void;
+}
+
+export function WebhookFormDialog({
+  open,
+  onOpenChange,
+  webhook,
+  onSaved,
+}: WebhookFormDialogProps) {
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<string[]>([]);
+  const [isActive, setIsActive] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const isEditing = Boolean(webhook);
+
+  useEffect(() => {
+    if (open) {
+      setUrl(webhook?.url || '');
+      setEvents(webhook?.events || WEBHOOK_EVENT_OPTIONS.map((option) => option.value));
+      setIsActive(webhook?.isActive ?? true);
+    }
+  }, [open, webhook]);
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (events.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Select at least one event.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(isEditing ? `/api/webhooks/${webhook!.id}` : '/api/webhooks', {
+        method: isEditing ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url, events, isActive }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save webhook');
+      }
+
+      toast({
+        title: isEditing ? 'Webhook updated' : 'Webhook created',
+        description: url,
+      });
+
+      onSaved(result.data, !isEditing);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving webhook:', error);
+      toast({
+        title: 'Error saving webhook',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto border border-gray-200 bg-white shadow-2xl sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-bold text-gray-800">
+            <div className="rounded-full bg-blue-500 p-2">
+              <WebhookIcon className="h-5 w-5 text-white" />
+            </div>
+            {isEditing ? 'Edit Webhook' : 'Add Webhook'}
+          </DialogTitle>
+          <DialogDescription className="text-gray-600">
+            We&apos;ll send a signed POST request to this URL whenever a selected event happens.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="webhookUrl" className="text-sm font-medium text-gray-700">
+              Endpoint URL *
+            </Label>
+            <Input
+              id="webhookUrl"
+              type="url"
+              placeholder="https://example.com/webhooks/upi"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className="h-11 border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-200"
+              required
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-medium text-gray-700">Events</Label>
+            {WEBHOOK_EVENT_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-start gap-3">
+                <Checkbox
+                  id={`event-${option.value}`}
+                  checked={events.includes(option.value)}
+                  onCheckedChange={(checked) => toggleEvent(option.value, checked === true)}
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`event-${option.value}`} className="font-mono text-sm">
+                    {option.value}
+                  </Label>
+                  <p className="text-muted-foreground text-xs">{option.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="webhookActive" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="webhookActive" className="text-sm font-medium text-gray-700">
+              Active
+            </Label>
+          </div>
+
+          <DialogFooter className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Webhook'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,382 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Copy,
+  History,
+  KeyRound,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+  Webhook as WebhookIcon,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { WebhookFormDialog } from '@/components/webhooks/webhook-form-dialog';
+import { WebhookDeliveriesDialog } from '@/components/webhooks/webhook-deliveries-dialog';
+import type { WebhookItem } from '@/components/webhooks/types';
+
+export function WebhooksManager() {
+  const [webhooks, setWebhooks] = useState<WebhookItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookItem | null>(null);
+  const [historyFor, setHistoryFor] = useState<WebhookItem | null>(null);
+  const [deleting, setDeleting] = useState<WebhookItem | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks');
+      if (response.ok) {
+        const result = await response.json();
+        setWebhooks(result.data || []);
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch webhooks',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const replaceWebhook = (updated: WebhookItem) => {
+    setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const handleSaved = (webhook: WebhookItem, isNew: boolean) => {
+    if (isNew) {
+      setRevealedSecret(webhook.secret);
+      fetchWebhooks();
+    } else {
+      replaceWebhook(webhook);
+    }
+  };
+
+  const handleToggleActive = async (webhook: WebhookItem, isActive: boolean) => {
+    setBusyId(webhook.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      replaceWebhook(result.data);
+    } catch (_error) {
+      toast({
+        title: 'Error updating webhook',
+        description: 'There was a problem updating the webhook.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRotateSecret = async (webhook: WebhookItem) => {
+    setBusyId(webhook.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}/rotate-secret`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      // The response carries the full secret; reload so the list only shows the masked one
+      setRevealedSecret(result.data.secret);
+      fetchWebhooks();
+    } catch (_error) {
+      toast({
+        title: 'Error rotating secret',
+        description: 'There was a problem rotating the signing secret.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendTest = async (webhook: WebhookItem) => {
+    setBusyId(webhook.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event: webhook.events[0] }),
+      });
+      const result = await response.json();
+      const lastAttempt = result.data?.attempts?.[result.data.attempts.length - 1];
+
+      toast({
+        title: result.success ? 'Test event delivered' : 'Test event failed',
+        description: lastAttempt
+          ? `${lastAttempt.responseStatus ?? lastAttempt.error} in ${lastAttempt.latencyMs}ms`
+          : result.error,
+        variant: result.success ? 'default' : 'destructive',
+      });
+
+      fetchWebhooks();
+    } catch (_error) {
+      toast({
+        title: 'Error sending test event',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const response = await fetch(`/api/webhooks/${deleting.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete webhook');
+
+      setWebhooks((prev) => prev.filter((w) => w.id !== deleting.id));
+      toast({ title: 'Webhook deleted', description: deleting.url });
+    } catch (_error) {
+      toast({
+        title: 'Error deleting webhook',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const copySecret = () => {
+    if (!revealedSecret) return;
+    navigator.clipboard.writeText(revealedSecret);
+    toast({
+      title: 'Copied to clipboard',
+      description: 'Signing secret has been copied to your clipboard.',
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <WebhookIcon className="h-5 w-5" />
+                Webhooks
+              </CardTitle>
+              <CardDescription>
+                Receive signed notifications when orders are created, paid, failed or expire
+              </CardDescription>
+            </div>
+            <Button
+              className="gap-2"
+              onClick={() => {
+                setEditing(null);
+                setFormOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4" />
+              Add Webhook
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+            </div>
+          ) : webhooks.length === 0 ? (
+            <div className="py-12 text-center">
+              <h3 className="text-lg font-semibold">No webhooks yet</h3>
+              <p className="text-muted-foreground mt-2">
+                Add an endpoint to stop polling for order updates
+              </p>
+            </div>
+          ) : (
+            webhooks.map((webhook) => (
+              <div key={webhook.id} className="space-y-3 rounded-lg border border-gray-200 p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-mono text-sm break-all">{webhook.url}</p>
+                    <p className="font-mono text-xs text-gray-500">{webhook.secret}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">
+                      {webhook.isActive ? 'Active' : 'Disabled'}
+                    </span>
+                    <Switch
+                      checked={webhook.isActive}
+                      disabled={busyId === webhook.id}
+                      onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {webhook.events.map((event) => (
+                    <Badge key={event} variant="outline" className="font-mono text-xs">
+                      {event}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                  <span>{webhook.stats.successfulAttempts} delivered</span>
+                  <span>{webhook.stats.failedAttempts} failed</span>
+                  <span>
+                    Last triggered:{' '}
+                    {webhook.lastTriggeredAt
+                      ? format(new Date(webhook.lastTriggeredAt), 'yyyy-MM-dd HH:mm')
+                      : 'Never'}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => {
+                      setEditing(webhook);
+                      setFormOpen(true);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={busyId === webhook.id}
+                    onClick={() => handleSendTest(webhook)}
+                  >
+                    <Send className="h-4 w-4" />
+                    Send Test
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => setHistoryFor(webhook)}
+                  >
+                    <History className="h-4 w-4" />
+                    Deliveries
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={busyId === webhook.id}
+                    onClick={() => handleRotateSecret(webhook)}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                    Rotate Secret
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2 text-red-600 hover:text-red-700"
+                    onClick={() => setDeleting(webhook)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <WebhookFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        webhook={editing}
+        onSaved={handleSaved}
+      />
+
+      <WebhookDeliveriesDialog
+        open={historyFor !== null}
+        onOpenChange={(open) => !open && setHistoryFor(null)}
+        webhook={historyFor}
+      />
+
+      <Dialog
+        open={revealedSecret !== null}
+        onOpenChange={(open) => !open && setRevealedSecret(null)}
+      >
+        <DialogContent className="bg-white sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now and store it with your receiver. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 p-3">
+            <code className="flex-1 text-sm break-all">{revealedSecret}</code>
+            <Button variant="ghost" size="sm" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.url} will stop receiving events and pending retries will be cancelled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+import * as React from 'react';
+import { estimateDeadline } from '@/lib/orders/countdown';
+import type { OrderStatus } from '@/lib/types';
+
+// Device clocks drift and tabs get throttled; check back with the server this often
+const RESYNC_INTERVAL_MS = 60_000;
+
+/**
+ * Time left to pay an order, counted down against the server's clock. Starts from
+ * the time remaining the page was rendered with, then resyncs with the server on
+ * mount, every minute, whenever the tab becomes visible again and when the
+ * countdown reaches zero. `onStatus` receives the order status from each resync,
+ * which is how an expiry reaches the page.
+ */
+export function usePaymentCountdown(
+  orderId: string,
+  initialTimeRemaining: number,
+  active: boolean,
+  onStatus: (status: OrderStatus) => void,
+) {
+  const [deadline, setDeadline] = React.useState(() => Date.now() + initialTimeRemaining);
+  const [timeLeft, setTimeLeft] = React.useState(initialTimeRemaining);
+  const onStatusRef = React.useRef(onStatus);
+  onStatusRef.current = onStatus;
+
+  const resync = React.useCallback(async () => {
+    const sentAt = Date.now();
+    try {
+      const response = await fetch(`/api/orders/${orderId}`, { cache: 'no-store' });
+      if (!response.ok) return;
+
+      const { data } = await response.json();
+      setDeadline(
+        estimateDeadline({ sentAt, receivedAt: Date.now(), timeRemaining: data.timeRemaining }),
+      );
+      onStatusRef.current(data.status);
+    } catch {
+      // Keep counting from the last known deadline
+    }
+  }, [orderId]);
+
+  React.useEffect(() => {
+    if (!active) return;
+
+    resync();
+    const interval = setInterval(resync, RESYNC_INTERVAL_MS);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') resync();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [active, resync]);
+
+  React.useEffect(() => {
+    if (!active) return;
+
+    const tick = () => setTimeLeft(Math.max(0, deadline - Date.now()));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [active, deadline]);
+
+  // Let the server decide whether the order has really expired
+  const reachedZero = active && timeLeft === 0;
+  React.useEffect(() => {
+    if (reachedZero) resync();
+  }, [reachedZero, resync]);
+
+  return timeLeft;
+}
@@ -11,6 +11,7 @@ import { connectDB } from '@/lib/db/connection'
 import { OrderModel } from '@/lib/db/models/Order'
 import { UserModel } from '@/lib/db/models/User'
 import { AuditLogModel } from '@/lib/db/models/AuditLog'
+import { expireOverdueOrders } from '@/lib/orders/state-machine'
 
 interface MigrationResult {
   collection: string
@@ -325,7 +326,7 @@ export async function cleanupExpiredOrders(): Promise<{
   await connectDB()
 
   // Mark expired orders
-  const expiredCount = await OrderModel.markExpiredOrders()
+  const { expired: expiredCount } = await expireOverdueOrders()
 
   // Optionally delete very old expired orders (older than 30 days)
   const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
@@ -0,0 +1,65 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+
+export interface KioskDeviceDocument extends Document {
+  deviceId: string;
+  // The merchant the kiosk creates orders for
+  ownerId: string;
+  name: string;
+  // SHA-256 of the device token; the token itself is only shown once
+  tokenHash: string;
+  // The start of the token, so merchants can tell devices apart
+  tokenPrefix: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const KioskDeviceSchema = new Schema<KioskDeviceDocument>(
+  {
+    deviceId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    ownerId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 60,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    tokenPrefix: {
+      type: String,
+      required: true,
+    },
+    lastUsedAt: Date,
+    revokedAt: Date,
+    revokedBy: String,
+    createdBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+export const KioskDeviceModel = (mongoose.models.KioskDevice ||
+  mongoose.model<KioskDeviceDocument>(
+    'KioskDevice',
+    KioskDeviceSchema,
+  )) as Model<KioskDeviceDocument>;
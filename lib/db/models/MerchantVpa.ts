@@ -0,0 +1,102 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+
+export const MERCHANT_VPA_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type MerchantVpaStatus = (typeof MERCHANT_VPA_STATUSES)[number];
+
+// Same shape the Order and PaymentLink models accept for upiId
+export const VPA_PATTERN = /^[\w.-]+@[\w.-]+$/;
+
+export interface MerchantVpaDocument extends Document {
+  ownerId: string;
+  // Stored lowercase; UPI handles are case-insensitive
+  vpa: string;
+  // Shown to the customer in their UPI app as the payee
+  payeeName: string;
+  status: MerchantVpaStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  // Disabled UPI IDs are skipped when routing new orders
+  isActive: boolean;
+  // Daily caps in integer paise and orders; unset means no cap
+  dailyAmountLimitPaise?: number;
+  dailyCountLimit?: number;
+  // Orders routed here on usage.date (IST), less ones that expired or failed that day
+  usage: {
+    date?: string;
+    amountPaise: number;
+    count: number;
+  };
+  lastAssignedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MerchantVpaSchema = new Schema<MerchantVpaDocument>(
+  {
+    ownerId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    vpa: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+      maxlength: 255,
+      validate: {
+        validator: (v: string) => VPA_PATTERN.test(v),
+        message: 'Invalid UPI ID format - must be in format user@provider',
+      },
+    },
+    payeeName: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    status: {
+      type: String,
+      enum: [...MERCHANT_VPA_STATUSES],
+      default: 'pending',
+      index: true,
+    },
+    reviewedBy: String,
+    reviewedAt: Date,
+    rejectionReason: {
+      type: String,
+      maxlength: 500,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    dailyAmountLimitPaise: {
+      type: Number,
+      min: 1,
+    },
+    dailyCountLimit: {
+      type: Number,
+      min: 1,
+    },
+    usage: {
+      date: String,
+      amountPaise: { type: Number, default: 0 },
+      count: { type: Number, default: 0 },
+    },
+    lastAssignedAt: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+MerchantVpaSchema.index({ ownerId: 1, vpa: 1 }, { unique: true });
+
+export const MerchantVpaModel = (mongoose.models.MerchantVpa ||
+  mongoose.model<MerchantVpaDocument>(
+    'MerchantVpa',
+    MerchantVpaSchema,
+  )) as Model<MerchantVpaDocument>;
@@ -0,0 +1,111 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+
+export const NOTIFICATION_TYPES = [
+  'order_created',
+  'utr_received',
+  'payment_verified',
+  'payment_failed',
+  'link_expiring',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+export type NotificationAudience = 'customer' | 'merchant';
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp';
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationDeliveryDocument extends Document {
+  deliveryId: string;
+  type: NotificationType;
+  channel: NotificationChannel;
+  audience: NotificationAudience;
+  recipient: string;
+  // Emails have a subject; text messages keep their body
+  subject?: string;
+  body?: string;
+  status: NotificationDeliveryStatus;
+  // Why a notification was not sent, e.g. the merchant turned email off
+  skipReason?: string;
+  transport?: string;
+  messageId?: string;
+  error?: string;
+  orderId?: string;
+  linkId?: string;
+  // The merchant the notification was sent on behalf of
+  ownerId: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationDeliverySchema = new Schema<NotificationDeliveryDocument>(
+  {
+    deliveryId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: [...NOTIFICATION_TYPES],
+    },
+    channel: {
+      type: String,
+      required: true,
+      enum: ['email', 'sms', 'whatsapp'],
+      default: 'email',
+    },
+    audience: {
+      type: String,
+      required: true,
+      enum: ['customer', 'merchant'],
+    },
+    recipient: {
+      type: String,
+      required: true,
+    },
+    subject: {
+      type: String,
+      maxlength: 300,
+    },
+    body: {
+      type: String,
+      maxlength: 1000,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sent', 'failed', 'skipped'],
+      default: 'pending',
+      index: true,
+    },
+    skipReason: String,
+    transport: String,
+    messageId: String,
+    error: {
+      type: String,
+      maxlength: 500,
+    },
+    orderId: {
+      type: String,
+      index: true,
+    },
+    linkId: String,
+    ownerId: {
+      type: String,
+      required: true,
+    },
+    sentAt: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+NotificationDeliverySchema.index({ ownerId: 1, createdAt: -1 });
+
+export const NotificationDeliveryModel = (mongoose.models.NotificationDelivery ||
+  mongoose.model<NotificationDeliveryDocument>(
+    'NotificationDelivery',
+    NotificationDeliverySchema,
+  )) as Model<NotificationDeliveryDocument>;
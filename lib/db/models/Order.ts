@@ -1,5 +1,101 @@
 import mongoose, { Schema, type Document, type Model } from 'mongoose';
 import type { Order } from '@/lib/types';
+import { fromPaise, isPaise, toPaise } from '@/lib/utils/money';
+import { PHONE_PATTERN } from '@/lib/utils/phone';
+import { UPI_PLATFORMS, type UpiPlatform } from '@/lib/upi-apps/registry';
+
+export interface OrderRefund {
+  refundId: string;
+  amount: number;
+  amountPaise: number;
+  reason: string;
+  refundUtr: string;
+  processedBy: string;
+  processedByEmail?: string;
+  createdAt: Date;
+}
+
+export interface OrderStatusChange {
+  from: string;
+  to: string;
+  actorType: 'user' | 'customer' | 'system';
+  actorId: string;
+  actorEmail?: string;
+  reason?: string;
+  at: Date;
+}
+
+export type OrderRiskLevel = 'low' | 'medium' | 'high';
+
+export interface OrderRiskSignal {
+  code: string;
+  weight: number;
+  detail: string;
+}
+
+// Risk assessment made when the customer submitted a UTR
+export interface OrderRiskAssessment {
+  score: number;
+  level: OrderRiskLevel;
+  signals: OrderRiskSignal[];
+  // Held orders cannot be completed until an admin releases the hold
+  onHold: boolean;
+  holdReason?: string;
+  ipAddress?: string;
+  deviceId?: string;
+  assessedAt: Date;
+  releasedAt?: Date;
+  releasedBy?: string;
+}
+
+// Screenshot the customer uploaded with their UTR, and what OCR read from it
+export interface OrderPaymentProof {
+  storageKey: string;
+  contentType: string;
+  size: number;
+  uploadedAt: Date;
+  // False when OCR failed, in which case no fields were extracted
+  scanned: boolean;
+  extracted: {
+    utr?: string;
+    amount?: number;
+    payeeVpa?: string;
+    paidAt?: Date;
+  };
+  mismatches: Array<{ field: string; expected: string; found: string }>;
+}
+
+// Issued the first time a receipt is downloaded; reprints keep the same number
+export interface OrderReceipt {
+  number: string;
+  sequence: number;
+  issuedAt: Date;
+  reprintCount: number;
+  lastReprintedAt?: Date;
+}
+
+// Orders taken while the merchant's static QR mode was on. The customer pays the
+// requested amount plus offsetPaise, so that credits can be matched back to the order
+export interface OrderStaticQr {
+  requestedPaise: number;
+  offsetPaise: number;
+}
+
+// The UPI app the customer last chose on the payment page, kept for analytics
+export interface OrderUpiApp {
+  appId: string;
+  platform: UpiPlatform;
+  chosenAt: Date;
+}
+
+// Orders the customer actually paid, including ones later refunded in part or in full
+export const PAID_ORDER_STATUSES = ['completed', 'partially-refunded', 'refunded'];
+
+// Aggregation expression for the paise a paid order contributes to revenue after refunds.
+// Sum it as integers and convert the total with fromPaise() so totals don't drift.
+export const NET_REVENUE_EXPRESSION = {
+  $subtract: ['$amountPaise', { $ifNull: ['$refundedPaise', 0] }],
+};
 
 export interface OrderDocument
   extends Omit<Order, 'id' | 'createdAt' | 'updatedAt' | 'expiresAt' | 'verifiedAt'>,
@@ -10,6 +106,23 @@ export interface OrderDocument
   verifiedAt?: Date;
   adminNotes?: string;
   completedAt?: Date;
+  paymentLinkId?: string;
+  // Integer paise; `amount` and `refundedAmount` are the same values in rupees, kept
+  // in step by the model for API responses. Arithmetic and aggregates use these.
+  amountPaise: number;
+  refundedPaise: number;
+  // Set when a customer requests a new link for this order after it expired
+  renewedOrderId?: string;
+  refunds: OrderRefund[];
+  refundedAmount: number;
+  statusHistory: OrderStatusChange[];
+  risk?: OrderRiskAssessment;
+  paymentProof?: OrderPaymentProof;
+  receipt?: OrderReceipt;
+  // Set while a request takes the order's receipt number, so that two can't take one each
+  receiptClaimedAt?: Date;
+  staticQr?: OrderStaticQr;
+  upiApp?: OrderUpiApp;
   // Instance methods
   isExpired(): boolean;
   canBeVerified(): boolean;
@@ -25,9 +138,138 @@ export interface OrderModelType extends Model<OrderDocument> {
     totalAmount: number;
   }>>;
   getRecentOrders(userId?: string, limit?: number): Promise<OrderDocument[]>;
-  markExpiredOrders(): Promise<number>;
 }
 
+const RefundSchema = new Schema<OrderRefund>(
+  {
+    refundId: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    amountPaise: { type: Number, required: true, min: 1, validate: isPaise },
+    reason: {
+      type: String,
+      required: true,
+      maxlength: 500,
+    },
+    refundUtr: {
+      type: String,
+      required: true,
+      validate: {
+        validator: (v: string) => /^[A-Z0-9]{12,22}$/i.test(v),
+        message: 'Invalid refund UTR format - must be 12-22 alphanumeric characters',
+      },
+    },
+    processedBy: { type: String, required: true },
+    processedByEmail: String,
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const StatusChangeSchema = new Schema<OrderStatusChange>(
+  {
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+    actorType: {
+      type: String,
+      enum: ['user', 'customer', 'system'],
+      required: true,
+    },
+    actorId: { type: String, required: true },
+    actorEmail: String,
+    reason: {
+      type: String,
+      maxlength: 500,
+    },
+    at: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const RiskSignalSchema = new Schema<OrderRiskSignal>(
+  {
+    code: { type: String, required: true },
+    weight: { type: Number, required: true },
+    detail: { type: String, maxlength: 500 },
+  },
+  { _id: false },
+);
+
+const RiskAssessmentSchema = new Schema<OrderRiskAssessment>(
+  {
+    score: { type: Number, required: true, min: 0, max: 100 },
+    level: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      required: true,
+    },
+    signals: [RiskSignalSchema],
+    onHold: { type: Boolean, default: false },
+    holdReason: {
+      type: String,
+      maxlength: 500,
+    },
+    ipAddress: String,
+    deviceId: String,
+    assessedAt: { type: Date, default: Date.now },
+    releasedAt: Date,
+    releasedBy: String,
+  },
+  { _id: false },
+);
+
+const PaymentProofSchema = new Schema<OrderPaymentProof>(
+  {
+    storageKey: { type: String, required: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    uploadedAt: { type: Date, default: Date.now },
+    scanned: { type: Boolean, default: false },
+    extracted: {
+      utr: String,
+      amount: Number,
+      payeeVpa: String,
+      paidAt: Date,
+    },
+    mismatches: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        expected: String,
+        found: String,
+      },
+    ],
+  },
+  { _id: false },
+);
+
+const ReceiptSchema = new Schema<OrderReceipt>(
+  {
+    number: { type: String, required: true },
+    sequence: { type: Number, required: true, min: 1 },
+    issuedAt: { type: Date, required: true },
+    reprintCount: { type: Number, default: 0, min: 0 },
+    lastReprintedAt: Date,
+  },
+  { _id: false },
+);
+
+const StaticQrSchema = new Schema<OrderStaticQr>(
+  {
+    requestedPaise: { type: Number, required: true, min: 100, validate: isPaise },
+    offsetPaise: { type: Number, required: true, min: 0, max: 99 },
+  },
+  { _id: false },
+);
+
+const UpiAppChoiceSchema = new Schema<OrderUpiApp>(
+  {
+    appId: { type: String, required: true },
+    platform: { type: String, enum: UPI_PLATFORMS, required: true },
+    chosenAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
 const OrderSchema = new Schema<OrderDocument>(
   {
     orderId: {
@@ -41,6 +283,12 @@ const OrderSchema = new Schema<OrderDocument>(
       required: true,
       min: 1,
     },
+    amountPaise: {
+      type: Number,
+      required: true,
+      min: 100,
+      validate: { validator: isPaise, message: 'Amount must be a whole number of paise' },
+    },
     description: {
       type: String,
       required: true,
@@ -60,7 +308,7 @@ const OrderSchema = new Schema<OrderDocument>(
     customerPhone: {
       type: String,
       validate: {
-        validator: (v: string) => !v || /^[+]?[\d\s-()]{10,15}$/.test(v),
+        validator: (v: string) => !v || PHONE_PATTERN.test(v),
         message: 'Invalid phone format',
       },
     },
@@ -72,9 +320,22 @@ const OrderSchema = new Schema<OrderDocument>(
         message: 'Invalid UPI ID format - must be in format user@provider',
       },
     },
+    // Name shown in the customer's UPI app; older orders fall back to MERCHANT_NAME
+    payeeName: {
+      type: String,
+      maxlength: 100,
+    },
     status: {
       type: String,
-      enum: ['pending', 'pending-verification', 'completed', 'expired', 'failed'],
+      enum: [
+        'pending',
+        'pending-verification',
+        'completed',
+        'expired',
+        'failed',
+        'refunded',
+        'partially-refunded',
+      ],
       default: 'pending',
       index: true,
     },
@@ -106,6 +367,26 @@ const OrderSchema = new Schema<OrderDocument>(
       type: String,
       index: true,
     },
+    renewedOrderId: String,
+    refunds: [RefundSchema],
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    refundedPaise: {
+      type: Number,
+      default: 0,
+      min: 0,
+      validate: { validator: isPaise, message: 'Refunded amount must be a whole number of paise' },
+    },
+    statusHistory: [StatusChangeSchema],
+    risk: RiskAssessmentSchema,
+    paymentProof: PaymentProofSchema,
+    receipt: ReceiptSchema,
+    receiptClaimedAt: Date,
+    staticQr: StaticQrSchema,
+    upiApp: UpiAppChoiceSchema,
   },
   {
     timestamps: true,
@@ -118,6 +399,17 @@ const OrderSchema = new Schema<OrderDocument>(
 OrderSchema.index({ createdBy: 1, createdAt: -1 });
 OrderSchema.index({ status: 1, expiresAt: 1 });
 OrderSchema.index({ utrNumber: 1 }, { sparse: true });
+OrderSchema.index({ 'refunds.refundUtr': 1 }, { sparse: true });
+// Open static QR orders a credit could belong to
+OrderSchema.index(
+  { createdBy: 1, amountPaise: 1, createdAt: -1 },
+  { partialFilterExpression: { staticQr: { $exists: true } } },
+);
+// A merchant's receipt numbers are never reused
+OrderSchema.index(
+  { createdBy: 1, 'receipt.sequence': 1 },
+  { unique: true, partialFilterExpression: { 'receipt.sequence': { $exists: true } } },
+);
 
 // Instance methods
 OrderSchema.methods.isExpired = function (this: OrderDocument): boolean {
@@ -147,10 +439,49 @@ OrderSchema.statics.findExpiredOrders = function (): Promise<OrderDocument[]> {
   });
 };
 
+// Status changes must go through transitionOrder() in lib/orders/state-machine so that
+// guards, history and side effects apply. It marks its writes with the statusTransition option.
+function updatesStatus(update: unknown): boolean {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) return false;
+  const { $set, $unset, $rename, ...fields } = update as Record<string, Record<string, unknown>>;
+  return [fields, $set, $unset, $rename].some((part) => Boolean(part && 'status' in part));
+}
+
+/**
+ * Code that sets a rupee amount gets the paise filled in, and the rupee value
+ * rounded to match; code that sets paise gets the rupees. Query updates skip this
+ * hook, so they must set both fields.
+ */
+function syncPaise(order: OrderDocument, rupeePath: 'amount' | 'refundedAmount') {
+  const paisePath = rupeePath === 'amount' ? 'amountPaise' : 'refundedPaise';
+  if (order.isModified(paisePath) && !order.isModified(rupeePath)) {
+    order.set(rupeePath, fromPaise(order.get(paisePath)));
+  } else if (typeof order.get(rupeePath) === 'number') {
+    order.set(paisePath, toPaise(order.get(rupeePath)));
+    order.set(rupeePath, fromPaise(order.get(paisePath)));
+  }
+}
+
+OrderSchema.pre('validate', function (this: OrderDocument, next) {
+  try {
+    syncPaise(this, 'amount');
+    syncPaise(this, 'refundedAmount');
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
 OrderSchema.pre('save', function (this: OrderDocument, next) {
-  // Auto-expire orders that are past expiration
-  if (this.status === 'pending' && new Date() > this.expiresAt) {
-    this.status = 'expired';
+  if (!this.isNew && this.isModified('status')) {
+    return next(new Error('Order status can only be changed through the order state machine'));
+  }
+  next();
+});
+
+OrderSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], function (next) {
+  if (updatesStatus(this.getUpdate()) && !this.getOptions().statusTransition) {
+    return next(new Error('Order status can only be changed through the order state machine'));
   }
   next();
 });
@@ -178,9 +509,10 @@ OrderSchema.statics.getOrderStats = function (userId?: string): Promise<Array<{
       $group: {
         _id: '$status',
         count: { $sum: 1 },
-        totalAmount: { $sum: '$amount' },
+        totalPaise: { $sum: '$amountPaise' },
       },
     },
+    { $project: { count: 1, totalAmount: { $divide: ['$totalPaise', 100] } } },
   ]);
 };
 
@@ -189,17 +521,6 @@ OrderSchema.statics.getRecentOrders = function (userId?: string, limit = 10): Pr
   return this.find(match).sort({ createdAt: -1 }).limit(limit).populate('createdBy', 'email name');
 };
 
-OrderSchema.statics.markExpiredOrders = async function (): Promise<number> {
-  const result = await this.updateMany(
-    {
-      status: 'pending',
-      expiresAt: { $lt: new Date() },
-    },
-    { status: 'expired' },
-  );
-  return result.modifiedCount;
-};
-
 // Apply security plugin to prevent injection attacks
 // OrderSchema.plugin(mongooseSecurityPlugin); // TEMPORARILY DISABLED
 
@@ -1,4 +1,5 @@
 import mongoose, { Schema, type Document, type Model } from 'mongoose';
+import { addPaise, fromPaise, toPaise } from '@/lib/utils/money';
 
 export interface PaymentLinkDocument extends Document {
   linkId: string;
@@ -9,9 +10,12 @@ export interface PaymentLinkDocument extends Document {
   minAmount?: number;
   maxAmount?: number;
   upiId: string;
+  payeeName?: string;
   createdBy: string;
   isActive: boolean;
   expiresAt?: Date;
+  // Set once the owner has been emailed that the link is about to expire
+  expiryNotifiedAt?: Date;
   usageLimit?: number;
   usageCount: number;
   customFields: Array<{
@@ -29,6 +33,9 @@ export interface PaymentLinkDocument extends Document {
   stats: {
     totalOrders: number;
     successfulOrders: number;
+    expiredOrders: number;
+    // Paid amount in integer paise; totalAmount is the same in rupees
+    totalAmountPaise: number;
     totalAmount: number;
     lastUsedAt?: Date;
   };
@@ -86,6 +93,10 @@ const PaymentLinkSchema = new Schema<PaymentLinkDocument>(
         message: "Invalid UPI ID format",
       },
     },
+    payeeName: {
+      type: String,
+      maxlength: 100,
+    },
     createdBy: {
       type: String,
       required: true,
@@ -100,6 +111,7 @@ const PaymentLinkSchema = new Schema<PaymentLinkDocument>(
       type: Date,
       index: true,
     },
+    expiryNotifiedAt: Date,
     usageLimit: {
       type: Number,
       min: 1,
@@ -129,7 +141,8 @@ const PaymentLinkSchema = new Schema<PaymentLinkDocument>(
     stats: {
       totalOrders: { type: Number, default: 0 },
       successfulOrders: { type: Number, default: 0 },
-      totalAmount: { type: Number, default: 0 },
+      expiredOrders: { type: Number, default: 0 },
+      totalAmountPaise: { type: Number, default: 0 },
       lastUsedAt: Date,
     },
   },
@@ -149,6 +162,10 @@ PaymentLinkSchema.virtual("publicUrl").get(function () {
   return `/link/${this.linkId}`
 })
 
+PaymentLinkSchema.virtual("stats.totalAmount").get(function () {
+  return fromPaise(this.stats?.totalAmountPaise ?? 0)
+})
+
 // Instance methods
 PaymentLinkSchema.methods.isExpired = function (): boolean {
   return this.expiresAt ? new Date() > this.expiresAt : false
@@ -163,7 +180,7 @@ PaymentLinkSchema.methods.canBeUsed = function (): boolean {
 PaymentLinkSchema.methods.incrementUsage = function (amount: number, isSuccessful: boolean): Promise<PaymentLinkDocument> {
   this.usageCount += 1;
   this.stats.totalOrders += 1;
-  this.stats.totalAmount += amount;
+  this.stats.totalAmountPaise = addPaise(this.stats.totalAmountPaise, toPaise(amount));
   if (isSuccessful) {
     this.stats.successfulOrders += 1;
   }
@@ -0,0 +1,51 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+
+export interface ReceiptSequenceDocument extends Document {
+  // The merchant (order creator) the sequence belongs to
+  merchantId: string;
+  lastNumber: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReceiptSequenceModelType extends Model<ReceiptSequenceDocument> {
+  nextNumber(merchantId: string): Promise<number>;
+}
+
+const ReceiptSequenceSchema = new Schema<ReceiptSequenceDocument>(
+  {
+    merchantId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    lastNumber: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * Take the merchant's next receipt number. Numbers start at 1 and are handed out
+ * atomically, so concurrent receipts never share one.
+ */
+ReceiptSequenceSchema.statics.nextNumber = async function (merchantId: string): Promise<number> {
+  const sequence = await this.findOneAndUpdate(
+    { merchantId },
+    { $inc: { lastNumber: 1 } },
+    { upsert: true, new: true },
+  );
+  return sequence.lastNumber;
+};
+
+export const ReceiptSequenceModel = (mongoose.models.ReceiptSequence ||
+  mongoose.model<ReceiptSequenceDocument>(
+    'ReceiptSequence',
+    ReceiptSequenceSchema,
+  )) as ReceiptSequenceModelType;
@@ -0,0 +1,160 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+import { STATEMENT_FORMATS, type StatementFormat } from '@/lib/reconciliation/statement-parser';
+import type {
+  AmountMismatchEntry,
+  MatchedEntry,
+  MissingEntry,
+  UnknownUtrEntry,
+} from '@/lib/reconciliation/matcher';
+
+export interface ReconciliationMatch extends MatchedEntry {
+  approvedAt?: Date;
+  approvedBy?: string;
+  approvalError?: string;
+}
+
+export interface ReconciliationDocument extends Document {
+  reconciliationId: string;
+  fileName: string;
+  format: StatementFormat;
+  periodStart?: Date;
+  periodEnd?: Date;
+  entryCount: number;
+  creditCount: number;
+  debitCount: number;
+  skippedRows: number;
+  matched: ReconciliationMatch[];
+  amountMismatch: AmountMismatchEntry[];
+  unknownUtr: UnknownUtrEntry[];
+  missing: MissingEntry[];
+  approvedCount: number;
+  uploadedBy: string;
+  uploadedByEmail: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReconciliationModelType extends Model<ReconciliationDocument> {
+  findByReconciliationId(reconciliationId: string): Promise<ReconciliationDocument | null>;
+}
+
+const StatementLineFields = {
+  entryDate: Date,
+  narration: {
+    type: String,
+    maxlength: 500,
+  },
+  line: Number,
+};
+
+const MatchSchema = new Schema<ReconciliationMatch>(
+  {
+    orderId: { type: String, required: true },
+    utr: { type: String, required: true },
+    amount: { type: Number, required: true },
+    customerName: String,
+    ...StatementLineFields,
+    approvedAt: Date,
+    approvedBy: String,
+    approvalError: String,
+  },
+  { _id: false },
+);
+
+const AmountMismatchSchema = new Schema<AmountMismatchEntry>(
+  {
+    orderId: { type: String, required: true },
+    utr: { type: String, required: true },
+    orderAmount: { type: Number, required: true },
+    statementAmount: { type: Number, required: true },
+    difference: { type: Number, required: true },
+    customerName: String,
+    ...StatementLineFields,
+  },
+  { _id: false },
+);
+
+const UnknownUtrSchema = new Schema<UnknownUtrEntry>(
+  {
+    utr: String,
+    amount: { type: Number, required: true },
+    reason: {
+      type: String,
+      enum: ['utr_not_found', 'no_utr', 'duplicate_utr'],
+      required: true,
+    },
+    ...StatementLineFields,
+  },
+  { _id: false },
+);
+
+const MissingSchema = new Schema<MissingEntry>(
+  {
+    orderId: { type: String, required: true },
+    utr: { type: String, required: true },
+    amount: { type: Number, required: true },
+    customerName: String,
+    createdAt: Date,
+  },
+  { _id: false },
+);
+
+const ReconciliationSchema = new Schema<ReconciliationDocument>(
+  {
+    reconciliationId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    format: {
+      type: String,
+      enum: [...STATEMENT_FORMATS],
+      required: true,
+    },
+    periodStart: Date,
+    periodEnd: Date,
+    entryCount: { type: Number, default: 0 },
+    creditCount: { type: Number, default: 0 },
+    debitCount: { type: Number, default: 0 },
+    skippedRows: { type: Number, default: 0 },
+    matched: [MatchSchema],
+    amountMismatch: [AmountMismatchSchema],
+    unknownUtr: [UnknownUtrSchema],
+    missing: [MissingSchema],
+    approvedCount: { type: Number, default: 0 },
+    uploadedBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    uploadedByEmail: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  },
+);
+
+ReconciliationSchema.index({ createdAt: -1 });
+
+ReconciliationSchema.statics.findByReconciliationId = function (
+  reconciliationId: string,
+): Promise<ReconciliationDocument | null> {
+  return this.findOne({ reconciliationId });
+};
+
+export const ReconciliationModel = (mongoose.models.Reconciliation ||
+  mongoose.model<ReconciliationDocument>(
+    'Reconciliation',
+    ReconciliationSchema,
+  )) as ReconciliationModelType;
@@ -0,0 +1,105 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+
+export const RISK_BLOCKLIST_TYPES = ['ip', 'device', 'email', 'phone', 'utr'] as const;
+
+export type RiskBlocklistType = (typeof RISK_BLOCKLIST_TYPES)[number];
+
+export interface RiskBlocklistEntryDocument extends Document {
+  type: RiskBlocklistType;
+  // Stored normalized, see normalizeBlocklistValue()
+  value: string;
+  reason: string;
+  createdBy: string;
+  createdByEmail?: string;
+  // Entries without an expiry stay until removed
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RiskBlocklistModelType extends Model<RiskBlocklistEntryDocument> {
+  findMatches(
+    candidates: Partial<Record<RiskBlocklistType, string | undefined>>,
+  ): Promise<RiskBlocklistEntryDocument[]>;
+}
+
+/**
+ * Emails and UTRs compare case-insensitively and phone numbers by their last ten digits
+ */
+export function normalizeBlocklistValue(type: RiskBlocklistType, value: string): string {
+  const trimmed = value.trim();
+  switch (type) {
+    case 'email':
+      return trimmed.toLowerCase();
+    case 'utr':
+      return trimmed.toUpperCase();
+    case 'phone':
+      return trimmed.replace(/\D/g, '').slice(-10);
+    default:
+      return trimmed;
+  }
+}
+
+const RiskBlocklistSchema = new Schema<RiskBlocklistEntryDocument>(
+  {
+    type: {
+      type: String,
+      enum: [...RISK_BLOCKLIST_TYPES],
+      required: true,
+    },
+    value: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    reason: {
+      type: String,
+      required: true,
+      maxlength: 500,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    createdByEmail: String,
+    expiresAt: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+RiskBlocklistSchema.index({ type: 1, value: 1 }, { unique: true });
+// Expired entries are removed by MongoDB's TTL monitor
+RiskBlocklistSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+RiskBlocklistSchema.pre('validate', function (this: RiskBlocklistEntryDocument, next) {
+  if (this.type && this.value) {
+    this.value = normalizeBlocklistValue(this.type, this.value);
+  }
+  next();
+});
+
+RiskBlocklistSchema.statics.findMatches = function (
+  candidates: Partial<Record<RiskBlocklistType, string | undefined>>,
+): Promise<RiskBlocklistEntryDocument[]> {
+  const conditions = Object.entries(candidates)
+    .filter((entry): entry is [RiskBlocklistType, string] => Boolean(entry[1]))
+    .map(([type, value]) => ({ type, value: normalizeBlocklistValue(type, value) }))
+    .filter((condition) => condition.value);
+
+  if (conditions.length === 0) {
+    return Promise.resolve([]);
+  }
+
+  return this.find({
+    $or: conditions,
+    $and: [{ $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] }],
+  });
+};
+
+export const RiskBlocklistModel = (mongoose.models.RiskBlocklist ||
+  mongoose.model<RiskBlocklistEntryDocument>(
+    'RiskBlocklist',
+    RiskBlocklistSchema,
+  )) as RiskBlocklistModelType;
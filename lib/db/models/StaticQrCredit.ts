@@ -0,0 +1,135 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+import { isPaise } from '@/lib/utils/money';
+import { VPA_PATTERN } from '@/lib/db/models/MerchantVpa';
+
+// A UTR the customer showed at the counter, or a credit alert from the merchant's bank
+export const STATIC_CREDIT_SOURCES = ['utr', 'credit_alert'] as const;
+
+export type StaticCreditSource = (typeof STATIC_CREDIT_SOURCES)[number];
+
+export const STATIC_CREDIT_STATUSES = ['matched', 'needs_review', 'resolved', 'dismissed'] as const;
+
+export type StaticCreditStatus = (typeof STATIC_CREDIT_STATUSES)[number];
+
+// Why a credit is waiting in the review queue
+export const STATIC_CREDIT_REVIEW_REASONS = ['ambiguous', 'no_match', 'match_failed'] as const;
+
+export type StaticCreditReviewReason = (typeof STATIC_CREDIT_REVIEW_REASONS)[number];
+
+export interface StaticQrCreditDocument extends Document {
+  creditId: string;
+  // The merchant whose static QR was paid
+  ownerId: string;
+  source: StaticCreditSource;
+  // Stored uppercase; each UTR is recorded once
+  utr: string;
+  amountPaise: number;
+  paidAt: Date;
+  payeeVpa?: string;
+  payerName?: string;
+  note?: string;
+  status: StaticCreditStatus;
+  reviewReason?: StaticCreditReviewReason;
+  reviewDetail?: string;
+  // Orders that fit the credit when it was ambiguous
+  candidateOrderIds: string[];
+  // The order the credit was applied to, automatically or by a reviewer
+  orderId?: string;
+  submittedBy: string;
+  submittedByEmail?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StaticQrCreditSchema = new Schema<StaticQrCreditDocument>(
+  {
+    creditId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    ownerId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    source: {
+      type: String,
+      enum: [...STATIC_CREDIT_SOURCES],
+      required: true,
+    },
+    utr: {
+      type: String,
+      required: true,
+      uppercase: true,
+      validate: {
+        validator: (v: string) => /^[A-Z0-9]{12,22}$/i.test(v),
+        message: 'Invalid UTR format - must be 12-22 alphanumeric characters',
+      },
+    },
+    amountPaise: {
+      type: Number,
+      required: true,
+      min: 1,
+      validate: { validator: isPaise, message: 'Amount must be a whole number of paise' },
+    },
+    paidAt: {
+      type: Date,
+      required: true,
+    },
+    payeeVpa: {
+      type: String,
+      lowercase: true,
+      validate: {
+        validator: (v: string) => !v || VPA_PATTERN.test(v),
+        message: 'Invalid UPI ID format - must be in format user@provider',
+      },
+    },
+    payerName: {
+      type: String,
+      maxlength: 100,
+    },
+    note: {
+      type: String,
+      maxlength: 500,
+    },
+    status: {
+      type: String,
+      enum: [...STATIC_CREDIT_STATUSES],
+      default: 'needs_review',
+      index: true,
+    },
+    reviewReason: {
+      type: String,
+      enum: [...STATIC_CREDIT_REVIEW_REASONS],
+    },
+    reviewDetail: {
+      type: String,
+      maxlength: 500,
+    },
+    candidateOrderIds: [String],
+    orderId: String,
+    submittedBy: {
+      type: String,
+      required: true,
+    },
+    submittedByEmail: String,
+    resolvedBy: String,
+    resolvedAt: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+StaticQrCreditSchema.index({ utr: 1 }, { unique: true });
+StaticQrCreditSchema.index({ ownerId: 1, status: 1, createdAt: -1 });
+
+export const StaticQrCreditModel = (mongoose.models.StaticQrCredit ||
+  mongoose.model<StaticQrCreditDocument>(
+    'StaticQrCredit',
+    StaticQrCreditSchema,
+  )) as Model<StaticQrCreditDocument>;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, type Document, type Model } from 'mongoose';
 import { mongooseSecurityPlugin } from '@/lib/db/security';
+import { addPaise, fromPaise, toPaise } from '@/lib/utils/money';
 
 export interface UserDocument extends Document {
   email: string;
@@ -18,12 +19,23 @@ export interface UserDocument extends Document {
       systemAlerts: boolean;
     };
     defaultUpiId?: string;
+    // How new orders are spread across the merchant's UPI IDs, see lib/vpas/pool.ts
+    vpaRouting: 'default' | 'round-robin' | 'least-used';
+    // One printed QR for every sale, see lib/static-qr/service.ts
+    staticQr: {
+      enabled: boolean;
+      uniquePaiseOffsets: boolean;
+      matchWindowMinutes: number;
+    };
     defaultExpiryMinutes: number;
   };
   stats: {
     totalOrders: number;
+    // Paid amount in integer paise; totalAmount is the same in rupees
+    totalAmountPaise: number;
     totalAmount: number;
     successfulOrders: number;
+    expiredOrders: number;
     lastOrderAt?: Date;
   };
   // Instance methods
@@ -95,6 +107,16 @@ const UserSchema = new Schema<UserDocument>(
         systemAlerts: { type: Boolean, default: true },
       },
       defaultUpiId: String,
+      vpaRouting: {
+        type: String,
+        enum: ['default', 'round-robin', 'least-used'],
+        default: 'default',
+      },
+      staticQr: {
+        enabled: { type: Boolean, default: false },
+        uniquePaiseOffsets: { type: Boolean, default: true },
+        matchWindowMinutes: { type: Number, default: 30, min: 5, max: 1440 },
+      },
       defaultExpiryMinutes: {
         type: Number,
         default: 9,
@@ -104,8 +126,9 @@ const UserSchema = new Schema<UserDocument>(
     },
     stats: {
       totalOrders: { type: Number, default: 0 },
-      totalAmount: { type: Number, default: 0 },
+      totalAmountPaise: { type: Number, default: 0 },
       successfulOrders: { type: Number, default: 0 },
+      expiredOrders: { type: Number, default: 0 },
       lastOrderAt: Date,
     },
   },
@@ -121,10 +144,14 @@ UserSchema.index({ role: 1, isActive: 1 });
 UserSchema.index({ 'stats.totalOrders': -1 });
 UserSchema.index({ lastLoginAt: -1 });
 
+UserSchema.virtual('stats.totalAmount').get(function () {
+  return fromPaise(this.stats?.totalAmountPaise ?? 0);
+});
+
 // Instance methods with proper return types
 UserSchema.methods.updateStats = async function (orderAmount: number, isSuccessful: boolean): Promise<UserDocument> {
   this.stats.totalOrders += 1;
-  this.stats.totalAmount += orderAmount;
+  this.stats.totalAmountPaise = addPaise(this.stats.totalAmountPaise, toPaise(orderAmount));
   if (isSuccessful) {
     this.stats.successfulOrders += 1;
   }
@@ -166,7 +193,14 @@ UserSchema.statics.getUserStats = function (): Promise<Array<{
         _id: '$role',
         count: { $sum: 1 },
         totalOrders: { $sum: '$stats.totalOrders' },
-        totalAmount: { $sum: '$stats.totalAmount' },
+        totalAmountPaise: { $sum: '$stats.totalAmountPaise' },
+      },
+    },
+    {
+      $project: {
+        count: 1,
+        totalOrders: 1,
+        totalAmount: { $divide: ['$totalAmountPaise', 100] },
       },
     },
   ]);
@@ -199,8 +233,9 @@ UserSchema.statics.createUser = async function (userData: {
     },
     stats: {
       totalOrders: 0,
-      totalAmount: 0,
+      totalAmountPaise: 0,
       successfulOrders: 0,
+      expiredOrders: 0,
     },
   });
 
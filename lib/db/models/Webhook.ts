@@ -1,8 +1,20 @@
 import mongoose, { Schema, type Document, type Model } from 'mongoose';
 
+export const WEBHOOK_EVENTS = [
+  'order.created',
+  'order.utr_submitted',
+  'order.completed',
+  'order.failed',
+  'order.expired',
+  'order.refunded',
+  'payment_link.used',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
 export interface WebhookDocument extends Document {
   url: string;
-  events: string[];
+  events: WebhookEvent[];
   isActive: boolean;
   secret: string;
   createdBy: string;
@@ -19,7 +31,7 @@ export interface WebhookDocument extends Document {
 }
 
 export interface WebhookModelType extends Model<WebhookDocument> {
-  // Add static methods here if needed in the future
+  findSubscribers(ownerId: string, event: WebhookEvent): Promise<WebhookDocument[]>;
 }
 
 const WebhookSchema = new Schema<WebhookDocument>(
@@ -35,14 +47,7 @@ const WebhookSchema = new Schema<WebhookDocument>(
     events: [
       {
         type: String,
-        enum: [
-          'order.created',
-          'order.utr_submitted',
-          'order.completed',
-          'order.failed',
-          'order.expired',
-          'payment_link.used',
-        ],
+        enum: [...WEBHOOK_EVENTS],
       },
     ],
     isActive: {
@@ -88,4 +93,12 @@ WebhookSchema.methods.recordAttempt = function (success: boolean): Promise<Webho
   return this.save();
 };
 
+// Static methods with proper return types
+WebhookSchema.statics.findSubscribers = function (
+  ownerId: string,
+  event: WebhookEvent,
+): Promise<WebhookDocument[]> {
+  return this.find({ createdBy: ownerId, isActive: true, events: event });
+};
+
 export const WebhookModel = (mongoose.models.Webhook || mongoose.model<WebhookDocument>('Webhook', WebhookSchema)) as WebhookModelType;
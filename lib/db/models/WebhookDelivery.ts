@@ -0,0 +1,139 @@
+import mongoose, { Schema, type Document, type Model } from 'mongoose';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@/lib/db/models/Webhook';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptNumber: number;
+  attemptedAt: Date;
+  responseStatus?: number;
+  latencyMs: number;
+  responseBody?: string;
+  error?: string;
+}
+
+export interface WebhookDeliveryDocument extends Document {
+  deliveryId: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  maxAttempts: number;
+  nextAttemptAt?: Date;
+  lastResponseStatus?: number;
+  attempts: WebhookDeliveryAttempt[];
+  isTest: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryModelType extends Model<WebhookDeliveryDocument> {
+  findDueDeliveries(limit?: number): Promise<WebhookDeliveryDocument[]>;
+  findByWebhook(webhookId: string, limit?: number): Promise<WebhookDeliveryDocument[]>;
+}
+
+const WebhookDeliveryAttemptSchema = new Schema<WebhookDeliveryAttempt>(
+  {
+    attemptNumber: { type: Number, required: true },
+    attemptedAt: { type: Date, required: true },
+    responseStatus: Number,
+    latencyMs: { type: Number, required: true },
+    responseBody: {
+      type: String,
+      maxlength: 1000,
+    },
+    error: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  { _id: false },
+);
+
+const WebhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    deliveryId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    webhookId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    event: {
+      type: String,
+      required: true,
+      enum: [...WEBHOOK_EVENTS],
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+      index: true,
+    },
+    attemptCount: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    nextAttemptAt: Date,
+    lastResponseStatus: Number,
+    attempts: [WebhookDeliveryAttemptSchema],
+    isTest: {
+      type: Boolean,
+      default: false,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  },
+);
+
+// Indexes for performance
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+
+// Static methods with proper return types
+WebhookDeliverySchema.statics.findDueDeliveries = function (
+  limit = 50,
+): Promise<WebhookDeliveryDocument[]> {
+  return this.find({
+    status: 'pending',
+    nextAttemptAt: { $lte: new Date() },
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit);
+};
+
+WebhookDeliverySchema.statics.findByWebhook = function (
+  webhookId: string,
+  limit = 50,
+): Promise<WebhookDeliveryDocument[]> {
+  return this.find({ webhookId }).sort({ createdAt: -1 }).limit(limit);
+};
+
+export const WebhookDeliveryModel = (mongoose.models.WebhookDelivery ||
+  mongoose.model<WebhookDeliveryDocument>(
+    'WebhookDelivery',
+    WebhookDeliverySchema,
+  )) as WebhookDeliveryModelType;
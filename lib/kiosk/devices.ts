@@ -0,0 +1,136 @@
+import { createHash, randomBytes } from 'crypto';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { KioskDeviceModel, type KioskDeviceDocument } from '@/lib/db/models/KioskDevice';
+import { UserModel } from '@/lib/db/models/User';
+import type { UserRole } from '@/lib/types';
+
+export const MAX_KIOSK_DEVICES_PER_MERCHANT = 20;
+
+// Tells device tokens apart from other bearer tokens, e.g. in middleware
+export const KIOSK_TOKEN_PREFIX = 'kiosk_';
+
+// Writing lastUsedAt on every order would be a write per sale; this is close enough
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export class KioskDeviceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'KioskDeviceError';
+  }
+}
+
+export const CreateKioskDeviceSchema = z.object({
+  name: z.string().trim().min(1, 'Device name is required').max(60),
+});
+
+// The merchant a kiosk acts for, in the shape routes read from getSafeUser()
+export interface KioskUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface AuthenticatedKiosk {
+  device: KioskDeviceDocument;
+  user: KioskUser;
+}
+
+export function generateDeviceToken(): string {
+  return `${KIOSK_TOKEN_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+export function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The device token from an `Authorization: Bearer kiosk_...` header, if there is one
+ */
+export function readDeviceToken(authorization: string | null): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization?.trim() ?? '');
+  return match?.[1].startsWith(KIOSK_TOKEN_PREFIX) ? match[1] : undefined;
+}
+
+function generateDeviceId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `kd_${timestamp}_${random}`;
+}
+
+/**
+ * Register a counter kiosk for a merchant. The token is returned once and only its hash
+ * is kept, so a lost token means revoking the device and adding it again.
+ */
+export async function createKioskDevice(
+  ownerId: string,
+  name: string,
+  createdBy: string,
+): Promise<{ device: KioskDeviceDocument; token: string }> {
+  const active = await KioskDeviceModel.countDocuments({ ownerId, revokedAt: null });
+  if (active >= MAX_KIOSK_DEVICES_PER_MERCHANT) {
+    throw new KioskDeviceError(
+      `You can have up to ${MAX_KIOSK_DEVICES_PER_MERCHANT} kiosk devices`,
+      'DEVICE_LIMIT_REACHED',
+    );
+  }
+
+  const token = generateDeviceToken();
+  const device = await KioskDeviceModel.create({
+    deviceId: generateDeviceId(),
+    ownerId,
+    name,
+    tokenHash: hashDeviceToken(token),
+    tokenPrefix: token.slice(0, KIOSK_TOKEN_PREFIX.length + 6),
+    createdBy,
+  });
+
+  return { device, token };
+}
+
+/**
+ * The kiosk and merchant behind the request's device token. Null when there is no
+ * token, it is unknown or revoked, or the merchant can no longer create orders.
+ */
+export async function authenticateKioskDevice(
+  request: Request,
+): Promise<AuthenticatedKiosk | null> {
+  const token = readDeviceToken(request.headers.get('authorization'));
+  if (!token) {
+    return null;
+  }
+
+  const device = await KioskDeviceModel.findOne({
+    tokenHash: hashDeviceToken(token),
+    revokedAt: null,
+  });
+  if (!device || !mongoose.isValidObjectId(device.ownerId)) {
+    return null;
+  }
+
+  const owner = await UserModel.findById(device.ownerId).select('email role isActive').lean();
+  if (!owner || owner.isActive === false || !['admin', 'merchant'].includes(owner.role)) {
+    return null;
+  }
+
+  if (!device.lastUsedAt || Date.now() - device.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    device.lastUsedAt = new Date();
+    await device.save();
+  }
+
+  return { device, user: { id: device.ownerId, email: owner.email, role: owner.role } };
+}
+
+export function serializeKioskDevice(device: KioskDeviceDocument) {
+  return {
+    deviceId: device.deviceId,
+    name: device.name,
+    tokenPrefix: device.tokenPrefix,
+    lastUsedAt: device.lastUsedAt,
+    revokedAt: device.revokedAt,
+    createdAt: device.createdAt,
+  };
+}
@@ -0,0 +1,101 @@
+import type { MessagingProvider, OutboundMessage } from '@/lib/messaging/types';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const ERROR_EXCERPT_LENGTH = 200;
+
+export interface HttpTemplateOptions {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  // Request body with {{placeholders}}, e.g. {"to":"{{to}}","text":"{{body}}"}
+  bodyTemplate: string;
+  // Dot path to the message ID in a JSON response, e.g. "messages.0.id"
+  messageIdPath?: string;
+}
+
+type Encoder = (value: string) => string;
+
+const encoders: Record<'json' | 'form' | 'raw', Encoder> = {
+  json: (value) => JSON.stringify(value).slice(1, -1),
+  form: (value) => encodeURIComponent(value),
+  raw: (value) => value,
+};
+
+function fill(template: string, values: Record<string, string>, encode: Encoder): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => encode(values[name] ?? ''));
+}
+
+function readPath(data: unknown, path: string): string | undefined {
+  let current = data;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current === undefined || current === null ? undefined : String(current);
+}
+
+/**
+ * Sends through any provider with an HTTP API (MSG91, Gupshup, Twilio, WhatsApp
+ * Cloud API, ...) by filling a configured request template. Values are escaped to
+ * suit the Content-Type header: JSON, form-encoded or left as they are.
+ */
+export class HttpTemplateProvider implements MessagingProvider {
+  readonly name = 'http';
+
+  constructor(private readonly options: HttpTemplateOptions) {}
+
+  async send(message: OutboundMessage): Promise<string | undefined> {
+    const headers = { 'Content-Type': 'application/json', ...this.options.headers };
+    const contentType =
+      Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] ?? '';
+    const encoder = contentType.includes('json')
+      ? encoders.json
+      : contentType.includes('x-www-form-urlencoded')
+        ? encoders.form
+        : encoders.raw;
+
+    const values = {
+      ...message.variables,
+      channel: message.channel,
+      to: message.to,
+      // Some providers want the number without the leading +
+      toDigits: message.to.replace(/^\+/, ''),
+      body: message.body,
+      template: message.template,
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(fill(this.options.url, values, encoders.form), {
+        method: this.options.method || 'POST',
+        headers,
+        body: fill(this.options.bodyTemplate, values, encoder),
+        signal: controller.signal,
+      });
+      const text = await response.text().catch(() => '');
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${text.slice(0, ERROR_EXCERPT_LENGTH)}`);
+      }
+
+      if (!this.options.messageIdPath) {
+        return undefined;
+      }
+      try {
+        return readPath(JSON.parse(text), this.options.messageIdPath);
+      } catch {
+        return undefined;
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Request timed out after ${REQUEST_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
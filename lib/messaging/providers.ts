@@ -0,0 +1,55 @@
+import { HttpTemplateProvider } from '@/lib/messaging/http';
+import { StubMessagingProvider } from '@/lib/messaging/stub';
+import type { MessagingProvider } from '@/lib/messaging/types';
+
+const DEFAULT_BODY_TEMPLATE = '{"channel":"{{channel}}","to":"{{to}}","message":"{{body}}"}';
+
+const providerFactories = new Map<string, () => MessagingProvider>([
+  [
+    'http',
+    () => {
+      if (!process.env.MESSAGING_HTTP_URL) {
+        throw new Error('MESSAGING_HTTP_URL is required for the http messaging provider');
+      }
+      return new HttpTemplateProvider({
+        url: process.env.MESSAGING_HTTP_URL,
+        method: process.env.MESSAGING_HTTP_METHOD,
+        headers: process.env.MESSAGING_HTTP_HEADERS
+          ? JSON.parse(process.env.MESSAGING_HTTP_HEADERS)
+          : undefined,
+        bodyTemplate: process.env.MESSAGING_HTTP_BODY || DEFAULT_BODY_TEMPLATE,
+        messageIdPath: process.env.MESSAGING_HTTP_MESSAGE_ID_PATH,
+      });
+    },
+  ],
+  ['stub', () => new StubMessagingProvider()],
+]);
+
+let provider: MessagingProvider | null = null;
+
+/**
+ * Make another messaging provider selectable with MESSAGING_PROVIDER
+ */
+export function registerMessagingProvider(name: string, factory: () => MessagingProvider): void {
+  providerFactories.set(name, factory);
+  if (provider?.name === name) {
+    provider = null;
+  }
+}
+
+/**
+ * The provider named by MESSAGING_PROVIDER. Defaults to the HTTP provider when
+ * MESSAGING_HTTP_URL is set, otherwise messages are only logged.
+ */
+export function getMessagingProvider(): MessagingProvider {
+  const driver =
+    process.env.MESSAGING_PROVIDER || (process.env.MESSAGING_HTTP_URL ? 'http' : 'stub');
+  if (provider?.name !== driver) {
+    const factory = providerFactories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown messaging provider: ${driver}`);
+    }
+    provider = factory();
+  }
+  return provider;
+}
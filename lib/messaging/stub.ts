@@ -0,0 +1,16 @@
+import { randomUUID } from 'crypto';
+import type { MessagingProvider, OutboundMessage } from '@/lib/messaging/types';
+
+/**
+ * Logs messages instead of sending them, for development and tests without a
+ * provider account
+ */
+export class StubMessagingProvider implements MessagingProvider {
+  readonly name = 'stub';
+
+  async send(message: OutboundMessage): Promise<string | undefined> {
+    const messageId = randomUUID();
+    console.warn(`[Messaging] ${messageId} ${message.channel} to ${message.to}: ${message.body}`);
+    return messageId;
+  }
+}
@@ -0,0 +1,35 @@
+// Placeholders available in message templates, written as {{name}}
+export const MESSAGE_VARIABLES = [
+  'customerName',
+  'merchantName',
+  'amount',
+  'description',
+  'orderId',
+  'paymentUrl',
+  'receiptUrl',
+] as const;
+
+export type MessageVariable = (typeof MESSAGE_VARIABLES)[number];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Placeholders in a template that aren't in MESSAGE_VARIABLES, so typos are caught
+ * when the template is saved rather than sent to customers
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const known: readonly string[] = MESSAGE_VARIABLES;
+  return [...template.matchAll(PLACEHOLDER)]
+    .map((match) => match[1])
+    .filter((name) => !known.includes(name));
+}
+
+export function renderMessageTemplate(
+  template: string,
+  variables: Partial<Record<string, string>>,
+): string {
+  return template
+    .replace(PLACEHOLDER, (_, name: string) => variables[name] ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
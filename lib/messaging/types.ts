@@ -0,0 +1,21 @@
+export type MessageChannel = 'sms' | 'whatsapp';
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  // E.164, e.g. +919876543210
+  to: string;
+  body: string;
+  // Which settings template the body came from, for providers that need a template name
+  template: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * Sends a text message over SMS or WhatsApp. Providers throw when the message was
+ * not accepted; the caller records the failure against the order.
+ */
+export interface MessagingProvider {
+  readonly name: string;
+  // Resolves to the provider's message ID, when it returns one
+  send(message: OutboundMessage): Promise<string | undefined>;
+}
@@ -0,0 +1,37 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailMessage, EmailTransport } from '@/lib/notifications/types';
+
+/**
+ * Logs emails instead of sending them, for development without an SMTP server
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const messageId = randomUUID();
+    console.warn(`[Email] ${messageId} to ${message.to}: ${message.subject}\n${message.text}`);
+    return messageId;
+  }
+}
+
+/**
+ * Writes each email as a JSON file in a directory, so tests and local setups can
+ * inspect exactly what would have been sent
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const messageId = randomUUID();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${messageId}.json`),
+      JSON.stringify({ messageId, ...message }, null, 2),
+    );
+    return messageId;
+  }
+}
@@ -0,0 +1,379 @@
+import mongoose from 'mongoose';
+import { connectDB } from '@/lib/db/connection';
+import {
+  NotificationDeliveryModel,
+  type NotificationAudience,
+  type NotificationChannel,
+  type NotificationType,
+} from '@/lib/db/models/NotificationDelivery';
+import type { OrderDocument } from '@/lib/db/models/Order';
+import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
+import { UserModel } from '@/lib/db/models/User';
+import { getMessagingProvider } from '@/lib/messaging/providers';
+import { renderMessageTemplate } from '@/lib/messaging/templates';
+import { renderLinkExpiringEmail, renderOrderEmail } from '@/lib/notifications/templates';
+import { getEmailTransport } from '@/lib/notifications/transports';
+import type { EmailContent } from '@/lib/notifications/types';
+import { getMessagingSettings, type MessagingSettingsValues } from '@/lib/settings/messaging';
+import { formatINR } from '@/lib/utils/money';
+import { normalizePhone } from '@/lib/utils/phone';
+import { getUPIConfig } from '@/lib/utils/upi-utils';
+
+export type OrderNotificationType = Exclude<NotificationType, 'link_expiring'>;
+
+const LINK_EXPIRY_NOTICE_HOURS = parseInt(process.env.LINK_EXPIRY_NOTICE_HOURS || '24', 10);
+
+// Who hears about each order event, if they have an email address
+const ORDER_AUDIENCES: Record<OrderNotificationType, NotificationAudience[]> = {
+  order_created: ['customer'],
+  utr_received: ['merchant', 'customer'],
+  payment_verified: ['customer', 'merchant'],
+  payment_failed: ['customer', 'merchant'],
+};
+
+// Order events customers also get a text message for, and the settings template used
+const MESSAGE_TEMPLATES: Partial<
+  Record<OrderNotificationType, keyof MessagingSettingsValues['templates']>
+> = {
+  order_created: 'orderCreated',
+  payment_verified: 'paymentVerified',
+};
+
+interface Merchant {
+  name?: string;
+  email?: string;
+  preferences?: {
+    notifications?: {
+      email?: boolean;
+      orderUpdates?: boolean;
+    };
+  };
+}
+
+interface PendingNotification {
+  channel: NotificationChannel;
+  audience: NotificationAudience;
+  recipient: string;
+  subject?: string;
+  body?: string;
+  // Set when the notification can't or shouldn't be sent; it is logged but not sent
+  skipReason?: string;
+  // Resolves the email transport or messaging provider only when sending
+  sender(): { name: string; send(): Promise<string | undefined> };
+}
+
+interface OrderNotificationData {
+  merchantName: string;
+  orderId: string;
+  description: string;
+  amountPaise: number;
+  customerName?: string;
+  utr?: string;
+  paymentUrl: string;
+  receiptUrl: string;
+  dashboardUrl: string;
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function getSender(): string {
+  return process.env.EMAIL_FROM || process.env.SMTP_USER || 'no-reply@localhost';
+}
+
+function generateDeliveryId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 10);
+  return `ntf_${timestamp}_${random}`;
+}
+
+async function findMerchant(ownerId: string): Promise<Merchant | null> {
+  if (!mongoose.isValidObjectId(ownerId)) {
+    return null;
+  }
+  return UserModel.findById(ownerId).select('name email preferences').lean<Merchant>();
+}
+
+function merchantSkipReason(merchant: Merchant, orderUpdate: boolean): string | undefined {
+  const preferences = merchant.preferences?.notifications;
+  if (preferences?.email === false) {
+    return 'Email notifications are turned off';
+  }
+  if (orderUpdate && preferences?.orderUpdates === false) {
+    return 'Order update notifications are turned off';
+  }
+  return undefined;
+}
+
+function emailNotification(
+  audience: NotificationAudience,
+  recipient: string,
+  content: EmailContent,
+  skipReason?: string,
+): PendingNotification {
+  return {
+    channel: 'email',
+    audience,
+    recipient,
+    subject: content.subject,
+    skipReason,
+    sender: () => {
+      const transport = getEmailTransport();
+      return {
+        name: transport.name,
+        send: () => transport.send({ from: getSender(), to: recipient, ...content }),
+      };
+    },
+  };
+}
+
+/**
+ * A text message for the customer, if messaging is on and the event has a template.
+ * Numbers that can't be normalized are logged as skipped.
+ */
+async function customerMessage(
+  type: OrderNotificationType,
+  phone: string,
+  data: OrderNotificationData,
+): Promise<PendingNotification | null> {
+  const template = MESSAGE_TEMPLATES[type];
+  if (!template) {
+    return null;
+  }
+
+  const settings = await getMessagingSettings();
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const variables = {
+    customerName: data.customerName ?? '',
+    merchantName: data.merchantName,
+    amount: formatINR(data.amountPaise),
+    description: data.description,
+    orderId: data.orderId,
+    paymentUrl: data.paymentUrl,
+    receiptUrl: data.receiptUrl,
+  };
+  const body = renderMessageTemplate(settings.templates[template], variables);
+  const to = normalizePhone(phone, settings.defaultCountryCode);
+
+  return {
+    channel: settings.channel,
+    audience: 'customer',
+    recipient: to ?? phone,
+    body,
+    skipReason: to ? undefined : 'Invalid phone number',
+    sender: () => {
+      const provider = getMessagingProvider();
+      return {
+        name: provider.name,
+        send: () =>
+          provider.send({ channel: settings.channel, to: to!, body, template, variables }),
+      };
+    },
+  };
+}
+
+async function sendNotification(deliveryId: string, notification: PendingNotification) {
+  let providerName: string | undefined;
+  try {
+    const sender = notification.sender();
+    providerName = sender.name;
+    const messageId = await sender.send();
+
+    await NotificationDeliveryModel.updateOne(
+      { deliveryId },
+      { $set: { status: 'sent', transport: providerName, messageId, sentAt: new Date() } },
+    );
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : 'Unknown error').slice(0, 500);
+    console.warn(`[Notifications] ${notification.channel} ${deliveryId} failed:`, message);
+    await NotificationDeliveryModel.updateOne(
+      { deliveryId },
+      { $set: { status: 'failed', transport: providerName, error: message } },
+    );
+  }
+}
+
+/**
+ * Log each notification before sending so every attempt, including skipped ones,
+ * shows up in the delivery log. Returns how many notifications are being sent.
+ */
+async function deliver(
+  base: { type: NotificationType; ownerId: string; orderId?: string; linkId?: string },
+  notifications: PendingNotification[],
+  options: { background: boolean },
+): Promise<number> {
+  const deliveries = await Promise.all(
+    notifications.map(async (notification) => ({
+      notification,
+      delivery: await NotificationDeliveryModel.create({
+        ...base,
+        deliveryId: generateDeliveryId(),
+        channel: notification.channel,
+        audience: notification.audience,
+        recipient: notification.recipient,
+        subject: notification.subject,
+        body: notification.body,
+        status: notification.skipReason ? 'skipped' : 'pending',
+        skipReason: notification.skipReason,
+      }),
+    })),
+  );
+
+  const sending = deliveries
+    .filter(({ notification }) => !notification.skipReason)
+    .map(({ notification, delivery }) => sendNotification(delivery.deliveryId, notification));
+
+  if (options.background) {
+    Promise.all(sending).catch((error) => {
+      console.error('[Notifications] Delivery crashed:', error);
+    });
+  } else {
+    await Promise.all(sending);
+  }
+
+  return sending.length;
+}
+
+/**
+ * Email the customer and merchant about an order event, and text the customer when
+ * messaging is turned on in Settings. Merchants are only emailed if their notification
+ * preferences allow it; customers of a payment link only if the link has email
+ * receipts turned on. Notifications are sent in the background and failures are
+ * logged, never thrown, so they can't break the order flow.
+ */
+export async function notifyOrderEvent(
+  type: OrderNotificationType,
+  order: OrderDocument,
+): Promise<number> {
+  try {
+    await connectDB();
+
+    const [merchant, paymentLink] = await Promise.all([
+      findMerchant(order.createdBy),
+      order.paymentLinkId
+        ? PaymentLinkModel.findOne({ linkId: order.paymentLinkId }).select('settings').lean()
+        : null,
+    ]);
+
+    const appUrl = getAppUrl();
+    const data: OrderNotificationData = {
+      merchantName: merchant?.name || getUPIConfig().merchantName,
+      orderId: order.orderId,
+      description: order.description,
+      amountPaise: order.amountPaise,
+      customerName: order.customerName,
+      utr: order.utrNumber,
+      paymentUrl: `${appUrl}/pay/${order.orderId}`,
+      receiptUrl: `${appUrl}/api/orders/${order.orderId}/receipt`,
+      dashboardUrl: `${appUrl}/dashboard/orders`,
+    };
+
+    // Customers paying through a link are already on the payment page
+    const customerOnPaymentPage = type === 'order_created' && Boolean(paymentLink);
+
+    const notifications: PendingNotification[] = [];
+    for (const audience of ORDER_AUDIENCES[type]) {
+      if (audience === 'merchant' && merchant?.email) {
+        notifications.push(
+          emailNotification(
+            audience,
+            merchant.email,
+            renderOrderEmail(type, audience, data),
+            merchantSkipReason(merchant, true),
+          ),
+        );
+      }
+
+      if (audience === 'customer' && order.customerEmail && !customerOnPaymentPage) {
+        notifications.push(
+          emailNotification(
+            audience,
+            order.customerEmail,
+            renderOrderEmail(type, audience, data),
+            paymentLink && !paymentLink.settings?.sendEmailReceipt
+              ? 'Email receipts are turned off for this payment link'
+              : undefined,
+          ),
+        );
+      }
+    }
+
+    if (order.customerPhone && !customerOnPaymentPage) {
+      const message = await customerMessage(type, order.customerPhone, data);
+      if (message) {
+        notifications.push(message);
+      }
+    }
+
+    if (notifications.length === 0) {
+      return 0;
+    }
+
+    return await deliver(
+      { type, ownerId: order.createdBy, orderId: order.orderId, linkId: order.paymentLinkId },
+      notifications,
+      { background: true },
+    );
+  } catch (error) {
+    console.error(`[Notifications] Failed to notify ${type} for ${order.orderId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Warn owners of active payment links that expire within LINK_EXPIRY_NOTICE_HOURS
+ * (for scheduled jobs). Each link is only ever warned about once.
+ */
+export async function notifyExpiringPaymentLinks(limit = 100): Promise<{
+  checked: number;
+  notified: number;
+}> {
+  await connectDB();
+
+  const now = new Date();
+  const links = await PaymentLinkModel.find({
+    isActive: true,
+    expiresAt: { $gt: now, $lte: new Date(now.getTime() + LINK_EXPIRY_NOTICE_HOURS * 3600000) },
+    expiryNotifiedAt: { $exists: false },
+  })
+    .sort({ expiresAt: 1 })
+    .limit(limit);
+
+  let notified = 0;
+  for (const link of links) {
+    // Claim the link first so overlapping runs don't both send the warning
+    const claimed = await PaymentLinkModel.findOneAndUpdate(
+      { _id: link._id, expiryNotifiedAt: { $exists: false } },
+      { $set: { expiryNotifiedAt: now } },
+    );
+    if (!claimed || !link.expiresAt) continue;
+
+    const merchant = await findMerchant(link.createdBy);
+    if (!merchant?.email) continue;
+
+    notified += await deliver(
+      { type: 'link_expiring', ownerId: link.createdBy, linkId: link.linkId },
+      [
+        emailNotification(
+          'merchant',
+          merchant.email,
+          renderLinkExpiringEmail({
+            merchantName: merchant.name || getUPIConfig().merchantName,
+            title: link.title,
+            linkId: link.linkId,
+            expiresAt: link.expiresAt,
+            dashboardUrl: `${getAppUrl()}/dashboard/links`,
+          }),
+          merchantSkipReason(merchant, false),
+        ),
+      ],
+      { background: false },
+    );
+  }
+
+  return { checked: links.length, notified };
+}
@@ -0,0 +1,32 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { EmailMessage, EmailTransport } from '@/lib/notifications/types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends through an SMTP server. Port 465 uses TLS from the start; other ports
+ * upgrade with STARTTLS when the server offers it.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const info = await this.transporter.sendMail(message);
+    return info.messageId;
+  }
+}
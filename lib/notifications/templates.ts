@@ -0,0 +1,193 @@
+import type { NotificationAudience, NotificationType } from '@/lib/db/models/NotificationDelivery';
+import type { EmailContent } from '@/lib/notifications/types';
+import { formatINR, type Paise } from '@/lib/utils/money';
+
+export interface OrderEmailData {
+  merchantName: string;
+  orderId: string;
+  description: string;
+  amountPaise: Paise;
+  customerName?: string;
+  utr?: string;
+  paymentUrl: string;
+  receiptUrl: string;
+  dashboardUrl: string;
+}
+
+export interface LinkExpiringEmailData {
+  merchantName: string;
+  title: string;
+  linkId: string;
+  expiresAt: Date;
+  dashboardUrl: string;
+}
+
+interface EmailLayout {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  details: Array<[string, string | undefined]>;
+  action?: { label: string; url: string };
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatIST(date: Date): string {
+  return `${date.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })} IST`;
+}
+
+/**
+ * Render the same content as plain text and as simple inline-styled HTML, which
+ * is all most mail clients reliably display
+ */
+function renderLayout({
+  subject,
+  heading,
+  paragraphs,
+  details,
+  action,
+}: EmailLayout): EmailContent {
+  const rows = details.filter((row): row is [string, string] => Boolean(row[1]));
+
+  const text = [
+    heading,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    ...(action ? ['', `${action.label}: ${action.url}`] : []),
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px">
+<h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(heading)}</h1>
+${paragraphs.map((paragraph) => `<p style="margin:0 0 12px;line-height:1.5">${escapeHtml(paragraph)}</p>`).join('\n')}
+<table style="width:100%;border-collapse:collapse;margin:16px 0">
+${rows
+  .map(
+    ([label, value]) =>
+      `<tr><td style="padding:6px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:6px 0;text-align:right;font-weight:bold">${escapeHtml(value)}</td></tr>`,
+  )
+  .join('\n')}
+</table>
+${
+  action
+    ? `<a href="${escapeHtml(action.url)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px">${escapeHtml(action.label)}</a>`
+    : ''
+}
+</div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+function orderLayout(
+  type: Exclude<NotificationType, 'link_expiring'>,
+  audience: NotificationAudience,
+  data: OrderEmailData,
+): EmailLayout {
+  const amount = formatINR(data.amountPaise);
+  const details: EmailLayout['details'] = [
+    ['Order ID', data.orderId],
+    ['Description', data.description],
+    ['Amount', amount],
+    ['Customer', audience === 'merchant' ? data.customerName : undefined],
+    ['UTR', data.utr],
+  ];
+
+  switch (type) {
+    case 'order_created':
+      return {
+        subject: `Payment request from ${data.merchantName}: ${amount}`,
+        heading: `${data.merchantName} has requested a payment`,
+        paragraphs: ['Pay with any UPI app using the link below before it expires.'],
+        details,
+        action: { label: 'Pay Now', url: data.paymentUrl },
+      };
+    case 'utr_received':
+      return audience === 'merchant'
+        ? {
+            subject: `UTR received for ${data.orderId} - verify payment`,
+            heading: 'A customer has submitted a payment reference',
+            paragraphs: ['Check the UTR against your bank statement and verify the order.'],
+            details,
+            action: { label: 'Review Order', url: data.dashboardUrl },
+          }
+        : {
+            subject: `We're verifying your payment of ${amount}`,
+            heading: 'Payment reference received',
+            paragraphs: [
+              `${data.merchantName} is verifying your payment. You will get another email once it is confirmed.`,
+            ],
+            details,
+          };
+    case 'payment_verified':
+      return audience === 'merchant'
+        ? {
+            subject: `Payment verified: ${amount} for ${data.orderId}`,
+            heading: 'Payment verified',
+            paragraphs: [
+              `The payment for ${data.orderId} has been verified and the order is complete.`,
+            ],
+            details,
+            action: { label: 'View Orders', url: data.dashboardUrl },
+          }
+        : {
+            subject: `Payment receipt from ${data.merchantName}: ${amount}`,
+            heading: 'Payment successful',
+            paragraphs: [`${data.merchantName} has confirmed your payment. Thank you!`],
+            details,
+            action: { label: 'Download Receipt', url: data.receiptUrl },
+          };
+    case 'payment_failed':
+      return audience === 'merchant'
+        ? {
+            subject: `Payment failed for ${data.orderId}`,
+            heading: 'Payment marked as failed',
+            paragraphs: [`The payment for ${data.orderId} could not be verified.`],
+            details,
+            action: { label: 'View Orders', url: data.dashboardUrl },
+          }
+        : {
+            subject: `Your payment to ${data.merchantName} could not be verified`,
+            heading: 'Payment not verified',
+            paragraphs: [
+              `${data.merchantName} could not verify your payment. If money left your account, contact them with your UTR.`,
+            ],
+            details,
+          };
+  }
+}
+
+export function renderOrderEmail(
+  type: Exclude<NotificationType, 'link_expiring'>,
+  audience: NotificationAudience,
+  data: OrderEmailData,
+): EmailContent {
+  return renderLayout(orderLayout(type, audience, data));
+}
+
+export function renderLinkExpiringEmail(data: LinkExpiringEmailData): EmailContent {
+  return renderLayout({
+    subject: `Payment link "${data.title}" expires soon`,
+    heading: 'Your payment link is about to expire',
+    paragraphs: [
+      'Customers will not be able to pay through this link after it expires. Extend it or create a new one if you still need it.',
+    ],
+    details: [
+      ['Link', data.title],
+      ['Link ID', data.linkId],
+      ['Expires', formatIST(data.expiresAt)],
+    ],
+    action: { label: 'Manage Links', url: data.dashboardUrl },
+  });
+}
@@ -0,0 +1,55 @@
+import path from 'path';
+import { ConsoleEmailTransport, FileEmailTransport } from '@/lib/notifications/local';
+import { SmtpEmailTransport } from '@/lib/notifications/smtp';
+import type { EmailTransport } from '@/lib/notifications/types';
+
+const transportFactories = new Map<string, () => EmailTransport>([
+  [
+    'smtp',
+    () => {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp email transport');
+      }
+      return new SmtpEmailTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    },
+  ],
+  [
+    'file',
+    () =>
+      new FileEmailTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.outbox')),
+  ],
+  ['console', () => new ConsoleEmailTransport()],
+]);
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Make another email provider (SES, Postmark, ...) selectable with EMAIL_TRANSPORT
+ */
+export function registerEmailTransport(name: string, factory: () => EmailTransport): void {
+  transportFactories.set(name, factory);
+  if (transport?.name === name) {
+    transport = null;
+  }
+}
+
+/**
+ * The transport named by EMAIL_TRANSPORT. Defaults to SMTP when SMTP_HOST is set,
+ * otherwise emails are only logged.
+ */
+export function getEmailTransport(): EmailTransport {
+  const driver = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  if (transport?.name !== driver) {
+    const factory = transportFactories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown email transport: ${driver}`);
+    }
+    transport = factory();
+  }
+  return transport;
+}
@@ -0,0 +1,20 @@
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailMessage extends EmailContent {
+  from: string;
+  to: string;
+}
+
+/**
+ * Sends a rendered email. Transports throw when the message could not be handed
+ * over; the caller records the failure in the delivery log.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  // Resolves to the transport's message ID, when it has one
+  send(message: EmailMessage): Promise<string | undefined>;
+}
@@ -0,0 +1,198 @@
+import type { NextRequest } from 'next/server';
+import { AuditLogModel } from '@/lib/db/models/AuditLog';
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { OrderTransitionError, transitionOrder, type OrderActor } from '@/lib/orders/state-machine';
+import type { OrderStatus } from '@/lib/types';
+import { AUDIT_ACTIONS, createAuditLogFromRequest } from '@/lib/utils/audit';
+import { generateBulkId } from '@/lib/utils/upi-utils';
+
+export const MAX_BULK_ACTION_ORDERS = 200;
+
+export const BULK_ORDER_ACTIONS = ['complete', 'fail', 'note'] as const;
+export type BulkOrderAction = (typeof BULK_ORDER_ACTIONS)[number];
+
+const TARGET_STATUS: Record<Exclude<BulkOrderAction, 'note'>, OrderStatus> = {
+  complete: 'completed',
+  fail: 'failed',
+};
+
+// Matches the adminNotes maxlength on the Order schema
+const MAX_ADMIN_NOTES_LENGTH = 1000;
+
+export class BulkOrderActionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'BulkOrderActionError';
+  }
+}
+
+export interface BulkOrderActionResult {
+  orderId: string;
+  success: boolean;
+  status?: OrderStatus;
+  error?: string;
+  code?: string;
+}
+
+export interface BulkOrderActionSummary {
+  bulkId: string;
+  action: BulkOrderAction;
+  succeeded: number;
+  failed: number;
+  results: BulkOrderActionResult[];
+}
+
+function appendNote(existing: string | undefined, note: string, actor: OrderActor): string {
+  const entry = `[${new Date().toISOString()}] ${actor.email || actor.id}: ${note}`;
+  return existing ? `${existing}\n${entry}` : entry;
+}
+
+async function applyToOrder(
+  order: OrderDocument,
+  action: BulkOrderAction,
+  context: { actor: OrderActor; note?: string; bulkId: string; request: NextRequest },
+): Promise<OrderStatus> {
+  const { actor, note, bulkId, request } = context;
+
+  const adminNotes = note ? appendNote(order.adminNotes, note, actor) : undefined;
+  if (adminNotes && adminNotes.length > MAX_ADMIN_NOTES_LENGTH) {
+    throw new BulkOrderActionError(
+      `Order notes would exceed ${MAX_ADMIN_NOTES_LENGTH} characters`,
+      'NOTES_TOO_LONG',
+    );
+  }
+
+  // The notes are rewritten whole, so the write only goes through if nobody else
+  // has added a note since they were read
+  const notesUnchanged = { adminNotes: order.adminNotes ?? null };
+
+  if (action === 'note') {
+    const result = await OrderModel.updateOne(
+      { ...notesUnchanged, _id: order._id },
+      { $set: { adminNotes } },
+    );
+    if (result.matchedCount === 0) {
+      throw new BulkOrderActionError(
+        'Order was modified by another request. Please retry.',
+        'CONCURRENT_UPDATE',
+      );
+    }
+    await createAuditLogFromRequest(
+      request,
+      AUDIT_ACTIONS.ORDER_UPDATED,
+      'Order',
+      order.orderId,
+      actor.id,
+      actor.email,
+      { note, bulkId },
+    );
+    return order.status;
+  }
+
+  const to = TARGET_STATUS[action];
+  const updated = await transitionOrder(order, to, {
+    actor,
+    reason: note,
+    ...(adminNotes && { match: notesUnchanged }),
+    set: {
+      ...(adminNotes && { adminNotes }),
+      ...(to === 'completed' && {
+        completedAt: new Date(),
+        verifiedAt: new Date(),
+        verifiedBy: actor.id,
+      }),
+    },
+    audit: {
+      request,
+      action: 'order_status_updated_by_admin',
+      metadata: { adminNotes: note, bulkId },
+    },
+  });
+
+  return updated.status;
+}
+
+/**
+ * Apply one action to many orders. Each order goes through the state machine on
+ * its own, so one order failing a rule doesn't stop the rest. Per-order audit
+ * entries carry the batch's `bulkId`, and a single BULK_ACTION entry for the
+ * batch lists their IDs.
+ */
+export async function applyBulkOrderAction(
+  orderIds: string[],
+  action: BulkOrderAction,
+  context: { actor: OrderActor; note?: string; request: NextRequest },
+): Promise<BulkOrderActionSummary> {
+  const bulkId = generateBulkId();
+  const uniqueIds = [...new Set(orderIds)];
+  const orders = await OrderModel.find({ orderId: { $in: uniqueIds } });
+  const byOrderId = new Map(orders.map((order) => [order.orderId, order]));
+  const results: BulkOrderActionResult[] = [];
+
+  // Sequential so the batch never holds more than one order's writes in flight
+  for (const orderId of uniqueIds) {
+    const order = byOrderId.get(orderId);
+    if (!order) {
+      results.push({ orderId, success: false, error: 'Order not found', code: 'ORDER_NOT_FOUND' });
+      continue;
+    }
+
+    try {
+      const status = await applyToOrder(order, action, { ...context, bulkId });
+      results.push({ orderId, success: true, status });
+    } catch (error) {
+      if (error instanceof OrderTransitionError || error instanceof BulkOrderActionError) {
+        results.push({ orderId, success: false, error: error.message, code: error.code });
+        continue;
+      }
+
+      console.error(`[Bulk Order Action] ${action} failed for ${orderId}:`, error);
+      results.push({
+        orderId,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: 'UPDATE_FAILED',
+      });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.success);
+  const auditEntries = await AuditLogModel.find({
+    entityType: 'Order',
+    entityId: { $in: succeeded.map((result) => result.orderId) },
+    'metadata.bulkId': bulkId,
+  }).select('_id');
+
+  await createAuditLogFromRequest(
+    context.request,
+    AUDIT_ACTIONS.BULK_ACTION,
+    'Order',
+    bulkId,
+    context.actor.id,
+    context.actor.email,
+    {
+      bulkId,
+      operation: `bulk_order_${action}`,
+      note: context.note,
+      requested: uniqueIds.length,
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      orderIds: succeeded.map((result) => result.orderId),
+      failures: results
+        .filter((result) => !result.success)
+        .map(({ orderId, code }) => ({ orderId, code })),
+      auditLogIds: auditEntries.map((entry) => String(entry._id)),
+    },
+  );
+
+  return {
+    bulkId,
+    action,
+    succeeded: succeeded.length,
+    failed: results.length - succeeded.length,
+    results,
+  };
+}
@@ -0,0 +1,421 @@
+import ExcelJS from 'exceljs';
+import type { NextRequest } from 'next/server';
+import { AuditLogModel } from '@/lib/db/models/AuditLog';
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { notifyOrderEvent } from '@/lib/notifications/service';
+import { resolveOrderExpiryMinutes } from '@/lib/settings/system';
+import { CreateOrderSchema, type CreateOrderInput } from '@/lib/types';
+import {
+  AUDIT_ACTIONS,
+  createAuditLogFromRequest,
+  getClientIPFromRequest,
+} from '@/lib/utils/audit';
+import { parseCSV } from '@/lib/utils/csv';
+import { addPaise, fromPaise, toPaise } from '@/lib/utils/money';
+import {
+  calculateExpirationTime,
+  generateBulkId,
+  generateOrderId,
+} from '@/lib/utils/upi-utils';
+import { VpaError } from '@/lib/vpas/management';
+import { assignOrderPayee, releaseAssignedPayee, type AssignedPayee } from '@/lib/vpas/pool';
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatcher';
+import { buildOrderEventData } from '@/lib/webhooks/payloads';
+
+export const MAX_BULK_ORDER_ROWS = 1000;
+
+// Orders whose webhooks and notifications are sent at once, so a large import
+// neither waits on them one by one nor opens a connection per order
+const EVENT_CONCURRENCY = 10;
+
+// Columns of the downloadable template, in order
+export const BULK_ORDER_TEMPLATE_HEADERS = [
+  'Customer Name',
+  'Phone',
+  'Email',
+  'Amount',
+  'Description',
+  'Expiry',
+];
+
+type BulkOrderField = keyof CreateOrderInput;
+
+// Header aliases after lowercasing and stripping everything but letters
+const HEADER_ALIASES: Record<string, BulkOrderField> = {
+  customername: 'customerName',
+  customer: 'customerName',
+  name: 'customerName',
+  studentname: 'customerName',
+  phone: 'customerPhone',
+  phonenumber: 'customerPhone',
+  mobile: 'customerPhone',
+  mobilenumber: 'customerPhone',
+  mobileno: 'customerPhone',
+  customerphone: 'customerPhone',
+  email: 'customerEmail',
+  emailaddress: 'customerEmail',
+  customeremail: 'customerEmail',
+  amount: 'amount',
+  amountinr: 'amount',
+  fee: 'amount',
+  description: 'description',
+  purpose: 'description',
+  remarks: 'description',
+  note: 'description',
+  expiry: 'expiresInMinutes',
+  expiresat: 'expiresInMinutes',
+  expiresin: 'expiresInMinutes',
+  expiresinminutes: 'expiresInMinutes',
+  expiryminutes: 'expiresInMinutes',
+  validfor: 'expiresInMinutes',
+  upiid: 'upiId',
+  upi: 'upiId',
+  vpa: 'upiId',
+  payto: 'upiId',
+};
+
+export class BulkOrderFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkOrderFileError';
+  }
+}
+
+export interface BulkOrderRow {
+  // 1-based row number with the header as row 1; blank rows are not counted
+  line: number;
+  values: Partial<Record<BulkOrderField, string>>;
+}
+
+export interface BulkOrderRowResult {
+  line: number;
+  status: 'created' | 'failed';
+  customerName?: string;
+  amount?: number;
+  orderId?: string;
+  paymentUrl?: string;
+  expiresAt?: string;
+  errors?: string[];
+}
+
+export interface BulkOrderResult {
+  bulkId: string;
+  totalRows: number;
+  created: number;
+  failed: number;
+  rows: BulkOrderRowResult[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function toRows(table: string[][]): BulkOrderRow[] {
+  const [header, ...body] = table;
+  if (!header) {
+    throw new BulkOrderFileError('The file is empty');
+  }
+
+  const fields = header.map((cell) => HEADER_ALIASES[normalizeHeader(cell)]);
+  for (const required of ['customerName', 'amount', 'description'] as const) {
+    if (!fields.includes(required)) {
+      throw new BulkOrderFileError(
+        `Missing a column for ${required}. Expected headers: ${BULK_ORDER_TEMPLATE_HEADERS.join(', ')}`,
+      );
+    }
+  }
+
+  if (body.length > MAX_BULK_ORDER_ROWS) {
+    throw new BulkOrderFileError(
+      `A file can contain at most ${MAX_BULK_ORDER_ROWS} orders (found ${body.length})`,
+    );
+  }
+
+  return body.map((cells, index) => {
+    const values: BulkOrderRow['values'] = {};
+    fields.forEach((field, column) => {
+      const value = cells[column]?.trim();
+      if (field && value) {
+        values[field] = value;
+      }
+    });
+    return { line: index + 2, values };
+  });
+}
+
+async function readWorkbook(buffer: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw new BulkOrderFileError('Could not read the spreadsheet. Save it as .xlsx or .csv');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new BulkOrderFileError('The workbook has no sheets');
+  }
+
+  const table: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    if (cells.some((cell) => cell.trim() !== '')) {
+      table.push(cells);
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Read order rows from an uploaded CSV or XLSX file, mapping its headers to order fields
+ */
+export async function readBulkOrderFile(
+  fileName: string,
+  buffer: ArrayBuffer,
+): Promise<BulkOrderRow[]> {
+  const isWorkbook = /\.xlsx$/i.test(fileName);
+  const table = isWorkbook
+    ? await readWorkbook(buffer)
+    : parseCSV(new TextDecoder().decode(buffer));
+
+  return toRows(table);
+}
+
+/**
+ * Accept either a number of minutes or a date/time the link should stay open until
+ */
+function parseExpiry(value: string): number | string {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  const until = new Date(value);
+  if (Number.isNaN(until.getTime())) {
+    return 'Expiry must be a number of minutes or a date';
+  }
+
+  const minutes = Math.ceil((until.getTime() - Date.now()) / 60000);
+  return minutes > 0 ? minutes : 'Expiry date is in the past';
+}
+
+/**
+ * Validate one row against the same schema as POST /api/orders
+ */
+export function validateBulkOrderRow(
+  row: BulkOrderRow,
+): { data: CreateOrderInput; errors?: undefined } | { data?: undefined; errors: string[] } {
+  const { values } = row;
+  const errors: string[] = [];
+
+  let expiresInMinutes: number | undefined;
+  if (values.expiresInMinutes) {
+    const expiry = parseExpiry(values.expiresInMinutes);
+    if (typeof expiry === 'string') {
+      errors.push(expiry);
+    } else {
+      expiresInMinutes = expiry;
+    }
+  }
+
+  const parsed = CreateOrderSchema.safeParse({
+    customerName: values.customerName,
+    customerEmail: values.customerEmail,
+    customerPhone: values.customerPhone,
+    amount: values.amount ? Number(values.amount.replace(/[₹,\s]/g, '')) : undefined,
+    description: values.description,
+    expiresInMinutes,
+    upiId: values.upiId || undefined,
+  });
+
+  if (!parsed.success) {
+    errors.push(
+      ...parsed.error.errors.map((issue) =>
+        issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+      ),
+    );
+  }
+
+  return parsed.success && errors.length === 0 ? { data: parsed.data } : { errors };
+}
+
+// Run `task` over `items` in order, with at most `limit` running at once
+async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Validate every row and insert the valid ones as orders. Invalid rows are
+ * reported back without stopping the rest of the file.
+ */
+export async function createBulkOrders(
+  rows: BulkOrderRow[],
+  creator: { id: string; email?: string },
+  context: { request: NextRequest; fileName: string; baseUrl: string },
+): Promise<BulkOrderResult> {
+  const bulkId = generateBulkId();
+  const defaultExpiryMinutes = await resolveOrderExpiryMinutes();
+  const results: BulkOrderRowResult[] = [];
+  const pending: Array<{
+    result: BulkOrderRowResult;
+    doc: Record<string, unknown>;
+    payee: AssignedPayee;
+  }> = [];
+
+  for (const row of rows) {
+    const validation = validateBulkOrderRow(row);
+    if (!validation.data) {
+      results.push({
+        line: row.line,
+        status: 'failed',
+        customerName: row.values.customerName,
+        errors: validation.errors,
+      });
+      continue;
+    }
+
+    const input = validation.data;
+    // Each row counts against the daily caps of the UPI ID it is routed to
+    let payee: AssignedPayee;
+    try {
+      payee = await assignOrderPayee(creator.id, toPaise(input.amount), {
+        requestedVpa: input.upiId,
+      });
+    } catch (error) {
+      if (!(error instanceof VpaError)) {
+        throw error;
+      }
+      results.push({
+        line: row.line,
+        status: 'failed',
+        customerName: input.customerName,
+        errors: [error.message],
+      });
+      continue;
+    }
+
+    const orderId = generateOrderId();
+    const expiresAt = calculateExpirationTime(input.expiresInMinutes ?? defaultExpiryMinutes);
+    const result: BulkOrderRowResult = {
+      line: row.line,
+      status: 'created',
+      customerName: input.customerName,
+      amount: input.amount,
+      orderId,
+      paymentUrl: `${context.baseUrl}/pay/${orderId}`,
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    results.push(result);
+    pending.push({
+      result,
+      payee,
+      doc: {
+        orderId,
+        amount: input.amount,
+        description: input.description,
+        customerName: input.customerName,
+        customerEmail: input.customerEmail,
+        customerPhone: input.customerPhone,
+        upiId: payee.upiId,
+        payeeName: payee.payeeName,
+        status: 'pending',
+        createdBy: creator.id,
+        expiresAt,
+      },
+    });
+  }
+
+  let inserted: OrderDocument[] = [];
+  if (pending.length > 0) {
+    try {
+      inserted = await OrderModel.insertMany(
+        pending.map((entry) => entry.doc),
+        { ordered: false },
+      );
+    } catch (error) {
+      // With ordered: false the valid documents are still written
+      inserted = (error as { insertedDocs?: OrderDocument[] }).insertedDocs ?? [];
+      const message = error instanceof Error ? error.message : 'Failed to save order';
+      const insertedIds = new Set(inserted.map((order) => order.orderId));
+      for (const { result, doc, payee } of pending) {
+        if (!insertedIds.has(result.orderId!)) {
+          await releaseAssignedPayee(creator.id, payee, toPaise(doc.amount as number));
+          result.status = 'failed';
+          result.errors = [message];
+          delete result.orderId;
+          delete result.paymentUrl;
+          delete result.expiresAt;
+        }
+      }
+    }
+  }
+
+  const ipAddress = getClientIPFromRequest(context.request);
+  const userAgent = context.request.headers.get('user-agent') || 'unknown';
+
+  if (inserted.length > 0) {
+    await AuditLogModel.insertMany(
+      inserted.map((order) => ({
+        action: AUDIT_ACTIONS.ORDER_CREATED,
+        entityType: 'Order',
+        entityId: order.orderId,
+        userId: creator.id,
+        userEmail: creator.email || '',
+        ipAddress,
+        userAgent,
+        metadata: {
+          amount: order.amount,
+          customerName: order.customerName,
+          bulkId,
+        },
+      })),
+    );
+
+    await forEachWithConcurrency(inserted, EVENT_CONCURRENCY, async (order) => {
+      await dispatchWebhookEvent('order.created', creator.id, buildOrderEventData(order));
+      await notifyOrderEvent('order_created', order);
+    });
+  }
+
+  const created = results.filter((result) => result.status === 'created').length;
+
+  await createAuditLogFromRequest(
+    context.request,
+    AUDIT_ACTIONS.BULK_ACTION,
+    'Order',
+    bulkId,
+    creator.id,
+    creator.email,
+    {
+      bulkId,
+      operation: 'bulk_order_create',
+      fileName: context.fileName,
+      totalRows: rows.length,
+      created,
+      failed: rows.length - created,
+      totalAmount: fromPaise(addPaise(...inserted.map((order) => order.amountPaise))),
+    },
+  );
+
+  return {
+    bulkId,
+    totalRows: rows.length,
+    created,
+    failed: rows.length - created,
+    rows: results,
+  };
+}
@@ -0,0 +1,89 @@
+import ExcelJS from 'exceljs';
+import type { OrderDocument } from '@/lib/db/models/Order';
+import { toCSV } from '@/lib/utils/csv';
+import { generateQRCode, generateUPIString, getUPIConfig } from '@/lib/utils/upi-utils';
+
+const RESULT_HEADERS = [
+  'Order ID',
+  'Customer Name',
+  'Phone',
+  'Email',
+  'Amount',
+  'Description',
+  'Status',
+  'Expires At',
+  'Payment URL',
+  'UPI Link',
+];
+
+const QR_SIZE = 120;
+
+function resultRow(order: OrderDocument, baseUrl: string, upiLink: string) {
+  return [
+    order.orderId,
+    order.customerName,
+    order.customerPhone,
+    order.customerEmail,
+    order.amount,
+    order.description,
+    order.status,
+    order.expiresAt.toISOString(),
+    `${baseUrl}/pay/${order.orderId}`,
+    upiLink,
+  ];
+}
+
+function upiLinkFor(order: OrderDocument): string {
+  return generateUPIString({
+    payeeAddress: order.upiId,
+    payeeName: order.payeeName || getUPIConfig().merchantName,
+    amount: order.amount,
+    transactionNote: order.description,
+    transactionRef: order.orderId,
+  });
+}
+
+/**
+ * Results sheet for a bulk upload with a scannable QR image on every row
+ */
+export async function buildBulkResultsWorkbook(
+  orders: OrderDocument[],
+  baseUrl: string,
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Payment Links');
+
+  sheet.columns = [
+    ...RESULT_HEADERS.map((header) => ({ header, width: header === 'UPI Link' ? 40 : 22 })),
+    { header: 'QR Code', width: 18 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  const qrColumn = RESULT_HEADERS.length;
+  for (const [index, order] of orders.entries()) {
+    const upiLink = upiLinkFor(order);
+    const row = sheet.addRow(resultRow(order, baseUrl, upiLink));
+    row.height = QR_SIZE * 0.75; // points
+
+    const imageId = workbook.addImage({
+      base64: await generateQRCode(upiLink),
+      extension: 'png',
+    });
+    sheet.addImage(imageId, {
+      tl: { col: qrColumn, row: index + 1 },
+      ext: { width: QR_SIZE, height: QR_SIZE },
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Plain CSV variant; the QR is represented by the UPI link it encodes
+ */
+export function buildBulkResultsCSV(orders: OrderDocument[], baseUrl: string): string {
+  return toCSV([
+    RESULT_HEADERS,
+    ...orders.map((order) => resultRow(order, baseUrl, upiLinkFor(order))),
+  ]);
+}
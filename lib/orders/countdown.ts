@@ -0,0 +1,29 @@
+export interface ServerTimeSample {
+  // Local clock readings, in milliseconds, taken around the request
+  sentAt: number;
+  receivedAt: number;
+  // The server's own measure of how long the order has left
+  timeRemaining: number;
+}
+
+/**
+ * When an order expires, on the local clock. Only the server's timeRemaining is
+ * used, never its expiresAt, so a device clock that is minutes off still counts
+ * down correctly. The server measured it somewhere during the round trip; taking
+ * the midpoint keeps the error within half the request time.
+ */
+export function estimateDeadline({ sentAt, receivedAt, timeRemaining }: ServerTimeSample): number {
+  const roundTrip = Math.max(0, receivedAt - sentAt);
+  return sentAt + roundTrip / 2 + Math.max(0, timeRemaining);
+}
+
+export function formatCountdown(milliseconds: number): { minutes: string; seconds: string } {
+  // Round up so the display reaches 00:00 exactly when the order expires
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  return {
+    minutes: Math.floor(totalSeconds / 60)
+      .toString()
+      .padStart(2, '0'),
+    seconds: (totalSeconds % 60).toString().padStart(2, '0'),
+  };
+}
@@ -0,0 +1,108 @@
+import { OrderModel } from '@/lib/db/models/Order';
+import { redis, REDIS_KEYS } from '@/lib/redis';
+import type { OrderStatus } from '@/lib/types';
+
+export interface OrderStatusEvent {
+  orderId: string;
+  status: OrderStatus;
+  previousStatus?: OrderStatus;
+  at: string;
+}
+
+// The payment page has nothing left to wait for once an order reaches one of these
+export const FINAL_PAYMENT_STATUSES: readonly OrderStatus[] = ['completed', 'failed'];
+
+// With pub/sub the database is only checked to catch messages published before subscribing
+const SAFETY_POLL_INTERVAL_MS = 15_000;
+const FALLBACK_POLL_INTERVAL_MS = 3_000;
+
+/**
+ * Tell anyone watching an order about its new status. Never throws; watchers
+ * fall back to polling the database, so a lost message only delays the update.
+ */
+export async function publishOrderStatus(event: OrderStatusEvent): Promise<void> {
+  try {
+    await redis.publish(REDIS_KEYS.ORDER_STATUS_CHANNEL(event.orderId), JSON.stringify(event));
+  } catch (error) {
+    console.error(`[Order Events] Failed to publish status for ${event.orderId}:`, error);
+  }
+}
+
+function parseEvent(message: unknown): OrderStatusEvent | null {
+  try {
+    // Upstash deserializes JSON messages unless told otherwise
+    const event = typeof message === 'string' ? JSON.parse(message) : message;
+    return event && typeof event === 'object' && 'status' in event
+      ? (event as OrderStatusEvent)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Call `onEvent` whenever the order's status moves away from `currentStatus`.
+ * Listens on Redis pub/sub and polls the database as well, every few seconds
+ * when pub/sub is unavailable and occasionally otherwise. Returns a function
+ * that stops watching.
+ */
+export function watchOrderStatus(
+  orderId: string,
+  currentStatus: OrderStatus,
+  onEvent: (event: OrderStatusEvent) => void,
+): () => void {
+  let lastStatus = currentStatus;
+  let stopped = false;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let unsubscribe: (() => Promise<void>) | undefined;
+
+  const emit = (event: OrderStatusEvent) => {
+    if (stopped || event.status === lastStatus) return;
+    const previousStatus = lastStatus;
+    lastStatus = event.status;
+    onEvent({ ...event, previousStatus: event.previousStatus ?? previousStatus });
+  };
+
+  const poll = async () => {
+    try {
+      const order = await OrderModel.findOne({ orderId }).select('status updatedAt').lean();
+      if (order) {
+        emit({ orderId, status: order.status, at: new Date(order.updatedAt).toISOString() });
+      }
+    } catch (error) {
+      console.error(`[Order Events] Failed to poll status for ${orderId}:`, error);
+    }
+  };
+
+  const startPolling = (intervalMs: number) => {
+    if (stopped) return;
+    clearInterval(pollTimer);
+    pollTimer = setInterval(poll, intervalMs);
+  };
+
+  const fallBackToPolling = (error: unknown) => {
+    console.error(`[Order Events] Pub/sub unavailable for ${orderId}, polling instead:`, error);
+    unsubscribe?.().catch(() => undefined);
+    unsubscribe = undefined;
+    startPolling(FALLBACK_POLL_INTERVAL_MS);
+  };
+
+  try {
+    const subscriber = redis.client.subscribe<unknown>(REDIS_KEYS.ORDER_STATUS_CHANNEL(orderId));
+    subscriber.on('message', ({ message }) => {
+      const event = parseEvent(message);
+      if (event) emit(event);
+    });
+    subscriber.on('error', fallBackToPolling);
+    unsubscribe = () => subscriber.unsubscribe();
+    startPolling(SAFETY_POLL_INTERVAL_MS);
+  } catch (error) {
+    fallBackToPolling(error);
+  }
+
+  return () => {
+    stopped = true;
+    clearInterval(pollTimer);
+    unsubscribe?.().catch(() => undefined);
+  };
+}
@@ -0,0 +1,72 @@
+import { connectDB } from '@/lib/db/connection';
+import { expireOverdueOrders } from '@/lib/orders/state-machine';
+import { acquireLock, releaseLock } from '@/lib/redis';
+
+const LOCK_NAME = 'order-expiry-sweep';
+const BATCH_SIZE = parseInt(process.env.EXPIRY_SWEEP_BATCH_SIZE || '100', 10);
+const MAX_BATCHES = 20;
+
+// Stop starting new batches before the serverless function's 30s limit
+const TIME_BUDGET_MS = 20000;
+
+// Outlives the time budget so a crashed run can't hold the lock for long
+const LOCK_TTL_SECONDS = 60;
+
+export interface ExpirySweepResult {
+  // False when another run held the lock and this one did nothing
+  ran: boolean;
+  processed: number;
+  expired: number;
+  batches: number;
+  // True when overdue orders are probably left for the next run
+  hasMore: boolean;
+  durationMs: number;
+}
+
+/**
+ * Expire overdue pending orders in batches under a distributed lock so that
+ * overlapping cron invocations never sweep at the same time
+ */
+export async function sweepExpiredOrders(): Promise<ExpirySweepResult> {
+  const startedAt = Date.now();
+  const result: ExpirySweepResult = {
+    ran: false,
+    processed: 0,
+    expired: 0,
+    batches: 0,
+    hasMore: false,
+    durationMs: 0,
+  };
+
+  const lockToken = await acquireLock(LOCK_NAME, LOCK_TTL_SECONDS);
+  if (!lockToken) {
+    return result;
+  }
+
+  try {
+    await connectDB();
+    result.ran = true;
+
+    while (result.batches < MAX_BATCHES) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        result.hasMore = true;
+        break;
+      }
+
+      const batch = await expireOverdueOrders(BATCH_SIZE);
+      result.batches += 1;
+      result.processed += batch.processed;
+      result.expired += batch.expired;
+
+      if (batch.processed < BATCH_SIZE) {
+        break;
+      }
+      result.hasMore = result.batches === MAX_BATCHES;
+    }
+  } finally {
+    await releaseLock(LOCK_NAME, lockToken);
+    result.durationMs = Date.now() - startedAt;
+  }
+
+  return result;
+}
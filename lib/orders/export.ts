@@ -0,0 +1,161 @@
+import { once } from 'events';
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import type { FilterQuery } from 'mongoose';
+import { OrderModel, type OrderDocument } from '@/lib/db/models/Order';
+import { formatCSVRow, type CSVValue } from '@/lib/utils/csv';
+
+export const ORDER_EXPORT_FORMATS = ['csv', 'xlsx', 'jsonl'] as const;
+export type OrderExportFormat = (typeof ORDER_EXPORT_FORMATS)[number];
+
+export const ORDER_EXPORT_CONTENT_TYPES: Record<OrderExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+// Documents fetched from Mongo per round trip while streaming
+const CURSOR_BATCH_SIZE = 500;
+
+const EXPORT_COLUMNS: Array<{ key: string; header: string; width: number }> = [
+  { key: 'orderId', header: 'Order ID', width: 26 },
+  { key: 'createdAt', header: 'Created At', width: 24 },
+  { key: 'status', header: 'Status', width: 20 },
+  { key: 'amount', header: 'Amount', width: 12 },
+  { key: 'refundedAmount', header: 'Refunded Amount', width: 16 },
+  { key: 'description', header: 'Description', width: 32 },
+  { key: 'customerName', header: 'Customer Name', width: 22 },
+  { key: 'customerEmail', header: 'Customer Email', width: 26 },
+  { key: 'customerPhone', header: 'Customer Phone', width: 16 },
+  { key: 'upiId', header: 'UPI ID', width: 24 },
+  { key: 'utrNumber', header: 'UTR', width: 24 },
+  { key: 'createdBy', header: 'Created By', width: 28 },
+  { key: 'paymentLinkId', header: 'Payment Link', width: 24 },
+  { key: 'expiresAt', header: 'Expires At', width: 24 },
+  { key: 'verifiedAt', header: 'Verified At', width: 24 },
+  { key: 'verifiedBy', header: 'Verified By', width: 28 },
+  { key: 'completedAt', header: 'Completed At', width: 24 },
+];
+
+type ExportRecord = Record<string, string | number | null>;
+
+function toExportRecord(order: OrderDocument): ExportRecord {
+  const source = order as unknown as Record<string, unknown>;
+  const record: ExportRecord = {};
+  for (const { key } of EXPORT_COLUMNS) {
+    const value = source[key];
+    if (value instanceof Date) {
+      record[key] = value.toISOString();
+    } else if (typeof value === 'number' || typeof value === 'string') {
+      record[key] = value;
+    } else {
+      record[key] = value === undefined || value === null ? null : String(value);
+    }
+  }
+  record.refundedAmount = record.refundedAmount ?? 0;
+  return record;
+}
+
+async function* exportRecords(query: FilterQuery<OrderDocument>): AsyncGenerator<ExportRecord> {
+  const cursor = OrderModel.find(query)
+    .select(EXPORT_COLUMNS.map((column) => column.key).join(' '))
+    .sort({ createdAt: -1 })
+    .lean<OrderDocument>()
+    .batchSize(CURSOR_BATCH_SIZE)
+    .cursor();
+
+  try {
+    for await (const order of cursor) {
+      yield toExportRecord(order as OrderDocument);
+    }
+  } finally {
+    await cursor.close();
+  }
+}
+
+async function* textLines(
+  query: FilterQuery<OrderDocument>,
+  format: 'csv' | 'jsonl',
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    // BOM so Excel opens the file as UTF-8
+    yield `\uFEFF${formatCSVRow(EXPORT_COLUMNS.map((column) => column.header))}\r\n`;
+  }
+
+  for await (const record of exportRecords(query)) {
+    yield format === 'csv'
+      ? `${formatCSVRow(EXPORT_COLUMNS.map((column) => record[column.key] as CSVValue))}\r\n`
+      : `${JSON.stringify(record)}\n`;
+  }
+}
+
+async function writeWorkbook(query: FilterQuery<OrderDocument>, output: PassThrough) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet('Orders');
+  sheet.columns = EXPORT_COLUMNS;
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+
+  for await (const record of exportRecords(query)) {
+    // Committed rows are flushed to the zip stream and released
+    sheet.addRow(record).commit();
+    if (output.writableNeedDrain) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+    if (output.destroyed) {
+      // The download was cancelled
+      return;
+    }
+  }
+
+  sheet.commit();
+  await workbook.commit();
+}
+
+/**
+ * Stream every order matching `query`, newest first, without holding the result
+ * set in memory. Orders are read through a Mongo cursor and written out as they
+ * arrive; the stream errors if the cursor or the writer fails part way.
+ */
+export function createOrderExportStream(
+  query: FilterQuery<OrderDocument>,
+  format: OrderExportFormat,
+): ReadableStream<Uint8Array> {
+  if (format === 'xlsx') {
+    const output = new PassThrough();
+    writeWorkbook(query, output).catch((error) => output.destroy(error));
+    return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+  }
+
+  const lines = textLines(query, format);
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await lines.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await lines.return(undefined);
+    },
+  });
+}
+
+/**
+ * Attachment name such as `orders-2024-12-15.csv`
+ */
+export function orderExportFileName(format: OrderExportFormat, date = new Date()): string {
+  return `orders-${date.toISOString().slice(0, 10)}.${format}`;
+}
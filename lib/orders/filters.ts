@@ -0,0 +1,93 @@
+import type { FilterQuery } from 'mongoose';
+import { z } from 'zod';
+import type { OrderDocument } from '@/lib/db/models/Order';
+import { OrderStatusSchema } from '@/lib/types';
+
+/**
+ * Filters shared by the orders table, GET /api/orders and the export endpoint.
+ * Dates are inclusive; a bare `to` date covers the whole day.
+ */
+export const OrderFilterSchema = z
+  .object({
+    status: z.union([OrderStatusSchema, z.literal('all')]).optional(),
+    search: z.string().trim().max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: z.string().optional(),
+    merchant: z.string().trim().min(1).optional(),
+  })
+  .transform(({ to, ...filters }) => {
+    if (!to) return { ...filters, to: undefined };
+    const end = new Date(to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      end.setUTCHours(23, 59, 59, 999);
+    }
+    return { ...filters, to: end };
+  })
+  .refine((filters) => !filters.to || !Number.isNaN(filters.to.getTime()), {
+    message: 'Invalid date',
+    path: ['to'],
+  })
+  .refine((filters) => !filters.from || !filters.to || filters.from <= filters.to, {
+    message: 'Start date must be before end date',
+    path: ['from'],
+  });
+
+export type OrderFilters = z.infer<typeof OrderFilterSchema>;
+
+/**
+ * Read filters from query parameters, ignoring empty values
+ */
+export function parseOrderFilters(searchParams: URLSearchParams): OrderFilters {
+  const raw: Record<string, string> = {};
+  for (const key of ['status', 'search', 'from', 'to', 'merchant']) {
+    const value = searchParams.get(key);
+    if (value) raw[key] = value;
+  }
+  return OrderFilterSchema.parse(raw);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the Mongo query for a set of filters. `ownerId` restricts the result to
+ * one merchant's orders and takes precedence over the `merchant` filter, which
+ * only applies to callers allowed to see every order.
+ */
+export function buildOrderFilterQuery(
+  filters: OrderFilters,
+  ownerId?: string,
+): FilterQuery<OrderDocument> {
+  const query: FilterQuery<OrderDocument> = {};
+
+  if (ownerId) {
+    query.createdBy = ownerId;
+  } else if (filters.merchant) {
+    query.createdBy = filters.merchant;
+  }
+
+  if (filters.status && filters.status !== 'all') {
+    query.status = filters.status;
+  }
+
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    };
+  }
+
+  if (filters.search) {
+    const pattern = { $regex: escapeRegex(filters.search), $options: 'i' };
+    query.$or = [
+      { orderId: pattern },
+      { customerName: pattern },
+      { customerEmail: pattern },
+      { description: pattern },
+      { utrNumber: pattern },
+    ];
+  }
+
+  return query;
+}
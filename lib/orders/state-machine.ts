@@ -0,0 +1,487 @@
+import mongoose, { type FilterQuery } from 'mongoose';
+import type { NextRequest } from 'next/server';
+import { OrderModel, type OrderDocument, type OrderStatusChange } from '@/lib/db/models/Order';
+import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
+import { UserModel } from '@/lib/db/models/User';
+import type { WebhookEvent } from '@/lib/db/models/Webhook';
+import type { OrderStatus } from '@/lib/types';
+import {
+  AUDIT_ACTIONS,
+  createAuditLog,
+  createAuditLogFromRequest,
+  type AuditAction,
+} from '@/lib/utils/audit';
+import { isOrderExpired } from '@/lib/utils/upi-utils';
+import { publishOrderStatus } from '@/lib/orders/events';
+import { notifyOrderEvent, type OrderNotificationType } from '@/lib/notifications/service';
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatcher';
+import { buildOrderEventData, getOrderStatusEvent } from '@/lib/webhooks/payloads';
+import { releaseVpaUsage, restoreVpaUsage } from '@/lib/vpas/pool';
+
+export type OrderActorType = OrderStatusChange['actorType'];
+
+export interface OrderActor {
+  type: OrderActorType;
+  id: string;
+  email?: string;
+}
+
+export const SYSTEM_ACTOR: OrderActor = { type: 'system', id: 'system' };
+export const CUSTOMER_ACTOR: OrderActor = { type: 'customer', id: 'customer' };
+
+/**
+ * Returns an error message when the transition must not happen. `next` reads a
+ * field as it will be after the transition's own changes are applied.
+ */
+type TransitionGuard = (context: {
+  order: OrderDocument;
+  actor: OrderActor;
+  next: (field: string) => unknown;
+}) => string | null;
+
+interface TransitionRule {
+  from: OrderStatus;
+  to: OrderStatus;
+  actors: OrderActorType[];
+  guard?: TransitionGuard;
+}
+
+const requireUtr: TransitionGuard = ({ next }) =>
+  next('utrNumber') ? null : 'A UTR number is required for this transition';
+
+const requireOpenPaymentWindow: TransitionGuard = ({ order }) =>
+  isOrderExpired(order.expiresAt) ? 'Order has expired' : null;
+
+// Staff may close an order early; the system only expires orders whose window has elapsed
+const requireElapsedWindow: TransitionGuard = ({ order, actor }) =>
+  actor.type === 'system' && !isOrderExpired(order.expiresAt)
+    ? 'Order has not reached its expiry time'
+    : null;
+
+// Set by the risk engine on suspicious UTR submissions until an admin releases it
+const requireNoRiskHold: TransitionGuard = ({ next }) =>
+  next('risk.onHold') ? 'Order is on risk hold. Release the hold before completing it' : null;
+
+const requireFullRefund: TransitionGuard = ({ order, next }) =>
+  next('refundedPaise') === order.amountPaise
+    ? null
+    : 'A full refund must cover the whole order amount';
+
+const requirePartialRefund: TransitionGuard = ({ order, next }) => {
+  const refundedPaise = Number(next('refundedPaise'));
+  return refundedPaise > 0 && refundedPaise < order.amountPaise
+    ? null
+    : 'A partial refund must leave part of the order amount unrefunded';
+};
+
+const TRANSITIONS: TransitionRule[] = [
+  {
+    from: 'pending',
+    to: 'pending-verification',
+    actors: ['customer', 'user'],
+    guard: (context) => requireUtr(context) || requireOpenPaymentWindow(context),
+  },
+  { from: 'pending', to: 'failed', actors: ['user'] },
+  { from: 'pending', to: 'expired', actors: ['system', 'user'], guard: requireElapsedWindow },
+  {
+    from: 'pending-verification',
+    to: 'completed',
+    actors: ['user'],
+    guard: (context) => requireUtr(context) || requireNoRiskHold(context),
+  },
+  { from: 'pending-verification', to: 'failed', actors: ['user'] },
+  { from: 'failed', to: 'pending', actors: ['user'] },
+  { from: 'failed', to: 'pending-verification', actors: ['user'], guard: requireUtr },
+  { from: 'expired', to: 'pending', actors: ['user'] },
+  { from: 'expired', to: 'pending-verification', actors: ['user'], guard: requireUtr },
+  // Refund states are only entered through the refunds endpoint, which sets refundedPaise
+  { from: 'completed', to: 'partially-refunded', actors: ['user'], guard: requirePartialRefund },
+  { from: 'completed', to: 'refunded', actors: ['user'], guard: requireFullRefund },
+  {
+    from: 'partially-refunded',
+    to: 'partially-refunded',
+    actors: ['user'],
+    guard: requirePartialRefund,
+  },
+  { from: 'partially-refunded', to: 'refunded', actors: ['user'], guard: requireFullRefund },
+];
+
+export type OrderTransitionErrorCode =
+  | 'INVALID_STATUS_TRANSITION'
+  | 'TRANSITION_NOT_ALLOWED'
+  | 'TRANSITION_GUARD_FAILED'
+  | 'CONCURRENT_UPDATE';
+
+export class OrderTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OrderTransitionErrorCode,
+    public readonly from: string,
+    public readonly to: string,
+  ) {
+    super(message);
+    this.name = 'OrderTransitionError';
+  }
+
+  get httpStatus(): number {
+    return this.code === 'CONCURRENT_UPDATE' ? 409 : 400;
+  }
+}
+
+function findRule(from: string, to: string): TransitionRule | undefined {
+  return TRANSITIONS.find((rule) => rule.from === from && rule.to === to);
+}
+
+/**
+ * Whether the lifecycle allows moving from one status to another, optionally for a given actor
+ */
+export function canTransition(from: string, to: string, actorType?: OrderActorType): boolean {
+  const rule = findRule(from, to);
+  return Boolean(rule && (!actorType || rule.actors.includes(actorType)));
+}
+
+/**
+ * Statuses reachable from the given status, excluding self-transitions
+ */
+export function getAllowedTransitions(from: string, actorType?: OrderActorType): OrderStatus[] {
+  return TRANSITIONS.filter(
+    (rule) =>
+      rule.from === from && rule.to !== from && (!actorType || rule.actors.includes(actorType)),
+  ).map((rule) => rule.to);
+}
+
+export interface OrderTransitionEvent {
+  order: OrderDocument;
+  // The order as it was read, before this transition
+  previous: OrderDocument;
+  from: OrderStatus;
+  to: OrderStatus;
+  actor: OrderActor;
+  reason?: string;
+  options: TransitionOptions;
+}
+
+export type OrderTransitionHook = (event: OrderTransitionEvent) => Promise<void> | void;
+
+export interface TransitionOptions {
+  actor: OrderActor;
+  reason?: string;
+  // Extra fields written in the same update as the status change
+  set?: Record<string, unknown>;
+  push?: Record<string, unknown>;
+  // Extra conditions the stored order must still meet, e.g. an unchanged updatedAt
+  match?: FilterQuery<OrderDocument>;
+  // Request the audit entry is attributed to, plus an optional action and metadata override
+  audit?: {
+    request?: NextRequest;
+    action?: string;
+    metadata?: Record<string, unknown>;
+  };
+  // Merged into the order webhook payload, e.g. the refund that caused the transition
+  webhookData?: Record<string, unknown>;
+}
+
+const hooks: OrderTransitionHook[] = [];
+
+/**
+ * Register a side effect to run after every successful transition.
+ * Hooks run in registration order; a failing hook is logged and never undoes the transition.
+ */
+export function registerOrderTransitionHook(hook: OrderTransitionHook): () => void {
+  hooks.push(hook);
+  return () => {
+    const index = hooks.indexOf(hook);
+    if (index !== -1) hooks.splice(index, 1);
+  };
+}
+
+/**
+ * Move an order to a new status. The write only succeeds if the stored order is
+ * still in the status it was read with, so concurrent writers cannot both win.
+ */
+export async function transitionOrder(
+  order: OrderDocument,
+  to: OrderStatus,
+  options: TransitionOptions,
+): Promise<OrderDocument> {
+  const from = order.status;
+  const { actor } = options;
+  const rule = findRule(from, to);
+
+  if (!rule) {
+    throw new OrderTransitionError(
+      `Invalid status transition from '${from}' to '${to}'`,
+      'INVALID_STATUS_TRANSITION',
+      from,
+      to,
+    );
+  }
+
+  if (!rule.actors.includes(actor.type)) {
+    throw new OrderTransitionError(
+      `A ${actor.type} cannot move an order from '${from}' to '${to}'`,
+      'TRANSITION_NOT_ALLOWED',
+      from,
+      to,
+    );
+  }
+
+  const set = options.set ?? {};
+  const guardError = rule.guard?.({
+    order,
+    actor,
+    next: (field) => (field in set ? set[field] : order.get(field)),
+  });
+
+  if (guardError) {
+    throw new OrderTransitionError(guardError, 'TRANSITION_GUARD_FAILED', from, to);
+  }
+
+  const change: OrderStatusChange = {
+    from,
+    to,
+    actorType: actor.type,
+    actorId: actor.id,
+    actorEmail: actor.email,
+    reason: options.reason,
+    at: new Date(),
+  };
+
+  const updated = await OrderModel.findOneAndUpdate(
+    { ...options.match, _id: order._id, status: from },
+    {
+      $set: { ...set, status: to },
+      $push: { ...options.push, statusHistory: change },
+    },
+    { new: true, runValidators: true, statusTransition: true },
+  );
+
+  if (!updated) {
+    throw new OrderTransitionError(
+      'Order was modified by another request. Please retry.',
+      'CONCURRENT_UPDATE',
+      from,
+      to,
+    );
+  }
+
+  const event: OrderTransitionEvent = {
+    order: updated,
+    previous: order,
+    from,
+    to,
+    actor,
+    reason: options.reason,
+    options,
+  };
+
+  for (const hook of hooks) {
+    try {
+      await hook(event);
+    } catch (error) {
+      console.error(`[Order State Machine] Hook failed for ${updated.orderId}:`, error);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Expire a pending order whose payment window has elapsed. Returns the current
+ * order, whether or not this call was the one that expired it.
+ */
+export async function expireIfOverdue(order: OrderDocument): Promise<OrderDocument> {
+  if (order.status !== 'pending' || !isOrderExpired(order.expiresAt)) {
+    return order;
+  }
+
+  try {
+    return await transitionOrder(order, 'expired', {
+      actor: SYSTEM_ACTOR,
+      reason: 'Payment window elapsed',
+    });
+  } catch (error) {
+    if (error instanceof OrderTransitionError && error.code === 'CONCURRENT_UPDATE') {
+      return (await OrderModel.findById(order._id)) ?? order;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expire one batch of overdue pending orders, oldest first, running the usual
+ * transition hooks for each. `processed` counts orders looked at; orders another
+ * writer moved on in the meantime are processed but not counted as expired.
+ */
+export async function expireOverdueOrders(
+  limit = 500,
+): Promise<{ processed: number; expired: number }> {
+  const overdue = await OrderModel.find({
+    status: 'pending',
+    expiresAt: { $lt: new Date() },
+  })
+    .sort({ expiresAt: 1 })
+    .limit(limit);
+
+  let expired = 0;
+  for (const order of overdue) {
+    try {
+      await transitionOrder(order, 'expired', {
+        actor: SYSTEM_ACTOR,
+        reason: 'Payment window elapsed',
+      });
+      expired++;
+    } catch (error) {
+      if (!(error instanceof OrderTransitionError && error.code === 'CONCURRENT_UPDATE')) {
+        throw error;
+      }
+    }
+  }
+
+  return { processed: overdue.length, expired };
+}
+
+const AUDIT_ACTION_BY_STATUS: Partial<Record<OrderStatus, AuditAction>> = {
+  'pending-verification': AUDIT_ACTIONS.ORDER_UTR_SUBMITTED,
+  completed: AUDIT_ACTIONS.ORDER_VERIFIED,
+  failed: AUDIT_ACTIONS.ORDER_FAILED,
+  expired: AUDIT_ACTIONS.ORDER_EXPIRED,
+  'partially-refunded': AUDIT_ACTIONS.ORDER_REFUNDED,
+  refunded: AUDIT_ACTIONS.ORDER_REFUNDED,
+};
+
+async function auditTransition({ order, from, to, actor, reason, options }: OrderTransitionEvent) {
+  const action = options.audit?.action ?? AUDIT_ACTION_BY_STATUS[to] ?? AUDIT_ACTIONS.ORDER_UPDATED;
+  const metadata = {
+    previousStatus: from,
+    newStatus: to,
+    reason,
+    amount: order.amount,
+    customerName: order.customerName,
+    utrNumber: order.utrNumber,
+    ...options.audit?.metadata,
+  };
+  const userEmail = actor.email || order.customerEmail || `${actor.id}@${actor.type}`;
+
+  if (options.audit?.request) {
+    await createAuditLogFromRequest(
+      options.audit.request,
+      action,
+      'Order',
+      order.orderId,
+      actor.id,
+      userEmail,
+      metadata,
+    );
+    return;
+  }
+
+  await createAuditLog({
+    action,
+    entityType: 'Order',
+    entityId: order.orderId,
+    userId: actor.id,
+    userEmail,
+    ipAddress: actor.type,
+    userAgent: actor.type,
+    metadata,
+  });
+}
+
+const WEBHOOK_EVENT_BY_STATUS: Partial<Record<OrderStatus, WebhookEvent>> = {
+  'pending-verification': 'order.utr_submitted',
+  'partially-refunded': 'order.refunded',
+  refunded: 'order.refunded',
+};
+
+async function notifyWebhooks({ order, from, to, options }: OrderTransitionEvent) {
+  const event = WEBHOOK_EVENT_BY_STATUS[to] ?? getOrderStatusEvent(to);
+  // Self-transitions are only meaningful for refunds, which always carry webhook data
+  if (!event || (from === to && !options.webhookData)) return;
+
+  await dispatchWebhookEvent(event, order.createdBy, {
+    ...buildOrderEventData(order),
+    ...options.webhookData,
+  });
+}
+
+const NOTIFICATION_BY_STATUS: Partial<Record<OrderStatus, OrderNotificationType>> = {
+  'pending-verification': 'utr_received',
+  completed: 'payment_verified',
+  failed: 'payment_failed',
+};
+
+async function sendNotifications({ order, from, to }: OrderTransitionEvent) {
+  const type = NOTIFICATION_BY_STATUS[to];
+  if (!type || from === to) return;
+
+  await notifyOrderEvent(type, order);
+}
+
+const STATS_COUNTER_BY_STATUS: Partial<Record<OrderStatus, string>> = {
+  completed: 'stats.successfulOrders',
+  expired: 'stats.expiredOrders',
+};
+
+const REFUND_STATUSES: OrderStatus[] = ['partially-refunded', 'refunded'];
+
+async function updateStats({ order, previous, to }: OrderTransitionEvent) {
+  const increments: Record<string, number> = {};
+  const counter = STATS_COUNTER_BY_STATUS[to];
+  if (counter) {
+    increments[counter] = 1;
+  }
+
+  // Completed orders add to the paid total and refunds take back what they newly
+  // refunded, both in integer paise
+  if (to === 'completed' && order.amountPaise) {
+    increments['stats.totalAmountPaise'] = order.amountPaise;
+  } else if (REFUND_STATUSES.includes(to)) {
+    const refundedPaise = (order.refundedPaise ?? 0) - (previous.refundedPaise ?? 0);
+    if (refundedPaise > 0) {
+      increments['stats.totalAmountPaise'] = -refundedPaise;
+    }
+  }
+
+  if (Object.keys(increments).length === 0) return;
+
+  if (mongoose.isValidObjectId(order.createdBy)) {
+    await UserModel.updateOne({ _id: order.createdBy }, { $inc: increments });
+  }
+
+  if (order.paymentLinkId) {
+    await PaymentLinkModel.updateOne({ linkId: order.paymentLinkId }, { $inc: increments });
+  }
+}
+
+const UNPAID_STATUSES: OrderStatus[] = ['expired', 'failed'];
+
+// Orders that end unpaid stop counting against their UPI ID's daily caps
+async function updateVpaUsage({ order, from, to }: OrderTransitionEvent) {
+  const wasUnpaid = UNPAID_STATUSES.includes(from);
+  const isUnpaid = UNPAID_STATUSES.includes(to);
+  if (isUnpaid && !wasUnpaid) {
+    await releaseVpaUsage(order);
+  } else if (wasUnpaid && !isUnpaid) {
+    await restoreVpaUsage(order);
+  }
+}
+
+// Lets the payment page follow the order live; see /api/orders/[orderId]/events
+async function publishStatus({ order, from, to }: OrderTransitionEvent) {
+  if (from === to) return;
+
+  await publishOrderStatus({
+    orderId: order.orderId,
+    status: to,
+    previousStatus: from,
+    at: order.updatedAt.toISOString(),
+  });
+}
+
+registerOrderTransitionHook(auditTransition);
+registerOrderTransitionHook(notifyWebhooks);
+registerOrderTransitionHook(sendNotifications);
+registerOrderTransitionHook(updateStats);
+registerOrderTransitionHook(updateVpaUsage);
+registerOrderTransitionHook(publishStatus);
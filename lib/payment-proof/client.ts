@@ -0,0 +1,67 @@
+import type { PaymentProofMismatch } from '@/lib/payment-proof/extract';
+
+export const PAYMENT_PROOF_ACCEPT = 'image/png,image/jpeg,image/webp';
+
+export interface ScannedPaymentProof {
+  scanned: boolean;
+  utr?: string;
+  amount?: number;
+  payeeVpa?: string;
+  paidAt?: string;
+  mismatches: PaymentProofMismatch[];
+}
+
+/**
+ * Ask the server to read a payment screenshot before the UTR is submitted.
+ * Throws with the server's message when the upload is rejected.
+ */
+export async function scanPaymentScreenshot(
+  orderId: string,
+  screenshot: File,
+): Promise<ScannedPaymentProof> {
+  const form = new FormData();
+  form.append('screenshot', screenshot);
+
+  const response = await fetch(`/api/orders/${orderId}/utr/scan`, { method: 'POST', body: form });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to read screenshot');
+  }
+  return result.data;
+}
+
+/**
+ * Request body for a UTR submission: JSON, or multipart when a screenshot is attached
+ */
+export function buildUtrSubmission(
+  utr: string,
+  screenshot?: File,
+): { body: FormData | string; headers: Record<string, string> } {
+  if (!screenshot) {
+    return { body: JSON.stringify({ utr }), headers: { 'Content-Type': 'application/json' } };
+  }
+
+  const form = new FormData();
+  if (utr) form.append('utr', utr);
+  form.append('screenshot', screenshot);
+  // The browser sets the multipart boundary itself
+  return { body: form, headers: {} };
+}
+
+/**
+ * Warnings worth showing the customer before they submit
+ */
+export function describeProofMismatches(proof: ScannedPaymentProof): string[] {
+  return proof.mismatches.map((mismatch) => {
+    switch (mismatch.field) {
+      case 'amount':
+        return `The screenshot shows ₹${mismatch.found}, but this order is for ₹${mismatch.expected}.`;
+      case 'payeeVpa':
+        return `The screenshot shows a payment to ${mismatch.found}, not ${mismatch.expected}.`;
+      case 'paidAt':
+        return 'The screenshot is dated outside the time this order was open.';
+      default:
+        return 'The screenshot shows a different UTR.';
+    }
+  });
+}
@@ -0,0 +1,158 @@
+import {
+  extractUtrCandidates,
+  parseStatementAmount,
+  parseStatementDate,
+} from '@/lib/reconciliation/statement-parser';
+import { toPaise } from '@/lib/utils/money';
+
+// Payment apps show times in IST
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Screenshots show times to the minute, and phone clocks drift
+const PAID_AT_TOLERANCE_MS = 10 * 60 * 1000;
+
+export interface PaymentProofDetails {
+  utr?: string;
+  amount?: number;
+  // The VPA the money went to, when the screenshot labels it
+  payeeVpa?: string;
+  // Every VPA on the screenshot, which usually includes the payer's own
+  vpas: string[];
+  paidAt?: Date;
+}
+
+export type PaymentProofField = 'utr' | 'amount' | 'payeeVpa' | 'paidAt';
+
+export interface PaymentProofMismatch {
+  field: PaymentProofField;
+  expected: string;
+  found: string;
+}
+
+export interface PaymentProofExpectation {
+  utr?: string;
+  amount: number;
+  vpa?: string;
+  orderCreatedAt: Date;
+  submittedAt?: Date;
+}
+
+// GPay labels the RRN "UPI transaction ID", which the statement patterns don't cover
+const TRANSACTION_ID_PATTERN = /\bUPI\s*(?:transaction|txn)\s*ID[\s.:#-]*(\d{12})\b/gi;
+const AMOUNT_PATTERN =
+  /(?:₹|\bRs\.?|\bINR)\s*(\d{1,3}(?:,\d{2,3})*(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)/gi;
+// VPA handles are bank codes without dots, which keeps email addresses out
+const VPA_PATTERN = /\b([a-z0-9][a-z0-9._-]{1,255}@[a-z]{2,64})\b(?!\.[a-z])/gi;
+// Apps put the payee's name between the label and the VPA, and the payer after a "From" label
+const PAYEE_LABEL_PATTERN =
+  /\b(?:paid\s+to|to|payee|sent\s+to)\b(?:(?!\bfrom\b)[^@]){0,80}?([a-z0-9][a-z0-9._-]{1,255}@[a-z]{2,64})\b/i;
+const DATE_PATTERN = /\b(\d{1,2}[\s/-][A-Za-z]{3,9}[\s,/-]+\d{4}|\d{1,2}[/.-]\d{1,2}[/.-]\d{4})\b/;
+const TIME_PATTERN =
+  /\b(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap])\.?\s*m\b\.?|\b([01]?\d|2[0-3]):(\d{2})\b/i;
+
+function extractUtr(text: string): string | undefined {
+  const labelled = [...text.matchAll(TRANSACTION_ID_PATTERN)].map((match) => match[1]);
+  const candidates = [...labelled, ...extractUtrCandidates(text)];
+  // UPI references are 12-digit RRNs; other IDs on the screen are app-specific
+  return candidates.find((candidate) => /^\d{12}$/.test(candidate)) ?? candidates[0];
+}
+
+function extractAmount(text: string): number | undefined {
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const amount = parseStatementAmount(match[1]);
+    if (amount !== undefined && amount > 0) {
+      return amount;
+    }
+  }
+  return undefined;
+}
+
+function extractPaidAt(text: string): Date | undefined {
+  const dateMatch = DATE_PATTERN.exec(text);
+  const timeMatch = TIME_PATTERN.exec(text);
+  if (!dateMatch || !timeMatch) {
+    return undefined;
+  }
+
+  const day = parseStatementDate(dateMatch[1].replace(/,/g, ' ').replace(/\s+/g, ' '));
+  if (!day) {
+    return undefined;
+  }
+
+  let hours: number;
+  let minutes: number;
+  if (timeMatch[3]) {
+    hours = (Number(timeMatch[1]) % 12) + (timeMatch[3].toLowerCase() === 'p' ? 12 : 0);
+    minutes = Number(timeMatch[2]);
+  } else {
+    hours = Number(timeMatch[4]);
+    minutes = Number(timeMatch[5]);
+  }
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+
+  return new Date(day.getTime() + (hours * 60 + minutes) * 60 * 1000 - IST_OFFSET_MS);
+}
+
+/**
+ * Pull the UTR, amount, VPAs and payment time out of the OCR text of a
+ * payment app's success screen. Fields that can't be read are left out.
+ */
+export function extractPaymentDetails(text: string): PaymentProofDetails {
+  const vpas = [...new Set([...text.matchAll(VPA_PATTERN)].map((match) => match[1].toLowerCase()))];
+
+  return {
+    utr: extractUtr(text),
+    amount: extractAmount(text),
+    payeeVpa: PAYEE_LABEL_PATTERN.exec(text)?.[1].toLowerCase(),
+    vpas,
+    paidAt: extractPaidAt(text),
+  };
+}
+
+/**
+ * Compare what a screenshot shows with the order and the submitted UTR.
+ * Fields missing from the screenshot are not treated as mismatches.
+ */
+export function comparePaymentProof(
+  details: PaymentProofDetails,
+  expected: PaymentProofExpectation,
+): PaymentProofMismatch[] {
+  const mismatches: PaymentProofMismatch[] = [];
+
+  if (details.utr && expected.utr && details.utr !== expected.utr.toUpperCase()) {
+    mismatches.push({ field: 'utr', expected: expected.utr.toUpperCase(), found: details.utr });
+  }
+
+  if (details.amount !== undefined && toPaise(details.amount) !== toPaise(expected.amount)) {
+    mismatches.push({
+      field: 'amount',
+      expected: expected.amount.toFixed(2),
+      found: details.amount.toFixed(2),
+    });
+  }
+
+  const vpa = expected.vpa?.toLowerCase();
+  const shown = details.payeeVpa ? [details.payeeVpa] : details.vpas;
+  if (vpa && shown.length > 0 && !shown.includes(vpa)) {
+    mismatches.push({ field: 'payeeVpa', expected: vpa, found: shown.join(', ') });
+  }
+
+  if (details.paidAt) {
+    const paidAt = details.paidAt.getTime();
+    const submittedAt = (expected.submittedAt ?? new Date()).getTime();
+    if (
+      paidAt + PAID_AT_TOLERANCE_MS < expected.orderCreatedAt.getTime() ||
+      paidAt - PAID_AT_TOLERANCE_MS > submittedAt
+    ) {
+      mismatches.push({
+        field: 'paidAt',
+        expected: `${expected.orderCreatedAt.toISOString()} – ${new Date(submittedAt).toISOString()}`,
+        found: details.paidAt.toISOString(),
+      });
+    }
+  }
+
+  return mismatches;
+}
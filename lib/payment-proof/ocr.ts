@@ -0,0 +1,56 @@
+import { createWorker, type Worker } from 'tesseract.js';
+
+// Recognition runs on this server's CPU; give up rather than hold the request open
+const OCR_TIMEOUT_MS = parseInt(process.env.OCR_TIMEOUT_MS || '20000', 10);
+
+// Starting a worker loads the language data, so one is kept for every request
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  const langPath = process.env.OCR_LANG_PATH;
+  if (!langPath) {
+    return Promise.reject(new Error('OCR_LANG_PATH is not set'));
+  }
+
+  if (!workerPromise) {
+    const starting = createWorker('eng', undefined, {
+      langPath,
+      // Read eng.traineddata as is, without writing a cached copy to the working directory
+      gzip: false,
+      cacheMethod: 'none',
+    });
+    starting.catch(() => {
+      if (workerPromise === starting) workerPromise = null;
+    });
+    workerPromise = starting;
+  }
+  return workerPromise;
+}
+
+/**
+ * Read the text on an image with Tesseract. Language data is loaded once from
+ * OCR_LANG_PATH; nothing is downloaded. Requests share one worker, which reads
+ * one image at a time.
+ */
+export async function recognizeImageText(image: Buffer): Promise<string> {
+  const current = getWorker();
+  const worker = await current;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('OCR timed out')), OCR_TIMEOUT_MS);
+    });
+    const result = await Promise.race([worker.recognize(image), timeout]);
+    return result.data.text;
+  } catch (error) {
+    // A job that timed out or failed may leave the worker busy; start a fresh one next time
+    if (workerPromise === current) {
+      workerPromise = null;
+      await worker.terminate().catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { extractPaymentDetails, type PaymentProofDetails } from '@/lib/payment-proof/extract';
+import { recognizeImageText } from '@/lib/payment-proof/ocr';
+import { getStorage } from '@/lib/storage';
+
+export const MAX_PAYMENT_PROOF_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_SIGNATURES: Array<{
+  contentType: string;
+  extension: string;
+  matches: (data: Buffer) => boolean;
+}> = [
+  {
+    contentType: 'image/png',
+    extension: 'png',
+    matches: (data) => data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47])),
+  },
+  {
+    contentType: 'image/jpeg',
+    extension: 'jpg',
+    matches: (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  },
+  {
+    contentType: 'image/webp',
+    extension: 'webp',
+    matches: (data) =>
+      data.subarray(0, 4).toString('ascii') === 'RIFF' &&
+      data.subarray(8, 12).toString('ascii') === 'WEBP',
+  },
+];
+
+export class PaymentProofError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'PaymentProofError';
+  }
+}
+
+export interface PaymentProofImage {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export interface PaymentProofScan extends PaymentProofDetails {
+  // False when OCR failed; the submission then goes ahead on the typed UTR alone
+  scanned: boolean;
+}
+
+/**
+ * Read an uploaded screenshot, checking its size and that its bytes really
+ * are a PNG, JPEG or WebP image whatever the browser claims
+ */
+export async function readPaymentProofImage(file: File): Promise<PaymentProofImage> {
+  if (file.size === 0) {
+    throw new PaymentProofError('The screenshot is empty', 'EMPTY_FILE');
+  }
+  if (file.size > MAX_PAYMENT_PROOF_BYTES) {
+    throw new PaymentProofError('The screenshot must be 5 MB or smaller', 'FILE_TOO_LARGE');
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+  const signature = IMAGE_SIGNATURES.find((candidate) => candidate.matches(data));
+  if (!signature) {
+    throw new PaymentProofError(
+      'The screenshot must be a PNG, JPEG or WebP image',
+      'UNSUPPORTED_FILE_TYPE',
+    );
+  }
+
+  return { data, contentType: signature.contentType, extension: signature.extension };
+}
+
+/**
+ * OCR a screenshot and pull out the payment details. Never throws; a failed
+ * scan is reported with `scanned: false` and no details.
+ */
+export async function scanPaymentProof(image: PaymentProofImage): Promise<PaymentProofScan> {
+  try {
+    const text = await recognizeImageText(image.data);
+    return { ...extractPaymentDetails(text), scanned: true };
+  } catch (error) {
+    console.error('[Payment Proof] OCR failed:', error);
+    return { vpas: [], scanned: false };
+  }
+}
+
+/**
+ * Save a screenshot for an order and return its storage key
+ */
+export async function storePaymentProof(
+  orderId: string,
+  image: PaymentProofImage,
+): Promise<string> {
+  const key = `payment-proofs/${orderId}/${randomUUID()}.${image.extension}`;
+  await getStorage().put(key, image.data, image.contentType);
+  return key;
+}
@@ -0,0 +1,174 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { z } from 'zod';
+import {
+  MAX_QR_CAPTION_LENGTH,
+  QR_FORMATS,
+  QR_LOGO_TYPES,
+  QrCodeError,
+  drawQrOnPdfPage,
+  layoutQrCode,
+  type QrLogo,
+  type QrLogoType,
+} from '@/lib/qr/render';
+import { toPdfText } from '@/lib/receipts/pdf';
+import { formatINR, type Paise } from '@/lib/utils/money';
+
+export const POSTER_TEMPLATES = ['standee', 'poster'] as const;
+
+export type PosterTemplate = (typeof POSTER_TEMPLATES)[number];
+
+// Page sizes in points: a standee is an A5 card for a counter, a poster is A4 for a wall
+const PAGE_SIZES: Record<PosterTemplate, [number, number]> = {
+  standee: [420, 595],
+  poster: [595, 842],
+};
+
+export interface PosterContent {
+  // What the QR code opens, e.g. the payment link's public URL or a upi://pay link
+  url: string;
+  payeeName: string;
+  upiId: string;
+  title: string;
+  // Fixed-amount links only
+  amountPaise?: Paise;
+}
+
+export interface PosterOptions {
+  template?: PosterTemplate;
+  // #rrggbb; the header band and the QR code's modules
+  foreground?: string;
+  background?: string;
+  logo?: QrLogo;
+  // Printed under the QR code, e.g. "Pay with any UPI app"
+  caption?: string;
+}
+
+const HexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, 'Must be a color like #1a2b3c');
+
+// A payment link's QR code on its own, or on a printable template
+export const PaymentLinkQrSchema = z.object({
+  template: z.enum(['plain', 'standee', 'poster']).default('plain'),
+  // Templates are always PDF
+  format: z.enum(QR_FORMATS).default('png'),
+  size: z.number().int().min(64).max(2048).optional(),
+  foreground: HexColorSchema.optional(),
+  background: HexColorSchema.optional(),
+  caption: z.string().trim().max(MAX_QR_CAPTION_LENGTH).optional(),
+  // data:image/png;base64,...
+  logo: z.string().max(400000).optional(),
+});
+
+/**
+ * Read a logo sent as a data URL, as an <input type="file"> gives it
+ */
+export function parseLogoDataUrl(dataUrl: string): QrLogo {
+  const match = /^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl);
+  if (!match || !QR_LOGO_TYPES.includes(match[1] as QrLogoType)) {
+    throw new QrCodeError('The logo must be a PNG or JPEG image', 'INVALID_LOGO');
+  }
+  return { contentType: match[1] as QrLogoType, data: Buffer.from(match[2], 'base64') };
+}
+
+function drawCentered(
+  page: PDFPage,
+  text: string,
+  {
+    y,
+    font,
+    size,
+    color,
+  }: { y: number; font: PDFFont; size: number; color: ReturnType<typeof rgb> },
+) {
+  const maxWidth = page.getWidth() * 0.85;
+  let fontSize = size;
+  while (fontSize > 6 && font.widthOfTextAtSize(text, fontSize) > maxWidth) {
+    fontSize -= 0.5;
+  }
+  page.drawText(text, {
+    x: (page.getWidth() - font.widthOfTextAtSize(text, fontSize)) / 2,
+    y,
+    size: fontSize,
+    font,
+    color,
+  });
+}
+
+/**
+ * A printable "scan to pay" page for a payment link: the payee's name on a band
+ * in the brand color, a large QR code, what the link is for and the UPI ID as a
+ * fallback. Sizes scale with the page so both templates share one layout.
+ */
+export async function renderPaymentLinkPoster(
+  content: PosterContent,
+  options: PosterOptions = {},
+): Promise<Buffer> {
+  const template = options.template ?? 'standee';
+  const [width, height] = PAGE_SIZES[template];
+  const qr = layoutQrCode(content.url, {
+    foreground: options.foreground,
+    background: options.background,
+    logo: options.logo,
+    caption: options.caption,
+  });
+  const [r, g, b] = qr.foreground;
+  const brand = rgb(r / 255, g / 255, b / 255);
+  const muted = rgb(0.42, 0.44, 0.48);
+  const unit = width / 420;
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${toPdfText(content.title)} - Scan to pay`);
+  const page = pdf.addPage([width, height]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  // The foreground is dark enough to scan on the background, so white reads on it
+  const bandHeight = 84 * unit;
+  page.drawRectangle({ x: 0, y: height - bandHeight, width, height: bandHeight, color: brand });
+  drawCentered(page, toPdfText(content.payeeName), {
+    y: height - bandHeight / 2 - 8 * unit,
+    font: bold,
+    size: 24 * unit,
+    color: rgb(1, 1, 1),
+  });
+
+  drawCentered(page, 'Scan to pay', {
+    y: height - bandHeight - 52 * unit,
+    font: bold,
+    size: 30 * unit,
+    color: rgb(0.12, 0.12, 0.14),
+  });
+
+  const qrSize = width * 0.62;
+  const qrTop = height - bandHeight - 76 * unit;
+  await drawQrOnPdfPage(page, qr, { x: (width - qrSize) / 2, top: qrTop, size: qrSize });
+
+  let y = qrTop - qrSize - (qr.caption ? qrSize * 0.12 : 0) - 36 * unit;
+  drawCentered(page, toPdfText(content.title), { y, font: bold, size: 18 * unit, color: brand });
+  if (content.amountPaise) {
+    y -= 28 * unit;
+    drawCentered(page, toPdfText(formatINR(content.amountPaise)), {
+      y,
+      font: bold,
+      size: 22 * unit,
+      color: rgb(0.12, 0.12, 0.14),
+    });
+  }
+
+  drawCentered(page, `UPI ID: ${content.upiId}`, {
+    y: 44 * unit,
+    font: regular,
+    size: 11 * unit,
+    color: muted,
+  });
+  // A web address is worth printing for people without a camera; a upi:// link is not
+  if (/^https?:\/\//.test(content.url)) {
+    drawCentered(page, toPdfText(content.url), {
+      y: 26 * unit,
+      font: regular,
+      size: 9 * unit,
+      color: muted,
+    });
+  }
+
+  return Buffer.from(await pdf.save());
+}
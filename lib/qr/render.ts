@@ -0,0 +1,477 @@
+import { PDFDocument, StandardFonts, rgb, type PDFPage, type RGB } from 'pdf-lib';
+import { PNG } from 'pngjs';
+import { create, type QRCodeErrorCorrectionLevel } from 'qrcode';
+import { toPdfText } from '@/lib/receipts/pdf';
+
+export const QR_FORMATS = ['png', 'svg', 'pdf'] as const;
+
+export type QrFormat = (typeof QR_FORMATS)[number];
+
+export const QR_LOGO_TYPES = ['image/png', 'image/jpeg'] as const;
+
+export type QrLogoType = (typeof QR_LOGO_TYPES)[number];
+
+export const MAX_QR_LOGO_BYTES = 256 * 1024;
+
+// A small file can declare a huge image, so the size is checked before any pixels are decoded
+export const MAX_QR_LOGO_PIXELS = 1024 * 1024;
+
+export const MAX_QR_CAPTION_LENGTH = 60;
+
+export interface QrLogo {
+  data: Buffer;
+  contentType: QrLogoType;
+}
+
+export interface QrRenderOptions {
+  format?: QrFormat;
+  // Width in pixels for PNG and SVG, in points for PDF
+  size?: number;
+  // Quiet zone, in modules
+  margin?: number;
+  // #rrggbb
+  foreground?: string;
+  background?: string;
+  // Drawn over the centre; raises error correction to H so the code still scans
+  logo?: QrLogo;
+  // Printed under the code; SVG and PDF only
+  caption?: string;
+  errorCorrectionLevel?: QRCodeErrorCorrectionLevel;
+}
+
+export interface RenderedQrCode {
+  data: Buffer;
+  contentType: string;
+  extension: QrFormat;
+}
+
+export class QrCodeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'QrCodeError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Share of the code's width the logo covers. Level H recovers 30% of the code.
+const LOGO_SCALE = 0.22;
+
+// Scanners need dark modules on a light background with enough contrast between them
+const MIN_CONTRAST = 3;
+
+type Rgb = [number, number, number];
+
+function parseColor(hex: string, label: string): Rgb {
+  if (!HEX_COLOR.test(hex)) {
+    throw new QrCodeError(`${label} must be a color like #1a2b3c`, 'INVALID_COLOR');
+  }
+  return [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16)) as Rgb;
+}
+
+function luminance([r, g, b]: Rgb): number {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * Contrast ratio between two colors, from 1 (none) to 21 (black on white)
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const fg = luminance(parseColor(foreground, 'Foreground'));
+  const bg = luminance(parseColor(background, 'Background'));
+  return (Math.max(fg, bg) + 0.05) / (Math.min(fg, bg) + 0.05);
+}
+
+export interface QrLayout {
+  modules: { size: number; get(row: number, col: number): number };
+  margin: number;
+  // Width of the code including its quiet zone, in modules
+  span: number;
+  foreground: Rgb;
+  background: Rgb;
+  foregroundHex: string;
+  backgroundHex: string;
+  logo?: QrLogo;
+  caption?: string;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * The width and height a PNG or JPEG declares in its header, without decoding it
+ */
+function readImageSize(logo: QrLogo): { width: number; height: number } | null {
+  const { data } = logo;
+  if (logo.contentType === 'image/png') {
+    // The IHDR chunk always comes first, right after the signature
+    if (
+      data.length < 24 ||
+      !data.subarray(0, 8).equals(PNG_SIGNATURE) ||
+      data.toString('latin1', 12, 16) !== 'IHDR'
+    ) {
+      return null;
+    }
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // Walk the JPEG markers up to the start-of-frame segment, which holds the size
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Work out the modules of a QR code and check its colors, logo and caption, for
+ * drawing with one of the renderers below
+ */
+export function layoutQrCode(text: string, options: QrRenderOptions = {}): QrLayout {
+  const foregroundHex = options.foreground ?? '#000000';
+  const backgroundHex = options.background ?? '#ffffff';
+  const foreground = parseColor(foregroundHex, 'Foreground');
+  const background = parseColor(backgroundHex, 'Background');
+  if (
+    luminance(foreground) >= luminance(background) ||
+    contrastRatio(foregroundHex, backgroundHex) < MIN_CONTRAST
+  ) {
+    throw new QrCodeError(
+      'The foreground color must be darker than the background, with enough contrast to scan',
+      'LOW_CONTRAST',
+    );
+  }
+
+  if (options.logo) {
+    if (!QR_LOGO_TYPES.includes(options.logo.contentType)) {
+      throw new QrCodeError('The logo must be a PNG or JPEG image', 'INVALID_LOGO');
+    }
+    if (options.logo.data.length > MAX_QR_LOGO_BYTES) {
+      throw new QrCodeError('The logo must be 256 KB or smaller', 'INVALID_LOGO');
+    }
+    const logoSize = readImageSize(options.logo);
+    if (!logoSize) {
+      throw new QrCodeError('The logo could not be read as an image', 'INVALID_LOGO');
+    }
+    if (logoSize.width * logoSize.height > MAX_QR_LOGO_PIXELS) {
+      throw new QrCodeError('The logo must be at most 1024×1024 pixels', 'INVALID_LOGO');
+    }
+  }
+
+  const caption = options.caption?.trim() || undefined;
+  if (caption && caption.length > MAX_QR_CAPTION_LENGTH) {
+    throw new QrCodeError(
+      `The caption must be at most ${MAX_QR_CAPTION_LENGTH} characters`,
+      'INVALID_CAPTION',
+    );
+  }
+
+  const errorCorrectionLevel = options.logo ? 'H' : (options.errorCorrectionLevel ?? 'M');
+  let modules: QrLayout['modules'];
+  try {
+    ({ modules } = create(text, { errorCorrectionLevel }));
+  } catch {
+    throw new QrCodeError('The text is too long for a QR code', 'TEXT_TOO_LONG');
+  }
+  const margin = options.margin ?? 1;
+  if (!Number.isInteger(margin) || margin < 0 || margin > 16) {
+    throw new QrCodeError(
+      'Margin must be a whole number of modules from 0 to 16',
+      'INVALID_MARGIN',
+    );
+  }
+
+  return {
+    modules,
+    margin,
+    span: modules.size + margin * 2,
+    foreground,
+    background,
+    foregroundHex,
+    backgroundHex,
+    logo: options.logo,
+    caption,
+  };
+}
+
+// Runs of dark modules on each row, so that vector output draws one shape per run
+function darkRuns(
+  modules: QrLayout['modules'],
+): Array<{ row: number; col: number; length: number }> {
+  const runs = [];
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+      runs.push({ row, col: start, length: col - start });
+    }
+  }
+  return runs;
+}
+
+// Where the logo goes, in modules from the top left of the quiet zone, with a pad around it
+function logoBox(qr: QrLayout): { x: number; size: number; padX: number; padSize: number } {
+  const size = Math.round(qr.modules.size * LOGO_SCALE);
+  const x = (qr.span - size) / 2;
+  return { x, size, padX: x - 1, padSize: size + 2 };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const CAPTION_HEIGHT = 0.12; // of the code's width
+
+function renderSvg(qr: QrLayout, size: number): Buffer {
+  const { span } = qr;
+  const captionHeight = qr.caption ? span * CAPTION_HEIGHT : 0;
+  const height = span + captionHeight;
+  const path = darkRuns(qr.modules)
+    .map(({ row, col, length }) => `M${col + qr.margin} ${row + qr.margin}h${length}v1h-${length}z`)
+    .join('');
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${span} ${height}" width="${size}" height="${Math.round((size * height) / span)}" shape-rendering="crispEdges">`,
+    `<rect width="${span}" height="${height}" fill="${qr.backgroundHex}"/>`,
+    `<path fill="${qr.foregroundHex}" d="${path}"/>`,
+  ];
+  if (qr.logo) {
+    const box = logoBox(qr);
+    parts.push(
+      `<rect x="${box.padX}" y="${box.padX}" width="${box.padSize}" height="${box.padSize}" fill="${qr.backgroundHex}"/>`,
+      `<image x="${box.x}" y="${box.x}" width="${box.size}" height="${box.size}" preserveAspectRatio="xMidYMid meet" href="data:${qr.logo.contentType};base64,${qr.logo.data.toString('base64')}"/>`,
+    );
+  }
+  if (qr.caption) {
+    parts.push(
+      `<text x="${span / 2}" y="${span + captionHeight * 0.55}" text-anchor="middle" dominant-baseline="middle" font-family="Helvetica, Arial, sans-serif" font-size="${captionHeight * 0.6}" font-weight="600" fill="${qr.foregroundHex}">${escapeXml(qr.caption)}</text>`,
+    );
+  }
+  parts.push('</svg>');
+
+  return Buffer.from(parts.join(''));
+}
+
+function renderPng(qr: QrLayout, size: number): Buffer {
+  if (qr.caption) {
+    throw new QrCodeError('Captions are only available in SVG and PDF output', 'INVALID_CAPTION');
+  }
+  if (qr.logo && qr.logo.contentType !== 'image/png') {
+    throw new QrCodeError('PNG output needs a PNG logo', 'INVALID_LOGO');
+  }
+
+  // Whole pixels per module keep the edges sharp
+  const scale = Math.max(1, Math.floor(size / qr.span));
+  const width = qr.span * scale;
+  const png = new PNG({ width, height: width });
+  const fill = (x: number, y: number, [r, g, b]: Rgb, alpha = 1) => {
+    const index = (y * width + x) * 4;
+    png.data[index] = Math.round(r * alpha + png.data[index] * (1 - alpha));
+    png.data[index + 1] = Math.round(g * alpha + png.data[index + 1] * (1 - alpha));
+    png.data[index + 2] = Math.round(b * alpha + png.data[index + 2] * (1 - alpha));
+    png.data[index + 3] = 255;
+  };
+  const fillRect = (x: number, y: number, w: number, h: number, color: Rgb) => {
+    for (let py = y; py < y + h; py++) {
+      for (let px = x; px < x + w; px++) fill(px, py, color);
+    }
+  };
+
+  fillRect(0, 0, width, width, qr.background);
+  for (const { row, col, length } of darkRuns(qr.modules)) {
+    fillRect(
+      (col + qr.margin) * scale,
+      (row + qr.margin) * scale,
+      length * scale,
+      scale,
+      qr.foreground,
+    );
+  }
+
+  if (qr.logo) {
+    let logo: PNG;
+    try {
+      logo = PNG.sync.read(qr.logo.data);
+    } catch {
+      throw new QrCodeError('The logo is not a valid PNG image', 'INVALID_LOGO');
+    }
+
+    const box = logoBox(qr);
+    const padX = Math.round(box.padX * scale);
+    fillRect(
+      padX,
+      padX,
+      Math.round(box.padSize * scale),
+      Math.round(box.padSize * scale),
+      qr.background,
+    );
+
+    // Fit the logo in its box keeping its aspect ratio, sampling the nearest pixel
+    const boxPixels = Math.round(box.size * scale);
+    const ratio = Math.min(boxPixels / logo.width, boxPixels / logo.height);
+    const drawWidth = Math.max(1, Math.round(logo.width * ratio));
+    const drawHeight = Math.max(1, Math.round(logo.height * ratio));
+    const left = Math.round(box.x * scale) + Math.floor((boxPixels - drawWidth) / 2);
+    const top = Math.round(box.x * scale) + Math.floor((boxPixels - drawHeight) / 2);
+    for (let y = 0; y < drawHeight; y++) {
+      for (let x = 0; x < drawWidth; x++) {
+        const sx = Math.min(logo.width - 1, Math.floor(x / ratio));
+        const sy = Math.min(logo.height - 1, Math.floor(y / ratio));
+        const index = (sy * logo.width + sx) * 4;
+        const color: Rgb = [logo.data[index], logo.data[index + 1], logo.data[index + 2]];
+        fill(left + x, top + y, color, logo.data[index + 3] / 255);
+      }
+    }
+  }
+
+  return PNG.sync.write(png);
+}
+
+function pdfColor([r, g, b]: Rgb): RGB {
+  return rgb(r / 255, g / 255, b / 255);
+}
+
+/**
+ * Draw a QR code onto a PDF page with its top left corner at (x, top), `size`
+ * points wide. The caption, if any, goes underneath. Used for whole-page posters
+ * as well as renderQRCode().
+ */
+export async function drawQrOnPdfPage(
+  page: PDFPage,
+  qr: QrLayout,
+  { x, top, size }: { x: number; top: number; size: number },
+): Promise<void> {
+  const unit = size / qr.span;
+  const captionHeight = qr.caption ? size * CAPTION_HEIGHT : 0;
+  const foreground = pdfColor(qr.foreground);
+  const background = pdfColor(qr.background);
+
+  page.drawRectangle({
+    x,
+    y: top - size - captionHeight,
+    width: size,
+    height: size + captionHeight,
+    color: background,
+  });
+  for (const { row, col, length } of darkRuns(qr.modules)) {
+    page.drawRectangle({
+      x: x + (col + qr.margin) * unit,
+      y: top - (row + qr.margin + 1) * unit,
+      width: length * unit,
+      height: unit,
+      color: foreground,
+    });
+  }
+
+  if (qr.logo) {
+    const box = logoBox(qr);
+    page.drawRectangle({
+      x: x + box.padX * unit,
+      y: top - (box.padX + box.padSize) * unit,
+      width: box.padSize * unit,
+      height: box.padSize * unit,
+      color: background,
+    });
+
+    let image;
+    try {
+      image =
+        qr.logo.contentType === 'image/png'
+          ? await page.doc.embedPng(qr.logo.data)
+          : await page.doc.embedJpg(qr.logo.data);
+    } catch {
+      throw new QrCodeError('The logo could not be read as an image', 'INVALID_LOGO');
+    }
+    const fitted = image.scaleToFit(box.size * unit, box.size * unit);
+    page.drawImage(image, {
+      x: x + box.x * unit + (box.size * unit - fitted.width) / 2,
+      y: top - (box.x + box.size) * unit + (box.size * unit - fitted.height) / 2,
+      width: fitted.width,
+      height: fitted.height,
+    });
+  }
+
+  if (qr.caption) {
+    const font = await page.doc.embedFont(StandardFonts.HelveticaBold);
+    const text = toPdfText(qr.caption);
+    let fontSize = captionHeight * 0.6;
+    while (fontSize > 6 && font.widthOfTextAtSize(text, fontSize) > size - 2 * unit) {
+      fontSize -= 0.5;
+    }
+    page.drawText(text, {
+      x: x + (size - font.widthOfTextAtSize(text, fontSize)) / 2,
+      y: top - size - captionHeight * 0.6,
+      size: fontSize,
+      font,
+      color: foreground,
+    });
+  }
+}
+
+async function renderPdf(qr: QrLayout, size: number): Promise<Buffer> {
+  const captionHeight = qr.caption ? size * CAPTION_HEIGHT : 0;
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(qr.caption || 'QR code');
+  const page = pdf.addPage([size, size + captionHeight]);
+  await drawQrOnPdfPage(page, qr, { x: 0, top: size + captionHeight, size });
+
+  return Buffer.from(await pdf.save());
+}
+
+const CONTENT_TYPES: Record<QrFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Render `text` as a QR code. Throws QrCodeError for options that would make a
+ * code that doesn't scan or can't be drawn.
+ */
+export async function renderQRCode(
+  text: string,
+  options: QrRenderOptions = {},
+): Promise<RenderedQrCode> {
+  const format = options.format ?? 'png';
+  const size = options.size ?? 300;
+  if (!Number.isInteger(size) || size < 64 || size > 2048) {
+    throw new QrCodeError('Size must be a whole number from 64 to 2048', 'INVALID_SIZE');
+  }
+
+  const qr = layoutQrCode(text, options);
+  const data =
+    format === 'svg'
+      ? renderSvg(qr, size)
+      : format === 'pdf'
+        ? await renderPdf(qr, size)
+        : renderPng(qr, size);
+
+  return { data, contentType: CONTENT_TYPES[format], extension: format };
+}
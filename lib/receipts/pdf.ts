@@ -0,0 +1,214 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { toBuffer } from 'qrcode';
+import type { ReceiptData } from '@/lib/receipts/service';
+import { formatINR, subtractPaise } from '@/lib/utils/money';
+
+// A5 portrait, in points
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const QR_SIZE = 96;
+
+const TEXT_COLOR = rgb(0.12, 0.12, 0.14);
+const MUTED_COLOR = rgb(0.42, 0.44, 0.48);
+const RULE_COLOR = rgb(0.85, 0.86, 0.88);
+const ACCENT_COLOR = rgb(0.09, 0.45, 0.27);
+const WARNING_COLOR = rgb(0.72, 0.11, 0.11);
+
+/**
+ * The standard PDF fonts only cover Latin-1. Other characters, such as names in
+ * Devanagari, are replaced so that rendering never fails; the rupee sign is spelled out.
+ */
+export function toPdfText(text: string): string {
+  return text
+    .replace(/₹\s?/g, 'Rs. ')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .trim();
+}
+
+function formatIST(date: Date): string {
+  return `${date.toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+  })} IST`;
+}
+
+function truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+    return text;
+  }
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) {
+    end--;
+  }
+  return `${text.slice(0, end)}...`;
+}
+
+function receiptRows(data: ReceiptData): Array<[string, string]> {
+  const { order } = data;
+  const rows: Array<[string, string]> = [
+    ['Receipt No.', data.receiptNumber],
+    ['Order ID', order.orderId],
+    ['UTR', order.utr || '-'],
+    ['Description', order.description],
+  ];
+
+  if (order.customerName) rows.push(['Customer', order.customerName]);
+  if (order.customerEmail) rows.push(['Customer Email', order.customerEmail]);
+
+  rows.push(['Amount Paid', formatINR(order.amountPaise)]);
+  if (order.refundedPaise > 0) {
+    rows.push(['Refunded', formatINR(order.refundedPaise)]);
+    rows.push(['Net Amount', formatINR(subtractPaise(order.amountPaise, order.refundedPaise))]);
+  }
+
+  rows.push(['Order Created', formatIST(order.createdAt)]);
+  if (order.paidAt) rows.push(['Payment Verified', formatIST(order.paidAt)]);
+  rows.push(['Receipt Issued', formatIST(data.issuedAt)]);
+
+  return rows;
+}
+
+function drawText(
+  page: PDFPage,
+  text: string,
+  options: { x: number; y: number; font: PDFFont; size: number; color?: ReturnType<typeof rgb> },
+) {
+  page.drawText(toPdfText(text), { color: TEXT_COLOR, ...options });
+}
+
+/**
+ * Render a receipt as a single-page PDF with a QR code linking to its verification page
+ */
+export async function renderReceiptPdf(data: ReceiptData): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Receipt ${data.receiptNumber}`);
+  pdf.setAuthor(toPdfText(data.merchant.name));
+  pdf.setSubject(`Payment receipt for order ${data.order.orderId}`);
+  pdf.setCreationDate(data.printedAt);
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  // Merchant
+  let y = PAGE_HEIGHT - MARGIN - 16;
+  drawText(page, truncate(toPdfText(data.merchant.name), bold, 16, contentWidth), {
+    x: MARGIN,
+    y,
+    font: bold,
+    size: 16,
+  });
+  y -= 16;
+  drawText(page, `UPI ID: ${data.merchant.upiId}`, {
+    x: MARGIN,
+    y,
+    font: regular,
+    size: 9,
+    color: MUTED_COLOR,
+  });
+  if (data.merchant.email) {
+    y -= 12;
+    drawText(page, data.merchant.email, {
+      x: MARGIN,
+      y,
+      font: regular,
+      size: 9,
+      color: MUTED_COLOR,
+    });
+  }
+
+  // Title
+  y -= 34;
+  drawText(page, 'PAYMENT RECEIPT', { x: MARGIN, y, font: bold, size: 13, color: ACCENT_COLOR });
+  if (data.copy === 'reprint') {
+    const label = 'DUPLICATE COPY';
+    drawText(page, label, {
+      x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(label, 10),
+      y: y + 2,
+      font: bold,
+      size: 10,
+      color: WARNING_COLOR,
+    });
+  }
+  y -= 10;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 1,
+    color: RULE_COLOR,
+  });
+
+  // Details
+  const labelWidth = 110;
+  for (const [label, value] of receiptRows(data)) {
+    y -= 20;
+    drawText(page, label, { x: MARGIN, y, font: regular, size: 10, color: MUTED_COLOR });
+    drawText(page, truncate(toPdfText(value), bold, 10, contentWidth - labelWidth), {
+      x: MARGIN + labelWidth,
+      y,
+      font: bold,
+      size: 10,
+    });
+  }
+
+  y -= 14;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 1,
+    color: RULE_COLOR,
+  });
+
+  // Verification QR
+  const qr = await pdf.embedPng(
+    await toBuffer(data.verificationUrl, { errorCorrectionLevel: 'M', margin: 1, width: 300 }),
+  );
+  const qrY = y - 16 - QR_SIZE;
+  page.drawImage(qr, { x: MARGIN, y: qrY, width: QR_SIZE, height: QR_SIZE });
+
+  const noteX = MARGIN + QR_SIZE + 14;
+  const noteWidth = PAGE_WIDTH - MARGIN - noteX;
+  drawText(page, 'Scan to verify this receipt', {
+    x: noteX,
+    y: qrY + QR_SIZE - 12,
+    font: bold,
+    size: 10,
+  });
+  drawText(page, 'The page shows the payment as recorded by', {
+    x: noteX,
+    y: qrY + QR_SIZE - 28,
+    font: regular,
+    size: 8,
+    color: MUTED_COLOR,
+  });
+  drawText(page, 'the merchant. Check the amount and UTR match.', {
+    x: noteX,
+    y: qrY + QR_SIZE - 38,
+    font: regular,
+    size: 8,
+    color: MUTED_COLOR,
+  });
+  drawText(page, truncate(data.verificationUrl, regular, 7, noteWidth), {
+    x: noteX,
+    y: qrY + 4,
+    font: regular,
+    size: 7,
+    color: MUTED_COLOR,
+  });
+
+  // Footer
+  const footer =
+    data.copy === 'reprint'
+      ? `Duplicate printed ${formatIST(data.printedAt)}. Not proof of a new payment.`
+      : 'This is a computer-generated receipt and does not need a signature.';
+  drawText(page, footer, { x: MARGIN, y: MARGIN, font: regular, size: 7, color: MUTED_COLOR });
+
+  return pdf.save();
+}
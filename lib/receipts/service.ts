@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import {
+  OrderModel,
+  PAID_ORDER_STATUSES,
+  type OrderDocument,
+  type OrderReceipt,
+} from '@/lib/db/models/Order';
+import { ReceiptSequenceModel } from '@/lib/db/models/ReceiptSequence';
+import { UserModel } from '@/lib/db/models/User';
+import type { Paise } from '@/lib/utils/money';
+import { getUPIConfig } from '@/lib/utils/upi-utils';
+
+const RECEIPT_NUMBER_PREFIX = process.env.RECEIPT_NUMBER_PREFIX || 'RCPT';
+
+// A claim this old belongs to a request that died before saving the receipt
+const RECEIPT_CLAIM_TTL_MS = 30 * 1000;
+// How long a request waits on another's claim before giving up
+const CLAIM_RETRY_DELAY_MS = 100;
+const CLAIM_ATTEMPTS = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class ReceiptError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'ReceiptError';
+  }
+}
+
+export interface ReceiptData {
+  receiptNumber: string;
+  // Reprints are marked as duplicates so they can't pass for a second payment
+  copy: 'original' | 'reprint';
+  issuedAt: Date;
+  printedAt: Date;
+  merchant: {
+    name: string;
+    upiId: string;
+    email?: string;
+  };
+  order: {
+    orderId: string;
+    description: string;
+    customerName?: string;
+    customerEmail?: string;
+    amountPaise: Paise;
+    refundedPaise: Paise;
+    utr?: string;
+    status: string;
+    createdAt: Date;
+    paidAt?: Date;
+  };
+  verificationUrl: string;
+}
+
+export function formatReceiptNumber(sequence: number): string {
+  return `${RECEIPT_NUMBER_PREFIX}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Where the QR code on a receipt points: a public page showing the order as the
+ * system records it, so a doctored PDF can be spotted
+ */
+export function receiptVerificationUrl(baseUrl: string, orderId: string, number: string): string {
+  return `${baseUrl}/receipts/${encodeURIComponent(orderId)}?number=${encodeURIComponent(number)}`;
+}
+
+/**
+ * Claim the right to take the order's receipt number. Only one request holds the
+ * claim at a time, so the sequence is only advanced for a receipt that is saved.
+ */
+async function claimReceipt(order: OrderDocument): Promise<boolean> {
+  const now = Date.now();
+  const claimed = await OrderModel.findOneAndUpdate(
+    {
+      _id: order._id,
+      receipt: { $exists: false },
+      $or: [
+        { receiptClaimedAt: { $exists: false } },
+        { receiptClaimedAt: { $lt: new Date(now - RECEIPT_CLAIM_TTL_MS) } },
+      ],
+    },
+    { $set: { receiptClaimedAt: new Date(now) } },
+  );
+  return claimed !== null;
+}
+
+async function takeReceiptNumber(order: OrderDocument): Promise<OrderDocument> {
+  let sequence: number;
+  try {
+    sequence = await ReceiptSequenceModel.nextNumber(order.createdBy);
+  } catch (error) {
+    await OrderModel.updateOne({ _id: order._id }, { $unset: { receiptClaimedAt: 1 } });
+    throw error;
+  }
+
+  const receipt: OrderReceipt = {
+    number: formatReceiptNumber(sequence),
+    sequence,
+    issuedAt: new Date(),
+    reprintCount: 0,
+  };
+
+  const issued = await OrderModel.findOneAndUpdate(
+    { _id: order._id, receipt: { $exists: false } },
+    { $set: { receipt }, $unset: { receiptClaimedAt: 1 } },
+    { new: true },
+  );
+  if (issued) {
+    return issued;
+  }
+
+  // Only reached if this request outlived its claim and another took over
+  const current = await OrderModel.findById(order._id);
+  if (!current?.receipt) {
+    throw new ReceiptError('Failed to issue receipt', 'RECEIPT_NOT_ISSUED');
+  }
+  return current;
+}
+
+/**
+ * Give a paid order its receipt number, taking the next one in the merchant's
+ * sequence. Orders that already have a receipt keep their number. The order is
+ * claimed before a number is taken, so concurrent requests wait for the first
+ * one's receipt instead of each using up a number, and the sequence has no gaps.
+ */
+export async function issueReceipt(order: OrderDocument): Promise<OrderDocument> {
+  if (order.receipt) {
+    return order;
+  }
+
+  if (!PAID_ORDER_STATUSES.includes(order.status)) {
+    throw new ReceiptError('Receipts are only available for paid orders', 'ORDER_NOT_PAID');
+  }
+
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+    if (await claimReceipt(order)) {
+      return takeReceiptNumber(order);
+    }
+
+    const current = await OrderModel.findById(order._id);
+    if (current?.receipt) {
+      return current;
+    }
+    await sleep(CLAIM_RETRY_DELAY_MS);
+  }
+
+  throw new ReceiptError('The receipt is still being issued, try again', 'RECEIPT_NOT_ISSUED');
+}
+
+export async function recordReceiptReprint(order: OrderDocument): Promise<OrderDocument> {
+  const updated = await OrderModel.findOneAndUpdate(
+    { _id: order._id, receipt: { $exists: true } },
+    { $inc: { 'receipt.reprintCount': 1 }, $set: { 'receipt.lastReprintedAt': new Date() } },
+    { new: true },
+  );
+  if (!updated) {
+    throw new ReceiptError('This order has no receipt to reprint', 'RECEIPT_NOT_ISSUED');
+  }
+  return updated;
+}
+
+async function getMerchantDetails(order: OrderDocument): Promise<ReceiptData['merchant']> {
+  const fallbackName = getUPIConfig().merchantName;
+  if (!mongoose.isValidObjectId(order.createdBy)) {
+    return { name: order.payeeName || fallbackName, upiId: order.upiId };
+  }
+
+  const merchant = await UserModel.findById(order.createdBy).select('name email').lean();
+  // Prefer the payee name the customer saw in their UPI app
+  return {
+    name: order.payeeName || merchant?.name || fallbackName,
+    upiId: order.upiId,
+    email: merchant?.email,
+  };
+}
+
+export async function buildReceiptData(
+  order: OrderDocument,
+  options: { copy: ReceiptData['copy']; baseUrl: string },
+): Promise<ReceiptData> {
+  if (!order.receipt) {
+    throw new ReceiptError('This order has no receipt yet', 'RECEIPT_NOT_ISSUED');
+  }
+
+  return {
+    receiptNumber: order.receipt.number,
+    copy: options.copy,
+    issuedAt: order.receipt.issuedAt,
+    printedAt: new Date(),
+    merchant: await getMerchantDetails(order),
+    order: {
+      orderId: order.orderId,
+      description: order.description,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      amountPaise: order.amountPaise,
+      refundedPaise: order.refundedPaise ?? 0,
+      utr: order.utrNumber,
+      status: order.status,
+      createdAt: order.createdAt,
+      paidAt: order.completedAt ?? order.verifiedAt,
+    },
+    verificationUrl: receiptVerificationUrl(options.baseUrl, order.orderId, order.receipt.number),
+  };
+}
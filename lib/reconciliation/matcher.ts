@@ -0,0 +1,158 @@
+import type { StatementEntry } from '@/lib/reconciliation/statement-parser';
+import { fromPaise, subtractPaise, toPaise } from '@/lib/utils/money';
+
+export interface ReconciliationOrder {
+  orderId: string;
+  utrNumber: string;
+  amount: number;
+  customerName?: string;
+  createdAt: Date;
+}
+
+export interface MatchedEntry {
+  orderId: string;
+  utr: string;
+  amount: number;
+  customerName?: string;
+  entryDate?: Date;
+  narration: string;
+  line: number;
+}
+
+export interface AmountMismatchEntry {
+  orderId: string;
+  utr: string;
+  orderAmount: number;
+  statementAmount: number;
+  difference: number;
+  customerName?: string;
+  entryDate?: Date;
+  narration: string;
+  line: number;
+}
+
+export type UnknownUtrReason = 'utr_not_found' | 'no_utr' | 'duplicate_utr';
+
+export interface UnknownUtrEntry {
+  utr?: string;
+  amount: number;
+  reason: UnknownUtrReason;
+  entryDate?: Date;
+  narration: string;
+  line: number;
+}
+
+export interface MissingEntry {
+  orderId: string;
+  utr: string;
+  amount: number;
+  customerName?: string;
+  createdAt: Date;
+}
+
+export interface ReconciliationResult {
+  matched: MatchedEntry[];
+  amountMismatch: AmountMismatchEntry[];
+  unknownUtr: UnknownUtrEntry[];
+  missing: MissingEntry[];
+  creditCount: number;
+  debitCount: number;
+}
+
+/**
+ * Pick the UTR for a statement entry: the dedicated column if there is one, otherwise the
+ * first candidate that belongs to a pending order, falling back to the first candidate.
+ */
+function resolveEntryUtr(
+  entry: StatementEntry,
+  ordersByUtr: Map<string, ReconciliationOrder>,
+): string | undefined {
+  if (entry.utr) {
+    return entry.utr;
+  }
+  return entry.utrCandidates.find((utr) => ordersByUtr.has(utr)) ?? entry.utrCandidates[0];
+}
+
+/**
+ * Match statement credits against orders awaiting verification by UTR, then compare amounts.
+ * Debits are counted but otherwise ignored. Orders whose UTR never shows up are reported as
+ * missing; credits whose UTR doesn't belong to any pending order are reported as unknown.
+ */
+export function reconcileStatement(
+  entries: StatementEntry[],
+  orders: ReconciliationOrder[],
+): ReconciliationResult {
+  const ordersByUtr = new Map(orders.map((order) => [order.utrNumber.toUpperCase(), order]));
+  const seenUtrs = new Set<string>();
+
+  const result: ReconciliationResult = {
+    matched: [],
+    amountMismatch: [],
+    unknownUtr: [],
+    missing: [],
+    creditCount: 0,
+    debitCount: 0,
+  };
+
+  for (const entry of entries) {
+    if (entry.type === 'debit') {
+      result.debitCount++;
+      continue;
+    }
+    result.creditCount++;
+
+    const utr = resolveEntryUtr(entry, ordersByUtr);
+    const base = { entryDate: entry.date, narration: entry.narration, line: entry.line };
+
+    if (!utr) {
+      result.unknownUtr.push({ ...base, amount: entry.amount, reason: 'no_utr' });
+      continue;
+    }
+
+    if (seenUtrs.has(utr)) {
+      result.unknownUtr.push({ ...base, utr, amount: entry.amount, reason: 'duplicate_utr' });
+      continue;
+    }
+    seenUtrs.add(utr);
+
+    const order = ordersByUtr.get(utr);
+    if (!order) {
+      result.unknownUtr.push({ ...base, utr, amount: entry.amount, reason: 'utr_not_found' });
+      continue;
+    }
+
+    if (toPaise(order.amount) === toPaise(entry.amount)) {
+      result.matched.push({
+        ...base,
+        orderId: order.orderId,
+        utr,
+        amount: order.amount,
+        customerName: order.customerName,
+      });
+    } else {
+      result.amountMismatch.push({
+        ...base,
+        orderId: order.orderId,
+        utr,
+        orderAmount: order.amount,
+        statementAmount: entry.amount,
+        difference: fromPaise(subtractPaise(toPaise(entry.amount), toPaise(order.amount))),
+        customerName: order.customerName,
+      });
+    }
+  }
+
+  for (const [utr, order] of ordersByUtr) {
+    if (!seenUtrs.has(utr)) {
+      result.missing.push({
+        orderId: order.orderId,
+        utr,
+        amount: order.amount,
+        customerName: order.customerName,
+        createdAt: order.createdAt,
+      });
+    }
+  }
+
+  return result;
+}
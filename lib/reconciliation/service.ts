@@ -0,0 +1,122 @@
+import { connectDB } from '@/lib/db/connection';
+import { OrderModel } from '@/lib/db/models/Order';
+import { ReconciliationModel, type ReconciliationDocument } from '@/lib/db/models/Reconciliation';
+import { reconcileStatement } from '@/lib/reconciliation/matcher';
+import {
+  StatementParseError,
+  parseStatement,
+  type StatementFormat,
+} from '@/lib/reconciliation/statement-parser';
+
+const MAX_NARRATION_LENGTH = 500;
+// Orders created after the last statement day can't have been credited yet, so they are
+// left out of "missing". One extra day covers late-evening IST payments posted next day.
+const MISSING_GRACE_MS = 24 * 60 * 60 * 1000;
+
+function generateReconciliationId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `rec_${timestamp}_${random}`;
+}
+
+function truncate<T extends { narration: string }>(entry: T): T {
+  return { ...entry, narration: entry.narration.slice(0, MAX_NARRATION_LENGTH) };
+}
+
+/**
+ * Parse a bank statement, match it against every order awaiting verification and store the report
+ */
+export async function createReconciliation(
+  input: { content: string; fileName: string; format?: StatementFormat },
+  uploadedBy: { id: string; email: string },
+): Promise<ReconciliationDocument> {
+  const statement = parseStatement(input.content, { format: input.format });
+
+  if (statement.entries.length === 0) {
+    throw new StatementParseError('No transactions found in the statement');
+  }
+
+  await connectDB();
+
+  const orderQuery: Record<string, unknown> = {
+    status: 'pending-verification',
+    utrNumber: { $exists: true, $ne: null },
+  };
+  if (statement.periodEnd) {
+    orderQuery.createdAt = { $lte: new Date(statement.periodEnd.getTime() + MISSING_GRACE_MS) };
+  }
+
+  const orders = await OrderModel.find(orderQuery)
+    .select('orderId utrNumber amount customerName createdAt')
+    .lean();
+
+  const result = reconcileStatement(
+    statement.entries,
+    orders.map((order) => ({
+      orderId: order.orderId,
+      utrNumber: order.utrNumber!,
+      amount: order.amount,
+      customerName: order.customerName,
+      createdAt: order.createdAt,
+    })),
+  );
+
+  return ReconciliationModel.create({
+    reconciliationId: generateReconciliationId(),
+    fileName: input.fileName,
+    format: statement.format,
+    periodStart: statement.periodStart,
+    periodEnd: statement.periodEnd,
+    entryCount: statement.entries.length,
+    creditCount: result.creditCount,
+    debitCount: result.debitCount,
+    skippedRows: statement.skippedRows,
+    matched: result.matched.map(truncate),
+    amountMismatch: result.amountMismatch.map(truncate),
+    unknownUtr: result.unknownUtr.map(truncate),
+    missing: result.missing,
+    uploadedBy: uploadedBy.id,
+    uploadedByEmail: uploadedBy.email,
+  });
+}
+
+/**
+ * API representation of a reconciliation; list views only need the counts
+ */
+export function serializeReconciliation(
+  reconciliation: ReconciliationDocument,
+  options: { includeEntries?: boolean } = {},
+): Record<string, unknown> {
+  const summary = {
+    reconciliationId: reconciliation.reconciliationId,
+    fileName: reconciliation.fileName,
+    format: reconciliation.format,
+    periodStart: reconciliation.periodStart,
+    periodEnd: reconciliation.periodEnd,
+    entryCount: reconciliation.entryCount,
+    creditCount: reconciliation.creditCount,
+    debitCount: reconciliation.debitCount,
+    skippedRows: reconciliation.skippedRows,
+    counts: {
+      matched: reconciliation.matched.length,
+      amountMismatch: reconciliation.amountMismatch.length,
+      unknownUtr: reconciliation.unknownUtr.length,
+      missing: reconciliation.missing.length,
+      approved: reconciliation.approvedCount,
+    },
+    uploadedByEmail: reconciliation.uploadedByEmail,
+    createdAt: reconciliation.createdAt,
+  };
+
+  if (!options.includeEntries) {
+    return summary;
+  }
+
+  return {
+    ...summary,
+    matched: reconciliation.matched,
+    amountMismatch: reconciliation.amountMismatch,
+    unknownUtr: reconciliation.unknownUtr,
+    missing: reconciliation.missing,
+  };
+}
@@ -0,0 +1,468 @@
+import { parseCSV } from '@/lib/utils/csv';
+
+export const STATEMENT_FORMATS = [
+  'generic',
+  'hdfc',
+  'icici',
+  'sbi',
+  'axis',
+  'kotak',
+  'mt940',
+] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+export interface StatementEntry {
+  /** 1-based row (CSV) or line (MT940) the entry came from */
+  line: number;
+  date?: Date;
+  amount: number;
+  type: 'credit' | 'debit';
+  /** UTR from a dedicated column, when the layout has one */
+  utr?: string;
+  /** UTR-looking tokens found in the narration and reference fields, most likely first */
+  utrCandidates: string[];
+  reference?: string;
+  narration: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  entries: StatementEntry[];
+  periodStart?: Date;
+  periodEnd?: Date;
+  skippedRows: number;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+interface CsvLayout {
+  format: Exclude<StatementFormat, 'mt940'>;
+  date: string[];
+  narration: string[];
+  reference?: string[];
+  utr?: string[];
+  credit?: string[];
+  debit?: string[];
+  amount?: string[];
+  /** Column holding a CR/DR indicator for single-amount layouts */
+  type?: string[];
+}
+
+// Header names are compared after lowercasing and stripping everything but letters and digits,
+// so "Chq./Ref.No." becomes "chqrefno" and "Withdrawal Amount (INR )" becomes "withdrawalamountinr".
+// Bank-specific layouts are tried before the generic one.
+const CSV_LAYOUTS: CsvLayout[] = [
+  {
+    format: 'hdfc',
+    date: ['date'],
+    narration: ['narration'],
+    reference: ['chqrefno'],
+    credit: ['depositamt'],
+    debit: ['withdrawalamt'],
+  },
+  {
+    format: 'icici',
+    date: ['transactiondate', 'valuedate'],
+    narration: ['transactionremarks'],
+    reference: ['chequenumber'],
+    credit: ['depositamountinr', 'depositamount'],
+    debit: ['withdrawalamountinr', 'withdrawalamount'],
+  },
+  {
+    format: 'sbi',
+    date: ['txndate'],
+    narration: ['description'],
+    reference: ['refnochequeno'],
+    credit: ['credit'],
+    debit: ['debit'],
+  },
+  {
+    format: 'axis',
+    date: ['trandate'],
+    narration: ['particulars'],
+    reference: ['chqno'],
+    credit: ['cr'],
+    debit: ['dr'],
+  },
+  {
+    format: 'kotak',
+    date: ['transactiondate'],
+    narration: ['description'],
+    reference: ['chqrefno'],
+    amount: ['amount'],
+    type: ['drcr'],
+  },
+  {
+    format: 'generic',
+    date: ['date', 'transactiondate', 'txndate', 'valuedate'],
+    narration: ['narration', 'description', 'remarks', 'particulars', 'details'],
+    reference: ['reference', 'referenceno', 'refno'],
+    utr: ['utr', 'utrnumber', 'utrno', 'rrn', 'upirefno', 'upireference'],
+    credit: ['credit', 'creditamount', 'deposit', 'depositamount'],
+    debit: ['debit', 'debitamount', 'withdrawal', 'withdrawalamount'],
+    amount: ['amount'],
+    type: ['type', 'crdr', 'drcr'],
+  },
+];
+
+// How many leading rows to search for the header; bank exports put account details above it
+const HEADER_SEARCH_ROWS = 40;
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toFullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function buildDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(Date.UTC(toFullYear(year), month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : undefined;
+}
+
+/**
+ * Parse the date formats Indian banks use in statement exports:
+ * 05/01/24, 05/01/2024, 05-01-2024, 05.01.2024, 05-Jan-2024, 5 Jan 2024 and 2024-01-05.
+ * Day-first ordering is assumed for numeric dates. Dates are returned as UTC midnight.
+ */
+export function parseStatementDate(value: string): Date | undefined {
+  const input = value.trim();
+
+  const iso = input.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return buildDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+
+  const numeric = input.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (numeric) {
+    return buildDate(Number(numeric[3]), Number(numeric[2]) - 1, Number(numeric[1]));
+  }
+
+  const named = input.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2}|\d{4})\b/);
+  if (named) {
+    const month = MONTHS[named[2].toLowerCase()];
+    return month === undefined ? undefined : buildDate(Number(named[3]), month, Number(named[1]));
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse an amount cell such as "1,50,000.00", "₹ 499", "250.00 Cr" or "-75".
+ * Returns undefined for empty cells and placeholders like "-".
+ */
+export function parseStatementAmount(value: string): number | undefined {
+  const cleaned = value
+    .trim()
+    .replace(/₹|INR|Rs\.?/gi, '')
+    .replace(/(?:CR|DR)\.?$/i, '')
+    .replace(/[,\s]/g, '');
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(cleaned)) {
+    return undefined;
+  }
+
+  return Number(cleaned);
+}
+
+const UTR_LABEL_PATTERN =
+  /\b(?:UTR|RRN|UPI\s*REF(?:ERENCE)?(?:\s*NO)?|REF(?:ERENCE)?\s*NO)[\s.:#/-]*([A-Z0-9]{12,22})\b/gi;
+// UPI and IMPS references are 12-digit RRNs, which some banks zero-pad to 16 digits in the
+// reference column; NEFT/RTGS UTRs are a bank code followed by N or R
+const RRN_PATTERN = /(?<!\d)0*(\d{12})(?!\d)/g;
+const NEFT_RTGS_PATTERN = /\b([A-Z]{4}[NR][A-Z0-9]{11,17})\b/g;
+
+/**
+ * Pull UTR-looking tokens out of free text, labelled references first
+ */
+export function extractUtrCandidates(...texts: Array<string | undefined>): string[] {
+  const candidates: string[] = [];
+  const add = (value: string) => {
+    const utr = value.toUpperCase();
+    if (!candidates.includes(utr)) {
+      candidates.push(utr);
+    }
+  };
+
+  for (const pattern of [UTR_LABEL_PATTERN, RRN_PATTERN, NEFT_RTGS_PATTERN]) {
+    for (const text of texts) {
+      if (!text) continue;
+      for (const match of text.matchAll(pattern)) {
+        add(match[1]);
+      }
+    }
+  }
+
+  return candidates;
+}
+
+function findColumn(headers: string[], aliases?: string[]): number {
+  if (!aliases) return -1;
+  for (const alias of aliases) {
+    const index = headers.indexOf(alias);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+interface ResolvedLayout {
+  format: CsvLayout['format'];
+  date: number;
+  narration: number;
+  reference: number;
+  utr: number;
+  credit: number;
+  debit: number;
+  amount: number;
+  type: number;
+}
+
+function resolveLayout(headers: string[], layout: CsvLayout): ResolvedLayout | null {
+  const resolved: ResolvedLayout = {
+    format: layout.format,
+    date: findColumn(headers, layout.date),
+    narration: findColumn(headers, layout.narration),
+    reference: findColumn(headers, layout.reference),
+    utr: findColumn(headers, layout.utr),
+    credit: findColumn(headers, layout.credit),
+    debit: findColumn(headers, layout.debit),
+    amount: findColumn(headers, layout.amount),
+    type: findColumn(headers, layout.type),
+  };
+
+  const hasAmount = resolved.credit !== -1 || resolved.amount !== -1;
+  // The generic layout may rely on a UTR column instead of a narration
+  const hasDescription = resolved.narration !== -1 || resolved.utr !== -1;
+
+  return resolved.date !== -1 && hasAmount && hasDescription ? resolved : null;
+}
+
+function detectCsvLayout(
+  rows: string[][],
+  format?: StatementFormat,
+): { layout: ResolvedLayout; headerRow: number } | null {
+  const layouts = format ? CSV_LAYOUTS.filter((l) => l.format === format) : CSV_LAYOUTS;
+
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+    const headers = rows[i].map(normalizeHeader);
+    for (const candidate of layouts) {
+      const layout = resolveLayout(headers, candidate);
+      if (layout) {
+        return { layout, headerRow: i };
+      }
+    }
+  }
+
+  return null;
+}
+
+function cell(row: string[], index: number): string {
+  return index === -1 ? '' : (row[index] ?? '').trim();
+}
+
+function parseCsvRow(row: string[], layout: ResolvedLayout, line: number): StatementEntry | null {
+  const date = parseStatementDate(cell(row, layout.date));
+  if (!date) {
+    // Separator rows, opening balances and footers
+    return null;
+  }
+
+  let amount: number | undefined;
+  let type: StatementEntry['type'] | undefined;
+
+  const credit = parseStatementAmount(cell(row, layout.credit));
+  const debit = parseStatementAmount(cell(row, layout.debit));
+
+  if (credit) {
+    amount = credit;
+    type = 'credit';
+  } else if (debit) {
+    amount = debit;
+    type = 'debit';
+  } else if (layout.amount !== -1) {
+    const rawAmount = cell(row, layout.amount);
+    const signed = parseStatementAmount(rawAmount);
+    if (signed !== undefined && signed !== 0) {
+      amount = Math.abs(signed);
+      const indicator = cell(row, layout.type).toUpperCase();
+      const suffix = rawAmount.match(/(CR|DR)\.?$/i)?.[1].toUpperCase();
+      if (indicator.startsWith('C') || suffix === 'CR') {
+        type = 'credit';
+      } else if (indicator.startsWith('D') || suffix === 'DR') {
+        type = 'debit';
+      } else {
+        type = signed < 0 ? 'debit' : 'credit';
+      }
+    }
+  }
+
+  if (amount === undefined || type === undefined) {
+    return null;
+  }
+
+  const narration = cell(row, layout.narration);
+  const reference = cell(row, layout.reference) || undefined;
+  const utr = cell(row, layout.utr).toUpperCase() || undefined;
+
+  return {
+    line,
+    date,
+    amount,
+    type,
+    utr,
+    utrCandidates: extractUtrCandidates(narration, reference),
+    reference,
+    narration,
+  };
+}
+
+function parseCsvStatement(content: string, format?: StatementFormat): ParsedStatement {
+  const rows = parseCSV(content);
+  const detected = detectCsvLayout(rows, format);
+
+  if (!detected) {
+    throw new StatementParseError(
+      format
+        ? `Could not find the ${format.toUpperCase()} statement header row`
+        : 'Unrecognised statement layout. Expected a header with date, description and amount columns',
+    );
+  }
+
+  const entries: StatementEntry[] = [];
+  let skippedRows = 0;
+
+  for (let i = detected.headerRow + 1; i < rows.length; i++) {
+    const entry = parseCsvRow(rows[i], detected.layout, i + 1);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      skippedRows++;
+    }
+  }
+
+  return { format: detected.layout.format, entries, skippedRows, ...getPeriod(entries) };
+}
+
+// :61: value date, optional entry date, mark (C, D, RC, RD), optional funds code, amount,
+// transaction type and the account owner / bank references
+const MT940_STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(?:\d{4})?(R?[CD])([A-Z])?(\d+,\d{0,2})([A-Z][A-Z0-9]{3})([^\n]*)/;
+
+function parseMt940Statement(content: string): ParsedStatement {
+  const lines = content.split(/\r?\n/);
+  const tags: Array<{ tag: string; value: string; line: number }> = [];
+
+  lines.forEach((raw, index) => {
+    const line = raw.trimEnd();
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      tags.push({ tag: tagMatch[1], value: tagMatch[2], line: index + 1 });
+    } else if (tags.length > 0 && line !== '' && line !== '-' && !line.startsWith('{')) {
+      tags[tags.length - 1].value += `\n${line}`;
+    }
+  });
+
+  const entries: StatementEntry[] = [];
+  let skippedRows = 0;
+  let current: StatementEntry | null = null;
+
+  for (const { tag, value, line } of tags) {
+    if (tag === '61') {
+      const match = value.match(MT940_STATEMENT_LINE);
+      if (!match) {
+        skippedRows++;
+        current = null;
+        continue;
+      }
+
+      const [, yy, mm, dd, mark, , rawAmount, , rest] = match;
+      const [ownerReference, bankReference] = rest.split('//');
+      const supplementary = value.split('\n').slice(1).join(' ');
+      const reference = [ownerReference, bankReference]
+        .map((ref) => ref?.trim())
+        .filter((ref) => ref && ref !== 'NONREF')
+        .join(' ');
+
+      current = {
+        line,
+        date: buildDate(Number(yy), Number(mm) - 1, Number(dd)),
+        amount: Number(rawAmount.replace(',', '.')),
+        // A reversed credit takes money out of the account, and vice versa
+        type: mark === 'C' || mark === 'RD' ? 'credit' : 'debit',
+        utrCandidates: [],
+        reference: reference || undefined,
+        narration: supplementary,
+      };
+      current.utrCandidates = extractUtrCandidates(current.reference, supplementary);
+      entries.push(current);
+    } else if (tag === '86' && current) {
+      current.narration = [current.narration, value.replace(/\n/g, ' ')].filter(Boolean).join(' ');
+      current.utrCandidates = extractUtrCandidates(current.reference, current.narration);
+      current = null;
+    }
+  }
+
+  if (entries.length === 0 && skippedRows === 0) {
+    throw new StatementParseError('MT940 statement contains no :61: statement lines');
+  }
+
+  return { format: 'mt940', entries, skippedRows, ...getPeriod(entries) };
+}
+
+function getPeriod(entries: StatementEntry[]): Pick<ParsedStatement, 'periodStart' | 'periodEnd'> {
+  let start: number | undefined;
+  let end: number | undefined;
+  for (const entry of entries) {
+    if (!entry.date) continue;
+    const time = entry.date.getTime();
+    start = start === undefined ? time : Math.min(start, time);
+    end = end === undefined ? time : Math.max(end, time);
+  }
+  return start === undefined || end === undefined
+    ? {}
+    : { periodStart: new Date(start), periodEnd: new Date(end) };
+}
+
+export function isMt940(content: string): boolean {
+  return /^:20:/m.test(content) && /^:61:/m.test(content);
+}
+
+/**
+ * Parse a bank statement export. The layout is detected from the content unless a
+ * format is given explicitly.
+ */
+export function parseStatement(
+  content: string,
+  options: { format?: StatementFormat } = {},
+): ParsedStatement {
+  if (!content.trim()) {
+    throw new StatementParseError('Statement file is empty');
+  }
+
+  if (options.format === 'mt940' || (!options.format && isMt940(content))) {
+    return parseMt940Statement(content);
+  }
+
+  return parseCsvStatement(content, options.format);
+}
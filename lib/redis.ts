@@ -55,6 +55,12 @@ export const redis = {
   },
   async incr(key: string) {
     return getRedisClient().incr(key);
+  },
+  async expire(key: string, seconds: number) {
+    return getRedisClient().expire(key, seconds);
+  },
+  async publish(channel: string, message: string) {
+    return getRedisClient().publish(channel, message);
   }
 };
 
@@ -69,6 +75,11 @@ export const REDIS_KEYS = {
   ADMIN_BOOTSTRAP: 'admin:bootstrap:status',
   ROLE_STATS: 'roles:stats',
   ROLE_UPDATES_CHANNEL: 'role-updates',
+  ORDER_STATUS_CHANNEL: (orderId: string) => `order-status:${orderId}`,
+  LOCK: (name: string) => `lock:${name}`,
+  IDEMPOTENCY: (scope: string, key: string) => `idempotency:${scope}:${key}`,
+  RISK_SUBMISSIONS: (kind: string, value: string) => `risk:submissions:${kind}:${value}`,
+  RISK_FAILED_UTRS: (kind: string, value: string) => `risk:failed_utrs:${kind}:${value}`,
 } as const;
 
 // Role cache TTL (30 seconds as per hybrid authentication requirements)
@@ -430,6 +441,37 @@ export async function batchInvalidateRoles(userIds: string[]): Promise<void> {
   }
 }
 
+/**
+ * Acquire a distributed lock that expires on its own if the holder dies.
+ * Returns the token needed to release it, or null if someone else holds it.
+ */
+export async function acquireLock(name: string, ttlSeconds: number): Promise<string | null> {
+  const token = `${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+  const result = await redis.set(REDIS_KEYS.LOCK(name), token, { nx: true, ex: ttlSeconds });
+  return result === 'OK' ? token : null;
+}
+
+/**
+ * Release a lock, but only if it is still held with the given token
+ */
+export async function releaseLock(name: string, token: string): Promise<void> {
+  try {
+    await redis.eval(
+      `
+      if redis.call('GET', KEYS[1]) == ARGV[1] then
+        return redis.call('DEL', KEYS[1])
+      end
+      return 0
+    `,
+      [REDIS_KEYS.LOCK(name)],
+      [token],
+    );
+  } catch (error) {
+    // The lock expires by itself, so a failed release only delays the next holder
+    console.error(`[Redis] Failed to release lock ${name}:`, error);
+  }
+}
+
 // Export Redis instance for direct use if needed
 export const redisClient = {
   get instance() {
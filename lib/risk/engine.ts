@@ -0,0 +1,277 @@
+import type { NextRequest } from 'next/server';
+import {
+  OrderModel,
+  PAID_ORDER_STATUSES,
+  type OrderDocument,
+  type OrderRiskAssessment,
+  type OrderRiskLevel,
+  type OrderRiskSignal,
+} from '@/lib/db/models/Order';
+import { RiskBlocklistModel } from '@/lib/db/models/RiskBlocklist';
+import type { PaymentProofField, PaymentProofMismatch } from '@/lib/payment-proof/extract';
+import { redis, REDIS_KEYS } from '@/lib/redis';
+import { checkUtrDate } from '@/lib/risk/utr-date';
+import { getClientIPFromRequest } from '@/lib/utils/audit';
+import { formatINR } from '@/lib/utils/money';
+
+// Sent by the payment page; a random ID kept in the browser's local storage
+export const DEVICE_ID_HEADER = 'x-device-id';
+
+// Submissions of either kind are counted over these windows
+const SUBMISSION_WINDOW_SECONDS = 60 * 60;
+const FAILED_UTR_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Merchant amount history used to judge whether an amount is unusual
+const AMOUNT_HISTORY_DAYS = 90;
+const MIN_AMOUNT_HISTORY = 10;
+
+// A screenshot showing a different payee or amount is stronger evidence than an odd timestamp
+const PROOF_MISMATCH_WEIGHTS: Record<PaymentProofField, number> = {
+  utr: 35,
+  amount: 35,
+  payeeVpa: 30,
+  paidAt: 20,
+};
+
+const PROOF_FIELD_LABELS: Record<PaymentProofField, string> = {
+  utr: 'UTR',
+  amount: 'amount',
+  payeeVpa: 'payee VPA',
+  paidAt: 'payment time',
+};
+
+const MEDIUM_RISK_SCORE = 30;
+const HIGH_RISK_SCORE = 60;
+
+// Submissions scoring at least this much are held for review unless RISK_AUTO_HOLD=false
+const HOLD_SCORE = parseInt(process.env.RISK_HOLD_SCORE || '70', 10);
+
+export interface UtrSubmissionSource {
+  ipAddress: string;
+  deviceId?: string;
+}
+
+export interface UtrSubmissionContext extends UtrSubmissionSource {
+  order: OrderDocument;
+  utr: string;
+  submittedAt?: Date;
+  // Differences between the uploaded screenshot and the order, if one was uploaded
+  proofMismatches?: PaymentProofMismatch[];
+}
+
+/**
+ * Where a UTR submission came from. Unknown IPs aren't counted, since every
+ * request without forwarding headers would otherwise share one bucket.
+ */
+export function getSubmissionSource(request: NextRequest): UtrSubmissionSource {
+  const deviceId = request.headers.get(DEVICE_ID_HEADER)?.trim();
+  return {
+    ipAddress: getClientIPFromRequest(request),
+    deviceId: deviceId && /^[\w-]{8,64}$/.test(deviceId) ? deviceId : undefined,
+  };
+}
+
+function sourceKeys(source: UtrSubmissionSource): Array<{ kind: 'ip' | 'device'; value: string }> {
+  return [
+    ...(source.ipAddress && source.ipAddress !== 'unknown'
+      ? [{ kind: 'ip' as const, value: source.ipAddress }]
+      : []),
+    ...(source.deviceId ? [{ kind: 'device' as const, value: source.deviceId }] : []),
+  ];
+}
+
+async function incrementWindow(key: string, windowSeconds: number): Promise<number> {
+  const count = await redis.incr(key);
+  if (count === 1) {
+    await redis.expire(key, windowSeconds);
+  }
+  return count;
+}
+
+/**
+ * Count a rejected UTR submission (reused UTR, bad format, wrong order state)
+ * against the IP and device it came from. Never throws.
+ */
+export async function recordFailedUtrAttempt(source: UtrSubmissionSource): Promise<void> {
+  try {
+    await Promise.all(
+      sourceKeys(source).map(({ kind, value }) =>
+        incrementWindow(REDIS_KEYS.RISK_FAILED_UTRS(kind, value), FAILED_UTR_WINDOW_SECONDS),
+      ),
+    );
+  } catch (error) {
+    console.error('[Risk] Failed to record failed UTR attempt:', error);
+  }
+}
+
+async function blocklistSignals({
+  order,
+  utr,
+  ipAddress,
+  deviceId,
+}: UtrSubmissionContext): Promise<OrderRiskSignal[]> {
+  const matches = await RiskBlocklistModel.findMatches({
+    ip: ipAddress !== 'unknown' ? ipAddress : undefined,
+    device: deviceId,
+    email: order.customerEmail,
+    phone: order.customerPhone,
+    utr,
+  });
+
+  return matches.map((entry) => ({
+    code: 'BLOCKLISTED',
+    weight: 100,
+    detail: `Blocklisted ${entry.type}: ${entry.reason}`,
+  }));
+}
+
+async function velocitySignals(context: UtrSubmissionContext): Promise<OrderRiskSignal[]> {
+  const signals: OrderRiskSignal[] = [];
+
+  for (const { kind, value } of sourceKeys(context)) {
+    const label = kind === 'ip' ? 'IP address' : 'device';
+
+    const submissions = await incrementWindow(
+      REDIS_KEYS.RISK_SUBMISSIONS(kind, value),
+      SUBMISSION_WINDOW_SECONDS,
+    );
+    if (submissions >= 3) {
+      signals.push({
+        code: kind === 'ip' ? 'IP_VELOCITY' : 'DEVICE_VELOCITY',
+        weight: submissions >= 6 ? 30 : 15,
+        detail: `${submissions} UTR submissions from this ${label} in the last hour`,
+      });
+    }
+
+    const failed = Number((await redis.get(REDIS_KEYS.RISK_FAILED_UTRS(kind, value))) ?? 0);
+    if (failed >= 2) {
+      signals.push({
+        code: 'REPEATED_FAILED_UTRS',
+        weight: failed >= 5 ? 35 : 20,
+        detail: `${failed} rejected UTRs from this ${label} in the last 24 hours`,
+      });
+    }
+  }
+
+  return signals;
+}
+
+function utrDateSignals({ order, utr, submittedAt }: UtrSubmissionContext): OrderRiskSignal[] {
+  const check = checkUtrDate(utr, order.createdAt, submittedAt);
+  return check.consistent ? [] : [{ code: 'UTR_DATE_MISMATCH', weight: 35, detail: check.reason }];
+}
+
+function proofSignals({ proofMismatches = [] }: UtrSubmissionContext): OrderRiskSignal[] {
+  return proofMismatches.map((mismatch) => ({
+    code: 'PROOF_MISMATCH',
+    weight: PROOF_MISMATCH_WEIGHTS[mismatch.field],
+    detail: `Screenshot ${PROOF_FIELD_LABELS[mismatch.field]} ${mismatch.found} does not match ${mismatch.expected}`.slice(0, 500),
+  }));
+}
+
+async function amountSignals({ order }: UtrSubmissionContext): Promise<OrderRiskSignal[]> {
+  const since = new Date(Date.now() - AMOUNT_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  // In paise, so the comparisons below aren't thrown off by floating-point rupees
+  const [history] = await OrderModel.aggregate<{
+    count: number;
+    averagePaise: number;
+    deviationPaise: number;
+    maxPaise: number;
+  }>([
+    {
+      $match: {
+        createdBy: order.createdBy,
+        status: { $in: PAID_ORDER_STATUSES },
+        createdAt: { $gte: since },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        count: { $sum: 1 },
+        averagePaise: { $avg: '$amountPaise' },
+        deviationPaise: { $stdDevPop: '$amountPaise' },
+        maxPaise: { $max: '$amountPaise' },
+      },
+    },
+  ]);
+
+  if (!history || history.count < MIN_AMOUNT_HISTORY) {
+    return [];
+  }
+
+  const { averagePaise, deviationPaise, maxPaise } = history;
+  const amountPaise = order.amountPaise;
+  if (amountPaise <= averagePaise + 3 * deviationPaise || amountPaise <= 2 * averagePaise) {
+    return [];
+  }
+
+  return [
+    {
+      code: 'UNUSUAL_AMOUNT',
+      weight: amountPaise > 3 * maxPaise ? 30 : 20,
+      detail: `${formatINR(amountPaise)} is well above this merchant's usual ${formatINR(Math.round(averagePaise))} (largest recent ${formatINR(maxPaise)})`,
+    },
+  ];
+}
+
+function levelFor(score: number): OrderRiskLevel {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MEDIUM_RISK_SCORE) return 'medium';
+  return 'low';
+}
+
+/**
+ * Score a UTR submission from 0 to 100. Each signal adds its weight; a blocklist
+ * match is always high risk and always held. A signal whose data source is
+ * unavailable is skipped so that an outage never blocks customers from paying.
+ */
+export async function assessUtrSubmission(
+  context: UtrSubmissionContext,
+): Promise<OrderRiskAssessment> {
+  const submittedAt = context.submittedAt ?? new Date();
+  const withTime = { ...context, submittedAt };
+
+  const checks: Array<[string, () => Promise<OrderRiskSignal[]> | OrderRiskSignal[]]> = [
+    ['blocklist', () => blocklistSignals(withTime)],
+    ['velocity', () => velocitySignals(withTime)],
+    ['utr date', () => utrDateSignals(withTime)],
+    ['payment proof', () => proofSignals(withTime)],
+    ['amount', () => amountSignals(withTime)],
+  ];
+
+  const signals: OrderRiskSignal[] = [];
+  for (const [name, check] of checks) {
+    try {
+      signals.push(...(await check()));
+    } catch (error) {
+      console.error(`[Risk] ${name} check failed for ${context.order.orderId}:`, error);
+    }
+  }
+
+  const ranked = [...signals].sort((a, b) => b.weight - a.weight);
+  const score = Math.min(
+    100,
+    ranked.reduce((total, signal) => total + signal.weight, 0),
+  );
+  const blocklisted = ranked.some((signal) => signal.code === 'BLOCKLISTED');
+  const autoHold = process.env.RISK_AUTO_HOLD !== 'false' && score >= HOLD_SCORE;
+  const onHold = blocklisted || autoHold;
+
+  return {
+    score,
+    level: levelFor(score),
+    signals: ranked,
+    onHold,
+    holdReason: onHold
+      ? ranked
+          .slice(0, 3)
+          .map((signal) => signal.detail)
+          .join('; ')
+          .slice(0, 500)
+      : undefined,
+    ipAddress: context.ipAddress,
+    deviceId: context.deviceId,
+    assessedAt: submittedAt,
+  };
+}
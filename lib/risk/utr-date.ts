@@ -0,0 +1,75 @@
+// UPI and IMPS references are issued in IST
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+function daysInYear(year: number): number {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+}
+
+/**
+ * Read the timestamp embedded in a 12-digit UPI/IMPS reference (RRN). The first
+ * digit is the last digit of the year, the next three the day of the year and the
+ * next two the hour, all in IST. The decade is taken from `reference`, choosing the
+ * latest year that is not after it.
+ *
+ * Returns the start of the hour the reference was issued in, or null when the UTR
+ * is not a 12-digit RRN or its digits can't be a date.
+ */
+export function decodeUtrTimestamp(utr: string, reference: Date = new Date()): Date | null {
+  const match = /^(\d)(\d{3})(\d{2})\d{6}$/.exec(utr.trim());
+  if (!match) {
+    return null;
+  }
+
+  const yearDigit = Number(match[1]);
+  const dayOfYear = Number(match[2]);
+  const hour = Number(match[3]);
+
+  const referenceYear = new Date(reference.getTime() + IST_OFFSET_MS).getUTCFullYear();
+  const year = referenceYear - ((referenceYear - yearDigit + 10) % 10);
+
+  if (dayOfYear < 1 || dayOfYear > daysInYear(year) || hour > 23) {
+    return null;
+  }
+
+  return new Date(Date.UTC(year, 0, dayOfYear, hour) - IST_OFFSET_MS);
+}
+
+export type UtrDateCheck =
+  | { consistent: true; issuedAt: Date | null }
+  | { consistent: false; issuedAt: Date; reason: string };
+
+/**
+ * Compare a UTR's embedded time with the order it was submitted for. A payment
+ * can't predate the order, and its reference can't come from the future. The
+ * hour-level granularity of the RRN plus `toleranceMs` absorbs clock skew.
+ */
+export function checkUtrDate(
+  utr: string,
+  orderCreatedAt: Date,
+  submittedAt: Date = new Date(),
+  toleranceMs = HOUR_MS,
+): UtrDateCheck {
+  const issuedAt = decodeUtrTimestamp(utr, submittedAt);
+  if (!issuedAt) {
+    return { consistent: true, issuedAt: null };
+  }
+
+  if (issuedAt.getTime() + HOUR_MS + toleranceMs < orderCreatedAt.getTime()) {
+    return {
+      consistent: false,
+      issuedAt,
+      reason: `UTR is dated ${issuedAt.toISOString()}, before the order was created`,
+    };
+  }
+
+  if (issuedAt.getTime() - toleranceMs > submittedAt.getTime()) {
+    return {
+      consistent: false,
+      issuedAt,
+      reason: `UTR is dated ${issuedAt.toISOString()}, after it was submitted`,
+    };
+  }
+
+  return { consistent: true, issuedAt };
+}
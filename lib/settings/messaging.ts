@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { connectDB } from '@/lib/db/connection';
+import { SettingsModel, type SettingsValue } from '@/lib/db/models/Settings';
+import { findUnknownPlaceholders } from '@/lib/messaging/templates';
+import { DEFAULT_COUNTRY_CODE } from '@/lib/utils/phone';
+
+export const MESSAGING_SETTINGS_KEY = 'messaging';
+
+const MessageTemplateSchema = z
+  .string()
+  .trim()
+  .min(1, 'Template is required')
+  .max(1000)
+  .superRefine((template, ctx) => {
+    const unknown = findUnknownPlaceholders(template);
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown placeholders: ${unknown.map((name) => `{{${name}}}`).join(', ')}`,
+      });
+    }
+  });
+
+export const MessagingSettingsSchema = z.object({
+  enabled: z.boolean(),
+  channel: z.enum(['sms', 'whatsapp']),
+  // Added to national numbers, without the +
+  defaultCountryCode: z.string().regex(/^[1-9]\d{0,2}$/, 'Invalid country code'),
+  templates: z.object({
+    orderCreated: MessageTemplateSchema,
+    paymentVerified: MessageTemplateSchema,
+  }),
+});
+
+export type MessagingSettingsValues = z.infer<typeof MessagingSettingsSchema>;
+
+export const DEFAULT_MESSAGING_SETTINGS: MessagingSettingsValues = {
+  enabled: false,
+  channel: 'sms',
+  defaultCountryCode: DEFAULT_COUNTRY_CODE,
+  templates: {
+    orderCreated:
+      'Hi {{customerName}}, {{merchantName}} has requested {{amount}} for {{description}}. Pay here: {{paymentUrl}}',
+    paymentVerified:
+      'Payment of {{amount}} to {{merchantName}} received for order {{orderId}}. Receipt: {{receiptUrl}}',
+  },
+};
+
+/**
+ * Stored messaging settings with defaults for anything missing. Falls back to the
+ * defaults, which have messaging turned off, if the stored value is unreadable.
+ */
+export async function getMessagingSettings(): Promise<MessagingSettingsValues> {
+  try {
+    await connectDB();
+    const stored = await SettingsModel.getValue(MESSAGING_SETTINGS_KEY);
+    const parsed = MessagingSettingsSchema.safeParse({
+      ...DEFAULT_MESSAGING_SETTINGS,
+      ...stored,
+      templates: {
+        ...DEFAULT_MESSAGING_SETTINGS.templates,
+        ...(stored?.templates as SettingsValue | undefined),
+      },
+    });
+    return parsed.success ? parsed.data : DEFAULT_MESSAGING_SETTINGS;
+  } catch (error) {
+    console.error('[Settings] Failed to load messaging settings, using defaults:', error);
+    return DEFAULT_MESSAGING_SETTINGS;
+  }
+}
+
+export async function updateMessagingSettings(
+  values: MessagingSettingsValues,
+  updatedBy: string,
+): Promise<MessagingSettingsValues> {
+  await connectDB();
+  await SettingsModel.setValue(
+    MESSAGING_SETTINGS_KEY,
+    values as unknown as SettingsValue,
+    updatedBy,
+    'SMS and WhatsApp message templates',
+  );
+  return values;
+}
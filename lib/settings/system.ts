@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { connectDB } from '@/lib/db/connection';
+import { SettingsModel, type SettingsValue } from '@/lib/db/models/Settings';
+
+export const SYSTEM_SETTINGS_KEY = 'system';
+
+export const SystemSettingsSchema = z.object({
+  // How long a new order can be paid for, in minutes
+  timerDuration: z.number().int().min(1).max(60),
+  staticUpiId: z.string().trim().max(255).optional().default(''),
+});
+
+export type SystemSettingsValues = z.infer<typeof SystemSettingsSchema>;
+
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettingsValues = {
+  timerDuration: 9,
+  staticUpiId: '',
+};
+
+/**
+ * Stored system settings with defaults for anything missing. Falls back to the
+ * defaults entirely if the stored value is unreadable, so orders can always be created.
+ */
+export async function getSystemSettings(): Promise<SystemSettingsValues> {
+  try {
+    await connectDB();
+    const stored = await SettingsModel.getValue(SYSTEM_SETTINGS_KEY);
+    const parsed = SystemSettingsSchema.safeParse({ ...DEFAULT_SYSTEM_SETTINGS, ...stored });
+    return parsed.success ? parsed.data : DEFAULT_SYSTEM_SETTINGS;
+  } catch (error) {
+    console.error('[Settings] Failed to load system settings, using defaults:', error);
+    return DEFAULT_SYSTEM_SETTINGS;
+  }
+}
+
+export async function updateSystemSettings(
+  values: SystemSettingsValues,
+  updatedBy: string,
+): Promise<SystemSettingsValues> {
+  await connectDB();
+  // Older versions kept UPI app switches here; the UPI app registry reads them until it is saved
+  const enabledUpiApps = (await SettingsModel.getValue(SYSTEM_SETTINGS_KEY))?.enabledUpiApps;
+  await SettingsModel.setValue(
+    SYSTEM_SETTINGS_KEY,
+    { ...values, ...(enabledUpiApps && { enabledUpiApps }) } as unknown as SettingsValue,
+    updatedBy,
+    'Payment timer and static UPI ID',
+  );
+  return values;
+}
+
+/**
+ * Minutes a new order stays payable: the caller's choice, else the timerDuration setting
+ */
+export async function resolveOrderExpiryMinutes(requested?: number): Promise<number> {
+  return requested ?? (await getSystemSettings()).timerDuration;
+}
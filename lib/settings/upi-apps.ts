@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { connectDB } from '@/lib/db/connection';
+import { SettingsModel, type SettingsValue } from '@/lib/db/models/Settings';
+import { SYSTEM_SETTINGS_KEY } from '@/lib/settings/system';
+import { DEFAULT_UPI_APPS, UpiAppSchema, type UpiApp } from '@/lib/upi-apps/registry';
+
+export const UPI_APPS_SETTINGS_KEY = 'upi-apps';
+
+export const UpiAppSettingsSchema = z.object({
+  // In the order the payment page shows them
+  apps: z
+    .array(UpiAppSchema)
+    .min(1, 'Add at least one UPI app')
+    .max(20)
+    .superRefine((apps, ctx) => {
+      const seen = new Set<string>();
+      apps.forEach((app, index) => {
+        if (seen.has(app.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate app ID ${app.id}`,
+            path: [index, 'id'],
+          });
+        }
+        seen.add(app.id);
+      });
+    }),
+});
+
+export type UpiAppSettingsValues = z.infer<typeof UpiAppSettingsSchema>;
+
+export const DEFAULT_UPI_APP_SETTINGS: UpiAppSettingsValues = { apps: DEFAULT_UPI_APPS };
+
+// Before the registry, system settings had on/off switches for four of the apps
+async function getLegacyDefaults(): Promise<UpiAppSettingsValues> {
+  const system = await SettingsModel.getValue(SYSTEM_SETTINGS_KEY);
+  const enabled = system?.enabledUpiApps as Record<string, unknown> | undefined;
+  if (!enabled) {
+    return DEFAULT_UPI_APP_SETTINGS;
+  }
+
+  return {
+    apps: DEFAULT_UPI_APPS.map((app) =>
+      typeof enabled[app.id] === 'boolean' ? { ...app, enabled: enabled[app.id] as boolean } : app,
+    ),
+  };
+}
+
+/**
+ * The stored UPI app registry. Until one is saved, the built-in apps with the
+ * switches from the older system settings applied. Falls back to the built-in
+ * apps if the stored value is unreadable, so the payment page always has apps.
+ */
+export async function getUpiAppSettings(): Promise<UpiAppSettingsValues> {
+  try {
+    await connectDB();
+    const stored = await SettingsModel.getValue(UPI_APPS_SETTINGS_KEY);
+    if (!stored) {
+      return await getLegacyDefaults();
+    }
+
+    const parsed = UpiAppSettingsSchema.safeParse(stored);
+    return parsed.success ? parsed.data : DEFAULT_UPI_APP_SETTINGS;
+  } catch (error) {
+    console.error('[Settings] Failed to load UPI app settings, using defaults:', error);
+    return DEFAULT_UPI_APP_SETTINGS;
+  }
+}
+
+/**
+ * The apps customers are offered, in order
+ */
+export async function getEnabledUpiApps(): Promise<UpiApp[]> {
+  return (await getUpiAppSettings()).apps.filter((app) => app.enabled);
+}
+
+export async function updateUpiAppSettings(
+  values: UpiAppSettingsValues,
+  updatedBy: string,
+): Promise<UpiAppSettingsValues> {
+  await connectDB();
+  await SettingsModel.setValue(
+    UPI_APPS_SETTINGS_KEY,
+    values as unknown as SettingsValue,
+    updatedBy,
+    'UPI apps offered on the payment page',
+  );
+  return values;
+}
@@ -0,0 +1,78 @@
+import type { Paise } from '@/lib/utils/money';
+
+// The most a static QR order is nudged up by to tell it apart from others for the same amount
+export const MAX_PAISE_OFFSET = 99;
+
+// Bank alerts and phones don't agree on the time; a credit may be stamped just before its order
+export const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+export interface StaticCredit {
+  amountPaise: Paise;
+  paidAt: Date;
+  // From the credit alert, when it names the UPI ID that was paid
+  payeeVpa?: string;
+}
+
+export interface StaticOrderCandidate {
+  orderId: string;
+  amountPaise: number;
+  upiId: string;
+  createdAt: Date;
+}
+
+export type StaticMatch =
+  | { outcome: 'matched'; orderId: string }
+  | { outcome: 'ambiguous'; orderIds: string[] }
+  | { outcome: 'unmatched' };
+
+/**
+ * Whether a payment made at `paidAt` could be for an order created at `createdAt`:
+ * no earlier than the order, give or take clock skew, and within the match window
+ */
+export function isWithinMatchWindow(createdAt: Date, paidAt: Date, windowMinutes: number): boolean {
+  const elapsed = paidAt.getTime() - createdAt.getTime();
+  return elapsed >= -CLOCK_SKEW_MS && elapsed <= windowMinutes * 60 * 1000 + CLOCK_SKEW_MS;
+}
+
+/**
+ * Find the open order a static QR credit pays for. The amount must match to the paisa,
+ * the payment must fall in the order's match window and, when the alert names the UPI ID
+ * paid, the order must be payable to it. Exactly one such order is a match; more than one
+ * is ambiguous and left to a person to decide.
+ */
+export function matchStaticCredit(
+  credit: StaticCredit,
+  orders: StaticOrderCandidate[],
+  options: { windowMinutes: number },
+): StaticMatch {
+  const payeeVpa = credit.payeeVpa?.toLowerCase();
+  const candidates = orders.filter(
+    (order) =>
+      order.amountPaise === credit.amountPaise &&
+      (!payeeVpa || order.upiId.toLowerCase() === payeeVpa) &&
+      isWithinMatchWindow(order.createdAt, credit.paidAt, options.windowMinutes),
+  );
+
+  if (candidates.length === 1) {
+    return { outcome: 'matched', orderId: candidates[0].orderId };
+  }
+  if (candidates.length > 1) {
+    return { outcome: 'ambiguous', orderIds: candidates.map((order) => order.orderId) };
+  }
+  return { outcome: 'unmatched' };
+}
+
+/**
+ * The smallest number of paise to add to `requestedPaise` so that no other open order
+ * asks for the same amount. When every offset is taken the order goes out unchanged
+ * and any credit for it lands in the review queue.
+ */
+export function choosePaiseOffset(requestedPaise: Paise, openAmounts: Iterable<number>): number {
+  const taken = new Set(openAmounts);
+  for (let offset = 0; offset <= MAX_PAISE_OFFSET; offset++) {
+    if (!taken.has(requestedPaise + offset)) {
+      return offset;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,400 @@
+import mongoose from 'mongoose';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { MerchantVpaModel, VPA_PATTERN } from '@/lib/db/models/MerchantVpa';
+import { OrderModel, type OrderDocument, type OrderStaticQr } from '@/lib/db/models/Order';
+import {
+  STATIC_CREDIT_SOURCES,
+  StaticQrCreditModel,
+  type StaticQrCreditDocument,
+} from '@/lib/db/models/StaticQrCredit';
+import { UserModel } from '@/lib/db/models/User';
+import {
+  OrderTransitionError,
+  expireIfOverdue,
+  transitionOrder,
+  type OrderActor,
+} from '@/lib/orders/state-machine';
+import {
+  CLOCK_SKEW_MS,
+  MAX_PAISE_OFFSET,
+  choosePaiseOffset,
+  matchStaticCredit,
+} from '@/lib/static-qr/matcher';
+import { fromPaise, hasWholePaise, toPaise, type Paise } from '@/lib/utils/money';
+import { generateUPIString } from '@/lib/utils/upi-utils';
+import { VpaError, getDefaultUpiId, platformPayee, type Payee } from '@/lib/vpas/management';
+
+export class StaticQrError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'StaticQrError';
+  }
+
+  get httpStatus(): number {
+    if (this.code === 'ORDER_NOT_FOUND') return 404;
+    return ['UTR_ALREADY_EXISTS', 'CREDIT_ALREADY_RESOLVED'].includes(this.code) ? 409 : 400;
+  }
+}
+
+export const StaticQrSettingsSchema = z.object({
+  // New orders are matched against static QR payments
+  enabled: z.boolean(),
+  // Nudge orders for the same amount apart by a few paise
+  uniquePaiseOffsets: z.boolean(),
+  // How long after an order is created a payment can still be matched to it
+  matchWindowMinutes: z.number().int().min(5).max(1440),
+});
+
+export type StaticQrSettings = z.infer<typeof StaticQrSettingsSchema>;
+
+export const DEFAULT_STATIC_QR_SETTINGS: StaticQrSettings = {
+  enabled: false,
+  uniquePaiseOffsets: true,
+  matchWindowMinutes: 30,
+};
+
+export const StaticCreditSchema = z.object({
+  source: z.enum(STATIC_CREDIT_SOURCES).default('credit_alert'),
+  utr: z
+    .string()
+    .trim()
+    .regex(/^[A-Z0-9]{12,22}$/i, 'UTR must be 12-22 letters and digits')
+    .transform((utr) => utr.toUpperCase()),
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .max(100000, 'Amount too large')
+    .refine(hasWholePaise, 'Amount can have at most two decimal places'),
+  // Defaults to now
+  paidAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() <= Date.now() + CLOCK_SKEW_MS, 'Payment time is in the future')
+    .optional(),
+  payeeVpa: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(VPA_PATTERN, 'Invalid UPI ID format - must be in format user@provider')
+    .optional(),
+  payerName: z.string().trim().max(100).optional(),
+  // e.g. the text of the bank's SMS
+  note: z.string().trim().max(500).optional(),
+});
+
+export type StaticCreditInput = z.infer<typeof StaticCreditSchema>;
+
+export const ResolveStaticCreditSchema = z
+  .object({
+    action: z.enum(['match', 'dismiss']),
+    orderId: z.string().trim().min(1).optional(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.action === 'dismiss' || Boolean(data.orderId), {
+    message: 'Choose the order this payment is for',
+    path: ['orderId'],
+  });
+
+export type ResolveStaticCreditInput = z.infer<typeof ResolveStaticCreditSchema>;
+
+// Credit alerts can arrive after the expiry job has run, so expired orders stay matchable
+// for the rest of their window
+const MATCHABLE_STATUSES = ['pending', 'expired'];
+
+export async function getStaticQrSettings(ownerId: string): Promise<StaticQrSettings> {
+  if (!mongoose.isValidObjectId(ownerId)) {
+    return DEFAULT_STATIC_QR_SETTINGS;
+  }
+
+  const owner = await UserModel.findById(ownerId)
+    .select('preferences.staticQr')
+    .lean<{ preferences?: { staticQr?: Partial<StaticQrSettings> } }>();
+  return { ...DEFAULT_STATIC_QR_SETTINGS, ...owner?.preferences?.staticQr };
+}
+
+export async function setStaticQrSettings(
+  ownerId: string,
+  settings: StaticQrSettings,
+): Promise<void> {
+  if (!mongoose.isValidObjectId(ownerId)) {
+    return;
+  }
+
+  await UserModel.updateOne({ _id: ownerId }, { $set: { 'preferences.staticQr': settings } });
+}
+
+/**
+ * The UPI IDs a merchant can print a static QR for: their approved, enabled UPI IDs with
+ * the default first, or UPI_ID from the environment when they have none
+ */
+export async function getStaticQrPayees(ownerId: string): Promise<Payee[]> {
+  const [vpas, defaultUpiId] = await Promise.all([
+    MerchantVpaModel.find({ ownerId, status: 'approved', isActive: { $ne: false } })
+      .sort({ createdAt: 1 })
+      .lean(),
+    getDefaultUpiId(ownerId),
+  ]);
+
+  if (vpas.length > 0) {
+    return vpas
+      .sort((a, b) => Number(b.vpa === defaultUpiId) - Number(a.vpa === defaultUpiId))
+      .map((vpa) => ({ upiId: vpa.vpa, payeeName: vpa.payeeName }));
+  }
+
+  try {
+    return [platformPayee()];
+  } catch (error) {
+    if (error instanceof VpaError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * A upi://pay link with no amount, so one printed code works for every sale
+ */
+export function buildStaticQrLink(payee: Payee): string {
+  return generateUPIString({ payeeAddress: payee.upiId, payeeName: payee.payeeName });
+}
+
+/**
+ * How much a new order should ask for while static QR mode is on. Returns undefined when
+ * it is off. Two orders created at the same moment can still pick the same offset; a
+ * credit for either then goes to the review queue.
+ */
+export async function allocateStaticQrAmount(
+  ownerId: string,
+  requestedPaise: Paise,
+): Promise<OrderStaticQr | undefined> {
+  const settings = await getStaticQrSettings(ownerId);
+  if (!settings.enabled) {
+    return undefined;
+  }
+  if (!settings.uniquePaiseOffsets) {
+    return { requestedPaise, offsetPaise: 0 };
+  }
+
+  const open = await OrderModel.find({
+    createdBy: ownerId,
+    status: { $in: MATCHABLE_STATUSES },
+    staticQr: { $exists: true },
+    amountPaise: { $gte: requestedPaise, $lte: requestedPaise + MAX_PAISE_OFFSET },
+    createdAt: { $gte: new Date(Date.now() - settings.matchWindowMinutes * 60 * 1000) },
+  })
+    .select('amountPaise')
+    .lean();
+
+  return {
+    requestedPaise,
+    offsetPaise: choosePaiseOffset(
+      requestedPaise,
+      open.map((order) => order.amountPaise),
+    ),
+  };
+}
+
+function generateCreditId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `sqc_${timestamp}_${random}`;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/**
+ * Record the credit's UTR on the order and move it to verification, as if the customer
+ * had submitted the UTR on the payment page
+ */
+async function applyCreditToOrder(
+  order: OrderDocument,
+  credit: StaticQrCreditDocument,
+  actor: OrderActor,
+  request?: NextRequest,
+): Promise<OrderDocument> {
+  const current = await expireIfOverdue(order);
+
+  return transitionOrder(current, 'pending-verification', {
+    actor,
+    reason: `Paid by static QR, UTR ${credit.utr}`,
+    set: { utrNumber: credit.utr },
+    match: { utrNumber: null },
+    audit: {
+      request,
+      metadata: {
+        source: 'static_qr',
+        creditId: credit.creditId,
+        creditSource: credit.source,
+        paidAt: credit.paidAt.toISOString(),
+      },
+    },
+  });
+}
+
+/**
+ * Record a payment made to a merchant's static QR and match it to one of their open
+ * orders. A single match moves that order to verification; ambiguous credits, credits
+ * that match nothing and matches that can no longer be applied wait for review.
+ */
+export async function recordStaticCredit(
+  ownerId: string,
+  input: StaticCreditInput,
+  submitter: { id: string; email?: string },
+  request?: NextRequest,
+): Promise<{ credit: StaticQrCreditDocument; order?: OrderDocument }> {
+  if (await OrderModel.exists({ utrNumber: input.utr })) {
+    throw new StaticQrError('This UTR has already been used for an order', 'UTR_ALREADY_EXISTS');
+  }
+
+  const settings = await getStaticQrSettings(ownerId);
+  const amountPaise = toPaise(input.amount);
+  const paidAt = input.paidAt ?? new Date();
+  const windowMs = settings.matchWindowMinutes * 60 * 1000;
+
+  const candidates = await OrderModel.find({
+    createdBy: ownerId,
+    status: { $in: MATCHABLE_STATUSES },
+    staticQr: { $exists: true },
+    amountPaise,
+    createdAt: {
+      $gte: new Date(paidAt.getTime() - windowMs - CLOCK_SKEW_MS),
+      $lte: new Date(paidAt.getTime() + CLOCK_SKEW_MS),
+    },
+  })
+    .select('orderId amountPaise upiId createdAt')
+    .lean();
+
+  const match = matchStaticCredit({ amountPaise, paidAt, payeeVpa: input.payeeVpa }, candidates, {
+    windowMinutes: settings.matchWindowMinutes,
+  });
+
+  let credit: StaticQrCreditDocument;
+  try {
+    credit = await StaticQrCreditModel.create({
+      creditId: generateCreditId(),
+      ownerId,
+      source: input.source,
+      utr: input.utr,
+      amountPaise,
+      paidAt,
+      payeeVpa: input.payeeVpa,
+      payerName: input.payerName,
+      note: input.note,
+      status: 'needs_review',
+      reviewReason: match.outcome === 'ambiguous' ? 'ambiguous' : 'no_match',
+      candidateOrderIds: match.outcome === 'ambiguous' ? match.orderIds : [],
+      submittedBy: submitter.id,
+      submittedByEmail: submitter.email,
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new StaticQrError('This UTR has already been recorded', 'UTR_ALREADY_EXISTS');
+    }
+    throw error;
+  }
+
+  if (match.outcome !== 'matched') {
+    return { credit };
+  }
+
+  const order = await OrderModel.findOne({ orderId: match.orderId });
+  try {
+    if (!order) {
+      throw new StaticQrError('Order not found', 'ORDER_NOT_FOUND');
+    }
+    const updated = await applyCreditToOrder(
+      order,
+      credit,
+      { type: 'user', id: submitter.id, email: submitter.email },
+      request,
+    );
+
+    credit.status = 'matched';
+    credit.reviewReason = undefined;
+    credit.orderId = updated.orderId;
+    await credit.save();
+    return { credit, order: updated };
+  } catch (error) {
+    if (!(error instanceof OrderTransitionError || error instanceof StaticQrError)) throw error;
+
+    credit.reviewReason = 'match_failed';
+    credit.reviewDetail = error.message;
+    credit.candidateOrderIds = [match.orderId];
+    await credit.save();
+    return { credit };
+  }
+}
+
+/**
+ * Settle a credit from the review queue: apply it to the order a reviewer picked, or
+ * dismiss it, e.g. because it was not a sale
+ */
+export async function resolveStaticCredit(
+  credit: StaticQrCreditDocument,
+  input: ResolveStaticCreditInput,
+  reviewer: { id: string; email?: string },
+  request?: NextRequest,
+): Promise<{ credit: StaticQrCreditDocument; order?: OrderDocument }> {
+  if (credit.status !== 'needs_review') {
+    throw new StaticQrError('This payment has already been dealt with', 'CREDIT_ALREADY_RESOLVED');
+  }
+
+  let order: OrderDocument | undefined;
+  if (input.action === 'match') {
+    const found = await OrderModel.findOne({ orderId: input.orderId, createdBy: credit.ownerId });
+    if (!found) {
+      throw new StaticQrError('Order not found', 'ORDER_NOT_FOUND');
+    }
+    if (found.amountPaise !== credit.amountPaise) {
+      throw new StaticQrError(
+        `The order is for ${fromPaise(found.amountPaise)} but ${fromPaise(credit.amountPaise)} was paid`,
+        'AMOUNT_MISMATCH',
+      );
+    }
+    if (found.utrNumber) {
+      throw new StaticQrError('The order already has a UTR', 'UTR_ALREADY_SUBMITTED');
+    }
+
+    order = await applyCreditToOrder(
+      found,
+      credit,
+      { type: 'user', id: reviewer.id, email: reviewer.email },
+      request,
+    );
+    credit.status = 'resolved';
+    credit.orderId = order.orderId;
+  } else {
+    credit.status = 'dismissed';
+  }
+
+  credit.reviewDetail = input.reason ?? credit.reviewDetail;
+  credit.resolvedBy = reviewer.id;
+  credit.resolvedAt = new Date();
+  await credit.save();
+  return { credit, order };
+}
+
+export function serializeStaticCredit(credit: StaticQrCreditDocument) {
+  return {
+    creditId: credit.creditId,
+    source: credit.source,
+    utr: credit.utr,
+    amount: fromPaise(credit.amountPaise),
+    paidAt: credit.paidAt,
+    payeeVpa: credit.payeeVpa,
+    payerName: credit.payerName,
+    note: credit.note,
+    status: credit.status,
+    reviewReason: credit.reviewReason,
+    reviewDetail: credit.reviewDetail,
+    candidateOrderIds: credit.candidateOrderIds,
+    orderId: credit.orderId,
+    resolvedAt: credit.resolvedAt,
+    createdAt: credit.createdAt,
+  };
+}
@@ -0,0 +1,40 @@
+import path from 'path';
+import { LocalDiskStorage } from '@/lib/storage/local-disk';
+import type { StorageAdapter } from '@/lib/storage/types';
+
+export type { StorageAdapter, StoredObject } from '@/lib/storage/types';
+
+const adapterFactories = new Map<string, () => StorageAdapter>([
+  [
+    'local',
+    () =>
+      new LocalDiskStorage(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), '.uploads')),
+  ],
+]);
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Make another storage backend (S3, GCS, ...) selectable with STORAGE_DRIVER
+ */
+export function registerStorageAdapter(name: string, factory: () => StorageAdapter): void {
+  adapterFactories.set(name, factory);
+  if (storage?.name === name) {
+    storage = null;
+  }
+}
+
+/**
+ * The adapter named by STORAGE_DRIVER, local disk by default
+ */
+export function getStorage(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  if (storage?.name !== driver) {
+    const factory = adapterFactories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown storage driver: ${driver}`);
+    }
+    storage = factory();
+  }
+  return storage;
+}
@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageAdapter, StoredObject } from '@/lib/storage/types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Stores files under a directory on the server's disk. Only suitable for a
+ * single long-lived server; serverless deployments need a shared adapter.
+ */
+export class LocalDiskStorage implements StorageAdapter {
+  readonly name = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const data = await fs.readFile(this.resolve(key));
+      return {
+        data,
+        contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream',
+      };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
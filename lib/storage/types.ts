@@ -0,0 +1,16 @@
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Where uploaded files live. Keys are slash-separated paths such as
+ * `payment-proofs/ord_123/abc.png`; adapters decide how they map to storage.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { hasWholePaise } from '@/lib/utils/money';
+import { PHONE_PATTERN } from '@/lib/utils/phone';
 
 export const UserRoleSchema = z.enum(['admin', 'merchant', 'user']);
 export type UserRole = z.infer<typeof UserRoleSchema>;
@@ -21,6 +23,8 @@ export const OrderStatusSchema = z.enum([
   'completed',
   'expired',
   'failed',
+  'refunded',
+  'partially-refunded',
 ]);
 
 export type OrderStatus = z.infer<typeof OrderStatusSchema>;
@@ -34,6 +38,7 @@ export const OrderSchema = z.object({
   customerEmail: z.string().email().optional(),
   customerPhone: z.string().optional(),
   upiId: z.string(),
+  payeeName: z.string().optional(),
   status: OrderStatusSchema,
   utrNumber: z.string().optional(),
   createdBy: z.string(),
@@ -42,16 +47,39 @@ export const OrderSchema = z.object({
   updatedAt: z.date(),
   verifiedAt: z.date().optional(),
   verifiedBy: z.string().optional(),
+  refundedAmount: z.number().min(0).optional(),
 });
 
 export type Order = z.infer<typeof OrderSchema>;
 
+// Input accepted when creating an order, one at a time or in bulk
+export const CreateOrderSchema = z.object({
+  customerName: z.string().min(1, 'Customer name is required').max(100),
+  customerEmail: z.string().email('Invalid email format').optional(),
+  customerPhone: z
+    .string()
+    .regex(PHONE_PATTERN, 'Invalid phone format')
+    .optional(),
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .max(100000, 'Amount too large')
+    .refine(hasWholePaise, 'Amount can have at most two decimal places'),
+  description: z.string().min(1, 'Description is required').max(500),
+  expiresInMinutes: z.number().min(1).max(10080).optional(), // Up to 7 days; defaults to the timerDuration setting
+  upiId: z.string().trim().max(255).optional(), // One of the merchant's approved UPI IDs; defaults to their default
+});
+
+export type CreateOrderInput = z.infer<typeof CreateOrderSchema>;
+
 // Extended Order type for payment pages with additional UI fields
 export const PaymentOrderSchema = OrderSchema.extend({
   merchantName: z.string().optional(),
   vpa: z.string().optional(),
   upiDeepLink: z.string().optional(),
   utr: z.string().optional(),
+  // Milliseconds left to pay, as measured by the server when the page was rendered
+  timeRemaining: z.number().optional(),
 });
 
 export type PaymentOrder = z.infer<typeof PaymentOrderSchema>;
@@ -64,6 +92,29 @@ export const OrderTableSchema = OrderSchema.extend({
   upiDeepLink: z.string().optional(),
   utr: z.string().optional(),
   paymentPageUrl: z.string().optional(),
+  risk: z
+    .object({
+      score: z.number(),
+      level: z.enum(['low', 'medium', 'high']),
+      signals: z.array(z.object({ code: z.string(), weight: z.number(), detail: z.string() })),
+      onHold: z.boolean(),
+      holdReason: z.string().optional(),
+    })
+    .optional(),
+  paymentProof: z
+    .object({
+      contentType: z.string(),
+      uploadedAt: z.coerce.date(),
+      scanned: z.boolean(),
+      extracted: z.object({
+        utr: z.string().optional(),
+        amount: z.number().optional(),
+        payeeVpa: z.string().optional(),
+        paidAt: z.coerce.date().optional(),
+      }),
+      mismatches: z.array(z.object({ field: z.string(), expected: z.string(), found: z.string() })),
+    })
+    .optional(),
 });
 
 export type OrderTable = z.infer<typeof OrderTableSchema>;
@@ -8,7 +8,14 @@ export interface Order {
   customerName: string;
   customerEmail?: string;
   customerPhone?: string;
-  status: 'pending' | 'completed' | 'failed' | 'expired' | 'pending-verification';
+  status:
+    | 'pending'
+    | 'completed'
+    | 'failed'
+    | 'expired'
+    | 'pending-verification'
+    | 'refunded'
+    | 'partially-refunded';
   createdAt: string;
   expiresAt?: string;
   createdBy: string;
@@ -18,6 +25,7 @@ export interface DashboardStats {
   totalUsers?: number;
   totalOrders: number;
   totalRevenue: number;
+  totalRefunded?: number;
   successRate: number;
   pendingOrders: number;
   completedOrders: number;
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { hasWholePaise } from '@/lib/utils/money';
+import { PHONE_PATTERN } from '@/lib/utils/phone';
 
 export const UserRoleSchema = z.enum(['admin', 'merchant', 'user']);
 export type UserRole = z.infer<typeof UserRoleSchema>;
@@ -21,6 +23,8 @@ export const OrderStatusSchema = z.enum([
   'completed',
   'expired',
   'failed',
+  'refunded',
+  'partially-refunded',
 ]);
 
 export type OrderStatus = z.infer<typeof OrderStatusSchema>;
@@ -34,6 +38,7 @@ export const OrderSchema = z.object({
   customerEmail: z.string().email().optional(),
   customerPhone: z.string().optional(),
   upiId: z.string(),
+  payeeName: z.string().optional(),
   status: OrderStatusSchema,
   utrNumber: z.string().optional(),
   createdBy: z.string(),
@@ -43,10 +48,31 @@ export const OrderSchema = z.object({
   verifiedAt: z.date().optional(),
   verifiedBy: z.string().optional(),
   paymentLinkId: z.string().optional(),
+  refundedAmount: z.number().min(0).optional(),
 });
 
 export type Order = z.infer<typeof OrderSchema>;
 
+// Input accepted when creating an order, one at a time or in bulk
+export const CreateOrderSchema = z.object({
+  customerName: z.string().min(1, 'Customer name is required').max(100),
+  customerEmail: z.string().email('Invalid email format').optional(),
+  customerPhone: z
+    .string()
+    .regex(PHONE_PATTERN, 'Invalid phone format')
+    .optional(),
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .max(100000, 'Amount too large')
+    .refine(hasWholePaise, 'Amount can have at most two decimal places'),
+  description: z.string().min(1, 'Description is required').max(500),
+  expiresInMinutes: z.number().min(1).max(10080).optional(), // Up to 7 days; defaults to the timerDuration setting
+  upiId: z.string().trim().max(255).optional(), // One of the merchant's approved UPI IDs; defaults to their default
+});
+
+export type CreateOrderInput = z.infer<typeof CreateOrderSchema>;
+
 export const AuditLogSchema = z.object({
   id: z.string(),
   action: z.string(),
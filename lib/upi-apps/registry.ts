@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+export const UPI_PLATFORMS = ['android', 'ios', 'desktop'] as const;
+export type UpiPlatform = (typeof UPI_PLATFORMS)[number];
+
+export const UpiAppSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{2,20}$/, 'Use 2-20 lowercase letters, digits or dashes'),
+  name: z.string().trim().min(1, 'Name is required').max(40),
+  enabled: z.boolean(),
+  // A path under /public or an https URL
+  logo: z
+    .string()
+    .trim()
+    .regex(/^(\/|https:\/\/)\S+$/, 'Use a path such as /icons/app.svg or an https URL'),
+  // Replaces upi://pay in the payment link, e.g. tez://upi/pay. iOS has no way to
+  // pick an app by package, so this is what opens the app there.
+  scheme: z
+    .string()
+    .trim()
+    .regex(/^[a-z][a-z0-9+.-]*:\/\/[\w/.-]*$/i, 'Use a scheme such as phonepe://pay'),
+  // Android package the payment intent is sent to. Left out, Android asks the
+  // customer which UPI app to use.
+  androidPackage: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z]\w*(\.[a-zA-Z]\w*)+$/, 'Use a package name such as com.phonepe.app')
+    .optional(),
+  // App Store page opened when the scheme doesn't open anything on iOS
+  iosFallbackUrl: z.string().trim().url().startsWith('https://').optional(),
+});
+
+export type UpiApp = z.infer<typeof UpiAppSchema>;
+
+export const DEFAULT_UPI_APPS: UpiApp[] = [
+  {
+    id: 'gpay',
+    name: 'Google Pay',
+    enabled: true,
+    logo: '/icons/googlepay.svg',
+    scheme: 'tez://upi/pay',
+    androidPackage: 'com.google.android.apps.nbu.paisa.user',
+    iosFallbackUrl: 'https://apps.apple.com/in/app/google-pay-save-pay-manage/id1193357041',
+  },
+  {
+    id: 'phonepe',
+    name: 'PhonePe',
+    enabled: true,
+    logo: '/icons/phonepe.svg',
+    scheme: 'phonepe://pay',
+    androidPackage: 'com.phonepe.app',
+    iosFallbackUrl: 'https://apps.apple.com/in/app/phonepe-secure-payments-app/id1170055821',
+  },
+  {
+    id: 'paytm',
+    name: 'Paytm',
+    enabled: true,
+    logo: '/icons/paytm.svg',
+    scheme: 'paytmmp://pay',
+    androidPackage: 'net.one97.paytm',
+    iosFallbackUrl: 'https://apps.apple.com/in/app/paytm-secure-upi-payments/id473941634',
+  },
+  {
+    id: 'bhim',
+    name: 'BHIM',
+    enabled: true,
+    logo: '/icons/upi.svg',
+    scheme: 'bhim://pay',
+    androidPackage: 'in.org.npci.upiapp',
+    iosFallbackUrl: 'https://apps.apple.com/in/app/bhim-making-india-cashless/id1200315258',
+  },
+  {
+    id: 'upi',
+    name: 'Other UPI apps',
+    enabled: true,
+    logo: '/icons/upi.svg',
+    scheme: 'upi://pay',
+  },
+];
+
+/**
+ * The customer's platform from their browser's user agent. iPads that ask for the
+ * desktop site report themselves as Macs and are treated as desktops.
+ */
+export function detectPlatform(userAgent: string | null | undefined): UpiPlatform {
+  if (!userAgent) return 'desktop';
+  if (/android/i.test(userAgent)) return 'android';
+  if (/iphone|ipad|ipod/i.test(userAgent)) return 'ios';
+  return 'desktop';
+}
+
+/**
+ * The link that opens `app` with the payment in `upiLink`. On Android this is an
+ * intent for the app's package, which falls back to its Play Store page when the
+ * app isn't installed; elsewhere the app's own scheme.
+ */
+export function buildUpiAppLink(app: UpiApp, upiLink: string, platform: UpiPlatform): string {
+  const query = upiLink.slice(upiLink.indexOf('?'));
+
+  if (platform === 'android' && app.androidPackage) {
+    const playStore = `https://play.google.com/store/apps/details?id=${app.androidPackage}`;
+    return (
+      `intent://pay${query}#Intent;scheme=upi;package=${app.androidPackage};` +
+      `S.browser_fallback_url=${encodeURIComponent(playStore)};end`
+    );
+  }
+
+  return `${app.scheme}${query}`;
+}
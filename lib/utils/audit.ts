@@ -221,6 +221,12 @@ export const AUDIT_ACTIONS = {
   ORDER_VERIFIED: 'order_verified',
   ORDER_EXPIRED: 'order_expired',
   ORDER_FAILED: 'order_failed',
+  ORDER_REFUNDED: 'order_refunded',
+  ORDERS_EXPORTED: 'orders_exported',
+  ORDER_RISK_HELD: 'order_risk_held',
+  ORDER_RISK_RELEASED: 'order_risk_released',
+  RECEIPT_ISSUED: 'receipt_issued',
+  RECEIPT_REPRINTED: 'receipt_reprinted',
 
   // Settings actions
   SETTINGS_UPDATED: 'settings_updated',
@@ -233,6 +239,32 @@ export const AUDIT_ACTIONS = {
   ADMIN_ACCESS: 'admin_access',
   BULK_ACTION: 'bulk_action',
 
+  // Reconciliation actions
+  RECONCILIATION_UPLOADED: 'reconciliation_uploaded',
+  RECONCILIATION_APPROVED: 'reconciliation_approved',
+
+  // Risk actions
+  RISK_BLOCKLIST_ADDED: 'risk_blocklist_added',
+  RISK_BLOCKLIST_REMOVED: 'risk_blocklist_removed',
+
+  // Merchant UPI ID actions
+  VPA_REGISTERED: 'vpa_registered',
+  VPA_APPROVED: 'vpa_approved',
+  VPA_REJECTED: 'vpa_rejected',
+  VPA_REMOVED: 'vpa_removed',
+  VPA_DEFAULT_CHANGED: 'vpa_default_changed',
+  VPA_UPDATED: 'vpa_updated',
+  VPA_ROUTING_CHANGED: 'vpa_routing_changed',
+
+  // Static QR actions
+  STATIC_QR_SETTINGS_CHANGED: 'static_qr_settings_changed',
+  STATIC_QR_CREDIT_RECORDED: 'static_qr_credit_recorded',
+  STATIC_QR_CREDIT_RESOLVED: 'static_qr_credit_resolved',
+
+  // Counter kiosk actions
+  KIOSK_DEVICE_CREATED: 'kiosk_device_created',
+  KIOSK_DEVICE_REVOKED: 'kiosk_device_revoked',
+
   // Security actions
   RATE_LIMIT_EXCEEDED: 'rate_limit_exceeded',
   CSRF_TOKEN_INVALID: 'csrf_token_invalid',
@@ -240,6 +272,11 @@ export const AUDIT_ACTIONS = {
   AUTHORIZATION_FAILURE: 'authorization_failure',
 
   // Webhook actions
+  WEBHOOK_CREATED: 'webhook_created',
+  WEBHOOK_UPDATED: 'webhook_updated',
+  WEBHOOK_DELETED: 'webhook_deleted',
+  WEBHOOK_SECRET_ROTATED: 'webhook_secret_rotated',
+  WEBHOOK_TEST_SENT: 'webhook_test_sent',
   WEBHOOK_RECEIVED: 'webhook_received',
   PAYMENT_CONFIRMED: 'payment_confirmed',
   PAYMENT_FAILED: 'payment_failed',
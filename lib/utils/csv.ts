@@ -0,0 +1,103 @@
+/**
+ * Minimal RFC 4180 CSV parser. Handles quoted fields, escaped quotes, embedded
+ * newlines, CRLF line endings and a leading byte order mark.
+ */
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Pick between comma, semicolon and tab. Looks at the first few lines rather than
+ * just the first one, since bank exports often start with a title or account block.
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/, 20);
+  const counts = [',', ';', '\t'].map((d) => ({
+    d,
+    n: Math.max(0, ...lines.map((line) => line.split(d).length - 1)),
+  }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+export type CSVValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Format one CSV line, quoting fields that contain the delimiter, quotes or newlines.
+ * Text starting with a formula character is prefixed with a quote so spreadsheet
+ * apps don't evaluate customer-supplied values; plain numbers such as phone
+ * numbers are left alone.
+ */
+export function formatCSVRow(values: CSVValue[], delimiter = ','): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) return '';
+      let text = value instanceof Date ? value.toISOString() : String(value);
+      if (
+        typeof value === 'string' &&
+        /^[=+\-@\t\r]/.test(text) &&
+        !/^[+-]?[\d\s().-]+$/.test(text)
+      ) {
+        text = `'${text}`;
+      }
+      return /["\r\n]/.test(text) || text.includes(delimiter)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    })
+    .join(delimiter);
+}
+
+/**
+ * Serialize rows to CSV with CRLF line endings
+ */
+export function toCSV(rows: CSVValue[][], delimiter = ','): string {
+  return rows.map((row) => formatCSVRow(row, delimiter)).join('\r\n');
+}
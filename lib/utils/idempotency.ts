@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { redis, REDIS_KEYS } from '@/lib/redis';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// How long a stored response is replayed for (default 24 hours)
+const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10);
+
+// How long a key stays claimed while its first request is running
+const IN_PROGRESS_TTL_SECONDS = 60;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+type IdempotencyRecord =
+  | { state: 'processing'; fingerprint: string }
+  | {
+      state: 'completed';
+      fingerprint: string;
+      status: number;
+      body: string;
+      contentType: string | null;
+    };
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * JSON bodies are compared by content, so a retry that serializes the same
+ * fields in a different order or with different spacing still matches
+ */
+function fingerprintRequest(request: Request, body: string): string {
+  let canonical = body;
+  try {
+    canonical = JSON.stringify(sortKeys(JSON.parse(body)));
+  } catch {
+    // Not JSON; compare the raw body
+  }
+
+  return createHash('sha256')
+    .update(`${request.method} ${new URL(request.url).pathname}\n${canonical}`)
+    .digest('hex');
+}
+
+function parseRecord(raw: unknown): IdempotencyRecord | null {
+  if (!raw) return null;
+  // Upstash deserializes JSON values on read unless told otherwise
+  return (typeof raw === 'string' ? JSON.parse(raw) : raw) as IdempotencyRecord;
+}
+
+function replay(record: Extract<IdempotencyRecord, { state: 'completed' }>): NextResponse {
+  return new NextResponse(record.body, {
+    status: record.status,
+    headers: {
+      ...(record.contentType && { 'Content-Type': record.contentType }),
+      'Idempotent-Replayed': 'true',
+    },
+  });
+}
+
+function conflict(error: string, code: string, status: number): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+/**
+ * Run a create handler at most once per `Idempotency-Key`. The first response is
+ * stored and replayed for retries with the same key and body; reusing a key with a
+ * different body is rejected. Requests without the header run as usual. 5xx and
+ * 429 responses aren't stored, so a retry after a server error or rate limit runs again.
+ *
+ * `scope` keeps keys from different endpoints and callers apart. If Redis is
+ * unavailable the handler runs without protection rather than failing the request.
+ */
+export async function withIdempotency(
+  request: Request,
+  scope: string,
+  handler: () => Promise<NextResponse>,
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) {
+    return handler();
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    return conflict(
+      `${IDEMPOTENCY_HEADER} must be 1-255 printable ASCII characters`,
+      'INVALID_IDEMPOTENCY_KEY',
+      400,
+    );
+  }
+
+  const fingerprint = fingerprintRequest(request, await request.clone().text());
+  const redisKey = REDIS_KEYS.IDEMPOTENCY(scope, key);
+
+  let claimed: boolean;
+  try {
+    const processing: IdempotencyRecord = { state: 'processing', fingerprint };
+    claimed =
+      (await redis.set(redisKey, JSON.stringify(processing), {
+        nx: true,
+        ex: IN_PROGRESS_TTL_SECONDS,
+      })) === 'OK';
+
+    if (!claimed) {
+      const existing = parseRecord(await redis.get(redisKey));
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          return conflict(
+            `${IDEMPOTENCY_HEADER} was already used with a different request`,
+            'IDEMPOTENCY_KEY_REUSED',
+            422,
+          );
+        }
+        if (existing.state === 'processing') {
+          return conflict(
+            'A request with this idempotency key is still being processed',
+            'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            409,
+          );
+        }
+        return replay(existing);
+      }
+    }
+  } catch (error) {
+    console.error('[Idempotency] Redis unavailable, running request without a key:', error);
+    return handler();
+  }
+
+  if (!claimed) {
+    // The record expired between SET and GET; treat this as a fresh request
+    return withIdempotency(request, scope, handler);
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await redis.del(redisKey).catch(() => undefined);
+    throw error;
+  }
+
+  try {
+    if (response.status >= 500 || response.status === 429) {
+      await redis.del(redisKey);
+    } else {
+      const completed: IdempotencyRecord = {
+        state: 'completed',
+        fingerprint,
+        status: response.status,
+        body: await response.clone().text(),
+        contentType: response.headers.get('content-type'),
+      };
+      await redis.set(redisKey, JSON.stringify(completed), { ex: IDEMPOTENCY_TTL_SECONDS });
+    }
+  } catch (error) {
+    console.error('[Idempotency] Failed to store response:', error);
+  }
+
+  return response;
+}
@@ -0,0 +1,85 @@
+/**
+ * Money helpers. Amounts are stored and added up as integer paise (1 rupee = 100
+ * paise) so that totals never pick up floating-point error; rupees only appear at
+ * the edges, in API payloads, UPI links and on screen.
+ */
+
+export type Paise = number;
+
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+export function isPaise(value: unknown): value is Paise {
+  return typeof value === 'number' && Number.isSafeInteger(value);
+}
+
+export function assertPaise(value: unknown, label = 'Amount'): Paise {
+  if (!isPaise(value)) {
+    throw new MoneyError(`${label} must be a whole number of paise, got ${String(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Convert rupees to paise, rounding to the nearest paisa. `1.005 * 100` is
+ * 100.49999999999999 in floating point, so the product is cut to 15 significant
+ * digits before rounding.
+ */
+export function toPaise(rupees: number): Paise {
+  if (!Number.isFinite(rupees)) {
+    throw new MoneyError(`Amount must be a finite number, got ${rupees}`);
+  }
+  return assertPaise(Math.round(Number((rupees * 100).toPrecision(15))) || 0);
+}
+
+export function fromPaise(paise: Paise): number {
+  return assertPaise(paise) / 100;
+}
+
+/**
+ * Whether a rupee amount has at most two decimal places, i.e. is a whole number of paise
+ */
+export function hasWholePaise(rupees: number): boolean {
+  return Number.isFinite(rupees) && Math.abs(rupees * 100 - toPaise(rupees)) < 1e-6;
+}
+
+export function addPaise(...amounts: Paise[]): Paise {
+  return assertPaise(
+    amounts.reduce((total, amount) => total + assertPaise(amount), 0),
+    'Total',
+  );
+}
+
+export function subtractPaise(amount: Paise, ...deductions: Paise[]): Paise {
+  return assertPaise(assertPaise(amount) - addPaise(...deductions), 'Difference');
+}
+
+/**
+ * Rupee amount for the `am` parameter of a UPI link: always two decimals and no
+ * grouping, e.g. 150050 -> "1500.50", as the UPI linking specification requires
+ */
+export function formatUpiAmount(paise: Paise): string {
+  assertPaise(paise);
+  if (paise <= 0) {
+    throw new MoneyError('UPI amounts must be positive');
+  }
+  return `${Math.floor(paise / 100)}.${String(paise % 100).padStart(2, '0')}`;
+}
+
+const INR_FORMATTER = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+/**
+ * Display an amount in Indian rupees with Indian digit grouping, e.g. 12345600 -> "₹1,23,456.00"
+ */
+export function formatINR(paise: Paise): string {
+  return INR_FORMATTER.format(fromPaise(paise));
+}
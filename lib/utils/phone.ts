@@ -0,0 +1,38 @@
+// Phone numbers as customers type them: digits with optional +, spaces, dashes and brackets
+export const PHONE_PATTERN = /^[+]?[\d\s-()]{10,15}$/;
+
+export const DEFAULT_COUNTRY_CODE = '91';
+
+/**
+ * Normalize a phone number that passed PHONE_PATTERN to E.164 (`+919876543210`),
+ * which is what SMS and WhatsApp providers expect. National numbers, with or without
+ * a trunk 0, get the default country code. Returns null if it can't be a valid number.
+ */
+export function normalizePhone(
+  phone: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE,
+): string | null {
+  const trimmed = phone.trim();
+  if (!PHONE_PATTERN.test(trimmed)) {
+    return null;
+  }
+
+  let digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.length === 10) {
+    digits = `${defaultCountryCode}${digits}`;
+  } else if (digits.length === 11 && digits.startsWith('0')) {
+    digits = `${defaultCountryCode}${digits.slice(1)}`;
+  } else if (!digits.startsWith(defaultCountryCode)) {
+    return null;
+  }
+
+  // E.164 allows at most 15 digits and no leading zero
+  if (digits.length < 11 || digits.length > 15 || digits.startsWith('0')) {
+    return null;
+  }
+  return `+${digits}`;
+}
@@ -172,6 +172,14 @@ export const RATE_LIMIT_CONFIGS = {
     message: 'Too many UTR submissions'
   },
   
+  // Payment screenshot OCR, which is CPU-heavy; counted separately from other requests
+  ocr: {
+    max: 5,
+    windowMs: 60 * 1000, // 1 minute
+    keyGenerator: (request: NextRequest) => `ocr:${defaultKeyGenerator(request)}`,
+    message: 'Too many screenshot uploads'
+  },
+  
   // Order creation
   orders: {
     max: 20,
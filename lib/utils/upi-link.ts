@@ -0,0 +1,301 @@
+/**
+ * Builder and parser for `upi://pay` links, the format UPI apps open and static
+ * and dynamic UPI QR codes carry, following the NPCI UPI linking specification.
+ * Both validate every parameter, so a link we build is one apps accept and a
+ * merchant's QR code can be checked before we rely on it.
+ */
+
+import { DEFAULT_UPI_APPS } from '@/lib/upi-apps/registry';
+import { formatUpiAmount, toPaise, type Paise } from '@/lib/utils/money';
+
+export interface UpiPayLink {
+  payeeAddress: string; // pa, the payee's UPI ID
+  payeeName: string; // pn
+  merchantCode?: string; // mc, 4-digit merchant category code
+  transactionId?: string; // tid, set by the payee's PSP
+  transactionRef?: string; // tr, the merchant's reference, e.g. an order ID
+  transactionNote?: string; // tn
+  amountPaise?: Paise; // am; the customer enters the amount when absent
+  minimumAmountPaise?: Paise; // mam; lets the customer pay between mam and am
+  currency?: 'INR'; // cu
+  url?: string; // url, more about the transaction
+  mode?: string; // mode, how the link reached the customer, see UPI_LINK_MODES
+  orgId?: string; // orgid, the organisation that generated the link
+  merchantId?: string; // mid
+  purpose?: string; // purpose code, see UPI_PURPOSE_CODES
+  // Parameters outside the fields above, e.g. `sign` on signed QR codes
+  extras?: Record<string, string>;
+}
+
+export interface UpiLinkIssue {
+  param: string;
+  message: string;
+}
+
+export class UpiLinkError extends Error {
+  constructor(public readonly issues: UpiLinkIssue[]) {
+    super(issues.map((issue) => `${issue.param}: ${issue.message}`).join('; '));
+    this.name = 'UpiLinkError';
+  }
+}
+
+export const UPI_LINK_MODES = {
+  default: '00',
+  qr: '01',
+  secureQr: '02',
+  nfc: '03',
+  bluetooth: '04',
+  uhf: '05',
+  aadhaar: '06',
+  sdk: '07',
+} as const;
+
+export const UPI_PURPOSE_CODES = {
+  default: '00',
+  sebi: '01',
+  amc: '02',
+  travel: '03',
+  hospitality: '04',
+  hospital: '05',
+  telecom: '06',
+  insurance: '07',
+  education: '08',
+  gifting: '09',
+  others: '10',
+} as const;
+
+// Parameter name for each field, in the order the specification lists them
+const PARAMS = {
+  payeeAddress: 'pa',
+  payeeName: 'pn',
+  merchantCode: 'mc',
+  transactionId: 'tid',
+  transactionRef: 'tr',
+  transactionNote: 'tn',
+  amountPaise: 'am',
+  minimumAmountPaise: 'mam',
+  currency: 'cu',
+  url: 'url',
+  mode: 'mode',
+  orgId: 'orgid',
+  merchantId: 'mid',
+  purpose: 'purpose',
+} as const satisfies Record<keyof Omit<UpiPayLink, 'extras'>, string>;
+
+type LinkField = keyof typeof PARAMS;
+
+type TextField = Exclude<LinkField, 'amountPaise' | 'minimumAmountPaise'>;
+
+interface TextRule {
+  max: number;
+  pattern: RegExp;
+  hint: string;
+}
+
+const PRINTABLE = /^[\x20-\x7E]+$/;
+
+const TEXT_RULES: Record<TextField, TextRule> = {
+  payeeAddress: {
+    max: 255,
+    pattern: /^[\w.-]+@[\w.-]+$/,
+    hint: 'must be a UPI ID like name@bank',
+  },
+  payeeName: { max: 99, pattern: PRINTABLE, hint: 'must be printable ASCII' },
+  merchantCode: { max: 4, pattern: /^\d{4}$/, hint: 'must be a 4-digit merchant category code' },
+  transactionId: { max: 35, pattern: /^[\w.-]+$/, hint: 'may only contain A-Z, 0-9, _, . and -' },
+  transactionRef: { max: 35, pattern: /^[\w.-]+$/, hint: 'may only contain A-Z, 0-9, _, . and -' },
+  transactionNote: { max: 80, pattern: PRINTABLE, hint: 'must be printable ASCII' },
+  currency: { max: 3, pattern: /^INR$/, hint: 'must be INR' },
+  url: { max: 99, pattern: /^https?:\/\/\S+$/, hint: 'must be an http or https URL' },
+  mode: { max: 2, pattern: /^\d{2}$/, hint: 'must be a 2-digit mode code' },
+  orgId: { max: 6, pattern: /^\d{6}$/, hint: 'must be 6 digits' },
+  merchantId: { max: 20, pattern: /^[A-Za-z0-9]+$/, hint: 'must be alphanumeric' },
+  purpose: { max: 2, pattern: /^\d{2}$/, hint: 'must be a 2-digit purpose code' },
+};
+
+const REQUIRED: TextField[] = ['payeeAddress', 'payeeName'];
+
+const AMOUNT_PATTERN = /^\d{1,9}(\.\d{1,2})?$/;
+
+// upi://pay and the schemes of the apps in the UPI app registry, e.g. tez://upi/pay
+const PAY_LINK_PREFIX = new RegExp(
+  `^(?:${DEFAULT_UPI_APPS.map((app) => app.scheme.replace(/[.+/]/g, '\\$&')).join('|')})\\?`,
+  'i',
+);
+
+function validate(link: UpiPayLink): UpiLinkIssue[] {
+  const issues: UpiLinkIssue[] = [];
+
+  for (const [field, rule] of Object.entries(TEXT_RULES) as [TextField, TextRule][]) {
+    const param = PARAMS[field];
+    const value = link[field];
+    if (value === undefined || value === '') {
+      if (REQUIRED.includes(field)) {
+        issues.push({ param, message: 'is required' });
+      }
+    } else if (value.length > rule.max) {
+      issues.push({ param, message: `must be at most ${rule.max} characters` });
+    } else if (!rule.pattern.test(value)) {
+      issues.push({ param, message: rule.hint });
+    }
+  }
+
+  for (const field of ['amountPaise', 'minimumAmountPaise'] as const) {
+    const value = link[field];
+    if (value !== undefined && (!Number.isSafeInteger(value) || value <= 0)) {
+      issues.push({ param: PARAMS[field], message: 'must be a positive amount' });
+    }
+  }
+
+  if (link.minimumAmountPaise !== undefined) {
+    if (link.amountPaise === undefined) {
+      issues.push({ param: 'mam', message: 'needs am' });
+    } else if (link.minimumAmountPaise > link.amountPaise) {
+      issues.push({ param: 'mam', message: 'must not be more than am' });
+    }
+  }
+
+  return issues;
+}
+
+// encodeURIComponent rather than URLSearchParams, whose `+` for spaces some UPI apps show as-is
+function encode(value: string): string {
+  return encodeURIComponent(value);
+}
+
+/**
+ * Build a `upi://pay` link, throwing UpiLinkError listing every invalid
+ * parameter. `cu` defaults to INR.
+ */
+export function buildUpiLink(link: UpiPayLink): string {
+  const issues = validate(link);
+  if (issues.length > 0) {
+    throw new UpiLinkError(issues);
+  }
+
+  const { amountPaise, minimumAmountPaise, extras: _extras, ...text } = link;
+  const values: Partial<Record<LinkField, string>> = {
+    ...text,
+    amountPaise: amountPaise !== undefined ? formatUpiAmount(amountPaise) : undefined,
+    minimumAmountPaise:
+      minimumAmountPaise !== undefined ? formatUpiAmount(minimumAmountPaise) : undefined,
+    currency: link.currency ?? 'INR',
+  };
+
+  const pairs: string[] = [];
+  for (const [field, param] of Object.entries(PARAMS) as [LinkField, string][]) {
+    const value = values[field];
+    if (value) {
+      pairs.push(`${param}=${encode(value)}`);
+    }
+  }
+  for (const [param, value] of Object.entries(link.extras ?? {})) {
+    pairs.push(`${encode(param)}=${encode(value)}`);
+  }
+
+  return `upi://pay?${pairs.join('&')}`;
+}
+
+function decode(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '));
+}
+
+/**
+ * Parse a `upi://pay` link or scanned QR payload, including the app-specific
+ * schemes. Parameter names are matched case-insensitively. Throws UpiLinkError
+ * if the link is malformed or any parameter breaks the rules buildUpiLink()
+ * applies.
+ */
+export function parseUpiLink(input: string): UpiPayLink {
+  const text = input.trim();
+  const prefix = PAY_LINK_PREFIX.exec(text);
+  if (!prefix) {
+    throw new UpiLinkError([{ param: 'scheme', message: 'must be a upi://pay link' }]);
+  }
+
+  const fieldsByParam = new Map(
+    (Object.entries(PARAMS) as [LinkField, string][]).map(([field, param]) => [param, field]),
+  );
+  const raw: Partial<Record<LinkField, string>> = {};
+  const extras: Record<string, string> = {};
+  const issues: UpiLinkIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const pair of text.slice(prefix[0].length).split('&')) {
+    if (!pair) continue;
+
+    const separator = pair.indexOf('=');
+    const rawName = separator === -1 ? pair : pair.slice(0, separator);
+    const rawValue = separator === -1 ? '' : pair.slice(separator + 1);
+    let name: string;
+    let value: string;
+    try {
+      name = decode(rawName);
+      value = decode(rawValue);
+    } catch {
+      issues.push({ param: rawName, message: 'is not valid percent-encoding' });
+      continue;
+    }
+
+    const param = name.toLowerCase();
+    if (seen.has(param)) {
+      issues.push({ param, message: 'appears more than once' });
+      continue;
+    }
+    seen.add(param);
+
+    const field = fieldsByParam.get(param);
+    if (field) {
+      raw[field] = value;
+    } else {
+      extras[name] = value;
+    }
+  }
+
+  const { amountPaise: _am, minimumAmountPaise: _mam, currency, ...textFields } = raw;
+  const parsed: UpiPayLink = {
+    ...textFields,
+    payeeAddress: raw.payeeAddress ?? '',
+    payeeName: raw.payeeName ?? '',
+    // Anything but INR is reported by validate() below
+    currency: currency as UpiPayLink['currency'],
+  };
+  for (const field of ['amountPaise', 'minimumAmountPaise'] as const) {
+    const value = raw[field];
+    if (value === undefined || value === '') continue;
+
+    if (AMOUNT_PATTERN.test(value)) {
+      parsed[field] = toPaise(Number(value));
+    } else {
+      issues.push({ param: PARAMS[field], message: 'must be an amount like 1500.50' });
+    }
+  }
+  if (Object.keys(extras).length > 0) {
+    parsed.extras = extras;
+  }
+
+  issues.push(...validate(parsed).filter((issue) => !issues.some((i) => i.param === issue.param)));
+  if (issues.length > 0) {
+    throw new UpiLinkError(issues);
+  }
+
+  // Leave out parameters the link didn't have
+  return Object.fromEntries(
+    Object.entries(parsed).filter(([, value]) => value !== undefined && value !== ''),
+  ) as unknown as UpiPayLink;
+}
+
+/**
+ * Make free text fit a pn or tn parameter: non-ASCII characters are dropped and
+ * the rest is cut to `max` characters. For names and notes typed by merchants,
+ * which are shown in the customer's UPI app and shouldn't stop a link being built.
+ */
+export function toUpiText(value: string, max: number): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7E]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, max)
+    .trim();
+}
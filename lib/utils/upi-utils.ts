@@ -1,72 +1,70 @@
-import { toDataURL } from 'qrcode';
+import { QrCodeError, renderQRCode, type QrRenderOptions } from '@/lib/qr/render';
+import { toPaise } from '@/lib/utils/money';
+import { buildUpiLink, toUpiText } from '@/lib/utils/upi-link';
+import { DEFAULT_UPI_APPS, buildUpiAppLink, type UpiApp } from '@/lib/upi-apps/registry';
 
 export interface UPIPaymentData {
   payeeAddress: string;
   payeeName: string;
-  amount: number;
-  transactionNote: string;
+  // Leave out for a static QR, where the customer enters the amount
+  amount?: number;
+  transactionNote?: string;
   transactionRef?: string;
 }
 
 /**
- * Generate UPI payment string according to UPI linking specification
- * Format: upi://pay?pa=<payee_address>&pn=<payee_name>&am=<amount>&tn=<transaction_note>&tr=<transaction_ref>
+ * Generate the UPI payment link for an order. Names and notes are trimmed to what
+ * the UPI linking specification allows, and `mc` is added when MERCHANT_CODE is a
+ * 4-digit merchant category code. See buildUpiLink() for the other parameters.
  */
 export function generateUPIString(data: UPIPaymentData): string {
-  const params = new URLSearchParams();
+  const { merchantCode } = getUPIConfig();
 
-  params.set('pa', data.payeeAddress); // Payee Address (UPI ID)
-  params.set('pn', data.payeeName); // Payee Name
-  params.set('am', data.amount.toString()); // Amount
-  params.set('tn', data.transactionNote); // Transaction Note
-
-  if (data.transactionRef) {
-    params.set('tr', data.transactionRef); // Transaction Reference
-  }
-
-  return `upi://pay?${params.toString()}`;
+  return buildUpiLink({
+    payeeAddress: data.payeeAddress,
+    payeeName: toUpiText(data.payeeName, 99) || data.payeeAddress,
+    merchantCode: /^\d{4}$/.test(merchantCode) ? merchantCode : undefined,
+    transactionRef: data.transactionRef,
+    transactionNote: toUpiText(data.transactionNote ?? '', 80) || undefined,
+    amountPaise: data.amount === undefined ? undefined : toPaise(data.amount),
+  });
 }
 
 /**
- * Generate QR code for UPI payment
+ * Generate a QR code for a UPI payment as a data URL: a 300px PNG unless options
+ * ask for a logo, brand colors, a caption or another format (see renderQRCode)
  */
-export async function generateQRCode(upiString: string): Promise<string> {
+export async function generateQRCode(
+  upiString: string,
+  options: QrRenderOptions = {},
+): Promise<string> {
   try {
-    const qrCodeDataUrl = await toDataURL(upiString, {
-      errorCorrectionLevel: 'M',
-      type: 'image/png',
-      margin: 1,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF',
-      },
-      width: 300,
-    });
-
-    return qrCodeDataUrl;
+    const { data, contentType } = await renderQRCode(upiString, options);
+    return `data:${contentType};base64,${data.toString('base64')}`;
   } catch (error) {
+    if (error instanceof QrCodeError) {
+      throw error;
+    }
     console.error('Error generating QR code:', error);
     throw new Error('Failed to generate QR code');
   }
 }
 
 /**
- * Generate deep links for popular UPI apps
+ * Links that open the payment in each UPI app, keyed by app ID, plus the plain
+ * `generic` link any UPI app can open. `apps` defaults to the built-in registry;
+ * pass getEnabledUpiApps() to leave out the apps turned off in Settings. These
+ * are scheme links, since API clients may show them on any platform.
  */
-export function generateUPIDeepLinks(upiString: string): {
-  gpay: string;
-  phonepe: string;
-  paytm: string;
-  bhim: string;
-  generic: string;
-} {
-  return {
-    gpay: `tez://upi/pay?${upiString.replace('upi://pay?', '')}`,
-    phonepe: `phonepe://pay?${upiString.replace('upi://pay?', '')}`,
-    paytm: `paytmmp://pay?${upiString.replace('upi://pay?', '')}`,
-    bhim: `bhim://pay?${upiString.replace('upi://pay?', '')}`,
-    generic: upiString,
-  };
+export function generateUPIDeepLinks(
+  upiString: string,
+  apps: UpiApp[] = DEFAULT_UPI_APPS,
+): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const app of apps) {
+    links[app.id] = buildUpiAppLink(app, upiString, 'desktop');
+  }
+  return { ...links, generic: upiString };
 }
 
 /**
@@ -87,6 +85,24 @@ export function generateOrderId(): string {
   return `ord_${timestamp}_${random}`;
 }
 
+/**
+ * Generate refund ID with timestamp and random suffix
+ */
+export function generateRefundId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `rfd_${timestamp}_${random}`;
+}
+
+/**
+ * Generate bulk operation ID with timestamp and random suffix
+ */
+export function generateBulkId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `blk_${timestamp}_${random}`;
+}
+
 /**
  * Calculate expiration time based on minutes from now
  */
@@ -116,17 +132,10 @@ export function getUPIConfig(): {
   upiId: string;
   merchantName: string;
   merchantCode: string;
-  enabledApps: Record<string, boolean>;
 } {
   return {
     upiId: process.env.UPI_ID || 'merchant@paytm',
     merchantName: process.env.MERCHANT_NAME || 'UPI Payment System',
     merchantCode: process.env.MERCHANT_CODE || 'UPI001',
-    enabledApps: {
-      gpay: process.env.ENABLE_GPAY === 'true',
-      phonepe: process.env.ENABLE_PHONEPE === 'true',
-      paytm: process.env.ENABLE_PAYTM === 'true',
-      bhim: process.env.ENABLE_BHIM === 'true',
-    },
   };
 }
@@ -0,0 +1,228 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import {
+  MerchantVpaModel,
+  VPA_PATTERN,
+  type MerchantVpaDocument,
+} from '@/lib/db/models/MerchantVpa';
+import { UserModel } from '@/lib/db/models/User';
+import { fromPaise, hasWholePaise } from '@/lib/utils/money';
+import { getUPIConfig } from '@/lib/utils/upi-utils';
+import { usageDay, usageOn } from '@/lib/vpas/usage';
+
+export const MAX_VPAS_PER_MERCHANT = 10;
+
+export class VpaError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = 'VpaError';
+  }
+}
+
+export const VpaAddressSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(255)
+  .regex(VPA_PATTERN, 'Invalid UPI ID format - must be in format user@provider');
+
+export const RegisterVpaSchema = z.object({
+  vpa: VpaAddressSchema,
+  payeeName: z.string().trim().min(1, 'Payee name is required').max(100),
+});
+
+export const ReviewVpaSchema = z
+  .object({
+    decision: z.enum(['approve', 'reject']),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.decision === 'approve' || Boolean(data.reason), {
+    message: 'A reason is required when rejecting a UPI ID',
+    path: ['reason'],
+  });
+
+export const UpdateVpaSchema = z
+  .object({
+    isActive: z.boolean().optional(),
+    // Rupees; null removes the cap
+    dailyAmountLimit: z
+      .number()
+      .positive('Daily amount limit must be positive')
+      .max(10000000)
+      .refine(hasWholePaise, 'Amount can have at most two decimal places')
+      .nullable()
+      .optional(),
+    dailyCountLimit: z.number().int().min(1).max(100000).nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No changes provided',
+  });
+
+// Where an order's or link's money goes, and the name the customer's UPI app shows
+export interface Payee {
+  upiId: string;
+  payeeName: string;
+}
+
+/**
+ * Find a VPA by ID, scoped to the merchant who registered it
+ */
+export async function findOwnedVpa(
+  vpaId: string,
+  ownerId: string,
+): Promise<MerchantVpaDocument | null> {
+  if (!mongoose.isValidObjectId(vpaId)) {
+    return null;
+  }
+
+  return MerchantVpaModel.findOne({ _id: vpaId, ownerId });
+}
+
+export const VPA_ROUTING_STRATEGIES = ['default', 'round-robin', 'least-used'] as const;
+
+export type VpaRoutingStrategy = (typeof VPA_ROUTING_STRATEGIES)[number];
+
+export const VpaRoutingSchema = z.object({
+  strategy: z.enum(VPA_ROUTING_STRATEGIES),
+});
+
+export interface VpaRoutingPreferences {
+  defaultUpiId?: string;
+  vpaRouting: VpaRoutingStrategy;
+}
+
+export async function getRoutingPreferences(ownerId: string): Promise<VpaRoutingPreferences> {
+  if (!mongoose.isValidObjectId(ownerId)) {
+    return { vpaRouting: 'default' };
+  }
+
+  const owner = await UserModel.findById(ownerId)
+    .select('preferences.defaultUpiId preferences.vpaRouting')
+    .lean<{ preferences?: Partial<VpaRoutingPreferences> }>();
+  return {
+    defaultUpiId: owner?.preferences?.defaultUpiId || undefined,
+    vpaRouting: owner?.preferences?.vpaRouting ?? 'default',
+  };
+}
+
+export async function getDefaultUpiId(ownerId: string): Promise<string | undefined> {
+  return (await getRoutingPreferences(ownerId)).defaultUpiId;
+}
+
+export async function setDefaultUpiId(ownerId: string, vpa: string | undefined): Promise<void> {
+  if (!mongoose.isValidObjectId(ownerId)) {
+    return;
+  }
+
+  await UserModel.updateOne(
+    { _id: ownerId },
+    vpa
+      ? { $set: { 'preferences.defaultUpiId': vpa } }
+      : { $unset: { 'preferences.defaultUpiId': '' } },
+  );
+}
+
+export async function setVpaRouting(ownerId: string, strategy: VpaRoutingStrategy): Promise<void> {
+  if (!mongoose.isValidObjectId(ownerId)) {
+    return;
+  }
+
+  await UserModel.updateOne({ _id: ownerId }, { $set: { 'preferences.vpaRouting': strategy } });
+}
+
+/**
+ * A UPI ID the merchant asked for by address; it must be theirs, approved and enabled
+ */
+export async function findRequestedVpa(
+  ownerId: string,
+  requestedVpa: string,
+): Promise<MerchantVpaDocument> {
+  const vpa = await MerchantVpaModel.findOne({
+    ownerId,
+    vpa: requestedVpa.trim().toLowerCase(),
+  });
+  if (!vpa) {
+    throw new VpaError('This UPI ID is not registered to your account', 'VPA_NOT_FOUND');
+  }
+  if (vpa.status !== 'approved') {
+    throw new VpaError('This UPI ID has not been approved yet', 'VPA_NOT_APPROVED');
+  }
+  if (vpa.isActive === false) {
+    throw new VpaError('This UPI ID is disabled', 'VPA_DISABLED');
+  }
+  return vpa;
+}
+
+/**
+ * UPI_ID from the environment, for merchants who have no approved UPI ID, unless
+ * REQUIRE_MERCHANT_VPA is set
+ */
+export function platformPayee(): Payee {
+  if (process.env.REQUIRE_MERCHANT_VPA === 'true') {
+    throw new VpaError(
+      'Add a UPI ID and wait for it to be approved before collecting payments',
+      'VPA_REQUIRED',
+    );
+  }
+
+  const upiConfig = getUPIConfig();
+  return { upiId: upiConfig.upiId, payeeName: upiConfig.merchantName };
+}
+
+/**
+ * The payee for a new payment link. A requested VPA must be registered to the
+ * merchant, approved and enabled; otherwise the merchant's default is used, then
+ * their oldest enabled VPA. Orders are routed with assignOrderPayee() instead,
+ * which also applies daily caps.
+ */
+export async function resolvePayee(ownerId: string, requestedVpa?: string): Promise<Payee> {
+  if (requestedVpa) {
+    const vpa = await findRequestedVpa(ownerId, requestedVpa);
+    return { upiId: vpa.vpa, payeeName: vpa.payeeName };
+  }
+
+  const approved = await MerchantVpaModel.find({ ownerId, status: 'approved' }).sort({
+    createdAt: 1,
+  });
+  if (approved.length === 0) {
+    return platformPayee();
+  }
+
+  const enabled = approved.filter((vpa) => vpa.isActive !== false);
+  if (enabled.length === 0) {
+    throw new VpaError('All of your UPI IDs are disabled', 'VPA_UNAVAILABLE');
+  }
+
+  const defaultUpiId = await getDefaultUpiId(ownerId);
+  const chosen = enabled.find((vpa) => vpa.vpa === defaultUpiId) ?? enabled[0];
+  return { upiId: chosen.vpa, payeeName: chosen.payeeName };
+}
+
+export function serializeVpa(
+  vpa: MerchantVpaDocument,
+  defaultUpiId?: string,
+): Record<string, unknown> {
+  const today = usageOn(vpa, usageDay());
+  return {
+    id: String(vpa._id),
+    vpa: vpa.vpa,
+    payeeName: vpa.payeeName,
+    status: vpa.status,
+    isDefault: vpa.vpa === defaultUpiId,
+    isActive: vpa.isActive !== false,
+    dailyAmountLimit:
+      vpa.dailyAmountLimitPaise !== undefined ? fromPaise(vpa.dailyAmountLimitPaise) : undefined,
+    dailyCountLimit: vpa.dailyCountLimit,
+    usedToday: {
+      amount: fromPaise(today.amountPaise),
+      count: today.count,
+    },
+    rejectionReason: vpa.rejectionReason,
+    reviewedAt: vpa.reviewedAt,
+    createdAt: vpa.createdAt,
+    updatedAt: vpa.updatedAt,
+  };
+}
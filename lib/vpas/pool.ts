@@ -0,0 +1,215 @@
+import { MerchantVpaModel, type MerchantVpaDocument } from '@/lib/db/models/MerchantVpa';
+import type { OrderDocument } from '@/lib/db/models/Order';
+import type { Paise } from '@/lib/utils/money';
+import {
+  VpaError,
+  findRequestedVpa,
+  getRoutingPreferences,
+  platformPayee,
+  type Payee,
+  type VpaRoutingPreferences,
+} from '@/lib/vpas/management';
+import { hasCapacity, usageDay, usageOn, usedShare } from '@/lib/vpas/usage';
+
+type RoutableVpa = Pick<
+  MerchantVpaDocument,
+  'vpa' | 'isActive' | 'dailyAmountLimitPaise' | 'dailyCountLimit' | 'usage' | 'lastAssignedAt'
+>;
+
+export interface AssignPayeeOptions {
+  // The order must pay into this UPI ID or not be created
+  requestedVpa?: string;
+  // Tried first under the default strategy, e.g. the UPI ID of the payment link
+  preferredVpa?: string;
+  // Used instead of UPI_ID when the merchant has no approved UPI IDs
+  fallback?: Payee;
+}
+
+export interface AssignedPayee extends Payee {
+  // Whether the order was counted against one of the merchant's UPI IDs, and so
+  // has capacity to give back; false for the fallback and UPI_ID
+  reserved: boolean;
+}
+
+/**
+ * Enabled UPI IDs that can take another order of `amountPaise` today, best first.
+ * `default` tries the preferred UPI ID, then the merchant's default, then the rest
+ * oldest first. `round-robin` picks the one that has gone longest without an order.
+ * `least-used` picks the smallest share of its daily caps used, then the smallest
+ * amount collected today.
+ */
+export function rankVpas<T extends RoutableVpa>(
+  vpas: T[],
+  amountPaise: Paise,
+  context: VpaRoutingPreferences & { preferredVpa?: string; day: string },
+): T[] {
+  const usable = vpas.filter(
+    (vpa) => vpa.isActive !== false && hasCapacity(vpa, amountPaise, context.day),
+  );
+
+  switch (context.vpaRouting) {
+    case 'round-robin':
+      return usable.sort(
+        (a, b) => (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0),
+      );
+    case 'least-used':
+      return usable.sort(
+        (a, b) =>
+          usedShare(a, context.day) - usedShare(b, context.day) ||
+          usageOn(a, context.day).amountPaise - usageOn(b, context.day).amountPaise,
+      );
+    default: {
+      const first = [context.preferredVpa, context.defaultUpiId];
+      const rank = (vpa: T) => {
+        const index = first.indexOf(vpa.vpa);
+        return index === -1 ? first.length : index;
+      };
+      return usable.sort((a, b) => rank(a) - rank(b));
+    }
+  }
+}
+
+/**
+ * Count an order against the UPI ID's caps for `day`. The caps are checked in
+ * the same update, so concurrent orders can't overshoot them.
+ */
+async function reserveVpa(vpa: MerchantVpaDocument, amountPaise: Paise, day: string) {
+  const usedAmount = { $cond: [{ $eq: ['$usage.date', day] }, '$usage.amountPaise', 0] };
+  const usedCount = { $cond: [{ $eq: ['$usage.date', day] }, '$usage.count', 0] };
+
+  const result = await MerchantVpaModel.updateOne(
+    {
+      _id: vpa._id,
+      status: 'approved',
+      isActive: { $ne: false },
+      $expr: {
+        $and: [
+          {
+            $or: [
+              { $not: ['$dailyAmountLimitPaise'] },
+              { $lte: [{ $add: [usedAmount, amountPaise] }, '$dailyAmountLimitPaise'] },
+            ],
+          },
+          { $or: [{ $not: ['$dailyCountLimit'] }, { $lt: [usedCount, '$dailyCountLimit'] }] },
+        ],
+      },
+    },
+    [
+      {
+        $set: {
+          usage: {
+            date: day,
+            amountPaise: { $add: [usedAmount, amountPaise] },
+            count: { $add: [usedCount, 1] },
+          },
+          lastAssignedAt: new Date(),
+        },
+      },
+    ],
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Pick the UPI ID a new order pays into and count it against that UPI ID's daily
+ * caps. Merchants without approved UPI IDs get `fallback` or UPI_ID.
+ */
+export async function assignOrderPayee(
+  ownerId: string,
+  amountPaise: Paise,
+  options: AssignPayeeOptions = {},
+): Promise<AssignedPayee> {
+  const day = usageDay();
+
+  if (options.requestedVpa) {
+    const vpa = await findRequestedVpa(ownerId, options.requestedVpa);
+    if (!(await reserveVpa(vpa, amountPaise, day))) {
+      throw new VpaError(`${vpa.vpa} has reached its daily limit`, 'VPA_LIMIT_REACHED');
+    }
+    return { upiId: vpa.vpa, payeeName: vpa.payeeName, reserved: true };
+  }
+
+  const approved = await MerchantVpaModel.find({ ownerId, status: 'approved' }).sort({
+    createdAt: 1,
+  });
+  if (approved.length === 0) {
+    return { ...(options.fallback ?? platformPayee()), reserved: false };
+  }
+
+  const preferences = await getRoutingPreferences(ownerId);
+  const ranked = rankVpas(approved, amountPaise, {
+    ...preferences,
+    preferredVpa: options.preferredVpa,
+    day,
+  });
+  for (const vpa of ranked) {
+    // Another order may have taken the last of the cap since the UPI IDs were read
+    if (await reserveVpa(vpa, amountPaise, day)) {
+      return { upiId: vpa.vpa, payeeName: vpa.payeeName, reserved: true };
+    }
+  }
+
+  throw new VpaError(
+    'All of your UPI IDs are disabled or have reached their daily limits',
+    'VPA_POOL_EXHAUSTED',
+  );
+}
+
+type UsageOrder = Pick<OrderDocument, 'createdBy' | 'upiId' | 'amountPaise' | 'createdAt'>;
+
+/**
+ * Give back the capacity an order took when it expires or fails unpaid. Only
+ * applies on the day the order was created, since older counters have reset.
+ */
+export async function releaseVpaUsage(order: UsageOrder): Promise<void> {
+  if (!order.amountPaise || !order.createdAt) {
+    return;
+  }
+
+  await MerchantVpaModel.updateOne(
+    {
+      ownerId: order.createdBy,
+      vpa: order.upiId,
+      'usage.date': usageDay(order.createdAt),
+      'usage.count': { $gt: 0 },
+      'usage.amountPaise': { $gte: order.amountPaise },
+    },
+    { $inc: { 'usage.amountPaise': -order.amountPaise, 'usage.count': -1 } },
+  );
+}
+
+/**
+ * Give back what assignOrderPayee() reserved when the order it was assigned to
+ * couldn't be saved. Saved orders give it back themselves when they expire or fail.
+ */
+export async function releaseAssignedPayee(
+  ownerId: string,
+  payee: AssignedPayee,
+  amountPaise: Paise,
+): Promise<void> {
+  if (!payee.reserved) {
+    return;
+  }
+
+  await releaseVpaUsage({
+    createdBy: ownerId,
+    upiId: payee.upiId,
+    amountPaise,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Count a reopened order again. Caps aren't checked: the customer may already
+ * have paid into this UPI ID.
+ */
+export async function restoreVpaUsage(order: UsageOrder): Promise<void> {
+  if (!order.amountPaise || !order.createdAt) {
+    return;
+  }
+
+  await MerchantVpaModel.updateOne(
+    { ownerId: order.createdBy, vpa: order.upiId, 'usage.date': usageDay(order.createdAt) },
+    { $inc: { 'usage.amountPaise': order.amountPaise, 'usage.count': 1 } },
+  );
+}
@@ -0,0 +1,46 @@
+import type { MerchantVpaDocument } from '@/lib/db/models/MerchantVpa';
+import type { Paise } from '@/lib/utils/money';
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+type VpaCaps = Pick<MerchantVpaDocument, 'dailyAmountLimitPaise' | 'dailyCountLimit' | 'usage'>;
+
+/**
+ * The day daily caps are counted against, as YYYY-MM-DD in IST. Banks reset UPI
+ * limits at midnight Indian time.
+ */
+export function usageDay(date: Date = new Date()): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Usage recorded for `day`; counters from an earlier day no longer apply
+ */
+export function usageOn(vpa: VpaCaps, day: string): { amountPaise: Paise; count: number } {
+  return vpa.usage?.date === day
+    ? { amountPaise: vpa.usage.amountPaise ?? 0, count: vpa.usage.count ?? 0 }
+    : { amountPaise: 0, count: 0 };
+}
+
+/**
+ * Whether another order of `amountPaise` fits under both daily caps
+ */
+export function hasCapacity(vpa: VpaCaps, amountPaise: Paise, day: string): boolean {
+  const used = usageOn(vpa, day);
+  return (
+    (!vpa.dailyAmountLimitPaise || used.amountPaise + amountPaise <= vpa.dailyAmountLimitPaise) &&
+    (!vpa.dailyCountLimit || used.count + 1 <= vpa.dailyCountLimit)
+  );
+}
+
+/**
+ * Share of the tighter daily cap used so far, from 0 to 1. UPI IDs without caps
+ * report 0.
+ */
+export function usedShare(vpa: VpaCaps, day: string): number {
+  const used = usageOn(vpa, day);
+  return Math.max(
+    vpa.dailyAmountLimitPaise ? used.amountPaise / vpa.dailyAmountLimitPaise : 0,
+    vpa.dailyCountLimit ? used.count / vpa.dailyCountLimit : 0,
+  );
+}
@@ -0,0 +1,373 @@
+import { connectDB } from '@/lib/db/connection';
+import { WebhookModel, type WebhookDocument, type WebhookEvent } from '@/lib/db/models/Webhook';
+import {
+  WebhookDeliveryModel,
+  type WebhookDeliveryAttempt,
+  type WebhookDeliveryDocument,
+} from '@/lib/db/models/WebhookDelivery';
+import { OrderModel } from '@/lib/db/models/Order';
+import { PaymentLinkModel } from '@/lib/db/models/PaymentLink';
+import type { OrderStatus } from '@/lib/types';
+import { WEBHOOK_HEADERS, signWebhookPayload } from '@/lib/webhooks/signature';
+import {
+  buildOrderEventData,
+  buildPaymentLinkEventData,
+  type WebhookEnvelope,
+} from '@/lib/webhooks/payloads';
+import { assertPublicWebhookUrl } from '@/lib/webhooks/url-safety';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10);
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const REQUEST_TIMEOUT_MS = 10000;
+const RESPONSE_EXCERPT_LENGTH = 1000;
+
+// How long an attempt holds its claim on a delivery before another worker may pick it up
+const CLAIM_LEASE_MS = REQUEST_TIMEOUT_MS * 3;
+
+// In-process retries only wait this long; anything later is left to retryDueDeliveries()
+const MAX_IN_PROCESS_DELAY_MS = 30000;
+
+/**
+ * Exponential backoff delay before the given retry (1-based attempt that just failed)
+ */
+export function getRetryDelay(attemptNumber: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attemptNumber - 1));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+function generateDeliveryId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 10);
+  return `whd_${timestamp}_${random}`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Read at most RESPONSE_EXCERPT_LENGTH bytes of the receiver's response, so a
+ * large or endless body can't tie up the worker
+ */
+async function readResponseExcerpt(response: Response): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  try {
+    while (received < RESPONSE_EXCERPT_LENGTH) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.byteLength;
+    }
+  } catch {
+    // Keep whatever arrived before the body failed
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  return Buffer.concat(chunks).subarray(0, RESPONSE_EXCERPT_LENGTH).toString('utf8');
+}
+
+/**
+ * Atomically claim a pending delivery so that the in-process retry loop and the
+ * scheduled sweeper never send the same attempt twice
+ */
+async function claimDelivery(deliveryId: string): Promise<WebhookDeliveryDocument | null> {
+  const now = new Date();
+  return WebhookDeliveryModel.findOneAndUpdate(
+    {
+      deliveryId,
+      status: 'pending',
+      nextAttemptAt: { $lte: now },
+    },
+    { $set: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) } },
+    { new: true },
+  );
+}
+
+async function sendRequest(
+  webhook: WebhookDocument,
+  delivery: WebhookDeliveryDocument,
+  attemptNumber: number,
+): Promise<WebhookDeliveryAttempt> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    await assertPublicWebhookUrl(webhook.url);
+
+    // Redirects are not followed: a receiver could otherwise bounce the request
+    // to an internal address after the check above
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'UPI-Payment-Webhooks/1.0',
+        [WEBHOOK_HEADERS.ID]: delivery.deliveryId,
+        [WEBHOOK_HEADERS.EVENT]: delivery.event,
+        [WEBHOOK_HEADERS.TIMESTAMP]: timestamp.toString(),
+        [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+
+    const responseText = await readResponseExcerpt(response);
+
+    return {
+      attemptNumber,
+      attemptedAt: new Date(startedAt),
+      responseStatus: response.status,
+      latencyMs: Date.now() - startedAt,
+      responseBody: responseText,
+    };
+  } catch (error) {
+    const aborted = error instanceof Error && error.name === 'AbortError';
+    return {
+      attemptNumber,
+      attemptedAt: new Date(startedAt),
+      latencyMs: Date.now() - startedAt,
+      error: aborted
+        ? `Request timed out after ${REQUEST_TIMEOUT_MS}ms`
+        : (error instanceof Error ? error.message : 'Unknown error').slice(0, 500),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Make a single delivery attempt and record its outcome.
+ * Returns the delay until the next attempt, or null when the delivery is finished.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<number | null> {
+  const delivery = await claimDelivery(deliveryId);
+  if (!delivery) {
+    return null;
+  }
+
+  const webhook = await WebhookModel.findById(delivery.webhookId);
+  if (!webhook || (!webhook.isActive && !delivery.isTest)) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+    await delivery.save();
+    return null;
+  }
+
+  const attemptNumber = delivery.attemptCount + 1;
+  const attempt = await sendRequest(webhook, delivery, attemptNumber);
+  const success =
+    attempt.responseStatus !== undefined &&
+    attempt.responseStatus >= 200 &&
+    attempt.responseStatus < 300;
+
+  delivery.attempts.push(attempt);
+  delivery.attemptCount = attemptNumber;
+  delivery.lastResponseStatus = attempt.responseStatus;
+
+  let nextDelay: number | null = null;
+  if (success) {
+    delivery.status = 'succeeded';
+    delivery.nextAttemptAt = undefined;
+  } else if (attemptNumber >= delivery.maxAttempts) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+  } else {
+    nextDelay = getRetryDelay(attemptNumber);
+    delivery.nextAttemptAt = new Date(Date.now() + nextDelay);
+  }
+
+  await delivery.save();
+  await webhook.recordAttempt(success);
+
+  if (!success) {
+    console.warn(
+      `[Webhooks] Delivery ${delivery.deliveryId} attempt ${attemptNumber} failed:`,
+      attempt.error || `HTTP ${attempt.responseStatus}`,
+    );
+  }
+
+  return nextDelay;
+}
+
+/**
+ * Deliver with in-process retries while the backoff is short; longer waits are
+ * persisted on the delivery and picked up by retryDueDeliveries()
+ */
+async function deliverWithRetries(deliveryId: string): Promise<void> {
+  let nextDelay = await attemptDelivery(deliveryId);
+
+  while (nextDelay !== null && nextDelay <= MAX_IN_PROCESS_DELAY_MS) {
+    await sleep(nextDelay);
+    nextDelay = await attemptDelivery(deliveryId);
+  }
+}
+
+async function createDelivery(
+  webhook: WebhookDocument,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  maxAttempts: number,
+  isTest = false,
+): Promise<WebhookDeliveryDocument> {
+  const deliveryId = generateDeliveryId();
+  const payload: WebhookEnvelope = {
+    id: deliveryId,
+    event,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+
+  return WebhookDeliveryModel.create({
+    deliveryId,
+    webhookId: String(webhook._id),
+    event,
+    payload,
+    status: 'pending',
+    maxAttempts,
+    nextAttemptAt: new Date(),
+    isTest,
+    createdBy: webhook.createdBy,
+  });
+}
+
+/**
+ * Fire a webhook event to every active webhook the owner has subscribed to it.
+ * Deliveries are recorded before sending and run in the background, so callers
+ * are never blocked or failed by a slow or broken receiver.
+ */
+export async function dispatchWebhookEvent(
+  event: WebhookEvent,
+  ownerId: string,
+  data: Record<string, unknown>,
+): Promise<number> {
+  try {
+    await connectDB();
+
+    const webhooks = await WebhookModel.findSubscribers(ownerId, event);
+    if (webhooks.length === 0) {
+      return 0;
+    }
+
+    const deliveries = await Promise.all(
+      webhooks.map((webhook) => createDelivery(webhook, event, data, MAX_ATTEMPTS)),
+    );
+
+    for (const delivery of deliveries) {
+      deliverWithRetries(delivery.deliveryId).catch((error) => {
+        console.error(`[Webhooks] Delivery ${delivery.deliveryId} crashed:`, error);
+      });
+    }
+
+    return deliveries.length;
+  } catch (error) {
+    console.error(`[Webhooks] Failed to dispatch ${event}:`, error);
+    // Don't throw - webhook dispatch shouldn't break the main flow
+    return 0;
+  }
+}
+
+/**
+ * Retry every pending delivery whose next attempt is due (for scheduled jobs).
+ * No attempt is started unless it can time out before the deadline (epoch ms);
+ * deliveries left over are retried on the next run.
+ */
+export async function retryDueDeliveries(
+  deadline = Infinity,
+  limit = 50,
+): Promise<{
+  attempted: number;
+  rescheduled: number;
+  deferred: number;
+}> {
+  await connectDB();
+
+  const due = await WebhookDeliveryModel.findDueDeliveries(limit);
+  let attempted = 0;
+  let rescheduled = 0;
+
+  for (const delivery of due) {
+    if (Date.now() + REQUEST_TIMEOUT_MS > deadline) {
+      break;
+    }
+
+    attempted += 1;
+    const nextDelay = await attemptDelivery(delivery.deliveryId);
+    if (nextDelay !== null) {
+      rescheduled += 1;
+    }
+  }
+
+  return { attempted, rescheduled, deferred: due.length - attempted };
+}
+
+// The status a synthetic order is in when each event fires for it
+const TEST_EVENT_STATUS: Record<WebhookEvent, OrderStatus> = {
+  'order.created': 'pending',
+  'order.utr_submitted': 'pending-verification',
+  'order.completed': 'completed',
+  'order.failed': 'failed',
+  'order.expired': 'expired',
+  'order.refunded': 'refunded',
+  'payment_link.used': 'pending',
+};
+
+/**
+ * Build a test event from an unsaved order and payment link, using the same
+ * builders as real events so receivers see the payload shape they will get
+ */
+export function buildTestEventData(event: WebhookEvent): Record<string, unknown> {
+  const now = new Date();
+  const status = TEST_EVENT_STATUS[event];
+  const paid = status === 'completed' || status === 'refunded';
+
+  const order = new OrderModel({
+    orderId: 'ord_test_000000',
+    amount: 1,
+    amountPaise: 100,
+    description: 'Test webhook delivery',
+    status,
+    upiId: 'test@upi',
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + 10 * 60 * 1000),
+    ...(status !== 'pending' && status !== 'expired' && { utrNumber: '000000000000' }),
+    ...(paid && { verifiedAt: now, completedAt: now }),
+    ...(status === 'refunded' && { refundedAmount: 1, refundedPaise: 100 }),
+    ...(event === 'payment_link.used' && { paymentLinkId: 'link_test_000000' }),
+  });
+
+  if (event === 'payment_link.used') {
+    const paymentLink = new PaymentLinkModel({
+      linkId: 'link_test_000000',
+      title: 'Test payment link',
+      usageCount: 1,
+    });
+    return { test: true, ...buildPaymentLinkEventData(paymentLink, order) };
+  }
+
+  return { test: true, ...buildOrderEventData(order) };
+}
+
+/**
+ * Send a single, non-retried test delivery to one webhook and return the logged result
+ */
+export async function sendTestWebhook(
+  webhook: WebhookDocument,
+  event: WebhookEvent,
+): Promise<WebhookDeliveryDocument | null> {
+  await connectDB();
+
+  const delivery = await createDelivery(webhook, event, buildTestEventData(event), 1, true);
+
+  await attemptDelivery(delivery.deliveryId);
+  return WebhookDeliveryModel.findOne({ deliveryId: delivery.deliveryId });
+}
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { WEBHOOK_EVENTS, WebhookModel, type WebhookDocument } from '@/lib/db/models/Webhook';
+import type { WebhookDeliveryDocument } from '@/lib/db/models/WebhookDelivery';
+import { isPublicWebhookUrl } from '@/lib/webhooks/url-safety';
+
+export const CreateWebhookSchema = z.object({
+  url: z
+    .string()
+    .url('Invalid URL format')
+    .regex(/^https?:\/\//, 'URL must use http or https')
+    .refine(isPublicWebhookUrl, 'URL must not point to a private or internal address'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+  isActive: z.boolean().optional().default(true),
+});
+
+export const UpdateWebhookSchema = z
+  .object({
+    url: CreateWebhookSchema.shape.url.optional(),
+    events: CreateWebhookSchema.shape.events.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No changes provided',
+  });
+
+export const TestWebhookSchema = z.object({
+  event: z.enum(WEBHOOK_EVENTS).optional().default('order.created'),
+});
+
+/**
+ * Find a webhook by ID, scoped to the user who created it
+ */
+export async function findOwnedWebhook(
+  webhookId: string,
+  userId: string,
+): Promise<WebhookDocument | null> {
+  if (!mongoose.isValidObjectId(webhookId)) {
+    return null;
+  }
+
+  return WebhookModel.findOne({ _id: webhookId, createdBy: userId });
+}
+
+/**
+ * Show only the prefix and last four characters of a signing secret
+ */
+export function maskSecret(secret: string): string {
+  return `${secret.slice(0, 6)}${'•'.repeat(8)}${secret.slice(-4)}`;
+}
+
+/**
+ * API representation of a webhook; the full secret is only returned on create and rotate
+ */
+export function serializeWebhook(
+  webhook: WebhookDocument,
+  options: { includeSecret?: boolean } = {},
+): Record<string, unknown> {
+  return {
+    id: String(webhook._id),
+    url: webhook.url,
+    events: webhook.events,
+    isActive: webhook.isActive,
+    secret: options.includeSecret ? webhook.secret : maskSecret(webhook.secret),
+    lastTriggeredAt: webhook.lastTriggeredAt,
+    stats: webhook.stats,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt,
+  };
+}
+
+export function serializeDelivery(delivery: WebhookDeliveryDocument): Record<string, unknown> {
+  return {
+    deliveryId: delivery.deliveryId,
+    event: delivery.event,
+    status: delivery.status,
+    isTest: delivery.isTest,
+    attemptCount: delivery.attemptCount,
+    maxAttempts: delivery.maxAttempts,
+    nextAttemptAt: delivery.nextAttemptAt,
+    lastResponseStatus: delivery.lastResponseStatus,
+    attempts: delivery.attempts,
+    payload: delivery.payload,
+    createdAt: delivery.createdAt,
+  };
+}
@@ -0,0 +1,65 @@
+import type { OrderDocument } from '@/lib/db/models/Order';
+import type { PaymentLinkDocument } from '@/lib/db/models/PaymentLink';
+import type { WebhookEvent } from '@/lib/db/models/Webhook';
+
+export interface WebhookEnvelope {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Map a terminal order status to the webhook event fired when an order enters it
+ */
+export function getOrderStatusEvent(status: string): WebhookEvent | null {
+  switch (status) {
+    case 'completed':
+      return 'order.completed';
+    case 'failed':
+      return 'order.failed';
+    case 'expired':
+      return 'order.expired';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the public order representation sent in webhook payloads
+ */
+export function buildOrderEventData(order: OrderDocument): Record<string, unknown> {
+  return {
+    orderId: order.orderId,
+    amount: order.amount,
+    description: order.description,
+    status: order.status,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    customerPhone: order.customerPhone,
+    upiId: order.upiId,
+    utrNumber: order.utrNumber,
+    paymentLinkId: order.paymentLinkId,
+    createdAt: order.createdAt?.toISOString(),
+    expiresAt: order.expiresAt?.toISOString(),
+    verifiedAt: order.verifiedAt?.toISOString(),
+    completedAt: order.completedAt?.toISOString(),
+    refundedAmount: order.refundedAmount ?? 0,
+  };
+}
+
+/**
+ * Build the payload for the payment_link.used event
+ */
+export function buildPaymentLinkEventData(
+  paymentLink: PaymentLinkDocument,
+  order: OrderDocument,
+): Record<string, unknown> {
+  return {
+    linkId: paymentLink.linkId,
+    title: paymentLink.title,
+    usageCount: paymentLink.usageCount,
+    usageLimit: paymentLink.usageLimit,
+    order: buildOrderEventData(order),
+  };
+}
@@ -0,0 +1,53 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_HEADERS = {
+  ID: 'X-Webhook-Id',
+  EVENT: 'X-Webhook-Event',
+  TIMESTAMP: 'X-Webhook-Timestamp',
+  SIGNATURE: 'X-Webhook-Signature',
+} as const;
+
+// Receivers should reject deliveries whose timestamp is older than this
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Generate a new webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a webhook body with HMAC-SHA256
+ * The signed content is `<timestamp>.<body>` so a captured request cannot be replayed
+ * with a fresh timestamp.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook signature and timestamp (for receivers and tests)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now: number = Date.now(),
+): boolean {
+  if (!Number.isFinite(timestamp)) {
+    return false;
+  }
+
+  const age = Math.abs(Math.floor(now / 1000) - timestamp);
+  if (age > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
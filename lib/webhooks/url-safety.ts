@@ -0,0 +1,103 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+// Names that only resolve inside the network the server runs in, e.g. metadata.google.internal
+const INTERNAL_HOSTNAME = /(^|\.)(localhost|local|internal)\.?$/i;
+
+// Lets webhooks point at a receiver on the same machine during development
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+
+  // IPv4-mapped, in either the dotted form or the hex form URL parsing produces
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return isPrivateIPv4(dotted[1]);
+  }
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    /^(f[cd][0-9a-f]{2}|fe[89ab][0-9a-f]|ff[0-9a-f]{2}):/.test(lower)
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local (which includes cloud
+ * metadata endpoints such as 169.254.169.254) or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateIPv4(address);
+    case 6:
+      return isPrivateIPv6(address);
+    default:
+      return false;
+  }
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a webhook URL without resolving it: rejects internal host names and
+ * private IP literals. Names that resolve to private addresses are caught at
+ * send time by assertPublicWebhookUrl().
+ */
+export function isPublicWebhookUrl(url: string): boolean {
+  if (ALLOW_PRIVATE_URLS) {
+    return true;
+  }
+
+  const hostname = getHostname(url);
+  return hostname !== null && !INTERNAL_HOSTNAME.test(hostname) && !isPrivateAddress(hostname);
+}
+
+/**
+ * Resolve a webhook URL's host and throw if it, or any address it resolves to,
+ * is internal, so that a receiver can't be pointed at the server's own network
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const hostname = getHostname(url);
+  if (hostname === null || !isPublicWebhookUrl(url)) {
+    throw new Error('Webhook URL points to a private or internal address');
+  }
+
+  if (ALLOW_PRIVATE_URLS || isIP(hostname)) {
+    return;
+  }
+
+  const addresses = await lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Webhook host ${hostname} resolves to a private or internal address`);
+  }
+}
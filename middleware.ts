@@ -11,9 +11,12 @@ const isPublicRoute = (pathname: string) => {
     '/logout',
     '/pay/',
     '/payment-success/',
+    '/receipts/',
     '/api/csrf-token',
     '/api/health',
     '/api/orders/',  // Some order routes are public for payment processing
+    '/api/cron/',  // Scheduled jobs authenticate with CRON_SECRET
+    '/kiosk',  // The kiosk page pairs with a device token, not a session
   ];
 
   return publicRoutes.some(route => {
@@ -24,11 +27,16 @@ const isPublicRoute = (pathname: string) => {
   });
 };
 
+// Counter kiosks call these with `Authorization: Bearer kiosk_...`; the route checks the token
+const isDeviceTokenRoute = (req: NextRequest) =>
+  ['/api/orders', '/api/kiosk/session'].includes(req.nextUrl.pathname) &&
+  /^Bearer\s+kiosk_/i.test(req.headers.get('authorization') || '');
+
 export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
 
   // Allow public routes
-  if (isPublicRoute(pathname)) {
+  if (isPublicRoute(pathname) || isDeviceTokenRoute(req)) {
     return NextResponse.next();
   }
 
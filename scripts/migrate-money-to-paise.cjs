@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+/**
+ * Script to store money as integer paise - fills in amountPaise, refundedPaise and
+ * stats.totalAmountPaise from the old rupee fields. Safe to run more than once:
+ * documents that already have paise are skipped.
+ */
+
+const mongoose = require('mongoose');
+require('dotenv').config({ path: '.env.local' });
+
+// MongoDB connection
+const connectDB = async () => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+  } catch (error) {
+    console.error('❌ MongoDB connection error:', error);
+    process.exit(1);
+  }
+};
+
+// Rupees (a double) to whole paise
+const toPaise = (expression) => ({
+  $toLong: { $round: [{ $multiply: [{ $ifNull: [expression, 0] }, 100] }, 0] },
+});
+
+async function migrateOrders(db) {
+  const result = await db.collection('orders').updateMany({ amountPaise: { $exists: false } }, [
+    {
+      $set: {
+        amountPaise: toPaise('$amount'),
+        refundedPaise: toPaise('$refundedAmount'),
+        refunds: {
+          $map: {
+            input: { $ifNull: ['$refunds', []] },
+            as: 'refund',
+            in: { $mergeObjects: ['$$refund', { amountPaise: toPaise('$$refund.amount') }] },
+          },
+        },
+      },
+    },
+    // Round the rupee fields to match, so both always agree
+    {
+      $set: {
+        amount: { $divide: ['$amountPaise', 100] },
+        refundedAmount: { $divide: ['$refundedPaise', 100] },
+      },
+    },
+  ]);
+  console.log(`✅ orders: ${result.modifiedCount} updated`);
+}
+
+async function migrateStats(db, collectionName) {
+  const result = await db
+    .collection(collectionName)
+    .updateMany({ 'stats.totalAmountPaise': { $exists: false } }, [
+      { $set: { 'stats.totalAmountPaise': toPaise('$stats.totalAmount') } },
+      // stats.totalAmount is now derived from stats.totalAmountPaise
+      { $unset: 'stats.totalAmount' },
+    ]);
+  console.log(`✅ ${collectionName}: ${result.modifiedCount} updated`);
+}
+
+async function migrateMoney() {
+  try {
+    console.log('💰 Converting amounts to paise...\n');
+
+    const db = mongoose.connection.db;
+    await migrateOrders(db);
+    await migrateStats(db, 'paymentlinks');
+    await migrateStats(db, 'users');
+
+    const invalid = await db.collection('orders').countDocuments({
+      $or: [{ amountPaise: { $lt: 100 } }, { amountPaise: null }],
+    });
+    if (invalid > 0) {
+      console.log(`\n⚠️  ${invalid} orders have an amount below ₹1.00 - review them before saving`);
+    }
+
+    console.log('\n🎉 Money migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Error migrating amounts:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('✅ Disconnected from MongoDB');
+  }
+}
+
+// Main execution
+async function main() {
+  console.log('🛠️  Money Migration Script');
+  console.log('==========================\n');
+
+  await connectDB();
+  await migrateMoney();
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Script execution failed:', error);
+    process.exit(1);
+  });
+}